@@ -0,0 +1,31 @@
+// Service worker for Web Push alerts. Payloads are sent by the dispatch-push
+// Edge Function as JSON: { title, body, listing_id, url }.
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'GreenByte', {
+      body: payload.body || '',
+      tag: payload.listing_id ? `listing-${payload.listing_id}` : undefined,
+      data: { url: payload.url || self.registration.scope },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url || self.registration.scope;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => client.url.startsWith(self.registration.scope));
+      return open ? open.focus() : self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,90 @@
+// Local stand-in for a browser push service, for testing the dispatch-push
+// Edge Function without a real browser.
+//
+//   npm run push:stub
+//
+// On start it creates a throwaway subscription (P-256 key pair and auth
+// secret) and prints the SQL that registers it for a user. Each push it
+// receives is decrypted (RFC 8291, aes128gcm) and logged with its headers.
+// Register the endpoint with /push/ changed to /gone/ to have it answer 410
+// and test that the dispatcher drops the subscription.
+//
+// PUSH_STUB_PORT (default 4010) sets the port. PUSH_STUB_HOST (default
+// localhost) sets the host written into the endpoint; use
+// host.docker.internal when the function runs under `supabase functions serve`.
+
+import { createServer } from 'node:http';
+import { createDecipheriv, createECDH, hkdfSync, randomBytes } from 'node:crypto';
+
+const port = Number(process.env.PUSH_STUB_PORT || 4010);
+const host = process.env.PUSH_STUB_HOST || 'localhost';
+
+const receiver = createECDH('prime256v1');
+receiver.generateKeys();
+const receiverPublicKey = receiver.getPublicKey();
+const authSecret = randomBytes(16);
+const endpoint = `http://${host}:${port}/push/${randomBytes(8).toString('hex')}`;
+
+function decrypt(body) {
+  const salt = body.subarray(0, 16);
+  const keyIdLength = body.readUInt8(20);
+  const senderPublicKey = body.subarray(21, 21 + keyIdLength);
+  const ciphertext = body.subarray(21 + keyIdLength);
+
+  const sharedSecret = receiver.computeSecret(senderPublicKey);
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), receiverPublicKey, senderPublicKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+  const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const decipher = createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const padded = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+
+  // A single record ends with the 0x02 delimiter followed by zero padding
+  let end = padded.length - 1;
+  while (end >= 0 && padded[end] === 0) end -= 1;
+  return padded.subarray(0, end).toString('utf8');
+}
+
+const server = createServer((req, res) => {
+  const chunks = [];
+  req.on('data', (chunk) => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks);
+    const gone = req.url.startsWith('/gone/');
+    console.log(`\n${new Date().toISOString()} ${req.method} ${req.url} (${body.length} bytes)`);
+    console.log(`  TTL: ${req.headers.ttl}  Content-Encoding: ${req.headers['content-encoding']}`);
+    console.log(`  Authorization: ${(req.headers.authorization || '(none)').slice(0, 48)}...`);
+
+    if (req.method !== 'POST' || !(req.url.startsWith('/push/') || gone)) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (gone) {
+      console.log('  -> 410 Gone');
+      res.writeHead(410).end();
+      return;
+    }
+
+    try {
+      console.log(`  Payload: ${decrypt(body)}`);
+      res.writeHead(201).end();
+    } catch (error) {
+      console.log(`  Could not decrypt: ${error.message}`);
+      res.writeHead(400).end();
+    }
+  });
+});
+
+server.listen(port, () => {
+  const p256dh = receiverPublicKey.toString('base64url');
+  const auth = authSecret.toString('base64url');
+
+  console.log(`Push endpoint stub listening on port ${port}`);
+  console.log('\nRegister the stub subscription for a user with:\n');
+  console.log('INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)');
+  console.log(`VALUES ('<user-id>', '${endpoint}', '${p256dh}', '${auth}', 'push-endpoint-stub');`);
+  console.log('\nThe user also needs notification_settings with notify_nearby_listings,');
+  console.log('a location and a radius covering the restaurant.');
+});
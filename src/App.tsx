@@ -6,10 +6,14 @@ import FoodSharingSection from './components/FoodSharingSection';
 import RestaurantDashboard from './components/RestaurantDashboard';
 import UserDashboard from './components/UserDashboard';
 import UserProfile from './components/UserProfile';
+import AdminReviewQueue from './components/AdminReviewQueue';
 import AuthModal from './components/AuthModal';
+import EmailVerificationBanner from './components/EmailVerificationBanner';
 import Footer from './components/Footer';
 import { useStore } from './store';
 import { useAuth } from './hooks/useAuth';
+import { readAuthRedirect, clearAuthRedirect } from './lib/auth';
+import { getLLMConfigurationError } from './services/llm';
 import { Toaster } from 'react-hot-toast';
 import { useState, useEffect } from 'react';
 import type { AIAnalysisResult } from './types';
@@ -17,16 +21,19 @@ import { toast } from 'react-hot-toast';
 
 function App() {
   const { isDarkMode, setCurrentAnalysis, initializeSampleData, mealHistory } = useStore();
-  const { isAuthenticated, isRestaurantAdmin, user, initialized } = useAuth();
+  const { isAuthenticated, isRestaurantAdmin, isPlatformAdmin, isEmailVerified, user, initialized, confirmEmail } = useAuth();
   const [analysisResult, setAnalysisResult] = useState<AIAnalysisResult | null>(null);
-  const [currentView, setCurrentView] = useState<'recipe-generator' | 'food-map' | 'profile'>('recipe-generator');
+  const [currentView, setCurrentView] = useState<'recipe-generator' | 'food-map' | 'profile' | 'admin'>('recipe-generator');
   const [showAuthModal, setShowAuthModal] = useState(false);
+  const [authModalTab, setAuthModalTab] = useState<'login' | 'reset'>('login');
+  const [resetToken, setResetToken] = useState<string | null>(null);
 
   // Verify environment variables are set
   useEffect(() => {
-    if (!import.meta.env.VITE_GEMINI_API_KEY) {
-      console.error('VITE_GEMINI_API_KEY is not defined in environment variables');
-      toast.error('API key is missing. Please check your .env file.', {
+    const aiConfigurationError = getLLMConfigurationError();
+    if (aiConfigurationError) {
+      console.error(aiConfigurationError);
+      toast.error('AI service is not configured. Please check your .env file.', {
         duration: 5000,
         id: 'api-key-missing'
       });
@@ -38,6 +45,26 @@ function App() {
     }
   }, []);
 
+  // Verification and password reset links land here once the session is restored
+  useEffect(() => {
+    if (!initialized) return;
+    const redirect = readAuthRedirect();
+    if (!redirect) return;
+    clearAuthRedirect();
+
+    if (redirect.action === 'reset') {
+      setResetToken(redirect.token);
+      setAuthModalTab('reset');
+      setShowAuthModal(true);
+    } else if (redirect.token) {
+      confirmEmail(redirect.token)
+        .then(() => toast.success('Email verified! You can now claim food.'))
+        .catch((error) => toast.error(error instanceof Error ? error.message : 'Failed to verify email'));
+    } else if (isEmailVerified) {
+      toast.success('Email verified! You can now claim food.');
+    }
+  }, [initialized]);
+
   const handleAnalysisComplete = (result: AIAnalysisResult) => {
     setAnalysisResult(result);
     setCurrentAnalysis(result);
@@ -55,7 +82,7 @@ function App() {
     }
   };
 
-  const handleViewChange = (view: 'recipe-generator' | 'food-map' | 'profile') => {
+  const handleViewChange = (view: 'recipe-generator' | 'food-map' | 'profile' | 'admin') => {
     // Allow navigation to recipe-generator and food-map for everyone
     // Only profile requires authentication check for full access
     if (view === 'profile' && !isAuthenticated && initialized) {
@@ -80,6 +107,7 @@ function App() {
   // Handle successful authentication
   const handleAuthSuccess = () => {
     setShowAuthModal(false);
+    setAuthModalTab('login');
     toast.success('Successfully signed in!');
     // Don't auto-navigate, let user stay where they are
   };
@@ -181,6 +209,9 @@ function App() {
             </div>
           );
         }
+
+      case 'admin':
+        return isPlatformAdmin ? <AdminReviewQueue /> : null;
         
       default:
         return null;
@@ -207,9 +238,13 @@ function App() {
       <Navbar 
         currentView={currentView}
         onViewChange={handleViewChange}
-        onAuthClick={() => setShowAuthModal(true)}
+        onAuthClick={() => {
+          setAuthModalTab('login');
+          setShowAuthModal(true);
+        }}
       />
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 pt-20 w-full">
+        <EmailVerificationBanner />
         <AnimatePresence mode="wait">
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -224,7 +259,13 @@ function App() {
       
       <AuthModal 
         isOpen={showAuthModal}
-        onClose={() => setShowAuthModal(false)}
+        defaultTab={authModalTab}
+        resetToken={resetToken}
+        onClose={() => {
+          setShowAuthModal(false);
+          setAuthModalTab('login');
+          setResetToken(null);
+        }}
         onSuccess={handleAuthSuccess}
       />
       
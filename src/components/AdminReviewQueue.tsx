@@ -0,0 +1,244 @@
+import React, { useState, useEffect } from 'react';
+import { Building2, CheckCircle, FileText, History, MapPin, ShieldCheck, XCircle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import {
+  getVerificationQueue,
+  getAuditLog,
+  getDocumentUrl,
+  reviewRestaurant,
+  DOCUMENT_TYPE_LABELS,
+  AUDIT_ACTION_LABELS,
+} from '../services/restaurantVerification';
+import type { RestaurantForReview, AuditLogEntryWithActor } from '../services/restaurantVerification';
+
+// Platform admin view: restaurants waiting for verification and the decisions made so far
+export default function AdminReviewQueue() {
+  const [queue, setQueue] = useState<RestaurantForReview[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditLogEntryWithActor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<RestaurantForReview | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  const loadQueue = async () => {
+    setLoading(true);
+    const [pending, log] = await Promise.all([getVerificationQueue(), getAuditLog()]);
+    setQueue(pending);
+    setAuditLog(log);
+    setLoading(false);
+  };
+
+  const handleOpenDocument = async (filePath: string) => {
+    try {
+      window.open(await getDocumentUrl(filePath), '_blank', 'noopener,noreferrer');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to open document');
+    }
+  };
+
+  const handleReview = async (
+    restaurant: RestaurantForReview,
+    decision: 'approved' | 'rejected',
+    reason?: string
+  ) => {
+    try {
+      setReviewingId(restaurant.id);
+      await reviewRestaurant(restaurant.id, decision, reason);
+      toast.success(decision === 'approved' ? `${restaurant.name} is now verified` : `${restaurant.name} was rejected`);
+      setRejecting(null);
+      setRejectionReason('');
+      setAuditLog(await getAuditLog());
+      setQueue(prev => prev.filter(r => r.id !== restaurant.id));
+    } catch (error) {
+      console.error('Error reviewing restaurant:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save review');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const handleReject = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rejecting) return;
+    if (!rejectionReason.trim()) {
+      toast.error('Give a reason so the restaurant knows what to fix');
+      return;
+    }
+    handleReview(rejecting, 'rejected', rejectionReason);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="text-center">
+        <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-4">
+          Restaurant Verification
+        </h1>
+        <p className="text-xl text-gray-600 dark:text-gray-300 max-w-3xl mx-auto">
+          Review new restaurants before their listings go public
+        </p>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold dark:text-white mb-4 flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-green-600" />
+          Waiting for Review ({queue.length})
+        </h2>
+
+        {queue.length === 0 ? (
+          <div className="text-center py-12">
+            <CheckCircle className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600 dark:text-gray-300">No restaurants are waiting for review</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {queue.map((restaurant) => (
+              <div
+                key={restaurant.id}
+                className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3"
+              >
+                <div className="flex flex-col md:flex-row md:items-start gap-3">
+                  <Building2 className="w-8 h-8 text-green-600 dark:text-green-400 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-semibold text-lg dark:text-white">{restaurant.name}</h3>
+                    <p className="text-sm text-gray-600 dark:text-gray-300 flex items-center gap-1">
+                      <MapPin className="w-4 h-4" />
+                      {restaurant.address}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Submitted {new Date(restaurant.created_at).toLocaleDateString()}
+                      {restaurant.users && ` by ${restaurant.users.full_name || restaurant.users.username}`}
+                      {restaurant.contact_email && ` · ${restaurant.contact_email}`}
+                      {restaurant.contact_phone && ` · ${restaurant.contact_phone}`}
+                    </p>
+                    {restaurant.rejection_reason && (
+                      <p className="text-xs text-yellow-700 dark:text-yellow-300 mt-1">
+                        Resubmitted after rejection: {restaurant.rejection_reason}
+                      </p>
+                    )}
+                    {restaurant.description && (
+                      <p className="text-sm text-gray-600 dark:text-gray-300 mt-2">{restaurant.description}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleReview(restaurant, 'approved')}
+                      disabled={reviewingId === restaurant.id}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white transition-colors"
+                    >
+                      <CheckCircle className="w-4 h-4" />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => {
+                        setRejecting(restaurant);
+                        setRejectionReason('');
+                      }}
+                      disabled={reviewingId === restaurant.id}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-red-300 dark:border-red-700 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50 transition-colors"
+                    >
+                      <XCircle className="w-4 h-4" />
+                      Reject
+                    </button>
+                  </div>
+                </div>
+
+                <div>
+                  <p className="text-sm font-medium dark:text-white mb-2">Documents</p>
+                  {restaurant.restaurant_documents.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No documents uploaded yet</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {restaurant.restaurant_documents.map((document) => (
+                        <button
+                          key={document.id}
+                          onClick={() => handleOpenDocument(document.file_path)}
+                          className="flex items-center gap-1 px-2 py-1 text-xs rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                        >
+                          <FileText className="w-3 h-3" />
+                          {DOCUMENT_TYPE_LABELS[document.document_type] || document.document_type}: {document.file_name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {rejecting?.id === restaurant.id && (
+                  <form onSubmit={handleReject} className="space-y-2">
+                    <textarea
+                      value={rejectionReason}
+                      onChange={(e) => setRejectionReason(e.target.value)}
+                      rows={3}
+                      placeholder="What does the restaurant need to fix?"
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setRejecting(null)}
+                        className="px-3 py-1.5 text-sm rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={reviewingId === restaurant.id}
+                        className="px-3 py-1.5 text-sm rounded-lg bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white transition-colors"
+                      >
+                        Reject Restaurant
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold dark:text-white mb-4 flex items-center gap-2">
+          <History className="w-5 h-5 text-green-600" />
+          Audit Log
+        </h2>
+        {auditLog.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No decisions recorded yet</p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {auditLog.map((entry) => {
+              const details = (entry.details ?? {}) as { restaurant_name?: string; reason?: string };
+              return (
+                <div key={entry.id} className="py-3 text-sm">
+                  <p className="dark:text-white">
+                    <span className="font-medium">
+                      {entry.users?.full_name || entry.users?.username || 'Deleted account'}
+                    </span>{' '}
+                    {(AUDIT_ACTION_LABELS[entry.action] || entry.action).toLowerCase()}{' '}
+                    <span className="font-medium">{details.restaurant_name}</span>
+                  </p>
+                  {details.reason && (
+                    <p className="text-gray-600 dark:text-gray-300">Reason: {details.reason}</p>
+                  )}
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(entry.created_at).toLocaleString()}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,23 +4,41 @@ import { X, Mail, Lock, User, Building2, Phone } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import { toast } from 'react-hot-toast';
 
+type AuthModalTab = 'login' | 'signup' | 'forgot' | 'reset';
+
 interface AuthModalProps {
   isOpen: boolean;
   onClose: () => void;
-  defaultTab?: 'login' | 'signup';
+  defaultTab?: AuthModalTab;
+  // Token from a password reset link, used by the `reset` tab
+  resetToken?: string | null;
   onSuccess?: () => void;
 }
 
-export default function AuthModal({ isOpen, onClose, defaultTab = 'login', onSuccess }: AuthModalProps) {
-  const [activeTab, setActiveTab] = useState<'login' | 'signup'>(defaultTab);
+const TAB_TITLES: Record<AuthModalTab, string> = {
+  login: 'Sign In',
+  signup: 'Create Account',
+  forgot: 'Forgot Password',
+  reset: 'Choose a New Password',
+};
+
+export default function AuthModal({ isOpen, onClose, defaultTab = 'login', resetToken = null, onSuccess }: AuthModalProps) {
+  const [activeTab, setActiveTab] = useState<AuthModalTab>(defaultTab);
   const [loading, setLoading] = useState(false);
-  const { signIn, signUp } = useAuth();
+  const { signIn, signUp, requestPasswordReset, resetPassword } = useAuth();
 
   const [loginForm, setLoginForm] = useState({
     email: '',
     password: '',
   });
 
+  const [forgotEmail, setForgotEmail] = useState('');
+
+  const [resetForm, setResetForm] = useState({
+    password: '',
+    confirmPassword: '',
+  });
+
   const [signupForm, setSignupForm] = useState({
     email: '',
     password: '',
@@ -33,8 +51,12 @@ export default function AuthModal({ isOpen, onClose, defaultTab = 'login', onSuc
 
   // Reset forms when modal opens/closes
   useEffect(() => {
-    if (!isOpen) {
+    if (isOpen) {
+      setActiveTab(defaultTab);
+    } else {
       setLoginForm({ email: '', password: '' });
+      setForgotEmail('');
+      setResetForm({ password: '', confirmPassword: '' });
       setSignupForm({
         email: '',
         password: '',
@@ -46,7 +68,7 @@ export default function AuthModal({ isOpen, onClose, defaultTab = 'login', onSuc
       });
       setLoading(false);
     }
-  }, [isOpen]);
+  }, [isOpen, defaultTab]);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -69,6 +91,53 @@ export default function AuthModal({ isOpen, onClose, defaultTab = 'login', onSuc
     }
   };
 
+  const handleForgotPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!forgotEmail.trim()) {
+      toast.error('Please enter your email address');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await requestPasswordReset(forgotEmail.trim());
+      toast.success('If an account exists for that email, a reset link is on its way.');
+      setActiveTab('login');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send reset link');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (resetForm.password !== resetForm.confirmPassword) {
+      toast.error('Passwords do not match');
+      return;
+    }
+
+    if (resetForm.password.length < 6) {
+      toast.error('Password must be at least 6 characters');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await resetPassword(resetForm.password, resetToken);
+      toast.success('Your password has been updated');
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reset password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleSignup = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -90,13 +159,19 @@ export default function AuthModal({ isOpen, onClose, defaultTab = 'login', onSuc
     setLoading(true);
 
     try {
-      await signUp(signupForm.email, signupForm.password, {
+      const session = await signUp(signupForm.email, signupForm.password, {
         username: signupForm.username,
         full_name: signupForm.full_name || undefined,
         role: signupForm.role,
         phone: signupForm.phone || undefined,
       });
-      
+
+      if (!session) {
+        toast.success('Account created! Check your inbox to confirm your email address, then sign in.');
+        onClose();
+        return;
+      }
+
       toast.success('Account created successfully!');
       onSuccess?.();
     } catch (error) {
@@ -128,7 +203,7 @@ export default function AuthModal({ isOpen, onClose, defaultTab = 'login', onSuc
         >
           <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
             <h2 className="text-xl font-semibold dark:text-white">
-              {activeTab === 'login' ? 'Sign In' : 'Create Account'}
+              {TAB_TITLES[activeTab]}
             </h2>
             <button
               onClick={onClose}
@@ -140,28 +215,30 @@ export default function AuthModal({ isOpen, onClose, defaultTab = 'login', onSuc
 
           <div className="p-6">
             {/* Tab Switcher */}
-            <div className="flex mb-6 bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
-              <button
-                onClick={() => setActiveTab('login')}
-                className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${
-                  activeTab === 'login'
-                    ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow-sm'
-                    : 'text-gray-600 dark:text-gray-300'
-                }`}
-              >
-                Sign In
-              </button>
-              <button
-                onClick={() => setActiveTab('signup')}
-                className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${
-                  activeTab === 'signup'
-                    ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow-sm'
-                    : 'text-gray-600 dark:text-gray-300'
-                }`}
-              >
-                Sign Up
-              </button>
-            </div>
+            {(activeTab === 'login' || activeTab === 'signup') && (
+              <div className="flex mb-6 bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
+                <button
+                  onClick={() => setActiveTab('login')}
+                  className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${
+                    activeTab === 'login'
+                      ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow-sm'
+                      : 'text-gray-600 dark:text-gray-300'
+                  }`}
+                >
+                  Sign In
+                </button>
+                <button
+                  onClick={() => setActiveTab('signup')}
+                  className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${
+                    activeTab === 'signup'
+                      ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-white shadow-sm'
+                      : 'text-gray-600 dark:text-gray-300'
+                  }`}
+                >
+                  Sign Up
+                </button>
+              </div>
+            )}
 
             {/* Login Form */}
             {activeTab === 'login' && (
@@ -198,6 +275,18 @@ export default function AuthModal({ isOpen, onClose, defaultTab = 'login', onSuc
                       placeholder="Enter your password"
                     />
                   </div>
+                  <div className="mt-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setForgotEmail(loginForm.email);
+                        setActiveTab('forgot');
+                      }}
+                      className="text-sm text-green-600 hover:text-green-700 dark:text-green-400"
+                    >
+                      Forgot password?
+                    </button>
+                  </div>
                 </div>
 
                 <button
@@ -210,6 +299,93 @@ export default function AuthModal({ isOpen, onClose, defaultTab = 'login', onSuc
               </form>
             )}
 
+            {/* Forgot Password Form */}
+            {activeTab === 'forgot' && (
+              <form onSubmit={handleForgotPassword} className="space-y-4">
+                <p className="text-sm text-gray-600 dark:text-gray-300">
+                  Enter the email you signed up with and we'll send you a link to reset your password.
+                </p>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Email
+                  </label>
+                  <div className="relative">
+                    <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                    <input
+                      type="email"
+                      required
+                      value={forgotEmail}
+                      onChange={(e) => setForgotEmail(e.target.value)}
+                      className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                      placeholder="Enter your email"
+                    />
+                  </div>
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                >
+                  {loading ? 'Sending...' : 'Send Reset Link'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setActiveTab('login')}
+                  className="w-full text-sm text-gray-600 hover:text-gray-800 dark:text-gray-300 dark:hover:text-white"
+                >
+                  Back to sign in
+                </button>
+              </form>
+            )}
+
+            {/* Reset Password Form */}
+            {activeTab === 'reset' && (
+              <form onSubmit={handleResetPassword} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    New Password
+                  </label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                    <input
+                      type="password"
+                      required
+                      value={resetForm.password}
+                      onChange={(e) => setResetForm({ ...resetForm, password: e.target.value })}
+                      className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                      placeholder="New password"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Confirm Password
+                  </label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                    <input
+                      type="password"
+                      required
+                      value={resetForm.confirmPassword}
+                      onChange={(e) => setResetForm({ ...resetForm, confirmPassword: e.target.value })}
+                      className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                      placeholder="Confirm new password"
+                    />
+                  </div>
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                >
+                  {loading ? 'Updating...' : 'Update Password'}
+                </button>
+              </form>
+            )}
+
             {/* Signup Form */}
             {activeTab === 'signup' && (
               <form onSubmit={handleSignup} className="space-y-4">
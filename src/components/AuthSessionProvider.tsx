@@ -0,0 +1,121 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import { AuthContext } from '../hooks/useAuth';
+import type { AuthContextValue } from '../hooks/useAuth';
+import { authProvider } from '../lib/auth';
+import type { AuthSession, ProfileUpdates, SignUpData } from '../lib/auth';
+
+interface AuthSessionProviderProps {
+  children: ReactNode;
+}
+
+export default function AuthSessionProvider({ children }: AuthSessionProviderProps) {
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [initialized, setInitialized] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    authProvider
+      .getSession()
+      .then((restored) => {
+        if (!cancelled) setSession(restored);
+      })
+      .catch((error) => console.error('Error restoring session:', error))
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+          setInitialized(true);
+        }
+      });
+
+    const unsubscribe = authProvider.onSessionChange((next) => {
+      if (!cancelled) setSession(next);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const signUp = useCallback(async (email: string, password: string, userData: SignUpData) => {
+    const created = await authProvider.signUp(email, password, userData);
+    if (created) setSession(created);
+    return created;
+  }, []);
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    const signedIn = await authProvider.signIn(email, password);
+    setSession(signedIn);
+    return signedIn;
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await authProvider.signOut();
+    setSession(null);
+  }, []);
+
+  const userId = session?.user.id;
+  const updateProfile = useCallback(async (updates: ProfileUpdates) => {
+    if (!userId) throw new Error('No user logged in');
+    const profile = await authProvider.updateProfile(userId, updates);
+    setSession((current) => (current ? { ...current, profile } : current));
+    return profile;
+  }, [userId]);
+
+  const requestPasswordReset = useCallback((email: string) => authProvider.requestPasswordReset(email), []);
+
+  const resetPassword = useCallback(async (newPassword: string, token?: string | null) => {
+    const recovered = await authProvider.resetPassword(newPassword, token);
+    setSession(recovered);
+    return recovered;
+  }, []);
+
+  const sendVerificationEmail = useCallback(() => authProvider.sendVerificationEmail(), []);
+
+  const confirmEmail = useCallback(async (token: string) => {
+    const verified = await authProvider.confirmEmail(token);
+    setSession(verified);
+    return verified;
+  }, []);
+
+  const deleteAccount = useCallback(async () => {
+    await authProvider.deleteAccount();
+    setSession(null);
+  }, []);
+
+  const refreshSession = useCallback(async () => {
+    setSession(await authProvider.getSession());
+  }, []);
+
+  const value = useMemo<AuthContextValue>(() => ({
+    user: session?.user ?? null,
+    profile: session?.profile ?? null,
+    session,
+    loading,
+    profileLoading: loading,
+    initialized,
+    signUp,
+    signIn,
+    signOut,
+    updateProfile,
+    requestPasswordReset,
+    resetPassword,
+    sendVerificationEmail,
+    confirmEmail,
+    deleteAccount,
+    refreshSession,
+    isAuthenticated: !!session,
+    isEmailVerified: !!session?.user.email_verified,
+    isRestaurantAdmin: session?.profile?.role === 'restaurant_admin',
+    isPlatformAdmin: session?.profile?.role === 'platform_admin',
+  }), [
+    session, loading, initialized, signUp, signIn, signOut, updateProfile,
+    requestPasswordReset, resetPassword, sendVerificationEmail, confirmEmail, deleteAccount,
+    refreshSession,
+  ]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
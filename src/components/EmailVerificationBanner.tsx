@@ -0,0 +1,39 @@
+import { useState } from 'react';
+import { MailWarning } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../hooks/useAuth';
+
+export default function EmailVerificationBanner() {
+  const { user, isAuthenticated, isEmailVerified, sendVerificationEmail } = useAuth();
+  const [sending, setSending] = useState(false);
+
+  if (!isAuthenticated || isEmailVerified) return null;
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      await sendVerificationEmail();
+      toast.success('Verification link sent. Check your inbox.');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send verification email');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 flex flex-col sm:flex-row sm:items-center gap-3 rounded-lg border border-yellow-300 dark:border-yellow-700 bg-yellow-50 dark:bg-yellow-900/20 px-4 py-3">
+      <MailWarning className="w-5 h-5 text-yellow-600 dark:text-yellow-400 flex-shrink-0" />
+      <p className="flex-1 text-sm text-yellow-800 dark:text-yellow-200">
+        Confirm your email address{user?.email ? ` (${user.email})` : ''} to start claiming food.
+      </p>
+      <button
+        onClick={handleResend}
+        disabled={sending}
+        className="text-sm font-medium text-yellow-800 dark:text-yellow-200 underline hover:no-underline disabled:opacity-50"
+      >
+        {sending ? 'Sending...' : 'Resend link'}
+      </button>
+    </div>
+  );
+}
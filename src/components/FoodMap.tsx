@@ -2,9 +2,11 @@ import { useState, useEffect } from 'react';
 import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
 import { Icon, LatLngBounds } from 'leaflet';
 import { MapPin, Clock, Users } from 'lucide-react';
-import { getAvailableFoodListings, claimFoodListing } from '../services/foodSharing';
+import { getAvailableFoodListings, getFoodListingsNearLocation, claimFoodListing, formatListingQuantity } from '../services/foodSharing';
+import { getMemberRestaurants } from '../services/restaurantTeam';
 import { supabase } from '../lib/supabase';
 import type { FoodListingWithRestaurant } from '../services/foodSharing';
+import type { NearbyListingsCursor } from '../types/database';
 import { useAuth } from '../hooks/useAuth';
 import { toast } from 'react-hot-toast';
 import 'leaflet/dist/leaflet.css';
@@ -31,6 +33,11 @@ const createCustomIcon = (color: string) => new Icon({
   popupAnchor: [1, -34],
 });
 
+// Nearby listings carry the distance computed by the nearby_listings RPC
+type MapListing = FoodListingWithRestaurant & { distance_km?: number };
+
+const NEARBY_PAGE_SIZE = 100;
+
 const foodIcon = createCustomIcon('#10b981');
 const claimedIcon = createCustomIcon('#6b7280');
 
@@ -42,7 +49,7 @@ interface FoodMapProps {
 }
 
 // Component to fit map bounds to markers
-function FitBounds({ listings }: { listings: FoodListingWithRestaurant[] }) {
+function FitBounds({ listings }: { listings: MapListing[] }) {
   const map = useMap();
 
   useEffect(() => {
@@ -66,33 +73,27 @@ export default function FoodMap({
   viewMode = 'map',
   maxDistance = 10 
 }: FoodMapProps) {
-  const [listings, setListings] = useState<FoodListingWithRestaurant[]>([]);
-  const [filteredListings, setFilteredListings] = useState<FoodListingWithRestaurant[]>([]);
+  const [listings, setListings] = useState<MapListing[]>([]);
+  const [filteredListings, setFilteredListings] = useState<MapListing[]>([]);
+  const [nextCursor, setNextCursor] = useState<NearbyListingsCursor | null>(null);
   const [loading, setLoading] = useState(true);
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
   const [distanceFilter, setDistanceFilter] = useState(maxDistance);
-  const { user, isAuthenticated } = useAuth();
+  const [claimPortions, setClaimPortions] = useState<Record<string, number>>({});
+  // Restaurants the signed-in user works at, in any role
+  const [memberRestaurantIds, setMemberRestaurantIds] = useState<Set<string>>(new Set());
+  const { user, isAuthenticated, isEmailVerified } = useAuth();
 
   // Default center (you can change this to your preferred location)
   const defaultCenter: [number, number] = [40.7128, -74.0060]; // New York City
 
-  // Calculate distance between two points using Haversine formula
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
-  };
+  useEffect(() => {
+    getUserLocation();
+  }, []);
 
   useEffect(() => {
     loadFoodListings();
-    getUserLocation();
-    
+
     // Set up real-time subscription for food listings
     const subscription = supabase
       .channel('food_map_listings')
@@ -100,6 +101,11 @@ export default function FoodMap({
         { event: '*', schema: 'public', table: 'food_listings' },
         (payload) => {
           console.log('Real-time food listing change on map:', payload);
+          // Drop listings retired by the expiry sweep without waiting for a refetch
+          if (payload.eventType === 'UPDATE' && payload.new.expired_at) {
+            setListings(prev => prev.filter(listing => listing.id !== payload.new.id));
+            return;
+          }
           loadFoodListings();
         }
       )
@@ -130,70 +136,68 @@ export default function FoodMap({
       restaurantSubscription.unsubscribe();
       clearTimeout(timeout);
     };
-  }, []);
+  }, [userLocation, distanceFilter]);
 
-  // Filter listings based on distance and user role
   useEffect(() => {
-    if (!listings.length) {
-      setFilteredListings([]);
-      return;
-    }
-
-    let filtered = [...listings];
+    if (userRole !== 'restaurant' || !user) return;
 
-    // Filter by distance if user location is available
-    if (userLocation && userRole === 'user') {
-      filtered = filtered.filter(listing => {
-        const distance = calculateDistance(
-          userLocation[0], 
-          userLocation[1],
-          Number(listing.restaurants.latitude),
-          Number(listing.restaurants.longitude)
-        );
-        return distance <= distanceFilter;
-      });
-
-      // Sort by distance for users
-      filtered.sort((a, b) => {
-        const distanceA = calculateDistance(
-          userLocation[0], 
-          userLocation[1],
-          Number(a.restaurants.latitude),
-          Number(a.restaurants.longitude)
-        );
-        const distanceB = calculateDistance(
-          userLocation[0], 
-          userLocation[1],
-          Number(b.restaurants.latitude),
-          Number(b.restaurants.longitude)
-        );
-        return distanceA - distanceB;
-      });
-    }
+    getMemberRestaurants(user.id)
+      .then(restaurants => setMemberRestaurantIds(new Set(restaurants.map(restaurant => restaurant.id))))
+      .catch(error => console.error('Error loading member restaurants:', error));
+  }, [userRole, user]);
 
-    // For restaurant owners, show only their listings
+  // Distance filtering and ordering already happen in nearby_listings
+  useEffect(() => {
+    // For restaurant staff, show only their team's listings
     if (userRole === 'restaurant' && user) {
-      filtered = filtered.filter(listing => 
-        listing.restaurants.restaurant_admin_id === user.id
-      );
+      setFilteredListings(listings.filter(listing =>
+        memberRestaurantIds.has(listing.restaurant_id)
+      ));
+      return;
     }
 
-    setFilteredListings(filtered);
-  }, [listings, userLocation, distanceFilter, userRole, user]);
+    setFilteredListings(listings);
+  }, [listings, userRole, user, memberRestaurantIds]);
 
   const loadFoodListings = async () => {
     try {
       setLoading(true);
-      const data = await getAvailableFoodListings();
-      setListings(data || []);
+      if (userRole === 'user' && userLocation) {
+        const page = await getFoodListingsNearLocation(userLocation[0], userLocation[1], distanceFilter, {
+          limit: NEARBY_PAGE_SIZE,
+        });
+        setListings(page.listings);
+        setNextCursor(page.nextCursor);
+      } else {
+        const data = await getAvailableFoodListings();
+        setListings(data || []);
+        setNextCursor(null);
+      }
     } catch (error) {
       console.error('Error loading food listings:', error);
       setListings([]);
+      setNextCursor(null);
     } finally {
       setLoading(false);
     }
   };
 
+  const loadMoreListings = async () => {
+    if (!userLocation || !nextCursor) return;
+
+    try {
+      const page = await getFoodListingsNearLocation(userLocation[0], userLocation[1], distanceFilter, {
+        limit: NEARBY_PAGE_SIZE,
+        cursor: nextCursor,
+      });
+      setListings(prev => [...prev, ...page.listings]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more food listings:', error);
+      toast.error('Failed to load more listings');
+    }
+  };
+
   const getUserLocation = () => {
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
@@ -219,9 +223,19 @@ export default function FoodMap({
       return;
     }
 
+    if (!isEmailVerified) {
+      toast.error('Please verify your email address before claiming food');
+      return;
+    }
+
     try {
       const loadingToast = toast.loading('Claiming food...');
-      await claimFoodListing(listingId, user.id);
+      await claimFoodListing(listingId, claimPortions[listingId] || 1);
+      setClaimPortions(prev => {
+        const next = { ...prev };
+        delete next[listingId];
+        return next;
+      });
       toast.success('Food claimed successfully! Check your profile to see details.', { id: loadingToast });
       loadFoodListings();
     } catch (error) {
@@ -276,6 +290,15 @@ export default function FoodMap({
               : `Found ${filteredListings.length} nearby listings`
             }
           </div>
+          {nextCursor && (
+            <button
+              type="button"
+              onClick={loadMoreListings}
+              className="text-xs text-green-600 dark:text-green-400 hover:underline text-left"
+            >
+              Load more
+            </button>
+          )}
         </div>
       </div>
 
@@ -334,14 +357,9 @@ export default function FoodMap({
                       <p className="text-sm text-gray-600 flex items-center gap-1">
                         <MapPin className="w-4 h-4" />
                         {listing.restaurants.address}
-                        {userLocation && (
+                        {listing.distance_km !== undefined && (
                           <span className="ml-2 text-blue-600 font-medium">
-                            {calculateDistance(
-                              userLocation[0], 
-                              userLocation[1],
-                              Number(listing.restaurants.latitude),
-                              Number(listing.restaurants.longitude)
-                            ).toFixed(1)}km
+                            {listing.distance_km.toFixed(1)}km
                           </span>
                         )}
                       </p>
@@ -352,7 +370,7 @@ export default function FoodMap({
                         <span className="font-medium">Food:</span> {listing.food_item}
                       </div>
                       <div>
-                        <span className="font-medium">Quantity:</span> {listing.quantity}
+                        <span className="font-medium">Quantity:</span> {formatListingQuantity(listing)}
                       </div>
                       <div className="flex items-center gap-1">
                         <Clock className="w-4 h-4" />
@@ -371,13 +389,31 @@ export default function FoodMap({
                           <span className="text-gray-500 font-medium">Already Claimed</span>
                         </div>
                       ) : isAuthenticated ? (
-                        <button
-                          onClick={() => handleClaimFood(listing.id)}
-                          className="w-full bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center gap-2"
-                        >
-                          <Users className="w-4 h-4" />
-                          Claim This Food
-                        </button>
+                        <div className="space-y-2">
+                          {listing.quantity_remaining > 1 && (
+                            <label className="flex items-center justify-between gap-2 text-sm">
+                              <span className="font-medium">How many {listing.quantity_unit}?</span>
+                              <input
+                                type="number"
+                                min={1}
+                                max={listing.quantity_remaining}
+                                value={claimPortions[listing.id] || 1}
+                                onChange={(e) => setClaimPortions(prev => ({
+                                  ...prev,
+                                  [listing.id]: Math.min(listing.quantity_remaining, Math.max(1, Number(e.target.value) || 1)),
+                                }))}
+                                className="w-20 border rounded px-2 py-1"
+                              />
+                            </label>
+                          )}
+                          <button
+                            onClick={() => handleClaimFood(listing.id)}
+                            className="w-full bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center gap-2"
+                          >
+                            <Users className="w-4 h-4" />
+                            Claim This Food
+                          </button>
+                        </div>
                       ) : (
                         <div className="text-center py-2">
                           <span className="text-gray-500 text-sm">Login to claim food</span>
@@ -420,19 +456,14 @@ export default function FoodMap({
                     <p className="flex items-center gap-1">
                       <MapPin className="w-4 h-4" />
                       {listing.restaurants.address}
-                      {userLocation && (
+                      {listing.distance_km !== undefined && (
                         <span className="ml-2 text-blue-600 dark:text-blue-400 font-medium">
-                          {calculateDistance(
-                            userLocation[0], 
-                            userLocation[1],
-                            Number(listing.restaurants.latitude),
-                            Number(listing.restaurants.longitude)
-                          ).toFixed(1)}km away
+                          {listing.distance_km.toFixed(1)}km away
                         </span>
                       )}
                     </p>
                     <p><strong>Food:</strong> {listing.food_item}</p>
-                    <p><strong>Quantity:</strong> {listing.quantity}</p>
+                    <p><strong>Quantity:</strong> {formatListingQuantity(listing)}</p>
                     <p className="flex items-center gap-1">
                       <Clock className="w-4 h-4" />
                       Available: {formatTime(listing.pickup_start_time)} - {formatTime(listing.pickup_end_time)}
@@ -443,6 +474,23 @@ export default function FoodMap({
                     <p className="text-sm text-gray-600 dark:text-gray-300 mt-2">{listing.description}</p>
                   )}
                   
+                  {!listing.is_claimed && isAuthenticated && userRole === 'user' && listing.quantity_remaining > 1 && (
+                    <label className="mt-3 flex items-center justify-between gap-2 text-sm text-gray-600 dark:text-gray-300">
+                      <span className="font-medium">How many {listing.quantity_unit}?</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={listing.quantity_remaining}
+                        value={claimPortions[listing.id] || 1}
+                        onChange={(e) => setClaimPortions(prev => ({
+                          ...prev,
+                          [listing.id]: Math.min(listing.quantity_remaining, Math.max(1, Number(e.target.value) || 1)),
+                        }))}
+                        className="w-20 border rounded px-2 py-1 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                      />
+                    </label>
+                  )}
+
                   {!listing.is_claimed && isAuthenticated && userRole === 'user' && (
                     <button
                       onClick={() => handleClaimFood(listing.id)}
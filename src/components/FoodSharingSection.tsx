@@ -1,12 +1,15 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { MapPin, Heart, Users, Utensils, Store, User } from 'lucide-react';
+import { MapPin, Heart, Users, Utensils, Store, User, Scale, Leaf, Droplets } from 'lucide-react';
 import FoodMap from './FoodMap';
 import SearchInput from './SearchInput';
 import StatsCard from './StatsCard';
 import { useStore } from '../store';
 import { useAuth } from '../hooks/useAuth';
-import { getFoodSharingStats, getRestaurantStats } from '../services/foodSharing';
+import { getFoodSharingStats, getRestaurantStats, searchFoodListings, formatListingQuantity } from '../services/foodSharing';
+import { getGlobalImpact, getRestaurantImpact, formatWeight, formatWater } from '../services/impact';
+import type { FoodListingSearchResult } from '../services/foodSharing';
+import type { ImpactSummary } from '../services/impact';
 
 interface FoodStats {
   totalListings: number;
@@ -21,6 +24,7 @@ export default function FoodSharingSection() {
   const { } = useStore();
   const { user, isRestaurantAdmin } = useAuth();
   const [viewMode, setViewMode] = useState<'map' | 'list'>('map');
+  const [searchResults, setSearchResults] = useState<FoodListingSearchResult[] | null>(null);
   const [stats, setStats] = useState<FoodStats>({
     totalListings: 0,
     availableListings: 0,
@@ -29,6 +33,7 @@ export default function FoodSharingSection() {
     thisMonthClaims: 0,
     activeRestaurants: 0
   });
+  const [impact, setImpact] = useState<ImpactSummary | null>(null);
 
   useEffect(() => {
     loadStats();
@@ -45,15 +50,31 @@ export default function FoodSharingSection() {
           claimedListings: restaurantStats.claimedListings,
           activeRestaurants: restaurantStats.totalRestaurants
         }));
+        setImpact(await getRestaurantImpact());
       } else {
-        const globalStats = await getFoodSharingStats();
+        const [globalStats, globalImpact] = await Promise.all([getFoodSharingStats(), getGlobalImpact()]);
         setStats(globalStats);
+        setImpact(globalImpact);
       }
     } catch (error) {
       console.error('Error loading stats:', error);
     }
   };
 
+  const handleSearch = async (query: string) => {
+    if (!query) {
+      setSearchResults(null);
+      return;
+    }
+
+    try {
+      setSearchResults(await searchFoodListings(query));
+    } catch (error) {
+      console.error('Error searching food listings:', error);
+      setSearchResults([]);
+    }
+  };
+
   return (
     <section className="w-full max-w-7xl mx-auto py-16">
       <motion.div
@@ -105,14 +126,40 @@ export default function FoodSharingSection() {
         {!isRestaurantAdmin && (
           <div className="mb-8">
             <SearchInput
-              placeholder="Search for food by type, restaurant, or location..."
-              onSearch={(query, filters) => {
-                console.log('Search:', query, 'Filters:', filters);
-                // TODO: Implement food search functionality
-              }}
-              filters={['Vegetarian', 'Vegan', 'Gluten-Free', 'Available Now', 'Nearby']}
+              placeholder="Search for food by type or restaurant..."
+              onSearch={handleSearch}
+              onSelect={(listing) => setSearchResults([listing])}
+              onClear={() => setSearchResults(null)}
               className="max-w-2xl mx-auto"
             />
+
+            {searchResults && (
+              <div className="max-w-2xl mx-auto mt-4 space-y-2">
+                {searchResults.length === 0 ? (
+                  <p className="text-center text-gray-600 dark:text-gray-300">
+                    No available food matches your search
+                  </p>
+                ) : (
+                  searchResults.map((listing) => (
+                    <div
+                      key={listing.id}
+                      className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 flex items-center justify-between gap-4"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 dark:text-white truncate">{listing.food_item}</p>
+                        <p className="text-sm text-gray-600 dark:text-gray-300 flex items-center gap-1">
+                          <MapPin className="w-4 h-4" />
+                          {listing.restaurants.name}
+                        </p>
+                      </div>
+                      <span className="text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                        {formatListingQuantity(listing)}
+                      </span>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
           </div>
         )}
         
@@ -222,6 +269,34 @@ export default function FoodSharingSection() {
           color="purple"
         />
       </motion.div>
+
+      {impact && impact.pickups > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.7 }}
+          className="mt-6 grid md:grid-cols-3 gap-6"
+        >
+          <StatsCard
+            icon={Scale}
+            title={isRestaurantAdmin ? 'Food You Rescued' : 'Food Rescued'}
+            value={formatWeight(impact.kg)}
+            description={`${impact.portions} portions picked up`}
+          />
+          <StatsCard
+            icon={Leaf}
+            title="CO₂ Avoided"
+            value={formatWeight(impact.co2e_kg)}
+            description="Estimated CO₂-equivalent"
+          />
+          <StatsCard
+            icon={Droplets}
+            title="Water Saved"
+            value={formatWater(impact.water_l)}
+            description="Used to produce the rescued food"
+          />
+        </motion.div>
+      )}
     </section>
   );
 }
\ No newline at end of file
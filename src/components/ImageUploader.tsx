@@ -1,28 +1,43 @@
 import React, { useState, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { toast } from 'react-hot-toast';
-import { analyzeImage } from '../services/ai';
-import type { AIAnalysisResult } from '../types';
-import { Upload, Camera, ImageIcon, Check, RefreshCcw, ArrowRight, RotateCcw } from 'lucide-react';
+import { analyzeImage, describeRequestProgress } from '../services/ai';
+import type { AIAnalysisResult, IngredientFreshness } from '../types';
+import { Upload, Camera, ImageIcon, RefreshCcw, ArrowRight, RotateCcw } from 'lucide-react';
 
 interface Props {
   onAnalysisComplete: (result: AIAnalysisResult) => void;
 }
 
+const FRESHNESS_BADGES: Record<IngredientFreshness, { label: string; className: string }> = {
+  fresh: { label: 'Fresh', className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200' },
+  use_soon: { label: 'Use soon', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200' },
+  spoiling: { label: 'Spoiling', className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200' },
+  unknown: { label: 'Freshness unclear', className: 'bg-gray-200 text-gray-700 dark:bg-gray-500 dark:text-gray-100' },
+};
+
+const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
 const ImageUploader: React.FC<Props> = ({ onAnalysisComplete }) => {
   const [loading, setLoading] = useState(false);
   const [preview, setPreview] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [requestStatus, setRequestStatus] = useState<string | null>(null);
   const [results, setResults] = useState<AIAnalysisResult | null>(null);
+  // Index of the ingredient whose box and list entry are highlighted together
+  const [highlighted, setHighlighted] = useState<number | null>(null);
   const lastFileRef = useRef<File | null>(null);
 
   const runAnalysis = async (file: File) => {
     setLoading(true);
     setError(null);
     setResults(null);
+    setHighlighted(null);
 
     try {
-      const result = await analyzeImage(file);
+      const result = await analyzeImage(file, {
+        onProgress: progress => setRequestStatus(describeRequestProgress(progress)),
+      });
       setResults(result);
       onAnalysisComplete(result);
     } catch (err) {
@@ -37,6 +52,7 @@ const ImageUploader: React.FC<Props> = ({ onAnalysisComplete }) => {
       // NOTE: preview is intentionally kept so the user can see what they uploaded
     } finally {
       setLoading(false);
+      setRequestStatus(null);
     }
   };
 
@@ -108,8 +124,11 @@ const ImageUploader: React.FC<Props> = ({ onAnalysisComplete }) => {
                   className="w-full h-auto max-h-[300px] object-cover"
                 />
                 {loading && (
-                  <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center">
+                  <div className="absolute inset-0 bg-black bg-opacity-50 flex flex-col items-center justify-center gap-3">
                     <div className="animate-spin rounded-full h-10 w-10 border-3 border-white border-t-transparent"></div>
+                    {requestStatus && (
+                      <p className="px-4 text-center text-sm text-white">{requestStatus}</p>
+                    )}
                   </div>
                 )}
               </div>
@@ -147,29 +166,82 @@ const ImageUploader: React.FC<Props> = ({ onAnalysisComplete }) => {
             <div className="bg-gray-100 rounded-lg p-4 dark:bg-gray-700 transition-colors duration-200">
               <h4 className="font-medium mb-2 text-gray-700 dark:text-gray-300">Analyzed Image</h4>
               {preview && (
-                <img
-                  src={preview}
-                  alt="Uploaded food"
-                  className="w-full h-auto rounded-lg shadow-sm border border-gray-200 dark:border-gray-600"
-                />
+                <div className="relative">
+                  <img
+                    src={preview}
+                    alt="Uploaded food"
+                    className="w-full h-auto rounded-lg shadow-sm border border-gray-200 dark:border-gray-600"
+                  />
+                  {results.detectedIngredients.map((ingredient, index) => ingredient.boundingBox && (
+                    <div
+                      key={index}
+                      onMouseEnter={() => setHighlighted(index)}
+                      onMouseLeave={() => setHighlighted(null)}
+                      className={`absolute border-2 rounded transition-colors ${
+                        highlighted === index
+                          ? 'border-yellow-300 bg-yellow-300/20 z-10'
+                          : 'border-green-400/80'
+                      }`}
+                      style={{
+                        left: `${ingredient.boundingBox.x * 100}%`,
+                        top: `${ingredient.boundingBox.y * 100}%`,
+                        width: `${ingredient.boundingBox.width * 100}%`,
+                        height: `${ingredient.boundingBox.height * 100}%`,
+                      }}
+                    >
+                      {highlighted === index && (
+                        <span className="absolute -top-6 left-0 whitespace-nowrap px-1.5 py-0.5 rounded bg-yellow-300 text-xs font-medium text-gray-900">
+                          {ingredient.name}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
               )}
             </div>
             
             {/* Detected Ingredients */}
             <div className="bg-gray-100 rounded-lg p-4 dark:bg-gray-700 transition-colors duration-200">
-              <h4 className="font-medium mb-3 text-gray-700 dark:text-gray-100">Detected Ingredients</h4>
-              {results.ingredients.length > 0 ? (
+              <div className="flex items-baseline justify-between mb-3">
+                <h4 className="font-medium text-gray-700 dark:text-gray-100">Detected Ingredients</h4>
+                <span className="text-xs text-gray-500 dark:text-gray-300">
+                  {formatConfidence(results.confidence)} avg. confidence
+                </span>
+              </div>
+              {results.detectedIngredients.length > 0 ? (
                 <ul className="space-y-2">
-                  {results.ingredients.map((ingredient, index) => (
+                  {results.detectedIngredients.map((ingredient, index) => (
                     <motion.li
                       key={index}
                       initial={{ opacity: 0, x: -10 }}
                       animate={{ opacity: 1, x: 0 }}
                       transition={{ delay: index * 0.1 }}
-                      className="flex items-center gap-2 bg-white p-2 rounded-md shadow-sm dark:bg-gray-600 transition-colors duration-200"
+                      onMouseEnter={() => setHighlighted(index)}
+                      onMouseLeave={() => setHighlighted(null)}
+                      className={`bg-white p-2 rounded-md shadow-sm dark:bg-gray-600 transition-colors duration-200 ${
+                        highlighted === index ? 'ring-2 ring-yellow-300' : ''
+                      }`}
                     >
-                      <Check className="h-4 w-4 text-green-500" />
-                      <span className="text-gray-800 dark:text-gray-100">{ingredient}</span>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-800 dark:text-gray-100">{ingredient.name}</span>
+                        {ingredient.quantity && (
+                          <span className="text-sm text-gray-500 dark:text-gray-300">{ingredient.quantity}</span>
+                        )}
+                        <span
+                          className="ml-auto text-xs text-gray-500 dark:text-gray-300"
+                          title="The model's confidence in this identification"
+                        >
+                          {formatConfidence(ingredient.confidence)}
+                        </span>
+                      </div>
+                      <div className="mt-1 flex items-start gap-2 text-xs">
+                        <span className={`shrink-0 px-2 py-0.5 rounded-full font-medium ${FRESHNESS_BADGES[ingredient.freshness].className}`}>
+                          {FRESHNESS_BADGES[ingredient.freshness].label}
+                        </span>
+                        {ingredient.freshnessNote && (
+                          <span className="text-gray-500 dark:text-gray-300">{ingredient.freshnessNote}</span>
+                        )}
+                      </div>
                     </motion.li>
                   ))}
                 </ul>
@@ -184,6 +256,7 @@ const ImageUploader: React.FC<Props> = ({ onAnalysisComplete }) => {
               onClick={() => {
                 setResults(null);
                 setPreview(null);
+                setHighlighted(null);
               }}
               className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 flex items-center justify-center gap-2 hover:bg-gray-50 transition-colors dark:border-gray-500 dark:text-gray-100 dark:hover:bg-gray-600"
             >
@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, CheckCircle, Download, Upload, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { parseCsv, downloadFile, type CsvRecord } from '../lib/csv';
+import {
+  guessColumnMapping,
+  validateListingRows,
+  importListings,
+  LISTING_IMPORT_FIELDS,
+  LISTING_TEMPLATE_CSV,
+  MAX_IMPORT_ROWS,
+} from '../services/listingImportExport';
+import type { ListingColumnMapping, ListingImportResult } from '../services/listingImportExport';
+
+interface ListingCsvImportDialogProps {
+  restaurantId: string;
+  onClose: () => void;
+  // Called once listings have been created so the dashboard reloads them
+  onImported: () => void;
+}
+
+export default function ListingCsvImportDialog({ restaurantId, onClose, onImported }: ListingCsvImportDialogProps) {
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<CsvRecord[]>([]);
+  const [mapping, setMapping] = useState<ListingColumnMapping | null>(null);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<ListingImportResult | null>(null);
+
+  // Re-validated on every mapping change; nothing is written until Import is pressed
+  const preview = mapping ? validateListingRows(rows, mapping) : [];
+  const validCount = preview.filter(row => row.listing).length;
+  const invalidCount = preview.length - validCount;
+  const missingRequired = mapping
+    ? LISTING_IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === null)
+    : [];
+  const importing = progress !== null && result === null;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const [headerRecord, ...data] = parseCsv(await file.text());
+    const header = headerRecord?.cells ?? [];
+    if (data.length === 0) {
+      toast.error('The file has no rows below the header');
+      return;
+    }
+    if (data.length > MAX_IMPORT_ROWS) {
+      toast.error(`Import at most ${MAX_IMPORT_ROWS} rows at a time`);
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(header.map(h => h.trim()));
+    setRows(data);
+    setMapping(guessColumnMapping(header));
+    setResult(null);
+    setProgress(null);
+  };
+
+  const handleImport = async () => {
+    if (validCount === 0) return;
+
+    setProgress({ done: 0, total: validCount });
+    const importResult = await importListings(restaurantId, preview, (done, total) => setProgress({ done, total }));
+    setResult(importResult);
+
+    if (importResult.created > 0) {
+      toast.success(`Imported ${importResult.created} listing${importResult.created === 1 ? '' : 's'}`);
+      onImported();
+    }
+    if (importResult.failed.length > 0) {
+      toast.error(`${importResult.failed.length} row${importResult.failed.length === 1 ? '' : 's'} failed to import`);
+    }
+  };
+
+  const visibleRows = showErrorsOnly ? preview.filter(row => row.errors.length > 0) : preview;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] overflow-y-auto"
+      >
+        <div className="p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xl font-semibold dark:text-white">Import Listings from CSV</h3>
+            <button
+              onClick={onClose}
+              disabled={importing}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+              aria-label="Close"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="flex flex-col md:flex-row md:items-center gap-3">
+            <label className="flex items-center gap-2 cursor-pointer bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors">
+              <Upload className="w-4 h-4" />
+              {fileName ? 'Choose Another File' : 'Choose CSV File'}
+              <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" disabled={importing} />
+            </label>
+            {fileName && (
+              <span className="text-sm text-gray-600 dark:text-gray-300">
+                {fileName} · {rows.length} row{rows.length === 1 ? '' : 's'}
+              </span>
+            )}
+            <button
+              onClick={() => downloadFile('listings-template.csv', LISTING_TEMPLATE_CSV, 'text/csv')}
+              className="md:ml-auto flex items-center gap-2 text-sm text-green-600 dark:text-green-400 hover:underline"
+            >
+              <Download className="w-4 h-4" />
+              Download template
+            </button>
+          </div>
+
+          {!mapping && (
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              One listing per row. Pickup times take dates like 2025-10-18 18:00 in your local time, and dietary tags
+              are separated by semicolons. Rows are checked before anything is created.
+            </p>
+          )}
+
+          {mapping && (
+            <>
+              <div>
+                <h4 className="font-semibold dark:text-white mb-3">Columns</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+                  {LISTING_IMPORT_FIELDS.map(({ field, label, required }) => (
+                    <div key={field}>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        {label}{required && ' *'}
+                      </label>
+                      <select
+                        value={mapping[field] ?? ''}
+                        onChange={(e) => setMapping({
+                          ...mapping,
+                          [field]: e.target.value === '' ? null : Number(e.target.value),
+                        })}
+                        disabled={importing}
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                      >
+                        <option value="">{required ? 'Choose a column' : 'Leave empty'}</option>
+                        {headers.map((header, index) => (
+                          <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <div className="flex flex-wrap items-center gap-4 mb-3">
+                  <h4 className="font-semibold dark:text-white">Preview</h4>
+                  <span className="flex items-center gap-1 text-sm text-green-700 dark:text-green-400">
+                    <CheckCircle className="w-4 h-4" />
+                    {validCount} ready
+                  </span>
+                  {invalidCount > 0 && (
+                    <span className="flex items-center gap-1 text-sm text-red-600 dark:text-red-400">
+                      <AlertTriangle className="w-4 h-4" />
+                      {invalidCount} with errors, will be skipped
+                    </span>
+                  )}
+                  <label className="ml-auto flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={showErrorsOnly}
+                      onChange={(e) => setShowErrorsOnly(e.target.checked)}
+                    />
+                    Only rows with errors
+                  </label>
+                </div>
+
+                <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg max-h-80">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium text-gray-600 dark:text-gray-300">Line</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-600 dark:text-gray-300">Food item</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-600 dark:text-gray-300">Quantity</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-600 dark:text-gray-300">Pickup</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-600 dark:text-gray-300">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {visibleRows.map((row) => (
+                        <tr key={row.line} className={row.errors.length > 0 ? 'bg-red-50 dark:bg-red-900/20' : ''}>
+                          <td className="px-3 py-2 text-gray-500 dark:text-gray-400">{row.line}</td>
+                          <td className="px-3 py-2 dark:text-white">{row.listing?.food_item}</td>
+                          <td className="px-3 py-2 dark:text-white">
+                            {row.listing && `${row.listing.quantity_total} ${row.listing.quantity_unit}`}
+                          </td>
+                          <td className="px-3 py-2 dark:text-white whitespace-nowrap">
+                            {row.listing && `${new Date(row.listing.pickup_start_time).toLocaleString()} – ${new Date(row.listing.pickup_end_time).toLocaleTimeString()}`}
+                          </td>
+                          <td className="px-3 py-2">
+                            {row.errors.length > 0 ? (
+                              <ul className="text-red-700 dark:text-red-300 space-y-0.5">
+                                {row.errors.map((error, index) => <li key={index}>{error}</li>)}
+                              </ul>
+                            ) : (
+                              <span className="text-green-700 dark:text-green-400">Ready</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {result && result.failed.length > 0 && (
+                <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+                  <p className="font-medium mb-1">These rows could not be created:</p>
+                  <ul className="space-y-0.5">
+                    {result.failed.map(({ line, message }) => (
+                      <li key={line}>Line {line}: {message}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={onClose}
+              disabled={importing}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+            >
+              {result ? 'Done' : 'Cancel'}
+            </button>
+            {!result && (
+              <button
+                onClick={handleImport}
+                disabled={!mapping || validCount === 0 || missingRequired.length > 0 || importing}
+                className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg transition-colors"
+              >
+                {importing
+                  ? `Importing ${progress!.done} of ${progress!.total}...`
+                  : `Import ${validCount} Listing${validCount === 1 ? '' : 's'}`}
+              </button>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
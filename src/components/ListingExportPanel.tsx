@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { downloadFile } from '../lib/csv';
+import { getRestaurantClaims } from '../services/foodSharing';
+import {
+  getListingsForExport,
+  listingsToCsv,
+  claimsToCsv,
+  claimsToExportRows,
+} from '../services/listingImportExport';
+
+type ExportKind = 'listings' | 'claims';
+type ExportFormat = 'csv' | 'json';
+
+interface ListingExportPanelProps {
+  restaurantId: string;
+  restaurantName: string;
+}
+
+const slugify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'restaurant';
+
+export default function ListingExportPanel({ restaurantId, restaurantName }: ListingExportPanelProps) {
+  const [exporting, setExporting] = useState<string | null>(null);
+
+  const handleExport = async (kind: ExportKind, format: ExportFormat) => {
+    const filename = `${slugify(restaurantName)}-${kind}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    try {
+      setExporting(`${kind}-${format}`);
+      let content: string;
+      if (kind === 'listings') {
+        const listings = await getListingsForExport(restaurantId);
+        content = format === 'csv' ? listingsToCsv(listings) : JSON.stringify(listings, null, 2);
+      } else {
+        const claims = await getRestaurantClaims(restaurantId);
+        content = format === 'csv' ? claimsToCsv(claims) : JSON.stringify(claimsToExportRows(claims), null, 2);
+      }
+      downloadFile(filename, content, format === 'csv' ? 'text/csv' : 'application/json');
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const exports: { kind: ExportKind; title: string; description: string }[] = [
+    { kind: 'listings', title: 'Listings', description: 'Every listing, including expired and archived ones' },
+    { kind: 'claims', title: 'Claim history', description: 'Claims on your listings, without pickup codes' },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <h4 className="text-lg font-semibold dark:text-white mb-4">Export Data</h4>
+      <div className="divide-y divide-gray-200 dark:divide-gray-700">
+        {exports.map(({ kind, title, description }) => (
+          <div key={kind} className="flex flex-col md:flex-row md:items-center gap-3 py-3">
+            <div className="flex-1">
+              <p className="font-medium dark:text-white">{title}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">{description}</p>
+            </div>
+            <div className="flex gap-2">
+              {(['csv', 'json'] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(kind, format)}
+                  disabled={exporting !== null}
+                  className="flex items-center gap-2 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                >
+                  <Download className="w-4 h-4" />
+                  {exporting === `${kind}-${format}` ? 'Exporting...' : format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,742 @@
+import React, { useState, useEffect } from 'react';
+import { Repeat, Plus, Pause, Play, Edit, Trash2, Clock, Users, SkipForward, RotateCcw } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import {
+  getListingTemplates,
+  getTemplateOccurrences,
+  createListingTemplate,
+  updateListingTemplate,
+  setListingTemplatePaused,
+  deleteListingTemplate,
+  skipOccurrence,
+  editOccurrence,
+  restoreOccurrence,
+  getUpcomingOccurrences,
+  formatTemplateTime,
+  PUBLISH_LEAD_OPTIONS,
+} from '../services/listingTemplates';
+import type { ListingTemplate, TemplateOccurrence, UpcomingOccurrence, ListingTemplateInput } from '../services/listingTemplates';
+import { DIETARY_TAGS, QUANTITY_UNITS } from '../services/foodSharing';
+import { FOOD_CATEGORIES, FOOD_CATEGORY_LABELS, DEFAULT_FOOD_CATEGORY } from '../services/impact';
+import {
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  describeRecurrence,
+  todayIn,
+  RECURRENCE_PRESETS,
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+} from '../lib/recurrence';
+import type { Weekday } from '../lib/recurrence';
+import type { MemberRestaurant } from '../services/restaurantTeam';
+import type { FoodCategory } from '../types/database';
+import ConfirmDialog from './ConfirmDialog';
+
+type RepeatMode = 'daily' | 'weekdays' | 'weekly' | 'custom';
+
+interface TemplateForm {
+  food_item: string;
+  description: string;
+  quantity_total: string;
+  quantity_unit: string;
+  food_category: FoodCategory;
+  dietary_info: string[];
+  pickup_start: string;
+  pickup_end: string;
+  repeat: RepeatMode;
+  weekly_days: Weekday[];
+  custom_rule: string;
+  starts_on: string;
+  ends_on: string;
+  publish_lead_minutes: number;
+}
+
+interface OccurrenceForm {
+  templateId: string;
+  date: string;
+  food_item: string;
+  quantity_total: string;
+  pickup_start: string;
+  pickup_end: string;
+}
+
+const emptyForm = (): TemplateForm => ({
+  food_item: '',
+  description: '',
+  quantity_total: '',
+  quantity_unit: 'portions',
+  food_category: DEFAULT_FOOD_CATEGORY,
+  dietary_info: [],
+  pickup_start: '20:00',
+  pickup_end: '21:00',
+  repeat: 'daily',
+  weekly_days: ['MO'],
+  custom_rule: '',
+  starts_on: todayIn(),
+  ends_on: '',
+  publish_lead_minutes: 120,
+});
+
+// Picks the simplest form control that can show an existing rule
+function formFromTemplate(template: ListingTemplate): TemplateForm {
+  const rule = parseRecurrenceRule(template.recurrence_rule);
+  const normalized = formatRecurrenceRule(rule);
+  let repeat: RepeatMode = 'custom';
+  if (normalized === RECURRENCE_PRESETS.daily) repeat = 'daily';
+  else if (normalized === RECURRENCE_PRESETS.weekdays) repeat = 'weekdays';
+  else if (rule.freq === 'WEEKLY' && rule.interval === 1 && !rule.until && rule.byDay) repeat = 'weekly';
+
+  return {
+    food_item: template.food_item,
+    description: template.description || '',
+    quantity_total: String(template.quantity_total),
+    quantity_unit: template.quantity_unit,
+    food_category: template.food_category,
+    dietary_info: template.dietary_info || [],
+    pickup_start: formatTemplateTime(template.pickup_start),
+    pickup_end: formatTemplateTime(template.pickup_end),
+    repeat,
+    weekly_days: rule.byDay ?? ['MO'],
+    custom_rule: normalized,
+    starts_on: template.starts_on,
+    ends_on: template.ends_on || '',
+    publish_lead_minutes: template.publish_lead_minutes,
+  };
+}
+
+function ruleFromForm(form: TemplateForm) {
+  switch (form.repeat) {
+    case 'daily':
+      return RECURRENCE_PRESETS.daily;
+    case 'weekdays':
+      return RECURRENCE_PRESETS.weekdays;
+    case 'weekly':
+      return formatRecurrenceRule({ freq: 'WEEKLY', interval: 1, byDay: form.weekly_days });
+    case 'custom':
+      return form.custom_rule.trim();
+  }
+}
+
+const formatOccurrenceDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent dark:bg-gray-700 dark:text-white';
+
+interface ListingTemplatesPanelProps {
+  restaurant: MemberRestaurant;
+  currentUserId: string;
+}
+
+// Saved listings that the server posts on a schedule (see generate_recurring_listings)
+export default function ListingTemplatesPanel({ restaurant, currentUserId }: ListingTemplatesPanelProps) {
+  const [templates, setTemplates] = useState<ListingTemplate[]>([]);
+  const [occurrences, setOccurrences] = useState<TemplateOccurrence[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<ListingTemplate | null>(null);
+  const [form, setForm] = useState<TemplateForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [occurrenceForm, setOccurrenceForm] = useState<OccurrenceForm | null>(null);
+  const [deleting, setDeleting] = useState<ListingTemplate | null>(null);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [restaurant.id]);
+
+  const loadTemplates = async () => {
+    setLoading(true);
+    const data = await getListingTemplates(restaurant.id);
+    setTemplates(data);
+    setOccurrences(await getTemplateOccurrences(data.map(t => t.id), todayIn()));
+    setLoading(false);
+  };
+
+  const replaceTemplate = (template: ListingTemplate) =>
+    setTemplates(prev => prev.map(t => (t.id === template.id ? template : t)));
+
+  const replaceOccurrence = (occurrence: TemplateOccurrence) =>
+    setOccurrences(prev => [
+      ...prev.filter(o => !(o.template_id === occurrence.template_id && o.occurrence_date === occurrence.occurrence_date)),
+      occurrence,
+    ]);
+
+  const openForm = (template: ListingTemplate | null) => {
+    setEditingTemplate(template);
+    setForm(template ? formFromTemplate(template) : emptyForm());
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingTemplate(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const quantityTotal = Number(form.quantity_total);
+    if (!Number.isInteger(quantityTotal) || quantityTotal < 1) {
+      toast.error('Quantity must be a whole number of at least 1');
+      return;
+    }
+    if (form.repeat === 'weekly' && form.weekly_days.length === 0) {
+      toast.error('Pick at least one day of the week');
+      return;
+    }
+
+    const input: ListingTemplateInput = {
+      food_item: form.food_item.trim(),
+      description: form.description.trim() || null,
+      quantity_total: quantityTotal,
+      quantity_unit: form.quantity_unit,
+      food_category: form.food_category,
+      dietary_info: form.dietary_info,
+      pickup_start: form.pickup_start,
+      pickup_end: form.pickup_end,
+      recurrence_rule: ruleFromForm(form),
+      starts_on: form.starts_on,
+      ends_on: form.ends_on || null,
+      publish_lead_minutes: form.publish_lead_minutes,
+    };
+
+    try {
+      setSaving(true);
+      if (editingTemplate) {
+        replaceTemplate(await updateListingTemplate(editingTemplate.id, input));
+        toast.success('Template updated');
+      } else {
+        const template = await createListingTemplate(restaurant.id, currentUserId, input);
+        setTemplates(prev => [...prev, template]);
+        toast.success('Template saved. Listings will be posted automatically.');
+      }
+      closeForm();
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTogglePaused = async (template: ListingTemplate) => {
+    try {
+      replaceTemplate(await setListingTemplatePaused(template.id, !template.is_paused));
+      toast.success(template.is_paused ? 'Template resumed' : 'Template paused');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update template');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleting) return;
+    const template = deleting;
+    setDeleting(null);
+
+    try {
+      await deleteListingTemplate(template.id);
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+      toast.success('Template deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete template');
+    }
+  };
+
+  const handleSkip = async (template: ListingTemplate, occurrence: UpcomingOccurrence) => {
+    try {
+      replaceOccurrence(await skipOccurrence(template.id, occurrence.date));
+      toast.success(`Skipped ${formatOccurrenceDate(occurrence.date)}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to skip occurrence');
+    }
+  };
+
+  const handleRestore = async (template: ListingTemplate, occurrence: UpcomingOccurrence) => {
+    try {
+      await restoreOccurrence(template.id, occurrence.date);
+      setOccurrences(prev => prev.filter(o => !(o.template_id === template.id && o.occurrence_date === occurrence.date)));
+      toast.success(`${formatOccurrenceDate(occurrence.date)} follows the template again`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to restore occurrence');
+    }
+  };
+
+  const handleSaveOccurrence = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!occurrenceForm) return;
+    const template = templates.find(t => t.id === occurrenceForm.templateId);
+    if (!template) return;
+
+    const quantityTotal = Number(occurrenceForm.quantity_total);
+    if (!Number.isInteger(quantityTotal) || quantityTotal < 1) {
+      toast.error('Quantity must be a whole number of at least 1');
+      return;
+    }
+    if (occurrenceForm.pickup_start === occurrenceForm.pickup_end) {
+      toast.error('Pickup must end after it starts');
+      return;
+    }
+
+    // Only store what differs, so later template edits still reach this occurrence
+    const differs = <T,>(value: T, templateValue: T) => (value === templateValue ? null : value);
+
+    try {
+      replaceOccurrence(await editOccurrence(template.id, occurrenceForm.date, {
+        food_item: differs(occurrenceForm.food_item.trim(), template.food_item),
+        quantity_total: differs(quantityTotal, template.quantity_total),
+        pickup_start: differs(occurrenceForm.pickup_start, formatTemplateTime(template.pickup_start)),
+        pickup_end: differs(occurrenceForm.pickup_end, formatTemplateTime(template.pickup_end)),
+      }));
+      setOccurrenceForm(null);
+      toast.success(`Updated ${formatOccurrenceDate(occurrenceForm.date)}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update occurrence');
+    }
+  };
+
+  const toggleDietaryInfo = (info: string) =>
+    setForm(prev => ({
+      ...prev,
+      dietary_info: prev.dietary_info.includes(info)
+        ? prev.dietary_info.filter(i => i !== info)
+        : [...prev.dietary_info, info],
+    }));
+
+  const toggleWeekday = (day: Weekday) =>
+    setForm(prev => ({
+      ...prev,
+      weekly_days: prev.weekly_days.includes(day)
+        ? prev.weekly_days.filter(d => d !== day)
+        : WEEKDAYS.filter(d => d === day || prev.weekly_days.includes(d)),
+    }));
+
+  const describeTemplate = (template: ListingTemplate) => {
+    try {
+      return describeRecurrence(parseRecurrenceRule(template.recurrence_rule));
+    } catch {
+      return template.recurrence_rule;
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <button
+          onClick={() => openForm(null)}
+          className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          New Template
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 space-y-4">
+          <h4 className="text-lg font-semibold dark:text-white">
+            {editingTemplate ? 'Edit Template' : 'New Recurring Listing'}
+          </h4>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Food Item *</label>
+              <input
+                type="text"
+                required
+                value={form.food_item}
+                onChange={(e) => setForm({ ...form, food_item: e.target.value })}
+                className={inputClass}
+                placeholder="e.g., Pastries"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Quantity *</label>
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  required
+                  value={form.quantity_total}
+                  onChange={(e) => setForm({ ...form, quantity_total: e.target.value })}
+                  className={inputClass}
+                  placeholder="e.g., 10"
+                />
+                <select
+                  value={form.quantity_unit}
+                  onChange={(e) => setForm({ ...form, quantity_unit: e.target.value })}
+                  className={inputClass}
+                >
+                  {(QUANTITY_UNITS.includes(form.quantity_unit)
+                    ? QUANTITY_UNITS
+                    : [form.quantity_unit, ...QUANTITY_UNITS]
+                  ).map((unit) => (
+                    <option key={unit} value={unit}>{unit}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Description</label>
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Food Category</label>
+            <select
+              value={form.food_category}
+              onChange={(e) => setForm({ ...form, food_category: e.target.value as FoodCategory })}
+              className={inputClass}
+            >
+              {FOOD_CATEGORIES.map((category) => (
+                <option key={category} value={category}>{FOOD_CATEGORY_LABELS[category]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Pickup From *</label>
+              <input
+                type="time"
+                required
+                value={form.pickup_start}
+                onChange={(e) => setForm({ ...form, pickup_start: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Pickup Until *</label>
+              <input
+                type="time"
+                required
+                value={form.pickup_end}
+                onChange={(e) => setForm({ ...form, pickup_end: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Post Listing</label>
+              <select
+                value={form.publish_lead_minutes}
+                onChange={(e) => setForm({ ...form, publish_lead_minutes: Number(e.target.value) })}
+                className={inputClass}
+              >
+                {PUBLISH_LEAD_OPTIONS.map((option) => (
+                  <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Repeat *</label>
+            <div className="flex flex-wrap gap-2">
+              {([
+                ['daily', 'Every day'],
+                ['weekdays', 'Weekdays'],
+                ['weekly', 'Weekly on...'],
+                ['custom', 'Custom rule'],
+              ] as [RepeatMode, string][]).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setForm({ ...form, repeat: mode })}
+                  className={`px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+                    form.repeat === mode
+                      ? 'border-green-500 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300'
+                      : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {form.repeat === 'weekly' && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {WEEKDAYS.map((day) => (
+                  <label key={day} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={form.weekly_days.includes(day)}
+                      onChange={() => toggleWeekday(day)}
+                      className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                    />
+                    <span className="ml-1 text-sm dark:text-gray-300">{WEEKDAY_LABELS[day]}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            {form.repeat === 'custom' && (
+              <div className="mt-3">
+                <input
+                  type="text"
+                  required
+                  value={form.custom_rule}
+                  onChange={(e) => setForm({ ...form, custom_rule: e.target.value })}
+                  className={`${inputClass} font-mono text-sm`}
+                  placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=SA"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  An RRULE with FREQ=DAILY, WEEKLY or MONTHLY and optional INTERVAL, BYDAY, BYMONTHDAY and UNTIL
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Starts On *</label>
+              <input
+                type="date"
+                required
+                value={form.starts_on}
+                onChange={(e) => setForm({ ...form, starts_on: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Ends On</label>
+              <input
+                type="date"
+                value={form.ends_on}
+                min={form.starts_on}
+                onChange={(e) => setForm({ ...form, ends_on: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Dietary Information</label>
+            <div className="grid grid-cols-3 gap-2">
+              {DIETARY_TAGS.map((info) => (
+                <label key={info} className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={form.dietary_info.includes(info)}
+                    onChange={() => toggleDietaryInfo(info)}
+                    className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                  />
+                  <span className="ml-2 text-sm dark:text-gray-300">{info}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              {saving ? 'Saving...' : 'Save Template'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {templates.length === 0 && !showForm ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 text-center py-12">
+          <Repeat className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">No recurring listings yet</h3>
+          <p className="text-gray-600 dark:text-gray-300">
+            Save the surplus you post every day once, and it will be listed automatically
+          </p>
+        </div>
+      ) : (
+        templates.map((template) => (
+          <div key={template.id} className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 space-y-4">
+            <div className="flex flex-col md:flex-row md:items-start gap-3">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <h4 className="font-semibold text-lg dark:text-white truncate">{template.food_item}</h4>
+                  {template.is_paused && (
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                      Paused
+                    </span>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-300 mt-1">
+                  <span className="flex items-center gap-1">
+                    <Repeat className="w-4 h-4" />
+                    {describeTemplate(template)}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Clock className="w-4 h-4" />
+                    {formatTemplateTime(template.pickup_start)} – {formatTemplateTime(template.pickup_end)}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Users className="w-4 h-4" />
+                    {template.quantity_total} {template.quantity_unit}
+                  </span>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleTogglePaused(template)}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 dark:text-white"
+                >
+                  {template.is_paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                  {template.is_paused ? 'Resume' : 'Pause'}
+                </button>
+                <button
+                  onClick={() => openForm(template)}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 dark:text-white"
+                >
+                  <Edit className="w-4 h-4" />
+                  Edit
+                </button>
+                <button
+                  onClick={() => setDeleting(template)}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20"
+                  aria-label={`Delete ${template.food_item}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {!template.is_paused && (
+              <div>
+                <p className="text-sm font-medium dark:text-white mb-2">Upcoming</p>
+                <div className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {getUpcomingOccurrences(template, occurrences).map((occurrence) => (
+                    <div key={occurrence.date} className="py-2">
+                      <div className="flex items-center gap-3 text-sm">
+                        <span className={`w-28 font-medium ${occurrence.skipped ? 'line-through text-gray-400' : 'dark:text-white'}`}>
+                          {formatOccurrenceDate(occurrence.date)}
+                        </span>
+                        <span className={`flex-1 min-w-0 truncate ${occurrence.skipped ? 'line-through text-gray-400' : 'text-gray-600 dark:text-gray-300'}`}>
+                          {occurrence.food_item} · {occurrence.quantity_total} {template.quantity_unit} ·{' '}
+                          {formatTemplateTime(occurrence.pickup_start)}–{formatTemplateTime(occurrence.pickup_end)}
+                          {occurrence.edited && <span className="ml-2 text-xs text-blue-600 dark:text-blue-400">edited</span>}
+                        </span>
+                        {occurrence.generated ? (
+                          <span className="text-xs text-green-600 dark:text-green-400">Posted</span>
+                        ) : occurrence.skipped || occurrence.edited ? (
+                          <button
+                            onClick={() => handleRestore(template, occurrence)}
+                            className="flex items-center gap-1 text-xs text-gray-600 hover:text-green-600 dark:text-gray-300"
+                          >
+                            <RotateCcw className="w-3 h-3" />
+                            {occurrence.skipped ? 'Unskip' : 'Reset'}
+                          </button>
+                        ) : null}
+                        {!occurrence.generated && !occurrence.skipped && (
+                          <>
+                            <button
+                              onClick={() => setOccurrenceForm({
+                                templateId: template.id,
+                                date: occurrence.date,
+                                food_item: occurrence.food_item,
+                                quantity_total: String(occurrence.quantity_total),
+                                pickup_start: formatTemplateTime(occurrence.pickup_start),
+                                pickup_end: formatTemplateTime(occurrence.pickup_end),
+                              })}
+                              className="flex items-center gap-1 text-xs text-gray-600 hover:text-green-600 dark:text-gray-300"
+                            >
+                              <Edit className="w-3 h-3" />
+                              Edit
+                            </button>
+                            <button
+                              onClick={() => handleSkip(template, occurrence)}
+                              className="flex items-center gap-1 text-xs text-gray-600 hover:text-red-600 dark:text-gray-300"
+                            >
+                              <SkipForward className="w-3 h-3" />
+                              Skip
+                            </button>
+                          </>
+                        )}
+                      </div>
+
+                      {occurrenceForm?.templateId === template.id && occurrenceForm.date === occurrence.date && (
+                        <form onSubmit={handleSaveOccurrence} className="grid grid-cols-2 md:grid-cols-5 gap-2 mt-2">
+                          <input
+                            type="text"
+                            required
+                            value={occurrenceForm.food_item}
+                            onChange={(e) => setOccurrenceForm({ ...occurrenceForm, food_item: e.target.value })}
+                            className={`${inputClass} md:col-span-2 text-sm`}
+                          />
+                          <input
+                            type="number"
+                            min={1}
+                            step={1}
+                            required
+                            value={occurrenceForm.quantity_total}
+                            onChange={(e) => setOccurrenceForm({ ...occurrenceForm, quantity_total: e.target.value })}
+                            className={`${inputClass} text-sm`}
+                          />
+                          <input
+                            type="time"
+                            required
+                            value={occurrenceForm.pickup_start}
+                            onChange={(e) => setOccurrenceForm({ ...occurrenceForm, pickup_start: e.target.value })}
+                            className={`${inputClass} text-sm`}
+                          />
+                          <input
+                            type="time"
+                            required
+                            value={occurrenceForm.pickup_end}
+                            onChange={(e) => setOccurrenceForm({ ...occurrenceForm, pickup_end: e.target.value })}
+                            className={`${inputClass} text-sm`}
+                          />
+                          <div className="col-span-2 md:col-span-5 flex justify-end gap-2">
+                            <button
+                              type="button"
+                              onClick={() => setOccurrenceForm(null)}
+                              className="px-3 py-1 text-sm rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              type="submit"
+                              className="px-3 py-1 text-sm rounded-lg bg-green-600 hover:bg-green-700 text-white"
+                            >
+                              Save
+                            </button>
+                          </div>
+                        </form>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        ))
+      )}
+
+      <ConfirmDialog
+        isOpen={!!deleting}
+        onCancel={() => setDeleting(null)}
+        onConfirm={confirmDelete}
+        title="Delete Template"
+        message={`Stop posting ${deleting?.food_item ?? ''} automatically? Listings already posted stay up.`}
+        variant="danger"
+      />
+    </div>
+  );
+}
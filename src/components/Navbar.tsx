@@ -1,20 +1,21 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Sprout, Menu, X, Sun, Moon, User, LogOut, Camera, MapPin } from 'lucide-react';
+import { Sprout, Menu, X, Sun, Moon, User, LogOut, Camera, MapPin, ShieldCheck } from 'lucide-react';
 import { useStore } from '../store';
 import { useAuth } from '../hooks/useAuth';
 import { toast } from 'react-hot-toast';
+import NotificationInbox from './NotificationInbox';
 
 interface NavbarProps {
-  currentView: 'recipe-generator' | 'food-map' | 'profile';
-  onViewChange: (view: 'recipe-generator' | 'food-map' | 'profile') => void;
+  currentView: 'recipe-generator' | 'food-map' | 'profile' | 'admin';
+  onViewChange: (view: 'recipe-generator' | 'food-map' | 'profile' | 'admin') => void;
   onAuthClick: () => void;
 }
 
 export default function Navbar({ currentView, onViewChange, onAuthClick }: NavbarProps) {
   const [isOpen, setIsOpen] = React.useState(false);
   const { isDarkMode, toggleDarkMode } = useStore();
-  const { isAuthenticated, signOut, loading: authLoading, initialized } = useAuth();
+  const { isAuthenticated, isPlatformAdmin, signOut, loading: authLoading, initialized } = useAuth();
 
 
   const handleSignOut = async () => {
@@ -113,6 +114,22 @@ export default function Navbar({ currentView, onViewChange, onAuthClick }: Navba
               <User className="w-4 h-4" />
               Profile
             </button>
+
+            {isPlatformAdmin && (
+              <button
+                onClick={() => onViewChange('admin')}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-colors ${
+                  currentView === 'admin'
+                    ? 'bg-orange-100 dark:bg-orange-900 text-orange-600 dark:text-orange-400'
+                    : isDarkMode ? 'text-gray-300 hover:text-orange-400' : 'text-gray-600 hover:text-orange-600'
+                }`}
+              >
+                <ShieldCheck className="w-4 h-4" />
+                Review Queue
+              </button>
+            )}
+
+            {isAuthenticated && <NotificationInbox />}
             
             <motion.button
               whileHover={{ scale: 1.05 }}
@@ -142,6 +159,7 @@ export default function Navbar({ currentView, onViewChange, onAuthClick }: Navba
 
           {/* Mobile Menu Button */}
           <div className="md:hidden flex items-center gap-4">
+            {isAuthenticated && <NotificationInbox />}
             <motion.button
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
@@ -212,6 +230,21 @@ export default function Navbar({ currentView, onViewChange, onAuthClick }: Navba
                 <User className="w-4 h-4" />
                 Profile
               </button>
+
+              {isPlatformAdmin && (
+                <button
+                  onClick={() => {
+                    onViewChange('admin');
+                    setIsOpen(false);
+                  }}
+                  className={`${isDarkMode ? 'text-slate-300 hover:text-orange-400' : 'text-gray-600 hover:text-orange-600'} transition-colors px-4 py-2 font-medium text-left flex items-center gap-2 ${
+                    currentView === 'admin' ? 'bg-orange-100 dark:bg-orange-900 text-orange-600 dark:text-orange-400' : ''
+                  }`}
+                >
+                  <ShieldCheck className="w-4 h-4" />
+                  Review Queue
+                </button>
+              )}
               
               {isAuthenticated ? (
                 <button
@@ -0,0 +1,307 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Bell, BellRing, CheckCheck, Crosshair, Settings, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useStore } from '../store';
+import { useAuth } from '../hooks/useAuth';
+import { useNotifications } from '../hooks/useNotifications';
+import {
+  getNotificationSettings,
+  saveNotificationSettings,
+  NEARBY_RADIUS_OPTIONS_KM,
+  NOTIFICATION_TYPE_LABELS,
+} from '../services/notifications';
+import type { Notification, NotificationSettingsInput } from '../services/notifications';
+import { disablePushAlerts, enablePushAlerts, getPushSubscription, isPushSupported } from '../services/pushNotifications';
+import { DIETARY_TAGS } from '../services/foodSharing';
+
+const DEFAULT_SETTINGS: NotificationSettingsInput = {
+  notify_nearby_listings: false,
+  latitude: null,
+  longitude: null,
+  nearby_radius_km: 5,
+  dietary_preferences: [],
+};
+
+function formatRelativeTime(timestamp: string) {
+  const minutes = Math.round((Date.now() - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.round(hours / 24);
+  return days < 7 ? `${days}d ago` : new Date(timestamp).toLocaleDateString();
+}
+
+export default function NotificationInbox() {
+  const { isDarkMode } = useStore();
+  const { user } = useAuth();
+  const { notifications, unreadCount, loading, markRead, remove } = useNotifications(user?.id ?? null);
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [showSettings, setShowSettings] = React.useState(false);
+  const [settings, setSettings] = React.useState<NotificationSettingsInput>(DEFAULT_SETTINGS);
+  const [savingSettings, setSavingSettings] = React.useState(false);
+  const [pushEnabled, setPushEnabled] = React.useState(false);
+  const [updatingPush, setUpdatingPush] = React.useState(false);
+  const panelRef = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  React.useEffect(() => {
+    if (!showSettings || !user) return;
+    getNotificationSettings(user.id).then(saved => {
+      setSettings(saved ? {
+        notify_nearby_listings: saved.notify_nearby_listings,
+        latitude: saved.latitude,
+        longitude: saved.longitude,
+        nearby_radius_km: saved.nearby_radius_km,
+        dietary_preferences: saved.dietary_preferences,
+      } : DEFAULT_SETTINGS);
+    });
+    getPushSubscription().then(subscription => setPushEnabled(!!subscription));
+  }, [showSettings, user]);
+
+  const handleOpenNotification = (notification: Notification) => {
+    if (!notification.read_at) {
+      markRead([notification.id]).catch(() => toast.error('Failed to mark notification as read'));
+    }
+  };
+
+  const handleRemove = (notification: Notification) => {
+    remove(notification).catch(() => toast.error('Failed to delete notification'));
+  };
+
+  const handleMarkAllRead = () => {
+    markRead().catch(() => toast.error('Failed to mark notifications as read'));
+  };
+
+  const handleUseLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error('Location is not available in this browser');
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        setSettings(prev => ({
+          ...prev,
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+        }));
+        toast.success('Location updated');
+      },
+      () => toast.error('Could not get your location')
+    );
+  };
+
+  const toggleDietaryPreference = (tag: string) => {
+    setSettings(prev => ({
+      ...prev,
+      dietary_preferences: prev.dietary_preferences.includes(tag)
+        ? prev.dietary_preferences.filter(t => t !== tag)
+        : [...prev.dietary_preferences, tag],
+    }));
+  };
+
+  const handleTogglePush = async () => {
+    setUpdatingPush(true);
+    try {
+      if (pushEnabled) {
+        await disablePushAlerts();
+        setPushEnabled(false);
+        toast.success('Push alerts turned off for this device');
+      } else {
+        await enablePushAlerts();
+        setPushEnabled(true);
+        toast.success('Push alerts turned on for this device');
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update push alerts');
+    } finally {
+      setUpdatingPush(false);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    if (!user) return;
+    setSavingSettings(true);
+    try {
+      await saveNotificationSettings(user.id, settings);
+      toast.success('Notification settings saved');
+      setShowSettings(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save notification settings');
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const hasLocation = settings.latitude !== null && settings.longitude !== null;
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <motion.button
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        onClick={() => setIsOpen(!isOpen)}
+        className={`relative p-2 rounded-full ${isDarkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-100 text-gray-600'}`}
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-semibold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </motion.button>
+
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="absolute right-0 mt-2 w-80 sm:w-96 max-w-[calc(100vw-2rem)] bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700 overflow-hidden"
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="font-semibold dark:text-white">Notifications</h3>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleMarkAllRead}
+                disabled={unreadCount === 0}
+                className="flex items-center gap-1 text-sm text-green-600 dark:text-green-400 hover:underline disabled:opacity-50 disabled:no-underline"
+              >
+                <CheckCheck className="w-4 h-4" />
+                Mark all read
+              </button>
+              <button
+                onClick={() => setShowSettings(!showSettings)}
+                className={`p-1 rounded ${showSettings ? 'text-green-600 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'} hover:bg-gray-100 dark:hover:bg-gray-700`}
+                aria-label="Notification settings"
+              >
+                <Settings className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {showSettings && (
+            <div className="px-4 py-3 space-y-3 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40">
+              <label className="flex items-center gap-2 text-sm dark:text-gray-200">
+                <input
+                  type="checkbox"
+                  checked={settings.notify_nearby_listings}
+                  onChange={e => setSettings(prev => ({ ...prev, notify_nearby_listings: e.target.checked }))}
+                  className="rounded text-green-600 focus:ring-green-500"
+                />
+                Tell me about new food nearby
+              </label>
+              <div className="flex items-center gap-2">
+                <select
+                  value={settings.nearby_radius_km}
+                  onChange={e => setSettings(prev => ({ ...prev, nearby_radius_km: Number(e.target.value) }))}
+                  className="px-2 py-1 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                >
+                  {NEARBY_RADIUS_OPTIONS_KM.map(km => (
+                    <option key={km} value={km}>Within {km} km</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleUseLocation}
+                  className="flex items-center gap-1 px-2 py-1 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  <Crosshair className="w-4 h-4" />
+                  {hasLocation ? 'Update location' : 'Use my location'}
+                </button>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Only listings that are</p>
+                <div className="flex flex-wrap gap-1">
+                  {DIETARY_TAGS.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => toggleDietaryPreference(tag)}
+                      className={`px-2 py-0.5 text-xs rounded-full border transition-colors ${
+                        settings.dietary_preferences.includes(tag)
+                          ? 'bg-green-600 border-green-600 text-white'
+                          : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      {tag}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {isPushSupported() && (
+                <button
+                  onClick={handleTogglePush}
+                  disabled={updatingPush}
+                  className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200 hover:text-green-600 dark:hover:text-green-400 disabled:opacity-50"
+                >
+                  <BellRing className="w-4 h-4" />
+                  {pushEnabled ? 'Turn off push alerts on this device' : 'Send push alerts to this device'}
+                </button>
+              )}
+              <button
+                onClick={handleSaveSettings}
+                disabled={savingSettings}
+                className="w-full bg-green-600 hover:bg-green-700 text-white text-sm px-3 py-2 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {savingSettings ? 'Saving...' : 'Save settings'}
+              </button>
+            </div>
+          )}
+
+          <div className="max-h-96 overflow-y-auto">
+            {loading && notifications.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-green-600"></div>
+              </div>
+            ) : notifications.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                You're all caught up
+              </p>
+            ) : (
+              notifications.map(notification => (
+                <div
+                  key={notification.id}
+                  onClick={() => handleOpenNotification(notification)}
+                  className={`group flex gap-3 px-4 py-3 border-b last:border-b-0 border-gray-100 dark:border-gray-700 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 ${
+                    notification.read_at ? '' : 'bg-green-50 dark:bg-green-900/20'
+                  }`}
+                >
+                  <span className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${notification.read_at ? 'bg-transparent' : 'bg-green-500'}`} />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400">
+                      <span>{NOTIFICATION_TYPE_LABELS[notification.type]}</span>
+                      <span>{formatRelativeTime(notification.created_at)}</span>
+                    </div>
+                    <p className="text-sm font-medium dark:text-white">{notification.title}</p>
+                    {notification.body && (
+                      <p className="text-sm text-gray-600 dark:text-gray-300">{notification.body}</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      handleRemove(notification);
+                    }}
+                    className="self-start p-1 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                    aria-label="Delete notification"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </motion.div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Camera, CheckCircle, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { verifyPickup } from '../services/foodSharing';
+import type { Database } from '../types/database';
+
+type Claim = Database['public']['Tables']['claims']['Row'];
+
+// BarcodeDetector is not in the TS DOM lib yet and only ships in Chromium browsers
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorInstance;
+
+const getBarcodeDetector = () =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+interface PickupVerifierProps {
+  restaurantId: string;
+  onVerified: (claim: Claim) => void;
+}
+
+export default function PickupVerifier({ restaurantId, onVerified }: PickupVerifierProps) {
+  const [code, setCode] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canScan = typeof window !== 'undefined' && !!getBarcodeDetector() && !!navigator.mediaDevices;
+
+  const submit = async (input: string) => {
+    if (!input.trim() || verifying) return;
+
+    try {
+      setVerifying(true);
+      toast.loading('Verifying pickup...', { id: 'verifying-pickup' });
+      const claim = await verifyPickup(restaurantId, input);
+      toast.success('Pickup verified! Enjoy the handoff 🎉', { id: 'verifying-pickup' });
+      setCode('');
+      onVerified(claim);
+    } catch (error) {
+      console.error('Error verifying pickup:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to verify pickup';
+      toast.error(errorMessage, { id: 'verifying-pickup' });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  useEffect(() => {
+    const BarcodeDetector = getBarcodeDetector();
+    if (!scanning || !BarcodeDetector) return;
+
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let cancelled = false;
+    const detector = new BarcodeDetector({ formats: ['qr_code'] });
+
+    const scan = async () => {
+      if (cancelled || !videoRef.current) return;
+      try {
+        const [barcode] = await detector.detect(videoRef.current);
+        if (barcode?.rawValue) {
+          setScanning(false);
+          submit(barcode.rawValue);
+          return;
+        }
+      } catch {
+        // Frames can fail to decode while the camera warms up
+      }
+      frame = requestAnimationFrame(scan);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then((mediaStream) => {
+        stream = mediaStream;
+        if (cancelled || !videoRef.current) return;
+        videoRef.current.srcObject = mediaStream;
+        return videoRef.current.play().then(scan);
+      })
+      .catch((error) => {
+        console.error('Error starting camera:', error);
+        toast.error('Could not access the camera');
+        setScanning(false);
+      });
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [scanning]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submit(code);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <h4 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+        Verify Pickup
+      </h4>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        Ask for the pickup code shown in the customer's profile, or scan their QR code
+      </p>
+
+      <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          placeholder="e.g. K7M2QX"
+          autoComplete="off"
+          maxLength={64}
+          className="flex-1 px-3 py-2 font-mono tracking-widest border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        />
+        <button
+          type="submit"
+          disabled={verifying || !code.trim()}
+          className="inline-flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors text-sm"
+        >
+          <CheckCircle className="w-4 h-4" />
+          Verify
+        </button>
+        {canScan && (
+          <button
+            type="button"
+            onClick={() => setScanning(!scanning)}
+            className="inline-flex items-center justify-center gap-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 px-4 py-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-sm"
+          >
+            {scanning ? <X className="w-4 h-4" /> : <Camera className="w-4 h-4" />}
+            {scanning ? 'Stop Scanning' : 'Scan QR'}
+          </button>
+        )}
+      </form>
+
+      {scanning && (
+        <video
+          ref={videoRef}
+          muted
+          playsInline
+          className="mt-4 w-full max-w-sm mx-auto rounded-lg bg-black"
+        />
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { toast } from 'react-hot-toast';
-import { generateRecipe } from '../services/ai';
+import { describeRequestProgress, generateRecipe } from '../services/ai';
+import type { RequestPriority } from '../services/llm';
 import { youtubeService, type YouTubeVideo } from '../services/youtube';
 import { ChefHat, Clock, ArrowRight, Check, X, Utensils, Users, Timer, CircleDashed, Play, AlarmClock, Flame, Info as LucideInfo, BarChart3, Save, Dumbbell, Apple } from 'lucide-react';
 import { useStore } from '../store';
@@ -9,27 +10,75 @@ import { StarIcon } from '@heroicons/react/24/solid';
 import VideoCard from './VideoCard';
 import LanguageSelector from './LanguageSelector';
 import { translationService } from '../services/translationService';
+import type { NutritionFacts, RecipeDraft, RecipeIngredient, StructuredRecipe } from '../types';
 
 interface Props {
   ingredients?: string[];
 }
 
-interface ParsedRecipe {
-  name: string;
-  description?: string;
-  prepTime: string;
-  cookTime: string;
-  servings: string;
-  ingredients: string[];
-  instructions: string[];
-  tips: string[];
-  nutrition: string[];
+const NUTRITION_ROWS: { key: keyof NutritionFacts; label: string; unit: string }[] = [
+  { key: 'calories', label: 'Calories', unit: 'kcal' },
+  { key: 'proteinGrams', label: 'Protein', unit: 'g' },
+  { key: 'carbsGrams', label: 'Carbs', unit: 'g' },
+  { key: 'fatGrams', label: 'Fat', unit: 'g' },
+];
+
+const formatMinutes = (minutes: number) => `${Math.round(minutes)} min`;
+
+const formatIngredient = ({ name, quantity, unit, note }: RecipeIngredient) => {
+  const amount = [quantity !== null ? String(Number(quantity.toFixed(2))) : null, unit]
+    .filter(Boolean)
+    .join(' ');
+  return `${amount ? `${amount} ` : ''}${name}${note ? `, ${note}` : ''}`;
+};
+
+function NutritionIcon({ nutrient }: { nutrient: keyof NutritionFacts }) {
+  switch (nutrient) {
+    case 'calories':
+      return (
+        <motion.div
+          animate={{ rotate: [0, 10, 0] }}
+          transition={{ duration: 2, repeat: Infinity, ease: "easeInOut" }}
+        >
+          <Flame className="h-5 w-5 text-orange-500" />
+        </motion.div>
+      );
+    case 'proteinGrams':
+      return (
+        <motion.div
+          animate={{ scale: [1, 1.1, 1] }}
+          transition={{ duration: 2, repeat: Infinity, ease: "easeInOut" }}
+        >
+          <Dumbbell className="h-5 w-5 text-purple-500" />
+        </motion.div>
+      );
+    case 'carbsGrams':
+      return (
+        <motion.div
+          animate={{ y: [0, -3, 0] }}
+          transition={{ duration: 2, repeat: Infinity, ease: "easeInOut" }}
+        >
+          <Apple className="h-5 w-5 text-yellow-500" />
+        </motion.div>
+      );
+    case 'fatGrams':
+      return (
+        <motion.div
+          animate={{ rotate: 360 }}
+          transition={{ duration: 4, repeat: Infinity, ease: "linear" }}
+        >
+          <CircleDashed className="h-5 w-5 text-blue-500" />
+        </motion.div>
+      );
+  }
 }
 
 export default function RecipeGenerator({ ingredients = [] }: Props) {
-  const [recipe, setRecipe] = useState<string>('');
-  const [parsedRecipe, setParsedRecipe] = useState<ParsedRecipe | null>(null);
+  const [recipe, setRecipe] = useState<StructuredRecipe | null>(null);
+  // The recipe as it streams in, shown in place of `recipe` until it completes
+  const [draft, setDraft] = useState<RecipeDraft | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [generationStatus, setGenerationStatus] = useState<string | null>(null);
   const [rating, setRating] = useState(0);
   const [selectedIngredients, setSelectedIngredients] = useState<string[]>([]);
   const [generatingFor, setGeneratingFor] = useState<string | null>(null);
@@ -37,9 +86,13 @@ export default function RecipeGenerator({ ingredients = [] }: Props) {
   const [loadingVideos, setLoadingVideos] = useState(false);
   const [selectedLanguage, setSelectedLanguage] = useState('en');
   const [isTranslating, setIsTranslating] = useState(false);
-  const [translatedRecipe, setTranslatedRecipe] = useState<ParsedRecipe | null>(null);
+  const [translatedRecipe, setTranslatedRecipe] = useState<StructuredRecipe | null>(null);
   const { currentAnalysis, setCurrentAnalysis, addMealToHistory } = useStore();
   const autoGeneratedForRef = useRef<string | null>(null);
+  const generationRef = useRef<AbortController | null>(null);
+
+  // Stop streaming when the generator is closed
+  useEffect(() => () => generationRef.current?.abort(), []);
 
   // Update selected ingredients when currentAnalysis changes
   useEffect(() => {
@@ -61,139 +114,16 @@ export default function RecipeGenerator({ ingredients = [] }: Props) {
     autoGeneratedForRef.current = fingerprint;
 
     const suggestion = currentAnalysis.suggestions[0];
-    const ings = [...currentAnalysis.ingredients];
-
-    const autoGenerate = async () => {
-      setIsLoading(true);
-      setGeneratingFor(suggestion);
-      try {
-        const promptIngredients = [...ings, `dish name: ${suggestion}`];
-        const generatedRecipe = await generateRecipe(promptIngredients);
-        setRecipe(generatedRecipe);
-        setCurrentAnalysis({ ...currentAnalysis, generatedRecipe });
-        searchCookingVideos(generatedRecipe, suggestion);
-        toast.success('Recipe generated successfully!');
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Failed to generate recipe';
-        toast.error(errorMessage);
-      } finally {
-        setIsLoading(false);
-        setGeneratingFor(null);
-      }
-    };
-
-    autoGenerate();
+    // Nobody asked for this one yet, so clicks jump ahead of it in the AI queue
+    runGeneration([...currentAnalysis.ingredients, `dish name: ${suggestion}`], suggestion, 'background');
   }, [currentAnalysis]);
 
-  // Parse recipe text into structured format whenever recipe changes
-  useEffect(() => {
-    if (!recipe) {
-      setParsedRecipe(null);
-      return;
-    }
-
-    const parseRecipeText = (text: string): ParsedRecipe => {
-      // Initialize default structure
-      const parsed: ParsedRecipe = {
-        name: 'Custom Recipe',
-        prepTime: 'N/A',
-        cookTime: 'N/A',
-        servings: '2-4',
-        ingredients: [],
-        instructions: [],
-        tips: [],
-        nutrition: []
-      };
-
-      try {
-        // Extract recipe name
-        const nameMatch = text.match(/Recipe Name:?\s*([^\n]+)/i);
-        if (nameMatch && nameMatch[1]) parsed.name = nameMatch[1].trim();
-
-        // Extract prep time
-        const prepMatch = text.match(/Preparation Time:?\s*([^\n]+)/i);
-        if (prepMatch && prepMatch[1]) parsed.prepTime = prepMatch[1].trim();
-
-        // Extract cook time
-        const cookMatch = text.match(/Cooking Time:?\s*([^\n]+)/i);
-        if (cookMatch && cookMatch[1]) parsed.cookTime = cookMatch[1].trim();
-
-        // Extract servings
-        const servingsMatch = text.match(/Servings:?\s*([^\n]+)/i);
-        if (servingsMatch && servingsMatch[1]) parsed.servings = servingsMatch[1].trim();
-
-        // Extract ingredients section
-        const ingredientsSection = text.match(/Ingredients:?\s*([\s\S]*?)(?=Instructions:|$)/i);
-        if (ingredientsSection && ingredientsSection[1]) {
-          parsed.ingredients = ingredientsSection[1]
-            .split('\n')
-            .map(line => line.trim())
-            .filter(line => line.startsWith('-') || line.match(/^\d+\./))
-            .map(line => line.replace(/^-|\d+\.\s*/, '').trim())
-            .filter(Boolean);
-        }
-
-        // Extract instructions section
-        const instructionsSection = text.match(/Instructions:?\s*([\s\S]*?)(?=Tips:|Nutrition Facts:|$)/i);
-        if (instructionsSection && instructionsSection[1]) {
-          parsed.instructions = instructionsSection[1]
-            .split('\n')
-            .map(line => line.trim())
-            .filter(line => line.match(/^\d+\./))
-            .map(line => {
-              // Remove the leading number and period
-              let cleanLine = line.replace(/^\d+\.\s*/, '').trim();
-              
-              // Remove any markdown ** markers that may be present
-              // This will be handled during rendering
-              return cleanLine;
-            })
-            .filter(Boolean);
-        }
-
-        // Extract tips section
-        const tipsSection = text.match(/Tips:?\s*([\s\S]*?)(?=Nutrition Facts:|$)/i);
-        if (tipsSection && tipsSection[1]) {
-          parsed.tips = tipsSection[1]
-            .split('\n')
-            .map(line => line.trim())
-            .filter(line => line.startsWith('-'))
-            .map(line => line.replace(/^-\s*/, '').trim())
-            .filter(Boolean);
-        }
-
-        // Extract nutrition section
-        const nutritionSection = text.match(/Nutrition Facts:?\s*([\s\S]*?)(?=$)/i);
-        if (nutritionSection && nutritionSection[1]) {
-          parsed.nutrition = nutritionSection[1]
-            .split('\n')
-            .map(line => line.trim())
-            .filter(line => line.startsWith('-') || line.match(/^\d+\./) || line.includes(':'))
-            .map(line => {
-              // Remove leading dash or bullet if present
-              let cleanLine = line.replace(/^[-•*\d+\.]\s*/, '').trim();
-              
-              // Make sure items with colons are formatted consistently
-              if (cleanLine.includes(':')) {
-                const parts = cleanLine.split(':', 2);
-                return `${parts[0].trim()}: ${parts[1].trim()}`;
-              }
-              
-              return cleanLine;
-            })
-            .filter(Boolean);
-        }
-      } catch (error) {
-        console.error('Error parsing recipe:', error);
-        // If parsing fails, provide at least the raw text
-        parsed.instructions = [recipe];
-      }
-
-      return parsed;
-    };
-
-    setParsedRecipe(parseRecipeText(recipe));
-  }, [recipe]);
+  // A new recipe starts out untranslated
+  const showRecipe = (nextRecipe: StructuredRecipe) => {
+    setRecipe(nextRecipe);
+    setTranslatedRecipe(null);
+    setSelectedLanguage('en');
+  };
 
   // Translation functionality
   const handleLanguageChange = async (languageCode: string) => {
@@ -206,32 +136,34 @@ export default function RecipeGenerator({ ingredients = [] }: Props) {
       return;
     }
     
-    if (!parsedRecipe) return;
+    if (!recipe) return;
     
     setIsTranslating(true);
     try {
-      const translatedName = await translationService.translateText(parsedRecipe.name, languageCode);
+      const translatedName = await translationService.translateText(recipe.name, languageCode);
       const translatedIngredients = await Promise.all(
-        parsedRecipe.ingredients.map(ingredient => 
-          translationService.translateText(ingredient, languageCode)
-        )
+        recipe.ingredients.map(async ingredient => ({
+          ...ingredient,
+          name: await translationService.translateText(ingredient.name, languageCode)
+        }))
       );
-      const translatedInstructions = await Promise.all(
-        parsedRecipe.instructions.map(instruction => 
-          translationService.translateText(instruction, languageCode)
-        )
+      const translatedSteps = await Promise.all(
+        recipe.steps.map(async step => ({
+          ...step,
+          instruction: await translationService.translateText(step.instruction, languageCode)
+        }))
       );
       const translatedTips = await Promise.all(
-        parsedRecipe.tips.map(tip => 
+        recipe.tips.map(tip => 
           translationService.translateText(tip, languageCode)
         )
       );
       
       setTranslatedRecipe({
-        ...parsedRecipe,
+        ...recipe,
         name: translatedName,
         ingredients: translatedIngredients,
-        instructions: translatedInstructions,
+        steps: translatedSteps,
         tips: translatedTips
       });
     } catch (error) {
@@ -244,9 +176,11 @@ export default function RecipeGenerator({ ingredients = [] }: Props) {
 
   // Get current recipe to display
   const getCurrentRecipe = () => {
-    return selectedLanguage === 'en' ? parsedRecipe : (translatedRecipe || parsedRecipe);
+    return selectedLanguage === 'en' ? recipe : (translatedRecipe || recipe);
   };
 
+  const displayedRecipe: RecipeDraft | null = draft ?? getCurrentRecipe();
+
   const toggleIngredient = (ingredient: string) => {
     if (selectedIngredients.includes(ingredient)) {
       setSelectedIngredients(selectedIngredients.filter((i: string) => i !== ingredient));
@@ -256,18 +190,9 @@ export default function RecipeGenerator({ ingredients = [] }: Props) {
   };
 
   // Function to search for cooking videos
-  const searchCookingVideos = async (recipeText: string, dishName?: string) => {
+  const searchCookingVideos = async (recipeName: string) => {
     try {
       setLoadingVideos(true);
-      
-      // Extract recipe name from the generated text or use dish name
-      let recipeName = dishName || 'recipe';
-      if (recipeText) {
-        const nameMatch = recipeText.match(/Recipe Name:?\s*([^\n]+)/i);
-        if (nameMatch && nameMatch[1]) {
-          recipeName = nameMatch[1].trim();
-        }
-      }
 
       // Search for cooking videos
       const videoResults = await youtubeService.searchCookingVideos(
@@ -285,28 +210,51 @@ export default function RecipeGenerator({ ingredients = [] }: Props) {
     }
   };
 
-  const handleGenerateRecipe = async (specificDish?: string) => {
-    if (!selectedIngredients || selectedIngredients.length === 0) {
-      toast.error('Please select at least one ingredient');
-      return;
-    }
+  const endGeneration = () => {
+    setIsLoading(false);
+    setGeneratingFor(null);
+    setDraft(null);
+    setGenerationStatus(null);
+  };
+
+  // Streams a recipe into `draft`. Starting another generation or cancelling
+  // aborts the one in flight.
+  const runGeneration = async (
+    promptIngredients: string[],
+    dishName: string | null,
+    priority: RequestPriority = 'user'
+  ) => {
+    generationRef.current?.abort();
+    const controller = new AbortController();
+    generationRef.current = controller;
 
     setIsLoading(true);
-    if (specificDish) {
-      setGeneratingFor(specificDish);
-    } else {
-      setGeneratingFor(null);
-    }
+    setGeneratingFor(dishName);
+    setDraft(null);
+    setGenerationStatus(null);
 
     try {
-      // If generating for a specific dish, include it in the prompt
-      const promptIngredients = specificDish 
-        ? [...selectedIngredients, `dish name: ${specificDish}`]
-        : selectedIngredients;
-        
-      const generatedRecipe = await generateRecipe(promptIngredients);
-      setRecipe(generatedRecipe);
-      
+      const generatedRecipe = await generateRecipe(promptIngredients, {
+        priority,
+        signal: controller.signal,
+        onProgress: progress => {
+          if (controller.signal.aborted) return;
+          if (progress.type === 'draft') {
+            setDraft(progress.draft);
+            setGenerationStatus(null);
+          } else if (progress.type === 'retrying' || progress.type === 'repairing') {
+            // Both start the recipe over
+            setDraft(null);
+            setGenerationStatus(
+              progress.type === 'retrying' ? describeRequestProgress(progress) : 'Tidying up the recipe…'
+            );
+          } else {
+            setGenerationStatus(describeRequestProgress(progress));
+          }
+        }
+      });
+      showRecipe(generatedRecipe);
+
       // Store the generated recipe in state
       if (currentAnalysis) {
         setCurrentAnalysis({
@@ -314,19 +262,42 @@ export default function RecipeGenerator({ ingredients = [] }: Props) {
           generatedRecipe: generatedRecipe
         });
       }
-      
+
       // Search for cooking videos after recipe generation
-      searchCookingVideos(generatedRecipe, specificDish);
-      
+      searchCookingVideos(generatedRecipe.name);
+
       toast.success('Recipe generated successfully!');
     } catch (error) {
+      if (controller.signal.aborted) return;
       const errorMessage = error instanceof Error ? error.message : 'Failed to generate recipe';
       toast.error(errorMessage);
       console.error('Recipe generation error:', error);
     } finally {
-      setIsLoading(false);
-      setGeneratingFor(null);
+      if (generationRef.current === controller) {
+        generationRef.current = null;
+        endGeneration();
+      }
+    }
+  };
+
+  const cancelGeneration = () => {
+    generationRef.current?.abort();
+    generationRef.current = null;
+    endGeneration();
+    toast('Recipe generation cancelled');
+  };
+
+  const handleGenerateRecipe = (specificDish?: string) => {
+    if (!selectedIngredients || selectedIngredients.length === 0) {
+      toast.error('Please select at least one ingredient');
+      return;
     }
+
+    // If generating for a specific dish, include it in the prompt
+    const promptIngredients = specificDish 
+      ? [...selectedIngredients, `dish name: ${specificDish}`]
+      : selectedIngredients;
+    runGeneration(promptIngredients, specificDish ?? null);
   };
 
   const handleRating = (stars: number) => {
@@ -335,13 +306,13 @@ export default function RecipeGenerator({ ingredients = [] }: Props) {
   };
 
   const handleSaveRecipe = () => {
-    if (!parsedRecipe) return;
+    if (!recipe) return;
 
     const meal = {
       id: Date.now().toString(),
       date: new Date().toISOString(),
       ingredients: selectedIngredients,
-      recipes: [parsedRecipe.name],
+      recipes: [recipe.name],
       wasteReduced: selectedIngredients.length * 0.1, // Estimate based on ingredients used
     };
 
@@ -479,7 +450,7 @@ export default function RecipeGenerator({ ingredients = [] }: Props) {
             <h2 className="text-2xl font-bold dark:text-white">Custom Recipe Generator</h2>
             
             {/* Language Selector */}
-            {parsedRecipe && translationService.isAvailable() && (
+            {recipe && !draft && translationService.isAvailable() && (
               <LanguageSelector
                 currentLanguage={selectedLanguage}
                 onLanguageChange={handleLanguageChange}
@@ -489,7 +460,7 @@ export default function RecipeGenerator({ ingredients = [] }: Props) {
             )}
           
             {/* Star Rating */}
-            {recipe && (
+            {recipe && !draft && (
               <div className="flex items-center space-x-2">
                 <div className="flex space-x-1">
                   {[1, 2, 3, 4, 5].map((star) => (
@@ -536,6 +507,23 @@ export default function RecipeGenerator({ ingredients = [] }: Props) {
             )}
           </button>
 
+          {/* Generation progress */}
+          {isLoading && (
+            <div className="mb-4 flex items-center gap-3 p-3 bg-green-50 border border-green-200 rounded-lg dark:bg-green-900/20 dark:border-green-800">
+              <div className="animate-spin rounded-full h-4 w-4 border-2 border-green-500 border-t-transparent flex-shrink-0"></div>
+              <span className="flex-grow text-sm text-green-800 dark:text-green-200">
+                {generationStatus ?? (draft ? 'Writing recipe…' : `Generating ${generatingFor ?? 'recipe'}…`)}
+              </span>
+              <button
+                onClick={cancelGeneration}
+                className="flex items-center gap-1 px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors dark:bg-gray-700 dark:text-gray-100 dark:border-gray-600 dark:hover:bg-gray-600"
+              >
+                <X className="w-4 h-4" />
+                Cancel
+              </button>
+            </div>
+          )}
+
           {/* Ingredients List */}
           {selectedIngredients.length > 0 && (
             <div className="mb-6">
@@ -554,7 +542,7 @@ export default function RecipeGenerator({ ingredients = [] }: Props) {
           )}
 
           {/* Styled Recipe Display */}
-          {parsedRecipe && (
+          {displayedRecipe && (
             <motion.div 
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
@@ -573,7 +561,10 @@ export default function RecipeGenerator({ ingredients = [] }: Props) {
               <div className="bg-white rounded-xl shadow-md overflow-hidden dark:bg-gray-800 border border-gray-100 dark:border-gray-700 transition-colors duration-200">
                 {/* Recipe Header */}
                 <div className="bg-green-600 px-6 py-4 text-white dark:bg-green-700 transition-colors duration-200">
-                  <h3 className="text-2xl font-bold">{getCurrentRecipe()?.name}</h3>
+                  <h3 className="text-2xl font-bold">{displayedRecipe.name ?? generatingFor ?? 'Your recipe'}</h3>
+                  {displayedRecipe.description && (
+                    <p className="mt-1 text-sm text-green-50">{displayedRecipe.description}</p>
+                  )}
                 </div>
                 
                 {/* Recipe Info */}
@@ -583,17 +574,17 @@ export default function RecipeGenerator({ ingredients = [] }: Props) {
                     <div className="flex flex-col items-center bg-green-50 rounded-lg p-3 dark:bg-gray-700/50 transition-colors duration-200">
                       <AlarmClock className="h-6 w-6 text-green-600 mb-1 dark:text-green-400" />
                       <span className="text-xs text-gray-500 dark:text-gray-400">Prep Time</span>
-                      <span className="font-medium text-gray-800 dark:text-gray-200">{getCurrentRecipe()?.prepTime}</span>
+                      <span className="font-medium text-gray-800 dark:text-gray-200">{displayedRecipe.prepTimeMinutes !== undefined ? formatMinutes(displayedRecipe.prepTimeMinutes) : '…'}</span>
                     </div>
                     <div className="flex flex-col items-center bg-green-50 rounded-lg p-3 dark:bg-gray-700/50 transition-colors duration-200">
                       <Flame className="h-6 w-6 text-green-600 mb-1 dark:text-green-400" />
                       <span className="text-xs text-gray-500 dark:text-gray-400">Cook Time</span>
-                      <span className="font-medium text-gray-800 dark:text-gray-200">{getCurrentRecipe()?.cookTime}</span>
+                      <span className="font-medium text-gray-800 dark:text-gray-200">{displayedRecipe.cookTimeMinutes !== undefined ? formatMinutes(displayedRecipe.cookTimeMinutes) : '…'}</span>
                     </div>
                     <div className="flex flex-col items-center bg-green-50 rounded-lg p-3 dark:bg-gray-700/50 transition-colors duration-200">
                       <Users className="h-6 w-6 text-green-600 mb-1 dark:text-green-400" />
                       <span className="text-xs text-gray-500 dark:text-gray-400">Servings</span>
-                      <span className="font-medium text-gray-800 dark:text-gray-200">{getCurrentRecipe()?.servings}</span>
+                      <span className="font-medium text-gray-800 dark:text-gray-200">{displayedRecipe.servings ?? '…'}</span>
                     </div>
                     <div className="flex flex-col items-center bg-green-50 rounded-lg p-3 dark:bg-gray-700/50 transition-colors duration-200">
                       <Utensils className="h-6 w-6 text-green-600 mb-1 dark:text-green-400" />
@@ -609,13 +600,13 @@ export default function RecipeGenerator({ ingredients = [] }: Props) {
                       Ingredients
                     </h4>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                      {getCurrentRecipe()?.ingredients.map((ingredient, index) => (
+                      {displayedRecipe.ingredients?.map((ingredient, index) => (
                         <div 
                           key={index} 
                           className="flex items-center gap-2 p-2 bg-gray-50 rounded-md dark:bg-gray-700 transition-colors duration-200"
                         >
                           <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                          <span className="text-gray-800 dark:text-gray-200">{ingredient}</span>
+                          <span className="text-gray-800 dark:text-gray-200">{formatIngredient(ingredient)}</span>
                         </div>
                       )) || []}
                     </div>
@@ -628,47 +619,30 @@ export default function RecipeGenerator({ ingredients = [] }: Props) {
                       Instructions
                     </h4>
                     <div className="space-y-4">
-                      {getCurrentRecipe()?.instructions.map((instruction, index) => {
-                        // Clean up the instruction text by removing markdown formatting
-                        let cleanInstruction = instruction.replace(/\*\*/g, '');
-                        
-                        // Check for a title/summary at the beginning
-                        let title = '';
-                        let details = cleanInstruction;
-                        
-                        // Look for a colon to separate title from details
-                        const colonPos = cleanInstruction.indexOf(':');
-                        if (colonPos > 0) {
-                          title = cleanInstruction.substring(0, colonPos).trim();
-                          details = cleanInstruction.substring(colonPos + 1).trim();
-                        }
-                        
-                        return (
-                          <div 
-                            key={index} 
-                            className="flex gap-3 items-start"
-                          >
-                            <div className="flex-shrink-0 w-7 h-7 rounded-full bg-green-100 flex items-center justify-center text-green-800 font-bold text-sm dark:bg-green-900 dark:text-green-200">
-                              {index + 1}
-                            </div>
-                            <div className="text-gray-800 dark:text-gray-200">
-                              {title ? (
-                                <>
-                                  <span className="font-semibold">{title}:</span>{' '}
-                                  <span>{details}</span>
-                                </>
-                              ) : (
-                                <span>{cleanInstruction}</span>
-                              )}
-                            </div>
+                      {displayedRecipe.steps?.map((step, index) => (
+                        <div 
+                          key={index} 
+                          className="flex gap-3 items-start"
+                        >
+                          <div className="flex-shrink-0 w-7 h-7 rounded-full bg-green-100 flex items-center justify-center text-green-800 font-bold text-sm dark:bg-green-900 dark:text-green-200">
+                            {index + 1}
                           </div>
-                        );
-                      }) || []}
+                          <div className="flex-grow text-gray-800 dark:text-gray-200">
+                            {step.instruction}
+                          </div>
+                          {step.durationMinutes !== null && (
+                            <span className="flex-shrink-0 flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                              <Clock className="w-3.5 h-3.5" />
+                              {formatMinutes(step.durationMinutes)}
+                            </span>
+                          )}
+                        </div>
+                      )) || []}
                     </div>
                   </div>
                   
                   {/* Tips */}
-                  {getCurrentRecipe()?.tips && getCurrentRecipe()!.tips.length > 0 && (
+                  {displayedRecipe.tips && displayedRecipe.tips.length > 0 && (
                     <div className="mb-8">
                       <h4 className="text-lg font-bold mb-4 flex items-center gap-2 dark:text-white">
                         <LucideInfo className="h-5 w-5 text-green-600 dark:text-green-400" />
@@ -676,7 +650,7 @@ export default function RecipeGenerator({ ingredients = [] }: Props) {
                       </h4>
                       <div className="bg-yellow-50 p-4 rounded-lg dark:bg-yellow-900/20 dark:border dark:border-yellow-900/30 transition-colors duration-200">
                         <ul className="space-y-2">
-                          {getCurrentRecipe()?.tips.map((tip, index) => (
+                          {displayedRecipe.tips.map((tip, index) => (
                             <li 
                               key={index} 
                               className="flex items-start gap-2 text-gray-800 dark:text-gray-200"
@@ -691,7 +665,7 @@ export default function RecipeGenerator({ ingredients = [] }: Props) {
                   )}
 
                   {/* Nutrition */}
-                  {getCurrentRecipe()?.nutrition && getCurrentRecipe()!.nutrition.length > 0 && (
+                  {NUTRITION_ROWS.some(row => typeof displayedRecipe.nutrition?.[row.key] === 'number') && (
                     <div>
                       <h4 className="text-lg font-bold mb-4 flex items-center gap-2 dark:text-white">
                         <BarChart3 className="h-5 w-5 text-green-600 dark:text-green-400" />
@@ -699,114 +673,36 @@ export default function RecipeGenerator({ ingredients = [] }: Props) {
                       </h4>
                       <div className="bg-blue-50 p-5 rounded-lg dark:bg-blue-900/20 dark:border dark:border-blue-900/30 transition-colors duration-200">
                         <div className="space-y-4">
-                          {getCurrentRecipe()?.nutrition.map((item, index) => {
-                            // Clean up the item from any markdown formatting
-                            const cleanItem = item.replace(/\*\*/g, '');
-                            
-                            // Check if this is a note (starts with * or contains "note")
-                            const isNote = cleanItem.startsWith('*') || 
-                                          /note|disclaimer/i.test(cleanItem);
-                            
-                            if (isNote) {
-                              return (
-                                <div 
-                                  key={index}
-                                  className="text-sm text-gray-600 dark:text-gray-300 border-t border-blue-200 dark:border-blue-700 pt-3 mt-2 italic"
-                                >
-                                  <div className="flex items-start gap-2">
-                                    <LucideInfo className="h-4 w-4 text-blue-500 mt-0.5 flex-shrink-0" />
-                                    <span>{cleanItem.replace(/^\*+/, '')}</span>
-                                  </div>
-                                </div>
-                              );
-                            }
-                            
-                            // Extract the label and value if there's a colon
-                            let label = cleanItem;
-                            let value = '';
-                            
-                            if (cleanItem.includes(':')) {
-                              const parts = cleanItem.split(':', 2);
-                              label = parts[0].trim();
-                              value = parts[1].trim();
-                            }
-                            
-                            // Determine which icon to show based on the label
-                            let icon = null;
-                            
-                            if (/calorie/i.test(label)) {
-                              icon = (
-                                <motion.div
-                                  animate={{ rotate: [0, 10, 0] }}
-                                  transition={{ duration: 2, repeat: Infinity, ease: "easeInOut" }}
-                                >
-                                  <Flame className="h-5 w-5 text-orange-500" />
-                                </motion.div>
-                              );
-                            } else if (/protein/i.test(label)) {
-                              icon = (
-                                <motion.div
-                                  animate={{ scale: [1, 1.1, 1] }}
-                                  transition={{ duration: 2, repeat: Infinity, ease: "easeInOut" }}
-                                >
-                                  <Dumbbell className="h-5 w-5 text-purple-500" />
-                                </motion.div>
-                              );
-                            } else if (/carb/i.test(label)) {
-                              icon = (
-                                <motion.div
-                                  animate={{ y: [0, -3, 0] }}
-                                  transition={{ duration: 2, repeat: Infinity, ease: "easeInOut" }}
-                                >
-                                  <Apple className="h-5 w-5 text-yellow-500" />
-                                </motion.div>
-                              );
-                            } else if (/fat/i.test(label)) {
-                              icon = (
-                                <motion.div
-                                  animate={{ rotate: 360 }}
-                                  transition={{ duration: 4, repeat: Infinity, ease: "linear" }}
-                                >
-                                  <CircleDashed className="h-5 w-5 text-blue-500" />
-                                </motion.div>
-                              );
-                            } else {
-                              icon = <div className="w-5 h-5 bg-blue-100 rounded-full flex-shrink-0 dark:bg-blue-800"></div>;
-                            }
-                            
+                          {NUTRITION_ROWS.map(row => {
+                            const value = displayedRecipe.nutrition?.[row.key];
+                            if (typeof value !== 'number') return null;
                             return (
                               <div 
-                                key={index}
+                                key={row.key}
                                 className="flex items-center gap-3"
                               >
                                 <div className="flex-shrink-0">
-                                  {icon}
+                                  <NutritionIcon nutrient={row.key} />
                                 </div>
                                 <div className="flex-grow">
-                                  <span className="font-medium text-gray-800 dark:text-gray-200">{label}</span>
-                                  {value && (
-                                    <span className="text-gray-600 dark:text-gray-300">: {value}</span>
-                                  )}
+                                  <span className="font-medium text-gray-800 dark:text-gray-200">{row.label}</span>
+                                  <span className="text-gray-600 dark:text-gray-300">: {Math.round(value)} {row.unit}</span>
                                 </div>
                               </div>
                             );
                           })}
+                          <div className="text-sm text-gray-600 dark:text-gray-300 border-t border-blue-200 dark:border-blue-700 pt-3 mt-2 italic">
+                            <div className="flex items-start gap-2">
+                              <LucideInfo className="h-4 w-4 text-blue-500 mt-0.5 flex-shrink-0" />
+                              <span>Estimated per serving</span>
+                            </div>
+                          </div>
                         </div>
                       </div>
                     </div>
                   )}
                 </div>
               </div>
-
-              {/* Raw Recipe Display Toggle */}
-              <details className="mt-6">
-                <summary className="text-sm text-gray-500 cursor-pointer hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300">
-                  Show raw recipe text
-                </summary>
-                <div className="mt-2 bg-gray-50 p-4 rounded-lg dark:bg-slate-700/50 dark:border dark:border-slate-600 overflow-auto max-h-[300px] transition-colors duration-200">
-                  <pre className="whitespace-pre-wrap text-sm text-gray-800 dark:text-gray-200">{recipe}</pre>
-                </div>
-              </details>
             </motion.div>
           )}
 
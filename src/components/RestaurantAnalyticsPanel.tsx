@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { CheckCircle, Clock, Leaf, Percent, Scale, UserX } from 'lucide-react';
+import { useStore } from '../store';
+import StatsCard from './StatsCard';
+import {
+  getRestaurantAnalytics,
+  formatAnalyticsBucket,
+  formatMinutes,
+  formatPickupWindow,
+  formatRate,
+  ANALYTICS_RANGES,
+} from '../services/restaurantAnalytics';
+import type { AnalyticsRange, RestaurantAnalytics } from '../services/restaurantAnalytics';
+
+interface RestaurantAnalyticsPanelProps {
+  restaurantId: string;
+}
+
+export default function RestaurantAnalyticsPanel({ restaurantId }: RestaurantAnalyticsPanelProps) {
+  const { isDarkMode } = useStore();
+  const [range, setRange] = useState<AnalyticsRange>('30d');
+  const [analytics, setAnalytics] = useState<RestaurantAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    getRestaurantAnalytics(restaurantId, range)
+      .then(result => {
+        if (!cancelled) setAnalytics(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load analytics');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId, range]);
+
+  const axisColor = isDarkMode ? '#9ca3af' : '#4b5563';
+  const gridColor = isDarkMode ? '#374151' : '#d1d5db';
+  const tooltipStyle = {
+    backgroundColor: isDarkMode ? '#1f2937' : '#fff',
+    border: isDarkMode ? '1px solid #374151' : '1px solid #e5e7eb',
+    color: isDarkMode ? '#e5e7eb' : '#111827',
+  };
+
+  const chartData = analytics?.series.map(point => ({
+    ...point,
+    label: formatAnalyticsBucket(point.bucket, analytics.bucket),
+  })) ?? [];
+  const summary = analytics?.summary;
+
+  const chartCard = (title: string, chart: React.ReactElement) => (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <h4 className="text-lg font-semibold dark:text-white mb-4">{title}</h4>
+      <div className="h-[260px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          {chart}
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-center gap-2">
+        {(Object.keys(ANALYTICS_RANGES) as AnalyticsRange[]).map(value => (
+          <button
+            key={value}
+            onClick={() => setRange(value)}
+            className={`px-4 py-2 rounded-lg text-sm transition-colors ${
+              range === value
+                ? 'bg-green-600 text-white'
+                : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
+            {ANALYTICS_RANGES[value].label}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {loading && !analytics && (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+        </div>
+      )}
+
+      {summary && (
+        <div className={`space-y-6 transition-opacity ${loading ? 'opacity-60' : ''}`}>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            <StatsCard
+              title="Claim Rate"
+              value={formatRate(summary.claim_rate)}
+              icon={Percent}
+              description={`${summary.portions_claimed} of ${summary.portions_listed} portions from ${summary.listings} listings`}
+            />
+            <StatsCard
+              title="Time to First Claim"
+              value={formatMinutes(summary.avg_minutes_to_claim)}
+              icon={Clock}
+              description="Average from posting"
+            />
+            <StatsCard
+              title="No-show Rate"
+              value={formatRate(summary.no_show_rate)}
+              icon={UserX}
+              description={`${summary.no_shows} no-shows`}
+            />
+            <StatsCard
+              title="Pickups"
+              value={summary.pickups.toString()}
+              icon={CheckCircle}
+              description={`${summary.claims} claims made`}
+            />
+            <StatsCard
+              title="Food Saved"
+              value={`${summary.kg_saved} kg`}
+              icon={Scale}
+              description="Estimated from picked-up portions"
+            />
+            <StatsCard
+              title="CO₂ Avoided"
+              value={`${summary.co2e_kg_saved} kg`}
+              icon={Leaf}
+              description="Estimated CO₂-equivalent"
+            />
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            {chartCard('Portions Listed and Claimed', (
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" opacity={0.2} stroke={gridColor} />
+                <XAxis dataKey="label" stroke={axisColor} />
+                <YAxis allowDecimals={false} stroke={axisColor} />
+                <Tooltip contentStyle={tooltipStyle} />
+                <Legend />
+                <Line type="monotone" dataKey="portions_listed" name="Listed" stroke="#3b82f6" dot={false} />
+                <Line type="monotone" dataKey="portions_claimed" name="Claimed" stroke="#10b981" dot={false} />
+              </LineChart>
+            ))}
+
+            {chartCard('Pickups and No-shows', (
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" opacity={0.2} stroke={gridColor} />
+                <XAxis dataKey="label" stroke={axisColor} />
+                <YAxis allowDecimals={false} stroke={axisColor} />
+                <Tooltip contentStyle={tooltipStyle} />
+                <Legend />
+                <Bar dataKey="pickups" name="Pickups" stackId="claims" fill="#10b981" />
+                <Bar dataKey="no_shows" name="No-shows" stackId="claims" fill="#f87171" />
+              </BarChart>
+            ))}
+
+            {chartCard('Estimated Impact', (
+              <AreaChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" opacity={0.2} stroke={gridColor} />
+                <XAxis dataKey="label" stroke={axisColor} />
+                <YAxis unit=" kg" stroke={axisColor} />
+                <Tooltip contentStyle={tooltipStyle} formatter={(value) => [`${value} kg`]} />
+                <Legend />
+                <Area type="monotone" dataKey="kg_saved" name="Food saved" stroke="#059669" fill="#10b981" fillOpacity={0.3} />
+                <Area type="monotone" dataKey="co2e_kg_saved" name="CO₂e avoided" stroke="#6b7280" fill="#9ca3af" fillOpacity={0.2} />
+              </AreaChart>
+            ))}
+
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+              <h4 className="text-lg font-semibold dark:text-white mb-4">Busiest Pickup Windows</h4>
+              {analytics.pickupWindows.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No pickups in this period yet</p>
+              ) : (
+                <div className="space-y-3">
+                  {analytics.pickupWindows.map(window => (
+                    <div key={`${window.weekday}-${window.hour}`} className="flex items-center gap-3">
+                      <span className="w-32 text-sm dark:text-white">{formatPickupWindow(window)}</span>
+                      <div className="flex-1 h-3 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-green-500 rounded-full"
+                          style={{ width: `${(window.pickups / analytics.pickupWindows[0].pickups) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-16 text-right text-sm text-gray-600 dark:text-gray-300">
+                        {window.pickups} {window.pickups === 1 ? 'pickup' : 'pickups'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
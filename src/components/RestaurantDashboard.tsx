@@ -1,20 +1,62 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Building2, MapPin, Clock, Users, Plus, Trash2, Star, Phone, Mail, TrendingUp, CheckCircle, Settings, X } from 'lucide-react';
+import { Building2, MapPin, Clock, Users, Plus, Trash2, Edit, Star, Phone, Mail, TrendingUp, CheckCircle, Settings, X, UserCog, Repeat, Upload, Scale, Leaf, Droplets } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
-import { createRestaurant, getRestaurantsByAdmin, createFoodListing, getFoodListingsByRestaurant } from '../services/foodSharing';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { createRestaurant, createFoodListing, queryFoodListings, getRestaurantListingCounts, updateFoodListing, deleteFoodListing, formatListingQuantity, getRestaurantClaims, getAllowedClaimTransitions, transitionClaim, CLAIM_STATUS_LABELS, DIETARY_TAGS, QUANTITY_UNITS } from '../services/foodSharing';
 import { supabase } from '../lib/supabase';
 import { useStore } from '../store';
-import type { FoodListingWithRestaurant } from '../services/foodSharing';
-import type { Database } from '../types/database';
+import { getMemberRestaurants, RESTAURANT_ROLE_LABELS } from '../services/restaurantTeam';
+import type { FoodListingWithRestaurant, ClaimWithDetails } from '../services/foodSharing';
+import type { MemberRestaurant } from '../services/restaurantTeam';
+import { getRestaurantImpact, formatWeight, formatWater, FOOD_CATEGORIES, FOOD_CATEGORY_LABELS, DEFAULT_FOOD_CATEGORY } from '../services/impact';
+import type { ImpactSummary } from '../services/impact';
+import type { ClaimStatus, FoodCategory, FoodListingCursor } from '../types/database';
 import { toast } from 'react-hot-toast';
 import FoodMap from './FoodMap';
 import TabNavigation from './TabNavigation';
 import StatsCard from './StatsCard';
 import ActionButton from './ActionButton';
 import ConfirmDialog from './ConfirmDialog';
-
-type Restaurant = Database['public']['Tables']['restaurants']['Row'];
+import PickupVerifier from './PickupVerifier';
+import RestaurantTeamPanel from './RestaurantTeamPanel';
+import RestaurantInvitations from './RestaurantInvitations';
+import RestaurantVerificationPanel from './RestaurantVerificationPanel';
+import ListingTemplatesPanel from './ListingTemplatesPanel';
+import ListingCsvImportDialog from './ListingCsvImportDialog';
+import ListingExportPanel from './ListingExportPanel';
+import RestaurantAnalyticsPanel from './RestaurantAnalyticsPanel';
+
+type Restaurant = MemberRestaurant;
+
+// Formats an ISO timestamp for a datetime-local input (local time, minute precision)
+const toDateTimeLocal = (iso: string) => {
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+const hasClaims = (listing: FoodListingWithRestaurant) =>
+  listing.quantity_remaining < listing.quantity_total;
+
+const LISTINGS_PAGE_SIZE = 20;
+
+// Staff-facing actions; pickups go through PickupVerifier and expiry is left to the automatic sweep
+const CLAIM_ACTION_LABELS: Partial<Record<ClaimStatus, string>> = {
+  confirmed_by_restaurant: 'Confirm',
+  no_show: 'No-show',
+  cancelled_by_restaurant: 'Cancel',
+};
+
+const CLAIM_STATUS_STYLES: Record<ClaimStatus, string> = {
+  reserved: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200',
+  confirmed_by_restaurant: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200',
+  picked_up: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200',
+  cancelled_by_user: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300',
+  cancelled_by_restaurant: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300',
+  no_show: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200',
+  expired: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300',
+};
 
 export default function RestaurantDashboard() {
   const { user, profile, isRestaurantAdmin } = useAuth();
@@ -22,19 +64,18 @@ export default function RestaurantDashboard() {
   const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
   const [selectedRestaurant, setSelectedRestaurant] = useState<Restaurant | null>(null);
   const [foodListings, setFoodListings] = useState<FoodListingWithRestaurant[]>([]);
+  const [listingsCursor, setListingsCursor] = useState<FoodListingCursor | null>(null);
+  const [listingsLoadingMore, setListingsLoadingMore] = useState(false);
+  const [claims, setClaims] = useState<ClaimWithDetails[]>([]);
+  const [claimsLoading, setClaimsLoading] = useState(false);
   const [loading, setLoading] = useState(true);
   const [showRestaurantForm, setShowRestaurantForm] = useState(false);
   const [showFoodForm, setShowFoodForm] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [editingFood, setEditingFood] = useState<FoodListingWithRestaurant | null>(null);
-  const [activeTab, setActiveTab] = useState<'listings' | 'analytics' | 'settings' | 'claims' | 'map'>('listings');
-  const [analytics, setAnalytics] = useState({
-    totalListings: 0,
-    activeListing: 0,
-    claimedListings: 0,
-    totalViews: 0,
-    wasteReduced: 0,
-    peopleFed: 0
-  });
+  const [activeTab, setActiveTab] = useState<'listings' | 'recurring' | 'analytics' | 'settings' | 'claims' | 'team' | 'map'>('listings');
+  const [listingCounts, setListingCounts] = useState({ total: 0, active: 0, claimed: 0 });
+  const [restaurantImpact, setRestaurantImpact] = useState<ImpactSummary | null>(null);
 
   const [restaurantForm, setRestaurantForm] = useState({
     name: '',
@@ -49,7 +90,9 @@ export default function RestaurantDashboard() {
   const [foodForm, setFoodForm] = useState({
     food_item: '',
     description: '',
-    quantity: '',
+    quantity_total: '',
+    quantity_unit: 'portions',
+    food_category: DEFAULT_FOOD_CATEGORY,
     pickup_start_time: '',
     pickup_end_time: '',
     dietary_info: [] as string[],
@@ -102,16 +145,22 @@ export default function RestaurantDashboard() {
     }
   }, [selectedRestaurant]);
 
+  useEffect(() => {
+    if (selectedRestaurant && activeTab === 'claims') {
+      loadClaims();
+    }
+  }, [selectedRestaurant, activeTab]);
+
   const loadRestaurants = async () => {
     if (!user) return;
     
     try {
       setLoading(true);
-      const data = await getRestaurantsByAdmin(user.id);
+      const [data, impact] = await Promise.all([getMemberRestaurants(user.id), getRestaurantImpact()]);
       setRestaurants(data);
-      if (data.length > 0 && !selectedRestaurant) {
-        setSelectedRestaurant(data[0]);
-      }
+      setRestaurantImpact(impact);
+      // Keep the current selection (with its refreshed role) unless the user left that team
+      setSelectedRestaurant(prev => data.find(r => r.id === prev?.id) ?? data[0] ?? null);
     } catch (error) {
       console.error('Error loading restaurants:', error);
       toast.error('Failed to load restaurants');
@@ -124,28 +173,78 @@ export default function RestaurantDashboard() {
     if (!selectedRestaurant) return;
 
     try {
-      const data = await getFoodListingsByRestaurant(selectedRestaurant.id);
-      setFoodListings(data);
-      
-      // Update analytics
-      const totalListings = data.length;
-      const activeListing = data.filter(item => !item.is_claimed).length;
-      const claimedListings = data.filter(item => item.is_claimed).length;
-      
-      setAnalytics({
-        totalListings,
-        activeListing,
-        claimedListings,
-        totalViews: totalListings * 15, // Mock data
-        wasteReduced: claimedListings * 2.5, // kg
-        peopleFed: claimedListings * 3
-      });
+      const [page, counts] = await Promise.all([
+        queryFoodListings({
+          restaurantId: selectedRestaurant.id,
+          includeUnavailable: true,
+          limit: LISTINGS_PAGE_SIZE,
+        }),
+        getRestaurantListingCounts(selectedRestaurant.id),
+      ]);
+      setFoodListings(page.listings);
+      setListingsCursor(page.nextCursor);
+      setListingCounts(counts);
     } catch (error) {
       console.error('Error loading food listings:', error);
       toast.error('Failed to load food listings');
     }
   };
 
+  const loadMoreFoodListings = async () => {
+    if (!selectedRestaurant || !listingsCursor || listingsLoadingMore) return;
+
+    try {
+      setListingsLoadingMore(true);
+      const page = await queryFoodListings({
+        restaurantId: selectedRestaurant.id,
+        includeUnavailable: true,
+        limit: LISTINGS_PAGE_SIZE,
+        cursor: listingsCursor,
+      });
+      setFoodListings(prev => [...prev, ...page.listings]);
+      setListingsCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more food listings:', error);
+      toast.error('Failed to load more food listings');
+    } finally {
+      setListingsLoadingMore(false);
+    }
+  };
+
+  const listingsSentinelRef = useInfiniteScroll(loadMoreFoodListings, {
+    hasMore: !!listingsCursor,
+    loading: listingsLoadingMore,
+  });
+
+  const loadClaims = async () => {
+    if (!selectedRestaurant) return;
+
+    try {
+      setClaimsLoading(true);
+      const data = await getRestaurantClaims(selectedRestaurant.id);
+      setClaims(data);
+    } catch (error) {
+      console.error('Error loading claims:', error);
+      toast.error('Failed to load claims');
+    } finally {
+      setClaimsLoading(false);
+    }
+  };
+
+  const handleClaimTransition = async (claim: ClaimWithDetails, nextStatus: ClaimStatus) => {
+    try {
+      toast.loading('Updating claim...', { id: 'updating-claim' });
+      await transitionClaim(claim, nextStatus, 'restaurant');
+      toast.success(`Claim marked as ${CLAIM_STATUS_LABELS[nextStatus].toLowerCase()}`, { id: 'updating-claim' });
+      loadClaims();
+      loadFoodListings();
+    } catch (error) {
+      console.error('Error updating claim:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update claim';
+      toast.error(errorMessage, { id: 'updating-claim' });
+    }
+  };
+
   const handleCreateRestaurant = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
@@ -193,8 +292,10 @@ export default function RestaurantDashboard() {
         restaurant_admin_id: user.id,
       });
       
-      setRestaurants([...restaurants, restaurant]);
-      setSelectedRestaurant(restaurant);
+      // The creator becomes the owner through a database trigger
+      const ownedRestaurant: Restaurant = { ...restaurant, member_role: 'owner' };
+      setRestaurants([...restaurants, ownedRestaurant]);
+      setSelectedRestaurant(ownedRestaurant);
       setShowRestaurantForm(false);
       setRestaurantForm({
         name: '',
@@ -205,7 +306,7 @@ export default function RestaurantDashboard() {
         contact_email: '',
         description: '',
       });
-      toast.success('Restaurant created successfully!', { id: loadingToast });
+      toast.success('Restaurant created! Listings go public once it is verified.', { id: loadingToast });
     } catch (error) {
       console.error('Error creating restaurant:', error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to create restaurant';
@@ -223,8 +324,14 @@ export default function RestaurantDashboard() {
       return;
     }
 
-    if (!foodForm.quantity.trim()) {
-      toast.error('Quantity is required');
+    const quantityTotal = Number(foodForm.quantity_total);
+    if (!Number.isInteger(quantityTotal) || quantityTotal < 1) {
+      toast.error('Quantity must be a whole number of at least 1');
+      return;
+    }
+
+    if (!foodForm.quantity_unit.trim()) {
+      toast.error('Quantity unit is required');
       return;
     }
 
@@ -238,11 +345,17 @@ export default function RestaurantDashboard() {
     const endTime = new Date(foodForm.pickup_end_time);
     const now = new Date();
 
-    if (startTime <= now) {
+    // Edited listings may already be inside their pickup window
+    if (!editingFood && startTime <= now) {
       toast.error('Pickup start time must be in the future');
       return;
     }
 
+    if (endTime <= now) {
+      toast.error('Pickup end time must be in the future');
+      return;
+    }
+
     if (endTime <= startTime) {
       toast.error('Pickup end time must be after start time');
       return;
@@ -256,12 +369,37 @@ export default function RestaurantDashboard() {
       toast.loading(loadingMessage, { id: loadingId });
       
       if (editingFood) {
-        // Update existing listing (mock implementation)
-        // In real app, you'd call updateFoodListing API
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        const updates = {
+          food_item: foodForm.food_item,
+          description: foodForm.description || null,
+          quantity_total: quantityTotal,
+          quantity_unit: foodForm.quantity_unit.trim(),
+          food_category: foodForm.food_category,
+          pickup_start_time: startTime.toISOString(),
+          pickup_end_time: endTime.toISOString(),
+          dietary_info: foodForm.dietary_info.length > 0 ? foodForm.dietary_info : null,
+          image_url: foodForm.image_url || null,
+        };
+
+        // Optimistically apply the edit, restoring the previous listings if the save fails
+        const previousListings = foodListings;
+        setFoodListings(prev => prev.map(listing =>
+          listing.id === editingFood.id
+            ? { ...listing, ...updates, quantity_remaining: updates.quantity_total }
+            : listing
+        ));
+
+        try {
+          await updateFoodListing(editingFood.id, updates);
+        } catch (error) {
+          setFoodListings(previousListings);
+          throw error;
+        }
       } else {
         await createFoodListing({
           ...foodForm,
+          quantity_total: quantityTotal,
+          quantity_unit: foodForm.quantity_unit.trim(),
           restaurant_id: selectedRestaurant.id,
           dietary_info: foodForm.dietary_info.length > 0 ? foodForm.dietary_info : undefined,
           image_url: foodForm.image_url || undefined,
@@ -274,7 +412,9 @@ export default function RestaurantDashboard() {
       setFoodForm({
         food_item: '',
         description: '',
-        quantity: '',
+        quantity_total: '',
+        quantity_unit: 'portions',
+        food_category: DEFAULT_FOOD_CATEGORY,
         pickup_start_time: '',
         pickup_end_time: '',
         dietary_info: [],
@@ -289,6 +429,27 @@ export default function RestaurantDashboard() {
     }
   };
 
+  const handleEditFood = (listing: FoodListingWithRestaurant) => {
+    if (hasClaims(listing)) {
+      toast.error('Claimed food listings cannot be edited');
+      return;
+    }
+
+    setEditingFood(listing);
+    setFoodForm({
+      food_item: listing.food_item,
+      description: listing.description || '',
+      quantity_total: listing.quantity_total.toString(),
+      quantity_unit: listing.quantity_unit,
+      food_category: listing.food_category,
+      pickup_start_time: toDateTimeLocal(listing.pickup_start_time),
+      pickup_end_time: toDateTimeLocal(listing.pickup_end_time),
+      dietary_info: listing.dietary_info || [],
+      image_url: listing.image_url || '',
+    });
+    setShowFoodForm(true);
+  };
+
   const handleDeleteFood = async (listingId: string) => {
     console.log('Deleting listing:', listingId);
     const listing = foodListings.find(l => l.id === listingId);
@@ -305,15 +466,20 @@ export default function RestaurantDashboard() {
     const { foodId } = deleteDialog;
     if (!foodId) return;
 
+    // Optimistically remove the listing, restoring it if the delete fails
+    const previousListings = foodListings;
+    setFoodListings(prev => prev.filter(listing => listing.id !== foodId));
+
     try {
       toast.loading('Deleting food listing...', { id: 'deleting-food' });
-      // Mock delete - in real app, call deleteFoodListing API
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await deleteFoodListing(foodId);
       loadFoodListings();
       toast.success('Food listing deleted successfully!', { id: 'deleting-food' });
     } catch (error) {
       console.error('Error deleting food listing:', error);
-      toast.error('Failed to delete food listing', { id: 'deleting-food' });
+      setFoodListings(previousListings);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete food listing';
+      toast.error(errorMessage, { id: 'deleting-food' });
     } finally {
       setDeleteDialog({ isOpen: false, foodId: null, foodName: '' });
     }
@@ -483,6 +649,30 @@ export default function RestaurantDashboard() {
                   />
                 </div>
               )}
+              {!isDemo && restaurantImpact && restaurantImpact.pickups > 0 && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <StatsCard
+                    title="Portions Rescued"
+                    value={restaurantImpact.portions.toString()}
+                    icon={Users}
+                  />
+                  <StatsCard
+                    title="Waste Prevented"
+                    value={formatWeight(restaurantImpact.kg)}
+                    icon={Scale}
+                  />
+                  <StatsCard
+                    title="CO₂ Avoided"
+                    value={formatWeight(restaurantImpact.co2e_kg)}
+                    icon={Leaf}
+                  />
+                  <StatsCard
+                    title="Water Saved"
+                    value={formatWater(restaurantImpact.water_l)}
+                    icon={Droplets}
+                  />
+                </div>
+              )}
             </div>
           </div>
 　　　 　 {/* Restaurant Details */}
@@ -581,14 +771,18 @@ export default function RestaurantDashboard() {
         </div>
       )}
 
+      <RestaurantInvitations onAccepted={loadRestaurants} className="mb-6" />
+
       {/* Navigation Tabs */}
       <TabNavigation
         activeTab={activeTab}
         onTabChange={(tabId) => setActiveTab(tabId as typeof activeTab)}
         tabs={[
           { id: 'listings', label: 'Food Listings', icon: <Users className="w-4 h-4" /> },
+          { id: 'recurring', label: 'Recurring', icon: <Repeat className="w-4 h-4" /> },
           { id: 'analytics', label: 'Analytics', icon: <TrendingUp className="w-4 h-4" /> },
           { id: 'claims', label: 'Claims', icon: <CheckCircle className="w-4 h-4" /> },
+          { id: 'team', label: 'Team', icon: <UserCog className="w-4 h-4" /> },
           { id: 'map', label: 'Map View', icon: <MapPin className="w-4 h-4" /> },
           { id: 'settings', label: 'Settings', icon: <Settings className="w-4 h-4" /> }
         ]}
@@ -605,29 +799,13 @@ export default function RestaurantDashboard() {
               Track your food sharing impact and performance metrics
             </p>
           </div>
-          
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            <StatsCard
-              title="Total Listings"
-              value={analytics.totalListings.toString()}
-              icon={Users}
-              trend={{ value: 12, isPositive: true }}
-            />
 
-            <StatsCard
-              title="Active Listings"
-              value={analytics.activeListing.toString()}
-              icon={CheckCircle}
-              description={`${analytics.wasteReduced}kg waste reduced`}
-            />
+          <RestaurantAnalyticsPanel restaurantId={selectedRestaurant.id} />
 
-            <StatsCard
-              title="People Fed"
-              value={analytics.peopleFed.toString()}
-              icon={Star}
-              description="Community impact"
-            />
-          </div>
+          <ListingExportPanel
+            restaurantId={selectedRestaurant.id}
+            restaurantName={selectedRestaurant.name}
+          />
         </div>
       )}
 
@@ -642,20 +820,122 @@ export default function RestaurantDashboard() {
             </p>
           </div>
           
+          <PickupVerifier
+            restaurantId={selectedRestaurant.id}
+            onVerified={() => {
+              loadClaims();
+              loadFoodListings();
+            }}
+          />
+
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
-            <div className="text-center py-12">
-              <CheckCircle className="w-16 h-16 text-gray-400 mx-auto mb-4" />
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
-                No claims yet
-              </h3>
-              <p className="text-gray-600 dark:text-gray-300">
-                Claims will appear here when community members request your food
-              </p>
-            </div>
+            {claimsLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+              </div>
+            ) : claims.length === 0 ? (
+              <div className="text-center py-12">
+                <CheckCircle className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+                  No claims yet
+                </h3>
+                <p className="text-gray-600 dark:text-gray-300">
+                  Claims will appear here when community members request your food
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {claims.map((claim) => (
+                  <div
+                    key={claim.id}
+                    className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-4"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <h4 className="font-semibold dark:text-white truncate">
+                          {claim.food_listings.food_item}
+                        </h4>
+                        <span className={`px-2 py-1 text-xs rounded-full ${CLAIM_STATUS_STYLES[claim.status]}`}>
+                          {CLAIM_STATUS_LABELS[claim.status]}
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-300">
+                        <span className="flex items-center gap-1">
+                          <Users className="w-4 h-4" />
+                          {claim.portions} {claim.food_listings.quantity_unit}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Clock className="w-4 h-4" />
+                          Claimed {new Date(claim.claimed_at).toLocaleString([], {
+                            dateStyle: 'short',
+                            timeStyle: 'short'
+                          })}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {getAllowedClaimTransitions(claim.status, 'restaurant')
+                        .filter((next) => CLAIM_ACTION_LABELS[next])
+                        .map((next) => (
+                          <button
+                            key={next}
+                            type="button"
+                            onClick={() => handleClaimTransition(claim, next)}
+                            className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                              next === 'confirmed_by_restaurant'
+                                ? 'bg-blue-600 hover:bg-blue-700 text-white'
+                                : 'border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                            }`}
+                          >
+                            {CLAIM_ACTION_LABELS[next]}
+                          </button>
+                        ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       )}
 
+      {activeTab === 'recurring' && selectedRestaurant && user && (
+        <div className="space-y-6">
+          <div className="text-center">
+            <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
+              Recurring Listings
+            </h3>
+            <p className="text-gray-600 dark:text-gray-300 mb-6">
+              Post the same surplus from {selectedRestaurant.name} on a schedule
+            </p>
+          </div>
+
+          <ListingTemplatesPanel
+            restaurant={selectedRestaurant}
+            currentUserId={user.id}
+          />
+        </div>
+      )}
+
+      {activeTab === 'team' && selectedRestaurant && user && (
+        <div className="space-y-6">
+          <div className="text-center">
+            <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
+              Team Management
+            </h3>
+            <p className="text-gray-600 dark:text-gray-300 mb-6">
+              Invite shift staff and managers to help run {selectedRestaurant.name}
+            </p>
+          </div>
+
+          <RestaurantTeamPanel
+            restaurant={selectedRestaurant}
+            currentUserId={user.id}
+            onMembershipChanged={loadRestaurants}
+          />
+        </div>
+      )}
+
       {activeTab === 'settings' && (
         <div className="space-y-6">
           <div className="text-center">
@@ -666,6 +946,14 @@ export default function RestaurantDashboard() {
               Manage your restaurant preferences and notification settings
             </p>
           </div>
+
+          {selectedRestaurant && user && (
+            <RestaurantVerificationPanel
+              restaurant={selectedRestaurant}
+              currentUserId={user.id}
+              onStatusChanged={loadRestaurants}
+            />
+          )}
           
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
             <div className="text-center py-12">
@@ -680,9 +968,9 @@ export default function RestaurantDashboard() {
                 <Star className="w-6 h-6 text-purple-600 dark:text-purple-400" />
               </div>
             </div>
-            <div className="mt-4 flex items-center text-sm">
-              <TrendingUp className="w-4 h-4 text-green-500 mr-1" />
-              <span className="text-green-600 dark:text-green-400">{analytics.wasteReduced}kg waste reduced</span>
+            <div className="mt-4 flex items-center text-sm text-gray-600 dark:text-gray-300">
+              <CheckCircle className="w-4 h-4 text-green-500 mr-1" />
+              {listingCounts.active} active of {listingCounts.total} listings
             </div>
           </div>
         </div>
@@ -732,11 +1020,19 @@ export default function RestaurantDashboard() {
                       {restaurant.address}
                     </p>
                     <div className="flex items-center gap-2 mt-2">
-                      {restaurant.is_verified ? (
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        {RESTAURANT_ROLE_LABELS[restaurant.member_role]}
+                      </span>
+                      {restaurant.verification_status === 'approved' ? (
                         <span className="flex items-center gap-1 text-xs text-green-600 dark:text-green-400">
                           <CheckCircle className="w-3 h-3" />
                           Verified
                         </span>
+                      ) : restaurant.verification_status === 'rejected' ? (
+                        <span className="flex items-center gap-1 text-xs text-red-600 dark:text-red-400">
+                          <X className="w-4 h-4" />
+                          Rejected
+                        </span>
                       ) : (
                         <span className="flex items-center gap-1 text-xs text-yellow-600 dark:text-yellow-400">
                           <X className="w-4 h-4" />
@@ -761,17 +1057,39 @@ export default function RestaurantDashboard() {
                     Food Listings - {selectedRestaurant.name}
                   </h2>
                   <p className="text-gray-600 dark:text-gray-300">
-                    {foodListings.length} listings
+                    {listingCounts.total} listings
                   </p>
                 </div>
-                <ActionButton
-                  icon={Plus}
-                  label="Add Food"
-                  onClick={() => setShowFoodForm(true)}
-                  variant="primary"
-                />
+                <div className="flex gap-2">
+                  <ActionButton
+                    icon={Upload}
+                    label="Import CSV"
+                    onClick={() => setShowImportDialog(true)}
+                    variant="secondary"
+                  />
+                  <ActionButton
+                    icon={Plus}
+                    label="Add Food"
+                    onClick={() => setShowFoodForm(true)}
+                    variant="primary"
+                  />
+                </div>
               </div>
 
+              {selectedRestaurant.verification_status !== 'approved' && (
+                <div className="mb-6 p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-800 dark:text-yellow-200">
+                  {selectedRestaurant.verification_status === 'rejected'
+                    ? 'Verification was rejected, so your listings stay hidden from the public. '
+                    : 'Your listings are pending and hidden from the public until the restaurant is verified. '}
+                  <button
+                    onClick={() => setActiveTab('settings')}
+                    className="font-medium underline hover:no-underline"
+                  >
+                    Manage verification
+                  </button>
+                </div>
+              )}
+
               {foodListings.length === 0 ? (
                 <div className="text-center py-12">
                   <Users className="w-16 h-16 text-gray-400 mx-auto mb-4" />
@@ -798,8 +1116,11 @@ export default function RestaurantDashboard() {
                       {/* Header Section */}
                       <div className="flex items-start justify-between">
                         <div className="flex-1 min-w-0">
-                          <h3 className="font-semibold text-lg dark:text-white truncate">
+                          <h3 className="font-semibold text-lg dark:text-white truncate flex items-center gap-2">
                             {listing.food_item}
+                            {listing.template_id && (
+                              <Repeat className="w-4 h-4 flex-shrink-0 text-gray-400" aria-label="Posted from a recurring template" />
+                            )}
                           </h3>
                           {listing.description && (
                             <p className="text-gray-600 dark:text-gray-300 mt-1 text-sm">
@@ -812,6 +1133,18 @@ export default function RestaurantDashboard() {
                             <span className="px-3 py-1 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 text-sm rounded-full">
                               Claimed
                             </span>
+                          ) : listing.expired_at ? (
+                            <span className="px-3 py-1 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 text-sm rounded-full">
+                              Expired
+                            </span>
+                          ) : selectedRestaurant.verification_status !== 'approved' ? (
+                            <span className="px-3 py-1 bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300 text-sm rounded-full">
+                              Pending
+                            </span>
+                          ) : hasClaims(listing) ? (
+                            <span className="px-3 py-1 bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300 text-sm rounded-full">
+                              Partially Claimed
+                            </span>
                           ) : (
                             <span className="px-3 py-1 bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400 text-sm rounded-full">
                               Available
@@ -824,7 +1157,7 @@ export default function RestaurantDashboard() {
                       <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-300">
                         <span className="flex items-center gap-1">
                           <Users className="w-4 h-4" />
-                          <span>Qty: {listing.quantity}</span>
+                          <span>Qty: {formatListingQuantity(listing)}</span>
                         </span>
                         <span className="flex items-center gap-1">
                           <Clock className="w-4 h-4" />
@@ -858,23 +1191,31 @@ export default function RestaurantDashboard() {
 
                       {/* Actions Section */}
                       <div className="flex items-center justify-end gap-2 pt-2 border-t border-gray-100 dark:border-gray-700">
-                        <button
-                          type="button"
-                          onClick={() => setShowFoodForm(false)}
-                          className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
-                        >
-                          Cancel
-                        </button>
+                        <ActionButton
+                          icon={Edit}
+                          label="Edit"
+                          onClick={() => handleEditFood(listing)}
+                          variant="secondary"
+                          size="sm"
+                          disabled={hasClaims(listing) || !!listing.expired_at}
+                        />
                         <ActionButton
                           icon={Trash2}
                           label="Delete"
                           onClick={() => handleDeleteFood(listing.id)}
                           variant="danger"
                           size="sm"
+                          disabled={hasClaims(listing)}
                         />
                       </div>
                     </div>
                   ))}
+                  <div ref={listingsSentinelRef} className="xl:col-span-2" />
+                  {listingsLoadingMore && (
+                    <div className="xl:col-span-2 flex justify-center py-4">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -1025,6 +1366,14 @@ export default function RestaurantDashboard() {
         </div>
       )}
 
+      {showImportDialog && selectedRestaurant && (
+        <ListingCsvImportDialog
+          restaurantId={selectedRestaurant.id}
+          onClose={() => setShowImportDialog(false)}
+          onImported={loadFoodListings}
+        />
+      )}
+
       {/* Food Form Modal */}
       {showFoodForm && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50">
@@ -1067,14 +1416,51 @@ export default function RestaurantDashboard() {
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                     Quantity *
                   </label>
-                  <input
-                    type="text"
-                    required
-                    value={foodForm.quantity}
-                    onChange={(e) => setFoodForm({ ...foodForm, quantity: e.target.value })}
+                  <div className="grid grid-cols-2 gap-4">
+                    <input
+                      type="number"
+                      min={1}
+                      step={1}
+                      required
+                      value={foodForm.quantity_total}
+                      onChange={(e) => setFoodForm({ ...foodForm, quantity_total: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                      placeholder="e.g., 10"
+                    />
+                    <select
+                      value={foodForm.quantity_unit}
+                      onChange={(e) => setFoodForm({ ...foodForm, quantity_unit: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                    >
+                      {(QUANTITY_UNITS.includes(foodForm.quantity_unit)
+                        ? QUANTITY_UNITS
+                        : [foodForm.quantity_unit, ...QUANTITY_UNITS]
+                      ).map((unit) => (
+                        <option key={unit} value={unit}>{unit}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Community members can claim part of a listing; it stays available until all {foodForm.quantity_unit || 'units'} are claimed
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Food Category
+                  </label>
+                  <select
+                    value={foodForm.food_category}
+                    onChange={(e) => setFoodForm({ ...foodForm, food_category: e.target.value as FoodCategory })}
                     className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
-                    placeholder="e.g., 10 portions, 5 kg, Serves 20"
-                  />
+                  >
+                    {FOOD_CATEGORIES.map((category) => (
+                      <option key={category} value={category}>{FOOD_CATEGORY_LABELS[category]}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Used to estimate the weight and CO₂ saved when the food is picked up
+                  </p>
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
@@ -1110,7 +1496,7 @@ export default function RestaurantDashboard() {
                   </label>
                   <div className="space-y-3">
                     <div className="grid grid-cols-3 gap-2">
-                      {['Vegetarian', 'Vegan', 'Gluten-Free', 'Dairy-Free', 'Nut-Free', 'Halal'].map((info) => (
+                      {DIETARY_TAGS.map((info) => (
                         <label key={info} className="flex items-center">
                           <input
                             type="checkbox"
@@ -1163,7 +1549,9 @@ export default function RestaurantDashboard() {
                       setFoodForm({
                         food_item: '',
                         description: '',
-                        quantity: '',
+                        quantity_total: '',
+                        quantity_unit: 'portions',
+                        food_category: DEFAULT_FOOD_CATEGORY,
                         pickup_start_time: '',
                         pickup_end_time: '',
                         dietary_info: [],
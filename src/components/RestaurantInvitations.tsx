@@ -0,0 +1,109 @@
+import { useState, useEffect } from 'react';
+import { Building2, Check, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../hooks/useAuth';
+import {
+  getMyRestaurantInvitations,
+  acceptRestaurantInvitation,
+  cancelRestaurantInvitation,
+  RESTAURANT_ROLE_LABELS,
+} from '../services/restaurantTeam';
+import type { InvitationWithRestaurant } from '../services/restaurantTeam';
+
+interface RestaurantInvitationsProps {
+  onAccepted?: () => void;
+  className?: string;
+}
+
+// Pending team invitations addressed to the signed-in user; renders nothing when there are none
+export default function RestaurantInvitations({ onAccepted, className = '' }: RestaurantInvitationsProps) {
+  const { user, refreshSession } = useAuth();
+  const [invitations, setInvitations] = useState<InvitationWithRestaurant[]>([]);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      loadInvitations();
+    }
+  }, [user?.id]);
+
+  const loadInvitations = async () => {
+    if (!user) return;
+    setInvitations(await getMyRestaurantInvitations(user.id, user.email));
+  };
+
+  const handleAccept = async (invitation: InvitationWithRestaurant) => {
+    try {
+      setRespondingId(invitation.id);
+      await acceptRestaurantInvitation(invitation.id);
+      toast.success(`You joined ${invitation.restaurants.name}`);
+      setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+      // Accepting can turn a user account into a restaurant account
+      await refreshSession();
+      onAccepted?.();
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to accept invitation');
+      loadInvitations();
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  const handleDecline = async (invitation: InvitationWithRestaurant) => {
+    try {
+      setRespondingId(invitation.id);
+      await cancelRestaurantInvitation(invitation.id);
+      setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+      toast.success('Invitation declined');
+    } catch (error) {
+      console.error('Error declining invitation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to decline invitation');
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 ${className}`}>
+      <h3 className="text-lg font-semibold dark:text-white mb-4">Team Invitations</h3>
+      <div className="space-y-3">
+        {invitations.map((invitation) => (
+          <div
+            key={invitation.id}
+            className="flex flex-col sm:flex-row sm:items-center gap-3 border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+          >
+            <Building2 className="w-8 h-8 text-green-600 dark:text-green-400 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="font-medium dark:text-white truncate">{invitation.restaurants.name}</p>
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                Join as {RESTAURANT_ROLE_LABELS[invitation.role].toLowerCase()} · expires{' '}
+                {new Date(invitation.expires_at).toLocaleDateString()}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleAccept(invitation)}
+                disabled={respondingId === invitation.id}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white transition-colors"
+              >
+                <Check className="w-4 h-4" />
+                Accept
+              </button>
+              <button
+                onClick={() => handleDecline(invitation)}
+                disabled={respondingId === invitation.id}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+              >
+                <X className="w-4 h-4" />
+                Decline
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import React, { useState, useEffect } from 'react';
+import { UserPlus, Trash2, Mail, Users } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import {
+  getRestaurantTeam,
+  getRestaurantInvitations,
+  inviteRestaurantMember,
+  cancelRestaurantInvitation,
+  updateRestaurantMemberRole,
+  removeRestaurantMember,
+  getInvitableRoles,
+  canChangeMemberRoles,
+  canRemoveMember,
+  RESTAURANT_ROLES,
+  RESTAURANT_ROLE_LABELS,
+} from '../services/restaurantTeam';
+import type { MemberRestaurant, TeamMember } from '../services/restaurantTeam';
+import type { Database, RestaurantMemberRole } from '../types/database';
+import ConfirmDialog from './ConfirmDialog';
+
+type RestaurantInvitation = Database['public']['Tables']['restaurant_invitations']['Row'];
+
+interface RestaurantTeamPanelProps {
+  restaurant: MemberRestaurant;
+  currentUserId: string;
+  // Called when the current user leaves the team or changes their own role
+  onMembershipChanged?: () => void;
+}
+
+export default function RestaurantTeamPanel({ restaurant, currentUserId, onMembershipChanged }: RestaurantTeamPanelProps) {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [invitations, setInvitations] = useState<RestaurantInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [invitee, setInvitee] = useState('');
+  const [inviteRole, setInviteRole] = useState<RestaurantMemberRole>('staff');
+  const [inviting, setInviting] = useState(false);
+  const [removing, setRemoving] = useState<TeamMember | null>(null);
+
+  const actorRole = restaurant.member_role;
+  const invitableRoles = getInvitableRoles(actorRole);
+  const canManage = invitableRoles.length > 0;
+
+  useEffect(() => {
+    loadTeam();
+  }, [restaurant.id]);
+
+  const loadTeam = async () => {
+    setLoading(true);
+    const [team, pending] = await Promise.all([
+      getRestaurantTeam(restaurant.id),
+      canManage ? getRestaurantInvitations(restaurant.id) : Promise.resolve([]),
+    ]);
+    setMembers(team);
+    setInvitations(pending);
+    setLoading(false);
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invitee.trim()) {
+      toast.error('Enter an email address or username');
+      return;
+    }
+
+    try {
+      setInviting(true);
+      const invitation = await inviteRestaurantMember(restaurant.id, invitee, inviteRole);
+      setInvitations(prev => [invitation, ...prev]);
+      setInvitee('');
+      toast.success('Invitation sent');
+    } catch (error) {
+      console.error('Error inviting team member:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send invitation');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRevoke = async (invitationId: string) => {
+    try {
+      await cancelRestaurantInvitation(invitationId);
+      setInvitations(prev => prev.filter(i => i.id !== invitationId));
+      toast.success('Invitation revoked');
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke invitation');
+    }
+  };
+
+  const handleRoleChange = async (member: TeamMember, role: RestaurantMemberRole) => {
+    try {
+      await updateRestaurantMemberRole(restaurant.id, member.user_id, role);
+      setMembers(prev => prev.map(m => (m.id === member.id ? { ...m, role } : m)));
+      toast.success('Role updated');
+      if (member.user_id === currentUserId) {
+        onMembershipChanged?.();
+      }
+    } catch (error) {
+      console.error('Error updating role:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update role');
+    }
+  };
+
+  const confirmRemove = async () => {
+    if (!removing) return;
+    const member = removing;
+    setRemoving(null);
+
+    try {
+      await removeRestaurantMember(restaurant.id, member.user_id);
+      if (member.user_id === currentUserId) {
+        toast.success(`You left ${restaurant.name}`);
+        onMembershipChanged?.();
+        return;
+      }
+      setMembers(prev => prev.filter(m => m.id !== member.id));
+      toast.success('Team member removed');
+    } catch (error) {
+      console.error('Error removing team member:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove team member');
+    }
+  };
+
+  const memberName = (member: TeamMember) =>
+    member.users?.full_name || member.users?.username || 'Team member';
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {canManage && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+          <h4 className="text-lg font-semibold dark:text-white mb-4 flex items-center gap-2">
+            <UserPlus className="w-5 h-5 text-green-600" />
+            Invite a Team Member
+          </h4>
+          <form onSubmit={handleInvite} className="flex flex-col md:flex-row gap-3">
+            <input
+              type="text"
+              value={invitee}
+              onChange={(e) => setInvitee(e.target.value)}
+              placeholder="Email address or username"
+              className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as RestaurantMemberRole)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+            >
+              {invitableRoles.map((role) => (
+                <option key={role} value={role}>{RESTAURANT_ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={inviting}
+              className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              {inviting ? 'Inviting...' : 'Send Invite'}
+            </button>
+          </form>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            Staff can post listings and verify pickups. Managers can also edit the restaurant and manage staff.
+          </p>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <h4 className="text-lg font-semibold dark:text-white mb-4 flex items-center gap-2">
+          <Users className="w-5 h-5 text-green-600" />
+          Team ({members.length})
+        </h4>
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {members.map((member) => (
+            <div key={member.id} className="flex flex-col sm:flex-row sm:items-center gap-3 py-3">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium dark:text-white truncate">
+                  {memberName(member)}
+                  {member.user_id === currentUserId && (
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">(you)</span>
+                  )}
+                </p>
+                {member.users?.username && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">@{member.users.username}</p>
+                )}
+              </div>
+              {canChangeMemberRoles(actorRole) ? (
+                <select
+                  value={member.role}
+                  onChange={(e) => handleRoleChange(member, e.target.value as RestaurantMemberRole)}
+                  className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                >
+                  {RESTAURANT_ROLES.map((role) => (
+                    <option key={role} value={role}>{RESTAURANT_ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+              ) : (
+                <span className="px-2 py-1 text-xs rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                  {RESTAURANT_ROLE_LABELS[member.role]}
+                </span>
+              )}
+              {canRemoveMember(actorRole, member, currentUserId) && (
+                <button
+                  onClick={() => setRemoving(member)}
+                  className="flex items-center gap-1 text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  {member.user_id === currentUserId ? 'Leave' : 'Remove'}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {canManage && invitations.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+          <h4 className="text-lg font-semibold dark:text-white mb-4 flex items-center gap-2">
+            <Mail className="w-5 h-5 text-green-600" />
+            Pending Invitations
+          </h4>
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {invitations.map((invitation) => (
+              <div key={invitation.id} className="flex items-center gap-3 py-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm dark:text-white truncate">
+                    {invitation.email || 'Invited by username'}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {RESTAURANT_ROLE_LABELS[invitation.role]} · expires {new Date(invitation.expires_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRevoke(invitation.id)}
+                  className="text-sm text-gray-600 hover:text-red-600 dark:text-gray-300 dark:hover:text-red-400"
+                >
+                  Revoke
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={!!removing}
+        onCancel={() => setRemoving(null)}
+        onConfirm={confirmRemove}
+        title={removing?.user_id === currentUserId ? 'Leave Restaurant' : 'Remove Team Member'}
+        message={
+          removing?.user_id === currentUserId
+            ? `Are you sure you want to leave ${restaurant.name}?`
+            : `Remove ${removing ? memberName(removing) : ''} from ${restaurant.name}?`
+        }
+        variant="danger"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, CheckCircle, Clock, FileText, Trash2, Upload } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import {
+  getRestaurantDocuments,
+  uploadRestaurantDocument,
+  deleteRestaurantDocument,
+  getDocumentUrl,
+  requestRestaurantReview,
+  DOCUMENT_TYPE_LABELS,
+  VERIFICATION_STATUS_LABELS,
+} from '../services/restaurantVerification';
+import type { MemberRestaurant } from '../services/restaurantTeam';
+import type { Database } from '../types/database';
+
+type RestaurantDocument = Database['public']['Tables']['restaurant_documents']['Row'];
+
+// Licences and certificates are usually scans or PDFs
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+interface RestaurantVerificationPanelProps {
+  restaurant: MemberRestaurant;
+  currentUserId: string;
+  // Called after the restaurant is resubmitted so the dashboard reloads its status
+  onStatusChanged?: () => void;
+}
+
+export default function RestaurantVerificationPanel({ restaurant, currentUserId, onStatusChanged }: RestaurantVerificationPanelProps) {
+  const [documents, setDocuments] = useState<RestaurantDocument[]>([]);
+  const [documentType, setDocumentType] = useState('business_license');
+  const [file, setFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [resubmitting, setResubmitting] = useState(false);
+
+  const canManage = restaurant.member_role === 'owner' || restaurant.member_role === 'manager';
+  const status = restaurant.verification_status;
+
+  useEffect(() => {
+    loadDocuments();
+  }, [restaurant.id]);
+
+  const loadDocuments = async () => {
+    setDocuments(await getRestaurantDocuments(restaurant.id));
+  };
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) {
+      toast.error('Choose a file to upload');
+      return;
+    }
+    if (file.size > MAX_DOCUMENT_BYTES) {
+      toast.error('Documents must be 10 MB or smaller');
+      return;
+    }
+
+    try {
+      setUploading(true);
+      const document = await uploadRestaurantDocument(restaurant.id, currentUserId, file, documentType);
+      setDocuments(prev => [...prev, document]);
+      setFile(null);
+      (e.target as HTMLFormElement).reset();
+      toast.success('Document uploaded');
+    } catch (error) {
+      console.error('Error uploading document:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to upload document');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (document: RestaurantDocument) => {
+    try {
+      await deleteRestaurantDocument(document);
+      setDocuments(prev => prev.filter(d => d.id !== document.id));
+      toast.success('Document removed');
+    } catch (error) {
+      console.error('Error deleting document:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete document');
+    }
+  };
+
+  const handleOpen = async (document: RestaurantDocument) => {
+    try {
+      window.open(await getDocumentUrl(document.file_path), '_blank', 'noopener,noreferrer');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to open document');
+    }
+  };
+
+  const handleResubmit = async () => {
+    try {
+      setResubmitting(true);
+      await requestRestaurantReview(restaurant.id);
+      toast.success('Sent back for review');
+      onStatusChanged?.();
+    } catch (error) {
+      console.error('Error requesting review:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to request review');
+    } finally {
+      setResubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 space-y-6">
+      <div className="flex items-start gap-3">
+        {status === 'approved' ? (
+          <CheckCircle className="w-6 h-6 text-green-600 dark:text-green-400 flex-shrink-0" />
+        ) : status === 'rejected' ? (
+          <AlertTriangle className="w-6 h-6 text-red-600 dark:text-red-400 flex-shrink-0" />
+        ) : (
+          <Clock className="w-6 h-6 text-yellow-600 dark:text-yellow-400 flex-shrink-0" />
+        )}
+        <div className="flex-1">
+          <h4 className="text-lg font-semibold dark:text-white">
+            {VERIFICATION_STATUS_LABELS[status]}
+          </h4>
+          {status === 'approved' && (
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              {restaurant.name} is verified and its listings are visible to everyone.
+            </p>
+          )}
+          {status === 'pending' && (
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Your listings stay hidden from the public until we have checked {restaurant.name}.
+              Upload a business licence or food hygiene certificate to speed things up.
+            </p>
+          )}
+          {status === 'rejected' && (
+            <>
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                Your listings stay hidden from the public. Fix the issue below, then ask for another review.
+              </p>
+              {restaurant.rejection_reason && (
+                <p className="mt-2 text-sm p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300">
+                  {restaurant.rejection_reason}
+                </p>
+              )}
+              {canManage && (
+                <button
+                  onClick={handleResubmit}
+                  disabled={resubmitting}
+                  className="mt-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg transition-colors"
+                >
+                  {resubmitting ? 'Submitting...' : 'Request Another Review'}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="font-semibold dark:text-white mb-3 flex items-center gap-2">
+          <FileText className="w-5 h-5 text-green-600" />
+          Verification Documents
+        </h4>
+        {documents.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No documents uploaded yet</p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {documents.map((document) => (
+              <div key={document.id} className="flex items-center gap-3 py-2">
+                <button
+                  onClick={() => handleOpen(document)}
+                  className="flex-1 min-w-0 text-left text-sm dark:text-white hover:text-green-600 dark:hover:text-green-400 truncate"
+                >
+                  {document.file_name}
+                </button>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {DOCUMENT_TYPE_LABELS[document.document_type] || document.document_type}
+                </span>
+                {canManage && (
+                  <button
+                    onClick={() => handleDelete(document)}
+                    className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                    aria-label={`Remove ${document.file_name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canManage && status !== 'approved' && (
+          <form onSubmit={handleUpload} className="mt-4 flex flex-col md:flex-row gap-3">
+            <select
+              value={documentType}
+              onChange={(e) => setDocumentType(e.target.value)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+            >
+              {Object.entries(DOCUMENT_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <input
+              type="file"
+              accept="application/pdf,image/*"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="flex-1 text-sm text-gray-600 dark:text-gray-300"
+            />
+            <button
+              type="submit"
+              disabled={uploading}
+              className="flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              <Upload className="w-4 h-4" />
+              {uploading ? 'Uploading...' : 'Upload'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
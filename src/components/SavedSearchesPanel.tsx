@@ -0,0 +1,423 @@
+import React, { useState, useEffect } from 'react';
+import { Bookmark, BookmarkPlus, Edit, Moon, Plus, Trash2, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import {
+  getSavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  formatTimeOfDay,
+  ALERT_CHANNELS,
+  ALERT_CHANNEL_LABELS,
+  SAVED_SEARCH_RADII_KM,
+} from '../services/savedSearches';
+import type { SavedSearch, SavedSearchInput } from '../services/savedSearches';
+import { DIETARY_TAGS } from '../services/foodSharing';
+import type { AlertChannel, PickupTimeWindow } from '../types/database';
+import ConfirmDialog from './ConfirmDialog';
+
+// The dashboard's filters at the moment "Save search" is pressed
+export interface CurrentSearch {
+  keywords: string;
+  dietaryTags: string[];
+  radiusKm: number;
+  location: [number, number] | null;
+}
+
+interface SavedSearchesPanelProps {
+  userId: string;
+  current: CurrentSearch;
+  activeSearchId: string | null;
+  // Called with null when the active search is deleted
+  onSelect: (search: SavedSearch | null) => void;
+}
+
+interface SearchForm {
+  name: string;
+  keywords: string;
+  dietary_tags: string[];
+  radius_km: number;
+  location: [number, number] | null;
+  pickup_windows: PickupTimeWindow[];
+  channels: AlertChannel[];
+  alerts_enabled: boolean;
+  quiet_hours: boolean;
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const formFromCurrent = (current: CurrentSearch): SearchForm => ({
+  name: current.keywords,
+  keywords: current.keywords,
+  dietary_tags: current.dietaryTags,
+  radius_km: current.radiusKm,
+  location: current.location,
+  pickup_windows: [],
+  channels: ['in_app'],
+  alerts_enabled: true,
+  quiet_hours: false,
+  quiet_hours_start: '22:00',
+  quiet_hours_end: '07:00',
+});
+
+const formFromSearch = (search: SavedSearch): SearchForm => ({
+  name: search.name,
+  keywords: search.keywords ?? '',
+  dietary_tags: search.dietary_tags,
+  radius_km: search.radius_km,
+  location: search.latitude !== null && search.longitude !== null ? [search.latitude, search.longitude] : null,
+  pickup_windows: search.pickup_windows.map(w => ({ start: formatTimeOfDay(w.start), end: formatTimeOfDay(w.end) })),
+  channels: search.channels,
+  alerts_enabled: search.alerts_enabled,
+  quiet_hours: !!search.quiet_hours_start,
+  quiet_hours_start: search.quiet_hours_start ? formatTimeOfDay(search.quiet_hours_start) : '22:00',
+  quiet_hours_end: search.quiet_hours_end ? formatTimeOfDay(search.quiet_hours_end) : '07:00',
+});
+
+const inputFromForm = (form: SearchForm): SavedSearchInput => ({
+  name: form.name,
+  keywords: form.keywords,
+  dietary_tags: form.dietary_tags,
+  latitude: form.location?.[0] ?? null,
+  longitude: form.location?.[1] ?? null,
+  radius_km: form.radius_km,
+  pickup_windows: form.pickup_windows,
+  channels: form.channels,
+  alerts_enabled: form.alerts_enabled,
+  quiet_hours_start: form.quiet_hours ? form.quiet_hours_start : null,
+  quiet_hours_end: form.quiet_hours ? form.quiet_hours_end : null,
+});
+
+const describeSearch = (search: SavedSearch) => {
+  const parts = [
+    search.keywords ? `"${search.keywords}"` : null,
+    ...search.dietary_tags,
+    search.latitude !== null ? `within ${search.radius_km} km` : null,
+    ...search.pickup_windows.map(w => `${formatTimeOfDay(w.start)}–${formatTimeOfDay(w.end)}`),
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'All listings';
+};
+
+// Named searches the user can re-apply and be alerted about (see listing_alert_matches)
+export default function SavedSearchesPanel({ userId, current, activeSearchId, onSelect }: SavedSearchesPanelProps) {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [editingSearch, setEditingSearch] = useState<SavedSearch | null>(null);
+  const [form, setForm] = useState<SearchForm>(() => formFromCurrent(current));
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState<SavedSearch | null>(null);
+
+  useEffect(() => {
+    getSavedSearches(userId).then(setSearches);
+  }, [userId]);
+
+  const openForm = (search: SavedSearch | null) => {
+    setEditingSearch(search);
+    setForm(search ? formFromSearch(search) : formFromCurrent(current));
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingSearch(null);
+  };
+
+  const toggleInList = <T,>(list: T[], item: T) =>
+    list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+  const updateWindow = (index: number, changes: Partial<PickupTimeWindow>) =>
+    setForm({
+      ...form,
+      pickup_windows: form.pickup_windows.map((w, i) => (i === index ? { ...w, ...changes } : w)),
+    });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      const input = inputFromForm(form);
+      if (editingSearch) {
+        const updated = await updateSavedSearch(editingSearch.id, input);
+        setSearches(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+        if (updated.id === activeSearchId) onSelect(updated);
+        toast.success('Search updated');
+      } else {
+        const created = await createSavedSearch(userId, input);
+        setSearches(prev => [...prev, created]);
+        toast.success('Search saved');
+      }
+      closeForm();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save search');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteSavedSearch(deleting.id);
+      setSearches(prev => prev.filter(s => s.id !== deleting.id));
+      if (deleting.id === activeSearchId) onSelect(null);
+      toast.success('Saved search deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete saved search');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {searches.map(search => (
+          <div
+            key={search.id}
+            className={`flex items-center gap-1 pl-3 pr-1 py-1 rounded-full border text-sm ${
+              search.id === activeSearchId
+                ? 'bg-blue-600 border-blue-600 text-white'
+                : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+            }`}
+          >
+            <button onClick={() => onSelect(search)} title={describeSearch(search)} className="flex items-center gap-1">
+              <Bookmark className="w-3.5 h-3.5" />
+              {search.name}
+              {search.quiet_hours_start && <Moon className="w-3 h-3 opacity-70" />}
+            </button>
+            <button onClick={() => openForm(search)} className="p-1 rounded-full hover:bg-black/10" aria-label={`Edit ${search.name}`}>
+              <Edit className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => setDeleting(search)} className="p-1 rounded-full hover:bg-black/10" aria-label={`Delete ${search.name}`}>
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => openForm(null)}
+          className="flex items-center gap-1 px-3 py-1 rounded-full border border-dashed border-blue-400 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-gray-700"
+        >
+          <BookmarkPlus className="w-4 h-4" />
+          Save this search
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="font-semibold dark:text-white">{editingSearch ? 'Edit Saved Search' : 'Save Search'}</h4>
+            <button type="button" onClick={closeForm} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Name *</label>
+              <input
+                type="text"
+                required
+                maxLength={80}
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClass}
+                placeholder="e.g., Vegan dinner near work"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Keywords</label>
+              <input
+                type="text"
+                value={form.keywords}
+                onChange={(e) => setForm({ ...form, keywords: e.target.value })}
+                className={inputClass}
+                placeholder="Food item or restaurant"
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {DIETARY_TAGS.map(tag => (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => setForm({ ...form, dietary_tags: toggleInList(form.dietary_tags, tag) })}
+                className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                  form.dietary_tags.includes(tag)
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+              >
+                {tag}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Area</label>
+              {form.location ? (
+                <div className="flex gap-2">
+                  <select
+                    value={form.radius_km}
+                    onChange={(e) => setForm({ ...form, radius_km: Number(e.target.value) })}
+                    className={inputClass}
+                  >
+                    {SAVED_SEARCH_RADII_KM.map(km => (
+                      <option key={km} value={km}>Within {km}km of {editingSearch ? 'the saved location' : 'your location'}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setForm({ ...form, location: null })}
+                    className="px-3 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400"
+                  >
+                    Anywhere
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                  Anywhere
+                  {current.location && (
+                    <button
+                      type="button"
+                      onClick={() => setForm({ ...form, location: current.location })}
+                      className="text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      Use my location
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Pickup times</label>
+              <div className="space-y-2">
+                {form.pickup_windows.map((w, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input type="time" required value={w.start} onChange={(e) => updateWindow(index, { start: e.target.value })} className={inputClass} />
+                    <span className="text-gray-500">–</span>
+                    <input type="time" required value={w.end} onChange={(e) => updateWindow(index, { end: e.target.value })} className={inputClass} />
+                    <button
+                      type="button"
+                      onClick={() => setForm({ ...form, pickup_windows: form.pickup_windows.filter((_, i) => i !== index) })}
+                      className="p-1 text-gray-400 hover:text-red-500"
+                      aria-label="Remove pickup window"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setForm({ ...form, pickup_windows: [...form.pickup_windows, { start: '17:00', end: '20:00' }] })}
+                  className="flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  <Plus className="w-4 h-4" />
+                  {form.pickup_windows.length === 0 ? 'Any time — add a window' : 'Add another window'}
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-3 pt-2 border-t border-gray-200 dark:border-gray-700">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={form.alerts_enabled}
+                onChange={(e) => setForm({ ...form, alerts_enabled: e.target.checked })}
+                className="rounded text-blue-600 focus:ring-blue-500"
+              />
+              Alert me about new matches
+            </label>
+
+            {form.alerts_enabled && (
+              <>
+                <div className="flex flex-wrap gap-4">
+                  {ALERT_CHANNELS.map(channel => (
+                    <label key={channel} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={form.channels.includes(channel)}
+                        onChange={() => setForm({ ...form, channels: toggleInList(form.channels, channel) })}
+                        className="rounded text-blue-600 focus:ring-blue-500"
+                      />
+                      {ALERT_CHANNEL_LABELS[channel]}
+                    </label>
+                  ))}
+                </div>
+                {form.channels.includes('push') && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Turn on push alerts for this device from the bell menu's settings.
+                  </p>
+                )}
+                <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={form.quiet_hours}
+                      onChange={(e) => setForm({ ...form, quiet_hours: e.target.checked })}
+                      className="rounded text-blue-600 focus:ring-blue-500"
+                    />
+                    Quiet hours
+                  </label>
+                  {form.quiet_hours && (
+                    <>
+                      <input
+                        type="time"
+                        required
+                        value={form.quiet_hours_start}
+                        onChange={(e) => setForm({ ...form, quiet_hours_start: e.target.value })}
+                        className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                      />
+                      <span>to</span>
+                      <input
+                        type="time"
+                        required
+                        value={form.quiet_hours_end}
+                        onChange={(e) => setForm({ ...form, quiet_hours_end: e.target.value })}
+                        className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                      />
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        Push alerts go to your inbox instead; the digest waits until they end
+                      </span>
+                    </>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : editingSearch ? 'Update Search' : 'Save Search'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <ConfirmDialog
+        isOpen={!!deleting}
+        onCancel={() => setDeleting(null)}
+        onConfirm={confirmDelete}
+        title="Delete Saved Search"
+        message={`Delete "${deleting?.name ?? ''}"? You will stop getting alerts for it.`}
+        variant="danger"
+      />
+    </div>
+  );
+}
@@ -1,23 +1,76 @@
-import { useState } from 'react';
-import { Search, X } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { Search, X, MapPin } from 'lucide-react';
+import { searchFoodListings } from '../services/foodSharing';
+import type { FoodListingSearchResult } from '../services/foodSharing';
 
 interface SearchInputProps {
   placeholder?: string;
+  // Initial text; remount with a new key to replace it
+  defaultValue?: string;
   onSearch?: (query: string) => void;
+  onSelect?: (listing: FoodListingSearchResult) => void;
   onClear?: () => void;
   className?: string;
+  debounceMs?: number;
+  maxSuggestions?: number;
 }
 
-export default function SearchInput({ 
-  placeholder = "Search for food items...", 
-  onSearch, 
+export default function SearchInput({
+  placeholder = "Search for food items...",
+  defaultValue = '',
+  onSearch,
+  onSelect,
   onClear,
-  className = ""
+  className = "",
+  debounceMs = 300,
+  maxSuggestions = 5
 }: SearchInputProps) {
-  const [query, setQuery] = useState('');
+  const [query, setQuery] = useState(defaultValue);
+  const [suggestions, setSuggestions] = useState<FoodListingSearchResult[]>([]);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const latestRequest = useRef(0);
+
+  // Debounced: suggestions and onSearch only fire once typing pauses
+  useEffect(() => {
+    const trimmed = query.trim();
+    const timeoutId = setTimeout(async () => {
+      onSearch?.(trimmed);
+
+      if (!trimmed) {
+        setSuggestions([]);
+        return;
+      }
+
+      // Ignore responses that arrive after a newer query was sent
+      const requestId = ++latestRequest.current;
+      try {
+        const results = await searchFoodListings(trimmed, { limit: maxSuggestions });
+        if (requestId === latestRequest.current) {
+          setSuggestions(results);
+          setActiveIndex(-1);
+        }
+      } catch (error) {
+        console.error('Error loading search suggestions:', error);
+      }
+    }, debounceMs);
+
+    return () => clearTimeout(timeoutId);
+  }, [query]);
+
+  const selectSuggestion = (listing: FoodListingSearchResult) => {
+    setQuery(listing.food_item);
+    setShowSuggestions(false);
+    onSelect?.(listing);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (activeIndex >= 0 && suggestions[activeIndex]) {
+      selectSuggestion(suggestions[activeIndex]);
+      return;
+    }
+    setShowSuggestions(false);
     if (onSearch && query.trim()) {
       onSearch(query.trim());
     }
@@ -25,22 +78,23 @@ export default function SearchInput({
 
   const handleClear = () => {
     setQuery('');
+    setSuggestions([]);
     if (onClear) {
       onClear();
     }
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setQuery(value);
-    
-    // Auto-search as user types (debounced)
-    if (onSearch) {
-      const timeoutId = setTimeout(() => {
-        onSearch(value.trim());
-      }, 300);
-      
-      return () => clearTimeout(timeoutId);
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions || suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(prev => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
     }
   };
 
@@ -51,9 +105,18 @@ export default function SearchInput({
         <input
           type="text"
           value={query}
-          onChange={handleChange}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setShowSuggestions(true);
+          }}
+          onFocus={() => setShowSuggestions(true)}
+          onBlur={() => setShowSuggestions(false)}
+          onKeyDown={handleKeyDown}
           placeholder={placeholder}
-          className="w-full pl-10 pr-10 py-3 border border-gray-300 dark:border-gray-600 rounded-lg 
+          role="combobox"
+          aria-expanded={showSuggestions && suggestions.length > 0}
+          aria-autocomplete="list"
+          className="w-full pl-10 pr-10 py-3 border border-gray-300 dark:border-gray-600 rounded-lg
                    bg-white dark:bg-gray-700 text-gray-900 dark:text-white
                    placeholder-gray-500 dark:placeholder-gray-400
                    focus:ring-2 focus:ring-green-500 focus:border-transparent
@@ -69,6 +132,37 @@ export default function SearchInput({
           </button>
         )}
       </div>
+
+      {showSuggestions && suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute z-20 mt-1 w-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg overflow-hidden"
+        >
+          {suggestions.map((listing, index) => (
+            <li
+              key={listing.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                selectSuggestion(listing);
+              }}
+              className={`px-4 py-2 cursor-pointer ${
+                index === activeIndex
+                  ? 'bg-green-50 dark:bg-green-900/30'
+                  : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+              }`}
+            >
+              <p className="text-sm font-medium text-gray-900 dark:text-white">{listing.food_item}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
+                <MapPin className="w-3 h-3" />
+                {listing.restaurants.name}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
     </form>
   );
 }
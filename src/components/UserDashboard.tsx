@@ -1,19 +1,60 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { MapPin, Search, Filter, Clock, Users, Star } from 'lucide-react';
+import { MapPin, Filter, Clock, Users, Star, X } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
-import { getAvailableFoodListings } from '../services/foodSharing';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { queryFoodListings, formatListingQuantity, DIETARY_TAGS } from '../services/foodSharing';
 import { supabase } from '../lib/supabase';
-import type { FoodListingWithRestaurant } from '../services/foodSharing';
+import type { FoodListingFilters, QueriedFoodListing } from '../services/foodSharing';
+import type { FoodListingCursor, FoodListingSort } from '../types/database';
 import FoodMap from './FoodMap';
+import SearchInput from './SearchInput';
+import SavedSearchesPanel from './SavedSearchesPanel';
+import { formatTimeOfDay, matchesPickupWindows } from '../services/savedSearches';
+import type { SavedSearch } from '../services/savedSearches';
 import { toast } from 'react-hot-toast';
 
+const PAGE_SIZE = 24;
+
+type PickupFilter = 'any' | 'next_2h' | 'today';
+
+// Pickup-window overlap for the selected filter, relative to now
+const getPickupWindow = (filter: PickupFilter): FoodListingFilters['pickupWindow'] => {
+  const now = new Date();
+  if (filter === 'next_2h') {
+    return { from: now.toISOString(), to: new Date(now.getTime() + 2 * 60 * 60 * 1000).toISOString() };
+  }
+  if (filter === 'today') {
+    const endOfDay = new Date(now);
+    endOfDay.setHours(23, 59, 59, 999);
+    return { from: now.toISOString(), to: endOfDay.toISOString() };
+  }
+  return undefined;
+};
+
 export default function UserDashboard() {
-  const { user } = useAuth();
-  const [foodListings, setFoodListings] = useState<FoodListingWithRestaurant[]>([]);
+  const { profile, user } = useAuth();
+  const [foodListings, setFoodListings] = useState<QueriedFoodListing[]>([]);
+  const [nextCursor, setNextCursor] = useState<FoodListingCursor | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [filterDistance, setFilterDistance] = useState<number>(10);
+  const [dietaryFilter, setDietaryFilter] = useState<string[]>([]);
+  const [pickupFilter, setPickupFilter] = useState<PickupFilter>('any');
+  const [sortOrder, setSortOrder] = useState<FoodListingSort>('newest');
+  const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
+  const [activeSearch, setActiveSearch] = useState<SavedSearch | null>(null);
+  // Remounts the search box so it shows an applied search's keywords
+  const [searchInputKey, setSearchInputKey] = useState(0);
+
+  useEffect(() => {
+    navigator.geolocation?.getCurrentPosition(
+      (position) => setUserLocation([position.coords.latitude, position.coords.longitude]),
+      () => console.log('📍 UserDashboard: Geolocation unavailable - showing all listings'),
+      { timeout: 5000, maximumAge: 300000 }
+    );
+  }, []);
 
   useEffect(() => {
     loadFoodListings();
@@ -25,6 +66,11 @@ export default function UserDashboard() {
         { event: '*', schema: 'public', table: 'food_listings' },
         (payload) => {
           console.log('🔔 UserDashboard: Real-time food listing change:', payload);
+          // Drop listings retired by the expiry sweep without waiting for a refetch
+          if (payload.eventType === 'UPDATE' && payload.new.expired_at) {
+            setFoodListings(prev => prev.filter(listing => listing.id !== payload.new.id));
+            return;
+          }
           console.log('🔄 UserDashboard: Reloading food listings due to real-time update...');
           // Reload food listings when any change occurs
           loadFoodListings();
@@ -54,16 +100,27 @@ export default function UserDashboard() {
       subscription.unsubscribe();
       restaurantSubscription.unsubscribe();
     };
-  }, []);
+  }, [userLocation, filterDistance, searchQuery, dietaryFilter, pickupFilter, sortOrder]);
+
+  const buildFilters = (): FoodListingFilters => ({
+    search: searchQuery,
+    dietary: dietaryFilter,
+    pickupWindow: getPickupWindow(pickupFilter),
+    near: userLocation
+      ? { latitude: userLocation[0], longitude: userLocation[1], radiusKm: filterDistance }
+      : undefined,
+    sort: sortOrder,
+    limit: PAGE_SIZE,
+  });
 
   const loadFoodListings = async () => {
     try {
       setLoading(true);
       console.log('🔄 UserDashboard: Loading food listings...');
-      // Get user location first, then fetch nearby listings
-      const listings = await getAvailableFoodListings();
-      console.log('📊 UserDashboard: Received listings:', listings.length);
-      setFoodListings(listings);
+      const page = await queryFoodListings(buildFilters());
+      console.log('📊 UserDashboard: Received listings:', page.listings.length);
+      setFoodListings(page.listings);
+      setNextCursor(page.nextCursor);
     } catch (error) {
       console.error('❌ UserDashboard: Error loading food listings:', error);
       toast.error('Failed to load food listings');
@@ -72,15 +129,49 @@ export default function UserDashboard() {
     }
   };
 
-  const filteredListings = foodListings.filter(listing => {
-    if (searchQuery) {
-      return listing.food_item.toLowerCase().includes(searchQuery.toLowerCase()) ||
-             listing.description?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-             listing.restaurants.name.toLowerCase().includes(searchQuery.toLowerCase());
+  const loadMoreListings = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    try {
+      setLoadingMore(true);
+      const page = await queryFoodListings({ ...buildFilters(), cursor: nextCursor });
+      setFoodListings(prev => [...prev, ...page.listings]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('❌ UserDashboard: Error loading more food listings:', error);
+      toast.error('Failed to load more food listings');
+    } finally {
+      setLoadingMore(false);
     }
-    return true;
+  };
+
+  const sentinelRef = useInfiniteScroll(loadMoreListings, {
+    hasMore: !!nextCursor,
+    loading: loading || loadingMore,
   });
 
+  const applySavedSearch = (search: SavedSearch | null) => {
+    setActiveSearch(search);
+    if (!search) return;
+
+    setSearchQuery(search.keywords ?? '');
+    setSearchInputKey(key => key + 1);
+    setDietaryFilter(search.dietary_tags);
+    setFilterDistance(search.radius_km);
+    if (search.latitude !== null && search.longitude !== null) {
+      setUserLocation([search.latitude, search.longitude]);
+    }
+  };
+
+  // query_food_listings has no time-of-day filter, so a saved search's pickup windows apply here
+  const visibleListings = activeSearch
+    ? foodListings.filter(listing => matchesPickupWindows(listing, activeSearch.pickup_windows))
+    : foodListings;
+
+  const toggleDietaryFilter = (tag: string) => {
+    setDietaryFilter(prev => prev.includes(tag) ? prev.filter(item => item !== tag) : [...prev, tag]);
+  };
+
   const stats = {
     availableListings: foodListings.filter(l => !l.is_claimed).length,
     nearbyRestaurants: new Set(foodListings.map(l => l.restaurants.id)).size,
@@ -93,7 +184,7 @@ export default function UserDashboard() {
         {/* Header */}
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
-            Welcome back, {user?.user_metadata?.full_name || 'Food Seeker'}! 🍽️
+            Welcome back, {profile?.full_name || 'Food Seeker'}! 🍽️
           </h1>
           <p className="text-gray-600 dark:text-gray-300">
             Find delicious food near you and help reduce waste in your community
@@ -158,16 +249,14 @@ export default function UserDashboard() {
                 {/* Search and Filters */}
                 <div className="flex flex-col md:flex-row gap-4">
                   <div className="flex-1">
-                    <div className="relative">
-                      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-                      <input
-                        type="text"
-                        placeholder="Search for food items or restaurants..."
-                        value={searchQuery}
-                        onChange={(e) => setSearchQuery(e.target.value)}
-                        className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                      />
-                    </div>
+                    <SearchInput
+                      key={searchInputKey}
+                      defaultValue={searchQuery}
+                      placeholder="Search for food items or restaurants..."
+                      onSearch={setSearchQuery}
+                      onSelect={(listing) => setSearchQuery(listing.food_item)}
+                      onClear={() => setSearchQuery('')}
+                    />
                   </div>
                   <div className="flex items-center gap-2">
                     <Filter className="w-4 h-4 text-gray-400" />
@@ -181,9 +270,74 @@ export default function UserDashboard() {
                       <option value={25}>Within 25km</option>
                       <option value={50}>Within 50km</option>
                     </select>
+                    <select
+                      value={pickupFilter}
+                      onChange={(e) => setPickupFilter(e.target.value as PickupFilter)}
+                      className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    >
+                      <option value="any">Any pickup time</option>
+                      <option value="next_2h">Next 2 hours</option>
+                      <option value="today">Today</option>
+                    </select>
+                    <select
+                      value={sortOrder}
+                      onChange={(e) => setSortOrder(e.target.value as FoodListingSort)}
+                      className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    >
+                      <option value="newest">Newest</option>
+                      <option value="ending_soon">Ending soon</option>
+                      {userLocation && <option value="distance">Nearest</option>}
+                    </select>
                   </div>
                 </div>
 
+                <div className="flex flex-wrap gap-2">
+                  {DIETARY_TAGS.map((tag) => (
+                    <button
+                      key={tag}
+                      type="button"
+                      onClick={() => toggleDietaryFilter(tag)}
+                      className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                        dietaryFilter.includes(tag)
+                          ? 'bg-blue-600 border-blue-600 text-white'
+                          : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      {tag}
+                    </button>
+                  ))}
+                </div>
+
+                {user && (
+                  <SavedSearchesPanel
+                    userId={user.id}
+                    current={{
+                      keywords: searchQuery,
+                      dietaryTags: dietaryFilter,
+                      radiusKm: filterDistance,
+                      location: userLocation,
+                    }}
+                    activeSearchId={activeSearch?.id ?? null}
+                    onSelect={applySavedSearch}
+                  />
+                )}
+
+                {activeSearch && activeSearch.pickup_windows.length > 0 && (
+                  <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                    <Clock className="w-4 h-4" />
+                    Pickup between {activeSearch.pickup_windows
+                      .map(w => `${formatTimeOfDay(w.start)}–${formatTimeOfDay(w.end)}`)
+                      .join(' or ')}
+                    <button
+                      onClick={() => setActiveSearch(null)}
+                      className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                      aria-label="Show all pickup times"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+
                 {/* Food Map */}
                 <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden">
                   <div className="p-4 border-b border-gray-200 dark:border-gray-700">
@@ -209,18 +363,18 @@ export default function UserDashboard() {
                         <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-2/3"></div>
                       </div>
                     ))
-                  ) : filteredListings.length === 0 ? (
+                  ) : visibleListings.length === 0 ? (
                     <div className="col-span-full text-center py-12">
                       <MapPin className="w-12 h-12 text-gray-400 mx-auto mb-4" />
                       <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
                         No food listings found
                       </h3>
                       <p className="text-gray-600 dark:text-gray-400">
-                        Try adjusting your search or distance filter
+                        Try adjusting your search or filters
                       </p>
                     </div>
                   ) : (
-                    filteredListings.map((listing) => (
+                    visibleListings.map((listing) => (
                       <motion.div
                         key={listing.id}
                         initial={{ opacity: 0, y: 20 }}
@@ -249,12 +403,21 @@ export default function UserDashboard() {
                           </div>
                           <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
                             {listing.restaurants.name}
+                            {listing.distance_km !== null && (
+                              <span className="ml-2 text-blue-600 dark:text-blue-400">
+                                {listing.distance_km.toFixed(1)}km away
+                              </span>
+                            )}
                           </p>
                           {listing.description && (
                             <p className="text-sm text-gray-700 dark:text-gray-300 mb-3">
                               {listing.description}
                             </p>
                           )}
+                          <div className="flex items-center text-xs text-gray-500 dark:text-gray-400 mb-1">
+                            <Users className="w-3 h-3 mr-1" />
+                            {formatListingQuantity(listing)}
+                          </div>
                           <div className="flex items-center text-xs text-gray-500 dark:text-gray-400 mb-3">
                             <Clock className="w-3 h-3 mr-1" />
                             Pickup: {new Date(listing.pickup_start_time).toLocaleDateString()}
@@ -276,6 +439,13 @@ export default function UserDashboard() {
                     ))
                   )}
                 </div>
+
+                <div ref={sentinelRef} />
+                {loadingMore && (
+                  <div className="flex justify-center py-4">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                  </div>
+                )}
             </div>
           </div>
         </div>
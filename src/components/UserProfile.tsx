@@ -1,21 +1,35 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { User, MapPin, Clock, CheckCircle, Phone, Mail, Calendar, Utensils, Award, TrendingUp } from 'lucide-react';
+import { User, MapPin, Clock, CheckCircle, Phone, Mail, Calendar, Utensils, Award, TrendingUp, Trash2, Scale, Leaf, Droplets } from 'lucide-react';
 import { ChefHat } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
-import { getUserClaims, markPickupCompleted, ClaimWithDetails } from '../services/foodSharing';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { getUserClaims, getUserClaimStats, transitionClaim, buildPickupQrPayload, isClaimOpen, CLAIM_STATUS_LABELS, ClaimWithDetails } from '../services/foodSharing';
+import { getUserImpact, formatWeight, formatWater } from '../services/impact';
+import type { ImpactSummary } from '../services/impact';
 import { toast } from 'react-hot-toast';
+import { QRCodeSVG } from 'qrcode.react';
 import { useStore } from '../store';
 import ProfileCard from './ProfileCard';
+import RestaurantInvitations from './RestaurantInvitations';
 // import LanguageSelector from './LanguageSelector';
 // import { HuggingFaceTranslationService } from '../services/translationService';
 
+const CLAIMS_PAGE_SIZE = 20;
+
 export default function UserProfile() {
-  const { user, profile, updateProfile, loading: authLoading, profileLoading, isRestaurantAdmin, initialized } = useAuth();
+  const { user, profile, updateProfile, deleteAccount, loading: authLoading, profileLoading, isRestaurantAdmin, initialized } = useAuth();
   const { demoProfiles, initializeDemoProfiles } = useStore();
   const [claims, setClaims] = useState<ClaimWithDetails[]>([]);
   const [loading, setLoading] = useState(true);
+  const [hasMoreClaims, setHasMoreClaims] = useState(false);
+  const [loadingMoreClaims, setLoadingMoreClaims] = useState(false);
+  const [claimStats, setClaimStats] = useState({ total: 0, completed: 0 });
+  const [impact, setImpact] = useState<ImpactSummary | null>(null);
   const [editingProfile, setEditingProfile] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [deleteConfirmation, setDeleteConfirmation] = useState('');
+  const [deletingAccount, setDeletingAccount] = useState(false);
   const [profileForm, setProfileForm] = useState({
     full_name: profile?.full_name || '',
     phone: profile?.phone || '',
@@ -107,27 +121,54 @@ export default function UserProfile() {
 
     try {
       setLoading(true);
-      const data = await getUserClaims(user.id);
+      const [data, stats, userImpact] = await Promise.all([
+        getUserClaims(user.id, { limit: CLAIMS_PAGE_SIZE }),
+        getUserClaimStats(user.id),
+        getUserImpact(),
+      ]);
       setClaims(data || []);
+      setHasMoreClaims((data || []).length === CLAIMS_PAGE_SIZE);
+      setClaimStats(stats);
+      setImpact(userImpact);
     } catch (error) {
       console.error('Error loading claims:', error);
       // Don't show error toast for empty claims, it's normal
       setClaims([]);
+      setHasMoreClaims(false);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleMarkCompleted = async (claimId: string) => {
+  const loadMoreClaims = async () => {
+    const last = claims[claims.length - 1];
+    if (!user || !last || loadingMoreClaims) return;
+
+    try {
+      setLoadingMoreClaims(true);
+      const data = await getUserClaims(user.id, { limit: CLAIMS_PAGE_SIZE, cursor: last });
+      setClaims(prev => [...prev, ...data]);
+      setHasMoreClaims(data.length === CLAIMS_PAGE_SIZE);
+    } finally {
+      setLoadingMoreClaims(false);
+    }
+  };
+
+  const claimsSentinelRef = useInfiniteScroll(loadMoreClaims, {
+    hasMore: hasMoreClaims,
+    loading: loading || loadingMoreClaims,
+  });
+
+  const handleCancelClaim = async (claim: ClaimWithDetails) => {
     try {
-      toast.loading('Marking pickup as completed...', { id: 'completing' });
-      await markPickupCompleted(claimId);
-      toast.success('Pickup marked as completed!', { id: 'completing' });
-      loadUserClaims(); // Refresh the claims
+      toast.loading('Cancelling claim...', { id: 'cancelling' });
+      await transitionClaim(claim, 'cancelled_by_user', 'user');
+      toast.success('Claim cancelled. The food is available to others again.', { id: 'cancelling' });
+      loadUserClaims();
     } catch (error) {
-      console.error('Error marking pickup completed:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to mark pickup as completed';
-      toast.error(errorMessage, { id: 'completing' });
+      console.error('Error cancelling claim:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to cancel claim';
+      toast.error(errorMessage, { id: 'cancelling' });
     }
   };
 
@@ -152,6 +193,21 @@ export default function UserProfile() {
     }
   };
 
+  const handleDeleteAccount = async () => {
+    if (deleteConfirmation !== 'DELETE') return;
+
+    setDeletingAccount(true);
+    try {
+      await deleteAccount();
+      toast.success('Your account has been deleted');
+    } catch (error) {
+      console.error('Error deleting account:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete account';
+      toast.error(errorMessage);
+      setDeletingAccount(false);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -168,9 +224,9 @@ export default function UserProfile() {
   };
 
   // Calculate statistics
-  const completedClaims = claims.filter(claim => claim.pickup_completed);
-  const totalMealsRescued = claims.length;
-  const completionRate = claims.length > 0 ? Math.round((completedClaims.length / claims.length) * 100) : 0;
+  const completedClaims = claimStats.completed;
+  const totalMealsRescued = claimStats.total;
+  const completionRate = totalMealsRescued > 0 ? Math.round((completedClaims / totalMealsRescued) * 100) : 0;
 
   // Use demo profile data if available
   const userDemoProfile = demoProfiles.find(p => p.role === 'user');
@@ -344,6 +400,8 @@ export default function UserProfile() {
             </div>
           </div>
 
+          {!isDemo && <RestaurantInvitations className="mt-6" />}
+
           {/* Statistics */}
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mt-6">
             <h3 className="text-lg font-semibold dark:text-white mb-4">
@@ -362,7 +420,7 @@ export default function UserProfile() {
                   <CheckCircle className="w-5 h-5 text-blue-600 dark:text-blue-400" />
                   <span className="text-gray-600 dark:text-gray-300">Completed</span>
                 </div>
-                <span className="font-semibold text-lg dark:text-white">{completedClaims.length}</span>
+                <span className="font-semibold text-lg dark:text-white">{completedClaims}</span>
               </div>
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
@@ -371,6 +429,34 @@ export default function UserProfile() {
                 </div>
                 <span className="font-semibold text-lg dark:text-white">{completionRate}%</span>
               </div>
+              {impact && impact.pickups > 0 && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Scale className="w-5 h-5 text-green-600 dark:text-green-400" />
+                      <span className="text-gray-600 dark:text-gray-300">Food Rescued</span>
+                    </div>
+                    <span className="font-semibold text-lg dark:text-white">{formatWeight(impact.kg)}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Leaf className="w-5 h-5 text-green-600 dark:text-green-400" />
+                      <span className="text-gray-600 dark:text-gray-300">CO₂ Avoided</span>
+                    </div>
+                    <span className="font-semibold text-lg dark:text-white">{formatWeight(impact.co2e_kg)}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Droplets className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+                      <span className="text-gray-600 dark:text-gray-300">Water Saved</span>
+                    </div>
+                    <span className="font-semibold text-lg dark:text-white">{formatWater(impact.water_l)}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Estimated from the food you picked up (factors {impact.version})
+                  </p>
+                </>
+              )}
             </div>
             
             {totalMealsRescued > 0 && (
@@ -387,6 +473,55 @@ export default function UserProfile() {
               </div>
             )}
           </div>
+
+          {/* Delete Account */}
+          {!isDemo && (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mt-6 border border-red-200 dark:border-red-900">
+              <h3 className="text-lg font-semibold text-red-700 dark:text-red-400 mb-2">Delete Account</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+                Your profile is removed permanently. Past claims stay in restaurants' records without your name attached, and open claims are cancelled.
+              </p>
+              {confirmingDelete ? (
+                <div className="space-y-3">
+                  <label className="block text-sm text-gray-700 dark:text-gray-300">
+                    Type <span className="font-mono font-semibold">DELETE</span> to confirm
+                  </label>
+                  <input
+                    type="text"
+                    value={deleteConfirmation}
+                    onChange={(e) => setDeleteConfirmation(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleDeleteAccount}
+                      disabled={deleteConfirmation !== 'DELETE' || deletingAccount}
+                      className="flex-1 bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white py-2 px-4 rounded-lg transition-colors"
+                    >
+                      {deletingAccount ? 'Deleting...' : 'Delete my account'}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setConfirmingDelete(false);
+                        setDeleteConfirmation('');
+                      }}
+                      className="flex-1 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 py-2 px-4 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setConfirmingDelete(true)}
+                  className="flex items-center gap-2 text-sm font-medium text-red-600 hover:text-red-700 dark:text-red-400"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete account
+                </button>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Claims History */}
@@ -437,13 +572,17 @@ export default function UserProfile() {
                           <h4 className="font-semibold text-lg dark:text-white">
                             {claim.food_listings.food_item}
                           </h4>
-                          {claim.pickup_completed ? (
+                          {claim.status === 'picked_up' ? (
                             <span className="px-2 py-1 bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200 text-xs rounded-full">
                               Completed
                             </span>
-                          ) : (
+                          ) : isClaimOpen(claim.status) ? (
                             <span className="px-2 py-1 bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200 text-xs rounded-full">
-                              Pending Pickup
+                              {claim.status === 'confirmed_by_restaurant' ? 'Confirmed • Pending Pickup' : 'Pending Pickup'}
+                            </span>
+                          ) : (
+                            <span className="px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 text-xs rounded-full">
+                              {CLAIM_STATUS_LABELS[claim.status]}
                             </span>
                           )}
                         </div>
@@ -467,13 +606,13 @@ export default function UserProfile() {
                             Pickup: {formatTime(claim.food_listings.pickup_start_time)} - {formatTime(claim.food_listings.pickup_end_time)}
                           </span>
                           <span>
-                            Quantity: {claim.food_listings.quantity}
+                            Claimed: {claim.portions} {claim.food_listings.quantity_unit}
                           </span>
                         </div>
                         
                         <div className="flex items-center gap-4 text-sm text-gray-500 dark:text-gray-400 mt-2">
                           <span>Claimed: {formatDate(claim.claimed_at)}</span>
-                          {claim.pickup_completed && claim.pickup_completed_at && (
+                          {claim.status === 'picked_up' && claim.pickup_completed_at && (
                             <span>Completed: {formatDate(claim.pickup_completed_at)}</span>
                           )}
                         </div>
@@ -492,14 +631,23 @@ export default function UserProfile() {
                         )}
                       </div>
                       
-                      <div className="ml-4">
-                        {!claim.pickup_completed && (
-                          <button
-                            onClick={() => handleMarkCompleted(claim.id)}
-                            className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors text-sm"
-                          >
-                            Mark Completed
-                          </button>
+                      <div className="ml-4 flex flex-col gap-2">
+                        {isClaimOpen(claim.status) && (
+                          <>
+                            <div className="flex flex-col items-center gap-1 p-2 bg-white rounded-lg border border-gray-200 dark:border-gray-600">
+                              <QRCodeSVG value={buildPickupQrPayload(claim)} size={96} />
+                              <span className="font-mono text-lg font-bold tracking-widest text-gray-900">
+                                {claim.pickup_code}
+                              </span>
+                              <span className="text-xs text-gray-500">Show at pickup</span>
+                            </div>
+                            <button
+                              onClick={() => handleCancelClaim(claim)}
+                              className="border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 px-4 py-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-sm"
+                            >
+                              Cancel Claim
+                            </button>
+                          </>
                         )}
                       </div>
                     </div>
@@ -529,6 +677,12 @@ export default function UserProfile() {
                     </div>
                   </motion.div>
                 ))}
+                <div ref={claimsSentinelRef} />
+                {loadingMoreClaims && (
+                  <div className="flex justify-center py-4">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -1,157 +1,42 @@
-import { useState, useEffect } from 'react';
+import { createContext, useContext } from 'react';
+import type { AuthSession, AuthUser, ProfileUpdates, SignUpData, UserProfile } from '../lib/auth';
 
 // ---------------------------------------------------------------------------
-// Local auth – stores users + session in localStorage.
-// No Supabase required. Drop-in replacement for the Supabase-backed version.
+// Auth context – one shared session for the whole app, provided by
+// <AuthSessionProvider>. The backend is picked in lib/auth.
 // ---------------------------------------------------------------------------
 
-interface LocalUser {
-  id: string;
-  email: string;
-  username: string;
-  full_name: string | null;
-  role: 'user' | 'restaurant_admin';
-  phone: string | null;
-  password: string;
-  created_at: string;
+export interface AuthContextValue {
+  user: AuthUser | null;
+  profile: UserProfile | null;
+  session: AuthSession | null;
+  loading: boolean;
+  profileLoading: boolean;
+  initialized: boolean;
+  // Resolves to null when the new account must confirm its email before signing in
+  signUp: (email: string, password: string, userData: SignUpData) => Promise<AuthSession | null>;
+  signIn: (email: string, password: string) => Promise<AuthSession>;
+  signOut: () => Promise<void>;
+  updateProfile: (updates: ProfileUpdates) => Promise<UserProfile>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (newPassword: string, token?: string | null) => Promise<AuthSession>;
+  sendVerificationEmail: () => Promise<void>;
+  confirmEmail: (token: string) => Promise<AuthSession>;
+  deleteAccount: () => Promise<void>;
+  // Reloads the session and profile, e.g. after the server changed the user's role
+  refreshSession: () => Promise<void>;
+  isAuthenticated: boolean;
+  isEmailVerified: boolean;
+  isRestaurantAdmin: boolean;
+  isPlatformAdmin: boolean;
 }
 
-const USERS_KEY = 'wtf_local_users';
-const SESSION_KEY = 'wtf_local_session';
-
-const getUsers = (): LocalUser[] => {
-  try {
-    return JSON.parse(localStorage.getItem(USERS_KEY) || '[]');
-  } catch {
-    return [];
-  }
-};
-
-const saveUsers = (users: LocalUser[]) => {
-  localStorage.setItem(USERS_KEY, JSON.stringify(users));
-};
-
-const getStoredSession = (): LocalUser | null => {
-  try {
-    return JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
-  } catch {
-    return null;
-  }
-};
-
-const saveSession = (user: LocalUser | null) => {
-  if (user) {
-    localStorage.setItem(SESSION_KEY, JSON.stringify(user));
-  } else {
-    localStorage.removeItem(SESSION_KEY);
-  }
-};
+export const AuthContext = createContext<AuthContextValue | null>(null);
 
 export function useAuth() {
-  const [user, setUser] = useState<LocalUser | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [initialized, setInitialized] = useState(false);
-
-  useEffect(() => {
-    const stored = getStoredSession();
-    setUser(stored);
-    setLoading(false);
-    setInitialized(true);
-  }, []);
-
-  const signUp = async (
-    email: string,
-    password: string,
-    userData: {
-      username: string;
-      full_name?: string;
-      role?: 'user' | 'restaurant_admin';
-      phone?: string;
-    }
-  ) => {
-    const users = getUsers();
-
-    if (users.find((u) => u.email.toLowerCase() === email.toLowerCase())) {
-      throw new Error(
-        'An account with this email already exists. Please sign in instead or use a different email address.'
-      );
-    }
-
-    if (users.find((u) => u.username.toLowerCase() === userData.username.toLowerCase())) {
-      throw new Error('Username is already taken. Please choose a different one.');
-    }
-
-    const newUser: LocalUser = {
-      id: crypto.randomUUID(),
-      email,
-      password,
-      username: userData.username,
-      full_name: userData.full_name || null,
-      role: userData.role || 'user',
-      phone: userData.phone || null,
-      created_at: new Date().toISOString(),
-    };
-
-    saveUsers([...users, newUser]);
-    saveSession(newUser);
-    setUser(newUser);
-
-    return { user: newUser };
-  };
-
-  const signIn = async (email: string, password: string) => {
-    const users = getUsers();
-    const found = users.find(
-      (u) => u.email.toLowerCase() === email.toLowerCase() && u.password === password
-    );
-
-    if (!found) {
-      throw new Error('Invalid email or password. Please check your credentials and try again.');
-    }
-
-    saveSession(found);
-    setUser(found);
-
-    return { user: found };
-  };
-
-  const signOut = async () => {
-    saveSession(null);
-    setUser(null);
-  };
-
-  const updateProfile = async (updates: Partial<LocalUser>) => {
-    if (!user) throw new Error('No user logged in');
-    const users = getUsers();
-    const updated = { ...user, ...updates };
-    saveUsers(users.map((u) => (u.id === user.id ? updated : u)));
-    saveSession(updated);
-    setUser(updated);
-    return updated;
-  };
-
-  return {
-    user,
-    profile: user
-      ? {
-          id: user.id,
-          email: user.email,
-          username: user.username,
-          full_name: user.full_name,
-          role: user.role,
-          phone: user.phone,
-          created_at: user.created_at,
-        }
-      : null,
-    session: user ? { user } : null,
-    loading,
-    profileLoading: false,
-    initialized,
-    signUp,
-    signIn,
-    signOut,
-    updateProfile,
-    isAuthenticated: !!user,
-    isRestaurantAdmin: user?.role === 'restaurant_admin',
-  };
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthSessionProvider');
+  }
+  return context;
 }
@@ -0,0 +1,39 @@
+import { useEffect, useRef } from 'react';
+
+// ---------------------------------------------------------------------------
+// Infinite scroll – attach the returned ref to a sentinel element placed after
+// the last item; onLoadMore fires whenever it scrolls into view.
+// ---------------------------------------------------------------------------
+
+interface InfiniteScrollOptions {
+  hasMore: boolean;
+  loading: boolean;
+}
+
+export function useInfiniteScroll(onLoadMore: () => void, { hasMore, loading }: InfiniteScrollOptions) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+  }, [onLoadMore]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loading]);
+
+  return sentinelRef;
+}
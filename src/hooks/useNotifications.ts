@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  getNotifications,
+  getUnreadNotificationCount,
+  markNotificationsRead,
+  deleteNotification,
+  subscribeToNotifications,
+} from '../services/notifications';
+import type { Notification } from '../services/notifications';
+
+// ---------------------------------------------------------------------------
+// Notifications inbox – the user's latest notifications and unread count,
+// kept live over realtime. Pass null while signed out.
+// ---------------------------------------------------------------------------
+
+export function useNotifications(userId: string | null) {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setNotifications([]);
+    setUnreadCount(0);
+    if (!userId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([getNotifications(userId), getUnreadNotificationCount(userId)])
+      .then(([latest, unread]) => {
+        if (cancelled) return;
+        setNotifications(latest);
+        setUnreadCount(unread);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    const unsubscribe = subscribeToNotifications(userId, (notification) => {
+      setNotifications(prev => [notification, ...prev.filter(n => n.id !== notification.id)]);
+      setUnreadCount(prev => prev + 1);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  const markRead = useCallback(async (notificationIds?: string[]) => {
+    const now = new Date().toISOString();
+    const isTarget = (n: Notification) => !n.read_at && (!notificationIds || notificationIds.includes(n.id));
+    const marked = notifications.filter(isTarget).length;
+
+    setNotifications(prev => prev.map(n => (isTarget(n) ? { ...n, read_at: now } : n)));
+    setUnreadCount(prev => (notificationIds ? Math.max(prev - marked, 0) : 0));
+    await markNotificationsRead(notificationIds);
+  }, [notifications]);
+
+  const remove = useCallback(async (notification: Notification) => {
+    setNotifications(prev => prev.filter(n => n.id !== notification.id));
+    if (!notification.read_at) setUnreadCount(prev => Math.max(prev - 1, 0));
+    await deleteNotification(notification.id);
+  }, []);
+
+  return { notifications, unreadCount, loading, markRead, remove };
+}
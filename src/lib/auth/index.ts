@@ -0,0 +1,20 @@
+import { supabaseAvailable } from '../supabase';
+import { createLocalAuthProvider } from './localAuthProvider';
+import { createSupabaseAuthProvider } from './supabaseAuthProvider';
+
+export type {
+  AuthProvider,
+  AuthSession,
+  AuthUser,
+  ProfileUpdates,
+  SignUpData,
+  UserProfile,
+  UserRole,
+} from './types';
+export { buildAuthRedirectUrl, readAuthRedirect, clearAuthRedirect } from './links';
+export type { AuthRedirect, AuthRedirectAction } from './links';
+
+// Supabase when configured, otherwise the localStorage-backed dev provider
+export const authProvider = supabaseAvailable
+  ? createSupabaseAuthProvider()
+  : createLocalAuthProvider();
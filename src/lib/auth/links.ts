@@ -0,0 +1,34 @@
+// Password reset and email verification links land on the app root with
+// `?auth=<action>` and, when the provider issues one, `&token=<token>`.
+
+export type AuthRedirectAction = 'verify' | 'reset';
+
+export interface AuthRedirect {
+  action: AuthRedirectAction;
+  token: string | null;
+}
+
+const ACTION_PARAM = 'auth';
+const TOKEN_PARAM = 'token';
+
+export function buildAuthRedirectUrl(action: AuthRedirectAction, token?: string) {
+  const url = new URL('/', window.location.origin);
+  url.searchParams.set(ACTION_PARAM, action);
+  if (token) url.searchParams.set(TOKEN_PARAM, token);
+  return url.toString();
+}
+
+export function readAuthRedirect(): AuthRedirect | null {
+  const params = new URLSearchParams(window.location.search);
+  const action = params.get(ACTION_PARAM);
+  if (action !== 'verify' && action !== 'reset') return null;
+  return { action, token: params.get(TOKEN_PARAM) };
+}
+
+// Drops the link parameters so a refresh does not replay the token
+export function clearAuthRedirect() {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(ACTION_PARAM);
+  url.searchParams.delete(TOKEN_PARAM);
+  window.history.replaceState(window.history.state, '', url.toString());
+}
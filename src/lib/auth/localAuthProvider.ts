@@ -0,0 +1,356 @@
+import { buildAuthRedirectUrl } from './links';
+import type { AuthRedirectAction } from './links';
+import type { AuthProvider, AuthSession, ProfileUpdates, SignUpData, UserProfile } from './types';
+
+// ---------------------------------------------------------------------------
+// Local dev auth – users and session live in localStorage, for running the app
+// without Supabase. Passwords are stored as salted PBKDF2-SHA256 hashes.
+// There is no mail server, so verification and reset links are printed to
+// the browser console instead of being emailed.
+// ---------------------------------------------------------------------------
+
+interface LocalUser {
+  id: string;
+  email: string;
+  username: string;
+  full_name: string | null;
+  role: 'user' | 'restaurant_admin';
+  phone: string | null;
+  avatar_url: string | null;
+  // null until confirmed; absent on accounts created before verification existed
+  email_verified_at?: string | null;
+  password_hash?: string;
+  password_salt?: string;
+  password_iterations?: number;
+  // Plaintext password written by earlier builds; replaced by a hash on next sign-in
+  password?: string;
+  created_at: string;
+  updated_at?: string;
+}
+
+const USERS_KEY = 'wtf_local_users';
+const SESSION_KEY = 'wtf_local_session';
+const TOKENS_KEY = 'wtf_local_auth_tokens';
+const PBKDF2_ITERATIONS = 310000;
+
+const TOKEN_TTL_MS: Record<AuthRedirectAction, number> = {
+  verify: 24 * 60 * 60 * 1000,
+  reset: 60 * 60 * 1000,
+};
+
+interface LocalAuthToken {
+  token_hash: string;
+  user_id: string;
+  action: AuthRedirectAction;
+  expires_at: string;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+async function derivePasswordHash(password: string, salt: Uint8Array, iterations: number) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    256
+  );
+  return new Uint8Array(bits);
+}
+
+async function hashPassword(password: string) {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derivePasswordHash(password, salt, PBKDF2_ITERATIONS);
+  return {
+    password_hash: toBase64(hash),
+    password_salt: toBase64(salt),
+    password_iterations: PBKDF2_ITERATIONS,
+  };
+}
+
+// Compares every byte so the time taken does not depend on where a mismatch is
+function constantTimeEqual(a: Uint8Array, b: Uint8Array) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+async function verifyPassword(user: LocalUser, password: string) {
+  if (user.password_hash && user.password_salt) {
+    const expected = fromBase64(user.password_hash);
+    const actual = await derivePasswordHash(
+      password,
+      fromBase64(user.password_salt),
+      user.password_iterations ?? PBKDF2_ITERATIONS
+    );
+    return constantTimeEqual(actual, expected);
+  }
+  return user.password !== undefined && user.password === password;
+}
+
+const sha256 = async (value: string) =>
+  toBase64(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))));
+
+const getTokens = (): LocalAuthToken[] => {
+  try {
+    return JSON.parse(localStorage.getItem(TOKENS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const saveTokens = (tokens: LocalAuthToken[]) => {
+  localStorage.setItem(TOKENS_KEY, JSON.stringify(tokens));
+};
+
+// Replaces any earlier token for the same user and action; only the hash is kept
+async function issueToken(user: LocalUser, action: AuthRedirectAction) {
+  const token = toBase64(crypto.getRandomValues(new Uint8Array(24))).replace(/[+/=]/g, '');
+  const now = Date.now();
+  saveTokens([
+    ...getTokens().filter(
+      (t) => !(t.user_id === user.id && t.action === action) && new Date(t.expires_at).getTime() > now
+    ),
+    {
+      token_hash: await sha256(token),
+      user_id: user.id,
+      action,
+      expires_at: new Date(now + TOKEN_TTL_MS[action]).toISOString(),
+    },
+  ]);
+
+  const subject = action === 'verify' ? 'Verify your email address' : 'Reset your password';
+  console.info(`📧 [local auth] ${subject} for ${user.email}: ${buildAuthRedirectUrl(action, token)}`);
+}
+
+// Single use: a matching token is removed whether or not it has expired
+async function consumeToken(token: string, action: AuthRedirectAction) {
+  const tokenHash = await sha256(token);
+  const tokens = getTokens();
+  const match = tokens.find((t) => t.token_hash === tokenHash && t.action === action);
+  if (!match) return null;
+
+  saveTokens(tokens.filter((t) => t !== match));
+  return new Date(match.expires_at).getTime() > Date.now() ? match.user_id : null;
+}
+
+const getUsers = (): LocalUser[] => {
+  try {
+    return JSON.parse(localStorage.getItem(USERS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const saveUsers = (users: LocalUser[]) => {
+  localStorage.setItem(USERS_KEY, JSON.stringify(users));
+};
+
+// Only the user id is kept in the session; earlier builds stored the whole user
+const getStoredUserId = (): string | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+    if (typeof stored === 'string') return stored;
+    return stored?.id ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const saveSession = (userId: string | null) => {
+  if (userId) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(userId));
+  } else {
+    localStorage.removeItem(SESSION_KEY);
+  }
+};
+
+const toProfile = (user: LocalUser): UserProfile => ({
+  id: user.id,
+  email: user.email,
+  username: user.username,
+  full_name: user.full_name,
+  role: user.role,
+  phone: user.phone,
+  avatar_url: user.avatar_url ?? null,
+  created_at: user.created_at,
+  updated_at: user.updated_at ?? user.created_at,
+});
+
+const toSession = (user: LocalUser): AuthSession => ({
+  user: {
+    id: user.id,
+    email: user.email,
+    email_verified: user.email_verified_at !== null,
+    created_at: user.created_at,
+  },
+  profile: toProfile(user),
+});
+
+function readSession(): AuthSession | null {
+  const userId = getStoredUserId();
+  if (!userId) return null;
+  const user = getUsers().find((u) => u.id === userId);
+  return user ? toSession(user) : null;
+}
+
+export function createLocalAuthProvider(): AuthProvider {
+  return {
+    async getSession() {
+      return readSession();
+    },
+
+    async signUp(email: string, password: string, data: SignUpData) {
+      const users = getUsers();
+
+      if (users.find((u) => u.email.toLowerCase() === email.toLowerCase())) {
+        throw new Error(
+          'An account with this email already exists. Please sign in instead or use a different email address.'
+        );
+      }
+
+      if (users.find((u) => u.username.toLowerCase() === data.username.toLowerCase())) {
+        throw new Error('Username is already taken. Please choose a different one.');
+      }
+
+      const now = new Date().toISOString();
+      const newUser: LocalUser = {
+        id: crypto.randomUUID(),
+        email,
+        ...(await hashPassword(password)),
+        username: data.username,
+        full_name: data.full_name || null,
+        role: data.role || 'user',
+        phone: data.phone || null,
+        avatar_url: null,
+        email_verified_at: null,
+        created_at: now,
+        updated_at: now,
+      };
+
+      saveUsers([...users, newUser]);
+      saveSession(newUser.id);
+      await issueToken(newUser, 'verify');
+      return toSession(newUser);
+    },
+
+    async signIn(email: string, password: string) {
+      const users = getUsers();
+      const found = users.find((u) => u.email.toLowerCase() === email.toLowerCase());
+
+      if (!found || !(await verifyPassword(found, password))) {
+        throw new Error('Invalid email or password. Please check your credentials and try again.');
+      }
+
+      let signedIn = found;
+      if (!found.password_hash) {
+        signedIn = { ...found, ...(await hashPassword(password)) };
+        delete signedIn.password;
+        saveUsers(users.map((u) => (u.id === found.id ? signedIn : u)));
+      }
+
+      saveSession(signedIn.id);
+      return toSession(signedIn);
+    },
+
+    async signOut() {
+      saveSession(null);
+    },
+
+    async updateProfile(userId: string, updates: ProfileUpdates) {
+      const users = getUsers();
+      const existing = users.find((u) => u.id === userId);
+      if (!existing) throw new Error('No user logged in');
+
+      if (
+        updates.username &&
+        users.some((u) => u.id !== userId && u.username.toLowerCase() === updates.username!.toLowerCase())
+      ) {
+        throw new Error('Username is already taken. Please choose a different one.');
+      }
+
+      const updated: LocalUser = { ...existing, ...updates, updated_at: new Date().toISOString() };
+      saveUsers(users.map((u) => (u.id === userId ? updated : u)));
+      return toProfile(updated);
+    },
+
+    async requestPasswordReset(email: string) {
+      const user = getUsers().find((u) => u.email.toLowerCase() === email.toLowerCase());
+      if (user) {
+        await issueToken(user, 'reset');
+      }
+    },
+
+    async resetPassword(newPassword: string, token?: string | null) {
+      const userId = token ? await consumeToken(token, 'reset') : null;
+      const users = getUsers();
+      const existing = users.find((u) => u.id === userId);
+      if (!existing) {
+        throw new Error('This password reset link is invalid or has expired');
+      }
+
+      // Following the emailed link also proves the address
+      const updated: LocalUser = {
+        ...existing,
+        ...(await hashPassword(newPassword)),
+        email_verified_at: existing.email_verified_at ?? new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      };
+      delete updated.password;
+      saveUsers(users.map((u) => (u.id === existing.id ? updated : u)));
+      saveSession(updated.id);
+      return toSession(updated);
+    },
+
+    async sendVerificationEmail() {
+      const session = readSession();
+      const user = session && getUsers().find((u) => u.id === session.user.id);
+      if (!user) throw new Error('No user logged in');
+      await issueToken(user, 'verify');
+    },
+
+    async confirmEmail(token: string) {
+      const userId = await consumeToken(token, 'verify');
+      const users = getUsers();
+      const existing = users.find((u) => u.id === userId);
+      if (!existing) {
+        throw new Error('This verification link is invalid or has expired');
+      }
+
+      const updated: LocalUser = { ...existing, email_verified_at: new Date().toISOString() };
+      saveUsers(users.map((u) => (u.id === existing.id ? updated : u)));
+      saveSession(updated.id);
+      return toSession(updated);
+    },
+
+    async deleteAccount() {
+      const userId = getStoredUserId();
+      if (!userId) throw new Error('No user logged in');
+
+      // Claims only exist in the database, so there is nothing to anonymise here
+      saveUsers(getUsers().filter((u) => u.id !== userId));
+      saveTokens(getTokens().filter((t) => t.user_id !== userId));
+      saveSession(null);
+    },
+
+    onSessionChange(listener) {
+      // Storage events only fire for writes made by other tabs
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key === SESSION_KEY || event.key === USERS_KEY || event.key === null) {
+          listener(readSession());
+        }
+      };
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    },
+  };
+}
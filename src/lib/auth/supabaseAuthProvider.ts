@@ -0,0 +1,238 @@
+import type { User } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import type { DeleteAccountError } from '../../types/database';
+import { buildAuthRedirectUrl } from './links';
+import type { AuthProvider, AuthSession, ProfileUpdates, SignUpData, UserProfile } from './types';
+
+const toAuthUser = (user: User) => ({
+  id: user.id,
+  email: user.email ?? '',
+  email_verified: !!user.email_confirmed_at,
+  created_at: user.created_at,
+});
+
+const DELETE_ACCOUNT_ERROR_MESSAGES: Record<DeleteAccountError, string> = {
+  owns_restaurants: 'You are the only owner of a restaurant. Make another team member an owner, or delete the restaurant, first.',
+};
+
+// The profile row is created on the first authenticated request. When email
+// confirmation is enabled, signUp returns no session and RLS would reject the
+// insert, so the sign-up details wait in user_metadata until then.
+async function ensureProfile(user: User): Promise<UserProfile | null> {
+  const { data: existing, error } = await supabase
+    .from('users')
+    .select('*')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading user profile:', error);
+    return null;
+  }
+
+  if (existing) {
+    return { ...existing, email: user.email ?? '' };
+  }
+
+  const metadata = user.user_metadata as Partial<SignUpData>;
+  const insertProfile = (username: string) => supabase
+    .from('users')
+    .insert({
+      id: user.id,
+      username,
+      full_name: metadata.full_name || null,
+      role: metadata.role || 'user',
+      phone: metadata.phone || null,
+    })
+    .select()
+    .single();
+
+  const username = metadata.username || user.email?.split('@')[0] || user.id;
+  let { data: created, error: insertError } = await insertProfile(username);
+
+  // Usernames of other accounts are hidden by RLS, so a clash only shows up here
+  if (insertError?.code === '23505') {
+    ({ data: created, error: insertError } = await insertProfile(`${username}_${user.id.slice(0, 6)}`));
+  }
+
+  if (insertError) {
+    console.error('Error creating user profile:', insertError);
+    return null;
+  }
+
+  return { ...created, email: user.email ?? '' };
+}
+
+async function toSession(user: User | null | undefined): Promise<AuthSession | null> {
+  if (!user) return null;
+  return { user: toAuthUser(user), profile: await ensureProfile(user) };
+}
+
+export function createSupabaseAuthProvider(): AuthProvider {
+  return {
+    async getSession() {
+      const { data, error } = await supabase.auth.getSession();
+      if (error) {
+        console.error('Error restoring session:', error);
+        return null;
+      }
+      return toSession(data.session?.user);
+    },
+
+    async signUp(email: string, password: string, data: SignUpData) {
+      const { data: result, error } = await supabase.auth.signUp({
+        email,
+        password,
+        options: { data, emailRedirectTo: buildAuthRedirectUrl('verify') },
+      });
+
+      if (error) {
+        if (error.message.toLowerCase().includes('already registered')) {
+          throw new Error(
+            'An account with this email already exists. Please sign in instead or use a different email address.'
+          );
+        }
+        throw new Error(error.message);
+      }
+
+      // Email confirmation pending: there is no session until the link is followed
+      if (!result.session) {
+        return null;
+      }
+
+      const session = await toSession(result.user);
+      if (!session) {
+        throw new Error('Failed to create account');
+      }
+      return session;
+    },
+
+    async signIn(email: string, password: string) {
+      const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+
+      if (error) {
+        if (error.message.toLowerCase().includes('email not confirmed')) {
+          throw new Error('Please confirm your email address before signing in. Check your inbox for the link.');
+        }
+        throw new Error('Invalid email or password. Please check your credentials and try again.');
+      }
+
+      const session = await toSession(data.user);
+      if (!session) {
+        throw new Error('Failed to sign in');
+      }
+      return session;
+    },
+
+    async signOut() {
+      const { error } = await supabase.auth.signOut();
+      if (error) {
+        console.error('Error signing out:', error);
+        throw new Error('Failed to sign out');
+      }
+    },
+
+    async updateProfile(userId: string, updates: ProfileUpdates) {
+      const { data, error } = await supabase
+        .from('users')
+        .update(updates)
+        .eq('id', userId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating profile:', error);
+        throw new Error('Failed to update profile');
+      }
+
+      const { data: auth } = await supabase.auth.getUser();
+      return { ...data, email: auth.user?.email ?? '' };
+    },
+
+    async requestPasswordReset(email: string) {
+      const { error } = await supabase.auth.resetPasswordForEmail(email, {
+        redirectTo: buildAuthRedirectUrl('reset'),
+      });
+      if (error) {
+        console.error('Error requesting password reset:', error);
+        throw new Error('Failed to send password reset email');
+      }
+    },
+
+    async resetPassword(newPassword: string, token?: string | null) {
+      // With the default email template the link has already signed the user
+      // in; a token hash is only present when the template passes one through
+      if (token) {
+        const { error } = await supabase.auth.verifyOtp({ token_hash: token, type: 'recovery' });
+        if (error) {
+          throw new Error('This password reset link is invalid or has expired');
+        }
+      }
+
+      const { data, error } = await supabase.auth.updateUser({ password: newPassword });
+      if (error) {
+        console.error('Error resetting password:', error);
+        throw new Error('This password reset link is invalid or has expired');
+      }
+
+      const session = await toSession(data.user);
+      if (!session) {
+        throw new Error('Failed to reset password');
+      }
+      return session;
+    },
+
+    async sendVerificationEmail() {
+      const { data } = await supabase.auth.getUser();
+      if (!data.user?.email) throw new Error('No user logged in');
+
+      const { error } = await supabase.auth.resend({
+        type: 'signup',
+        email: data.user.email,
+        options: { emailRedirectTo: buildAuthRedirectUrl('verify') },
+      });
+      if (error) {
+        console.error('Error resending verification email:', error);
+        throw new Error('Failed to send verification email');
+      }
+    },
+
+    async confirmEmail(token: string) {
+      const { data, error } = await supabase.auth.verifyOtp({ token_hash: token, type: 'email' });
+      if (error) {
+        throw new Error('This verification link is invalid or has expired');
+      }
+
+      const session = await toSession(data.user);
+      if (!session) {
+        throw new Error('Failed to verify email');
+      }
+      return session;
+    },
+
+    async deleteAccount() {
+      const { data, error } = await supabase.rpc('delete_own_account');
+
+      if (error) {
+        console.error('Error deleting account:', error);
+        throw new Error('Failed to delete account');
+      }
+
+      if (!data.ok) {
+        throw new Error(DELETE_ACCOUNT_ERROR_MESSAGES[data.error as DeleteAccountError]);
+      }
+
+      // The auth user is gone, so only the local session needs clearing
+      await supabase.auth.signOut({ scope: 'local' });
+    },
+
+    onSessionChange(listener) {
+      const { data } = supabase.auth.onAuthStateChange((event: string, session: { user: User } | null) => {
+        // INITIAL_SESSION is covered by getSession
+        if (event === 'INITIAL_SESSION') return;
+        toSession(session?.user).then(listener);
+      });
+      return () => data.subscription.unsubscribe();
+    },
+  };
+}
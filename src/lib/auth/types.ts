@@ -0,0 +1,54 @@
+import type { Database } from '../../types/database';
+
+export type UserRole = Database['public']['Enums']['user_role'];
+
+// The `users` profile row plus the account email, which lives on the auth side
+export type UserProfile = Database['public']['Tables']['users']['Row'] & {
+  email: string;
+};
+
+export type ProfileUpdates = Pick<
+  Database['public']['Tables']['users']['Update'],
+  'username' | 'full_name' | 'phone' | 'avatar_url'
+>;
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  email_verified: boolean;
+  created_at: string;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  profile: UserProfile | null;
+}
+
+export interface SignUpData {
+  username: string;
+  full_name?: string;
+  // Platform admins are appointed by the operators, never at sign-up
+  role?: Exclude<UserRole, 'platform_admin'>;
+  phone?: string;
+}
+
+// Implemented once per backend; components only ever talk to this through useAuth
+export interface AuthProvider {
+  getSession(): Promise<AuthSession | null>;
+  // Resolves to null when the account still has to confirm its email address
+  signUp(email: string, password: string, data: SignUpData): Promise<AuthSession | null>;
+  signIn(email: string, password: string): Promise<AuthSession>;
+  signOut(): Promise<void>;
+  updateProfile(userId: string, updates: ProfileUpdates): Promise<UserProfile>;
+  // Sends a reset link if the email belongs to an account; never reveals whether it does
+  requestPasswordReset(email: string): Promise<void>;
+  // `token` comes from the reset link; without one the current recovery session is used
+  resetPassword(newPassword: string, token?: string | null): Promise<AuthSession>;
+  sendVerificationEmail(): Promise<void>;
+  confirmEmail(token: string): Promise<AuthSession>;
+  // Anonymises the account's claims and deletes it; the session ends with it
+  deleteAccount(): Promise<void>;
+  // Fires when the session changes outside this tab's own calls (token refresh,
+  // sign-out in another tab); returns an unsubscribe function
+  onSessionChange(listener: (session: AuthSession | null) => void): () => void;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('reads quoted fields and escaped quotes', () => {
+    expect(parseCsv('name,note\r\n"Soup, tomato","Say ""hi"""\r\n')).toEqual([
+      { line: 1, cells: ['name', 'note'] },
+      { line: 2, cells: ['Soup, tomato', 'Say "hi"'] },
+    ]);
+  });
+
+  it('strips a byte order mark', () => {
+    expect(parseCsv('\uFEFFa,b')).toEqual([{ line: 1, cells: ['a', 'b'] }]);
+  });
+
+  it('numbers records by the line they start on', () => {
+    const text = [
+      'food_item,description',
+      '',
+      'Bread,"Two lines',
+      'of description"',
+      '   ,  ',
+      'Soup,"one\r\nmore"',
+      'Salad,',
+    ].join('\n');
+
+    expect(parseCsv(text)).toEqual([
+      { line: 1, cells: ['food_item', 'description'] },
+      { line: 3, cells: ['Bread', 'Two lines\nof description'] },
+      { line: 6, cells: ['Soup', 'one\r\nmore'] },
+      { line: 8, cells: ['Salad', ''] },
+    ]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes fields that need it', () => {
+    expect(toCsv(['a', 'b', 'c'], [['x,y', 'say "hi"', null], [1, true, undefined]])).toBe(
+      'a,b,c\r\n"x,y","say ""hi""",\r\n1,true,'
+    );
+  });
+
+  it('keeps formulas from running in spreadsheets', () => {
+    expect(toCsv(['value'], [['=SUM(A1:A2)'], ['+1'], ['-1'], ['@cmd'], [-1]])).toBe(
+      `value\r\n"'=SUM(A1:A2)"\r\n"'+1"\r\n"'-1"\r\n"'@cmd"\r\n-1`
+    );
+  });
+
+  it('reads back what it writes', () => {
+    const rows = [['Bread', 'Crusty, "fresh"\nfrom today']];
+    expect(parseCsv(toCsv(['food_item', 'description'], rows)).map(record => record.cells)).toEqual([
+      ['food_item', 'description'],
+      ...rows,
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+// ---------------------------------------------------------------------------
+// Minimal RFC 4180 CSV reading and writing, plus a browser download helper.
+// ---------------------------------------------------------------------------
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+export interface CsvRecord {
+  // 1-based line the record starts on, so errors can point into the file
+  line: number;
+  cells: string[];
+}
+
+// Handles quoted fields, escaped quotes ("") and newlines inside quotes.
+// Blank lines are dropped.
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        // \r\n inside a field counts as one line
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      records.push({ line: recordLine, cells: row });
+      row = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    records.push({ line: recordLine, cells: row });
+  }
+
+  return records.filter(record => record.cells.some(cell => cell.trim() !== ''));
+}
+
+// Spreadsheets run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvValue = (value: CsvValue) => {
+  if (value === null || value === undefined) return '';
+  // Numbers stay as they are so negative values remain numeric
+  if (typeof value === 'string' && FORMULA_PREFIX.test(value)) {
+    return `"'${value.replace(/"/g, '""')}"`;
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(header: string[], rows: CsvValue[][]) {
+  return [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
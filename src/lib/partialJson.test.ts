@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+  it('is undefined before the first object or array opens', () => {
+    expect(parsePartialJson('')).toBeUndefined();
+    expect(parsePartialJson('  ')).toBeUndefined();
+    expect(parsePartialJson('"na')).toBeUndefined();
+    expect(parsePartialJson('"name"')).toBeUndefined();
+  });
+
+  it('leaves out a key that is still being written', () => {
+    expect(parsePartialJson('{"name": "Soup", "descr')).toEqual({ name: 'Soup' });
+    expect(parsePartialJson('{"name": "Soup", "description"')).toEqual({ name: 'Soup' });
+    expect(parsePartialJson('{"name": "Soup", "description":')).toEqual({ name: 'Soup' });
+  });
+
+  it('cuts a string value where it stops', () => {
+    expect(parsePartialJson('{"name": "Tomato so')).toEqual({ name: 'Tomato so' });
+  });
+
+  it('leaves out a number until it is finished', () => {
+    expect(parsePartialJson('{"servings": 1')).toEqual({});
+    expect(parsePartialJson('{"servings": 12,')).toEqual({ servings: 12 });
+    expect(parsePartialJson('{"servings": 12}')).toEqual({ servings: 12 });
+  });
+
+  it('handles escapes inside strings', () => {
+    expect(parsePartialJson('{"tip": "Say \\"hi')).toEqual({ tip: 'Say "hi' });
+    expect(parsePartialJson('{"tip": "a\\')).toEqual({ tip: 'a' });
+    expect(parsePartialJson('{"tip": "a\\\\')).toEqual({ tip: 'a\\' });
+    expect(parsePartialJson('{"tip": "a}\\"],", "b": 1}')).toEqual({ tip: 'a}"],', b: 1 });
+  });
+
+  it('drops a half-written \\u sequence', () => {
+    expect(parsePartialJson('{"name": "Cr\\u00e')).toEqual({ name: 'Cr' });
+    expect(parsePartialJson('{"name": "Cr\\u00e8me')).toEqual({ name: 'Crème' });
+  });
+
+  it('closes nested arrays inside objects', () => {
+    expect(parsePartialJson('{"grid": [[1, 2], [3')).toEqual({ grid: [[1, 2], []] });
+    expect(parsePartialJson('{"steps": [{"instruction": "Chop", "duration": 5}, {"instruction": "Fr')).toEqual({
+      steps: [{ instruction: 'Chop', duration: 5 }, { instruction: 'Fr' }],
+    });
+  });
+
+  it('returns a value for every prefix of a document', () => {
+    const document = JSON.stringify({
+      name: 'Crème "brûlée"',
+      servings: 4,
+      ingredients: [{ name: 'cream', quantity: 0.5, unit: null }, { name: 'sugar', quantity: 100, unit: 'g' }],
+      tips: ['Use a torch\\grill', 'Chill\novernight'],
+    });
+
+    for (let end = 1; end <= document.length; end++) {
+      expect(parsePartialJson(document.slice(0, end))).toBeTypeOf('object');
+    }
+    expect(parsePartialJson(document)).toEqual(JSON.parse(document));
+  });
+});
@@ -0,0 +1,87 @@
+// ---------------------------------------------------------------------------
+// Best-effort parsing of a JSON document that is still being streamed.
+// ---------------------------------------------------------------------------
+
+const closersFor = (stack: string[]) =>
+  stack.map(open => (open === '{' ? '}' : ']')).reverse().join('');
+
+// Returns the value the finished document will start with: open objects and
+// arrays are closed, a string value being written is cut where it stops, and
+// a key or number still being written is left out. Undefined until the
+// document's first object or array opens.
+export function parsePartialJson(text: string): unknown {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let stringIsKey = false;
+  // Whether the next string in the innermost object is a key
+  let awaitingKey = false;
+  // Longest prefix that parses once its containers are closed
+  let safeEnd = -1;
+  let safeClosers = '';
+
+  const markSafe = (end: number) => {
+    safeEnd = end;
+    safeClosers = closersFor(stack);
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        if (!stringIsKey && stack.length > 0) markSafe(i + 1);
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+        inString = true;
+        stringIsKey = stack[stack.length - 1] === '{' && awaitingKey;
+        break;
+      case '{':
+      case '[':
+        stack.push(char);
+        awaitingKey = char === '{';
+        markSafe(i + 1);
+        break;
+      case '}':
+      case ']':
+        stack.pop();
+        awaitingKey = false;
+        markSafe(i + 1);
+        break;
+      case ':':
+        awaitingKey = false;
+        break;
+      case ',':
+        // Everything before the comma is a finished value
+        markSafe(i);
+        awaitingKey = stack[stack.length - 1] === '{';
+        break;
+    }
+  }
+
+  if (inString && !stringIsKey && stack.length > 0) {
+    // Drop a half-written escape so the closing quote is not swallowed
+    const value = escaped ? text.slice(0, -1) : text.replace(/\\u[0-9a-fA-F]{0,3}$/, '');
+    try {
+      return JSON.parse(`${value}"${closersFor(stack)}`);
+    } catch {
+      // Fall back to the last finished value
+    }
+  }
+
+  if (safeEnd < 0) return undefined;
+  try {
+    return JSON.parse(`${text.slice(0, safeEnd)}${safeClosers}`);
+  } catch {
+    return undefined;
+  }
+}
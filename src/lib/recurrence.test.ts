@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { formatRecurrenceRule, getOccurrences, occursOn, parseRecurrenceRule } from './recurrence';
+
+describe('parseRecurrenceRule', () => {
+  it('parses every supported part', () => {
+    const rule = parseRecurrenceRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;WKST=MO;UNTIL=20251231T235959Z');
+
+    expect(rule).toEqual({ freq: 'WEEKLY', interval: 2, byDay: ['MO', 'FR'], until: '2025-12-31' });
+    expect(formatRecurrenceRule(rule)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;UNTIL=20251231');
+  });
+
+  it.each([
+    ['', 'needs FREQ'],
+    ['FREQ=YEARLY', 'needs FREQ'],
+    ['FREQ=DAILY;INTERVAL=0', 'INTERVAL must be at least 1'],
+    ['FREQ=DAILY;INTERVAL=1.5', 'INTERVAL must be at least 1'],
+    ['FREQ=WEEKLY;BYDAY=XX', 'BYDAY takes weekday codes'],
+    ['FREQ=MONTHLY;BYDAY=MO', 'BYDAY takes weekday codes'],
+    ['FREQ=MONTHLY;BYMONTHDAY=0', 'BYMONTHDAY takes days'],
+    ['FREQ=MONTHLY;BYMONTHDAY=32', 'BYMONTHDAY takes days'],
+    ['FREQ=WEEKLY;BYMONTHDAY=1', 'BYMONTHDAY takes days'],
+    ['FREQ=DAILY;UNTIL=tomorrow', 'UNTIL must be a date'],
+    ['FREQ=DAILY;COUNT=3', 'Unsupported recurrence rule part "COUNT=3"'],
+  ])('rejects %j', (rule, message) => {
+    expect(() => parseRecurrenceRule(rule)).toThrow(message);
+  });
+});
+
+describe('occursOn', () => {
+  it('counts WEEKLY intervals in Monday-based weeks', () => {
+    // 2025-10-12 is a Sunday, the last day of its week
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,SU');
+
+    expect(getOccurrences(rule, '2025-10-12', null, '2025-10-12', 4)).toEqual([
+      '2025-10-12',
+      '2025-10-20',
+      '2025-10-26',
+      '2025-11-03',
+    ]);
+  });
+
+  it('defaults WEEKLY to the start date weekday', () => {
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=3');
+
+    expect(getOccurrences(rule, '2025-10-10', null, '2025-10-01', 3)).toEqual([
+      '2025-10-10',
+      '2025-10-31',
+      '2025-11-21',
+    ]);
+  });
+
+  it('counts negative BYMONTHDAY from the end of the month', () => {
+    const lastDay = parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=-1');
+    const secondToLast = parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=-2');
+
+    expect(getOccurrences(lastDay, '2024-01-01', null, '2024-01-01', 3)).toEqual([
+      '2024-01-31',
+      '2024-02-29',
+      '2024-03-31',
+    ]);
+    expect(occursOn(secondToLast, '2025-01-01', '2025-02-27')).toBe(true);
+    expect(occursOn(secondToLast, '2025-01-01', '2025-02-28')).toBe(false);
+  });
+
+  it('skips months without the requested day', () => {
+    const rule = parseRecurrenceRule('FREQ=MONTHLY');
+
+    expect(getOccurrences(rule, '2025-01-31', null, '2025-01-31', 3)).toEqual([
+      '2025-01-31',
+      '2025-03-31',
+      '2025-05-31',
+    ]);
+    expect(occursOn(rule, '2025-01-31', '2025-02-28')).toBe(false);
+  });
+
+  it('stops after UNTIL, inclusive', () => {
+    const rule = parseRecurrenceRule('FREQ=DAILY;UNTIL=20251003');
+
+    expect(occursOn(rule, '2025-10-01', '2025-10-03')).toBe(true);
+    expect(occursOn(rule, '2025-10-01', '2025-10-04')).toBe(false);
+    expect(getOccurrences(rule, '2025-10-01', null, '2025-09-01', 10)).toEqual([
+      '2025-10-01',
+      '2025-10-02',
+      '2025-10-03',
+    ]);
+  });
+});
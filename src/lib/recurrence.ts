@@ -0,0 +1,185 @@
+// ---------------------------------------------------------------------------
+// Recurrence rules for listing templates – the RRULE subset evaluated by
+// recurrence_occurs_on() in the listing_templates migration. Keep both in sync.
+// Dates are plain 'YYYY-MM-DD' strings in the template's time zone.
+// ---------------------------------------------------------------------------
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: Weekday[];
+  byMonthDay?: number[];
+  until?: string;
+}
+
+// Indexed by Date#getUTCDay()
+const WEEKDAYS_BY_INDEX: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+export const RECURRENCE_PRESETS = {
+  daily: 'FREQ=DAILY',
+  weekdays: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates are handled as UTC midnight so day arithmetic ignores DST changes
+const toDayNumber = (date: string) => Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+
+const fromDayNumber = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+const weekdayOf = (date: string) => WEEKDAYS_BY_INDEX[new Date(`${date}T00:00:00Z`).getUTCDay()];
+
+export function addDays(date: string, days: number) {
+  return fromDayNumber(toDayNumber(date) + days);
+}
+
+// Today's date in the given IANA time zone (or the browser's)
+export function todayIn(timeZone?: string) {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', { timeZone }).format(new Date());
+}
+
+export function parseRecurrenceRule(rule: string): RecurrenceRule {
+  const parsed: Partial<RecurrenceRule> = { interval: 1 };
+
+  for (const part of rule.trim().toUpperCase().replace(/^RRULE:/, '').split(';').filter(Boolean)) {
+    const [key, value = ''] = part.split('=');
+    switch (key) {
+      case 'FREQ':
+        parsed.freq = value as RecurrenceFrequency;
+        break;
+      case 'INTERVAL':
+        parsed.interval = Number(value);
+        break;
+      case 'BYDAY':
+        parsed.byDay = value.split(',') as Weekday[];
+        break;
+      case 'BYMONTHDAY':
+        parsed.byMonthDay = value.split(',').map(Number);
+        break;
+      case 'UNTIL':
+        if (!/^\d{8}/.test(value)) throw new Error('UNTIL must be a date like 20251231');
+        parsed.until = `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+        break;
+      case 'WKST':
+        break;
+      default:
+        throw new Error(`Unsupported recurrence rule part "${part}"`);
+    }
+  }
+
+  if (!parsed.freq || !['DAILY', 'WEEKLY', 'MONTHLY'].includes(parsed.freq)) {
+    throw new Error('Recurrence rule needs FREQ=DAILY, WEEKLY or MONTHLY');
+  }
+  if (!Number.isInteger(parsed.interval) || parsed.interval! < 1) {
+    throw new Error('Recurrence INTERVAL must be at least 1');
+  }
+  if (parsed.byDay && (parsed.freq === 'MONTHLY' || parsed.byDay.some(day => !WEEKDAYS.includes(day)))) {
+    throw new Error('BYDAY takes weekday codes (MO,TU,...) on daily and weekly rules');
+  }
+  if (
+    parsed.byMonthDay &&
+    (parsed.freq !== 'MONTHLY' ||
+      parsed.byMonthDay.some(day => !Number.isInteger(day) || day === 0 || day < -31 || day > 31))
+  ) {
+    throw new Error('BYMONTHDAY takes days 1 to 31 (or -1 to -31) on monthly rules');
+  }
+
+  return parsed as RecurrenceRule;
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule) {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+export function occursOn(rule: RecurrenceRule, startsOn: string, date: string) {
+  if (date < startsOn || (rule.until && date > rule.until)) return false;
+
+  const weekday = weekdayOf(date);
+
+  if (rule.freq === 'DAILY') {
+    return (
+      (toDayNumber(date) - toDayNumber(startsOn)) % rule.interval === 0 &&
+      (!rule.byDay || rule.byDay.includes(weekday))
+    );
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    // Weeks start on Monday, as with the RRULE default WKST=MO
+    const weekStart = (d: string) => toDayNumber(d) - ((new Date(`${d}T00:00:00Z`).getUTCDay() + 6) % 7);
+    const weeksApart = (weekStart(date) - weekStart(startsOn)) / 7;
+    return weeksApart % rule.interval === 0 && (rule.byDay ?? [weekdayOf(startsOn)]).includes(weekday);
+  }
+
+  const [year, month, day] = date.split('-').map(Number);
+  const [startYear, startMonth, startDay] = startsOn.split('-').map(Number);
+  const monthsApart = (year - startYear) * 12 + month - startMonth;
+  const monthLength = new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+  // Like RRULE, a day the month does not have (e.g. the 31st in April) is skipped
+  return (
+    monthsApart % rule.interval === 0 &&
+    (rule.byMonthDay ?? [startDay]).some(d => (d > 0 ? d : monthLength + d + 1) === day)
+  );
+}
+
+// Next `count` occurrence dates on or after `from`, looking at most a year ahead
+export function getOccurrences(
+  rule: RecurrenceRule,
+  startsOn: string,
+  endsOn: string | null,
+  from: string,
+  count: number
+) {
+  const dates: string[] = [];
+  let date = from > startsOn ? from : startsOn;
+
+  for (let i = 0; i < 366 && dates.length < count; i++, date = addDays(date, 1)) {
+    if (endsOn && date > endsOn) break;
+    if (occursOn(rule, startsOn, date)) dates.push(date);
+  }
+  return dates;
+}
+
+export function describeRecurrence(rule: RecurrenceRule) {
+  const days = (rule.byDay ?? []).slice().sort((a, b) => WEEKDAYS.indexOf(a) - WEEKDAYS.indexOf(b));
+  let description: string;
+
+  if (rule.freq === 'WEEKLY' && rule.interval === 1 && days.join(',') === 'MO,TU,WE,TH,FR') {
+    description = 'Every weekday';
+  } else if (rule.freq === 'DAILY') {
+    description = rule.interval === 1 ? 'Every day' : `Every ${rule.interval} days`;
+    if (days.length) description += ` on ${days.map(d => WEEKDAY_LABELS[d]).join(', ')}`;
+  } else if (rule.freq === 'WEEKLY') {
+    description = rule.interval === 1 ? 'Every week' : `Every ${rule.interval} weeks`;
+    if (days.length) description += ` on ${days.map(d => WEEKDAY_LABELS[d]).join(', ')}`;
+  } else {
+    description = rule.interval === 1 ? 'Every month' : `Every ${rule.interval} months`;
+    if (rule.byMonthDay?.length) {
+      description += ` on ${rule.byMonthDay.map(d => (d === -1 ? 'the last day' : `day ${d}`)).join(', ')}`;
+    }
+  }
+
+  return rule.until ? `${description} until ${rule.until}` : description;
+}
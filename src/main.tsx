@@ -1,10 +1,13 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import AuthSessionProvider from './components/AuthSessionProvider';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <AuthSessionProvider>
+      <App />
+    </AuthSessionProvider>
   </StrictMode>
 );
@@ -1,8 +1,21 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import type { AIAnalysisResult } from '../types';
+import type { AIAnalysisResult, RecipeDraft, StructuredRecipe } from '../types';
+import { ImageAnalysisValidationError, parseImageAnalysis } from './imageAnalysisSchema';
+import { getLLMProvider, getRequestScheduler, type RequestPriority } from './llm';
+import { RecipeValidationError, parseRecipe, previewRecipe } from './recipeSchema';
 
-// Utility function to wait for a specified time
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Waits for the given time, or rejects with the signal's AbortError once it is aborted
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
 
 // Retry configuration
 const RETRY_CONFIG = {
@@ -11,23 +24,57 @@ const RETRY_CONFIG = {
   maxDelay: 60000, // 60 seconds max delay
 };
 
-const API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
+export interface RetryNotice {
+  // 1 for the first retry
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+}
+
+export type RequestProgress =
+  | ({ type: 'retrying' } & RetryNotice)
+  // Waiting for the client-side rate limit; 1 is next in line
+  | { type: 'queued'; position: number }
+  | { type: 'sending' };
+
+// Status line for the UI, or null once the request is under way
+export function describeRequestProgress(progress: RequestProgress) {
+  switch (progress.type) {
+    case 'retrying':
+      return `AI service is busy, retrying in ${Math.round(progress.delayMs / 1000)}s… (attempt ${progress.attempt} of ${progress.maxRetries})`;
+    case 'queued':
+      return progress.position === 1
+        ? 'Waiting for the AI rate limit… you are next'
+        : `Waiting for the AI rate limit… ${progress.position - 1} requests ahead of you`;
+    case 'sending':
+      return null;
+  }
+}
 
-if (!API_KEY) {
-  console.error('VITE_GEMINI_API_KEY is not defined in environment variables');
-} else {
-  console.log('Gemini API key loaded:', API_KEY.substring(0, 10) + '...');
+export interface AIRequestOptions {
+  // Defaults to 'user'; use 'background' for work nobody asked for yet
+  priority?: RequestPriority;
+  // Aborting rejects with an AbortError, also while queued or waiting to retry
+  signal?: AbortSignal;
+  onProgress?: (progress: RequestProgress) => void;
 }
 
-const genAI = new GoogleGenerativeAI(API_KEY);
+interface RetryOptions {
+  signal?: AbortSignal;
+  onRetry?: (notice: RetryNotice) => void;
+}
 
 async function retryWithBackoff<T>(
   fn: () => Promise<T>,
+  options: RetryOptions = {},
   retries: number = RETRY_CONFIG.maxRetries
 ): Promise<T> {
   try {
+    options.signal?.throwIfAborted();
     return await fn();
   } catch (error: any) {
+    if (options.signal?.aborted) throw error;
+
     const msg = error?.message || '';
     const isRetryableError =
       msg.includes('overloaded') ||
@@ -43,15 +90,48 @@ async function retryWithBackoff<T>(
         RETRY_CONFIG.baseDelay * (RETRY_CONFIG.maxRetries - retries + 1),
         RETRY_CONFIG.maxDelay
       );
-      console.log(`API rate limited / overloaded, retrying in ${delay}ms... (${retries} retries left)`);
-      await wait(delay);
-      return retryWithBackoff(fn, retries - 1);
+      options.onRetry?.({
+        attempt: RETRY_CONFIG.maxRetries - retries + 1,
+        maxRetries: RETRY_CONFIG.maxRetries,
+        delayMs: delay,
+      });
+      await wait(delay, options.signal);
+      return retryWithBackoff(fn, options, retries - 1);
     }
     throw error;
   }
 }
 
-export async function analyzeImage(imageFile: File): Promise<AIAnalysisResult> {
+// Every attempt, retries included, waits for a token from the shared scheduler
+function scheduled<T>(call: () => Promise<T>, { priority, signal, onProgress }: AIRequestOptions) {
+  return retryWithBackoff(async () => {
+    await getRequestScheduler().acquire({
+      priority,
+      signal,
+      onQueuePosition: position =>
+        onProgress?.(position > 0 ? { type: 'queued', position } : { type: 'sending' }),
+    });
+    return call();
+  }, {
+    signal,
+    onRetry: notice => onProgress?.({ type: 'retrying', ...notice })
+  });
+}
+
+// Cheap FNV-1a fingerprint, enough to spot the same image uploaded twice
+function fingerprint(text: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${text.length}:${(hash >>> 0).toString(16)}`;
+}
+
+export async function analyzeImage(
+  imageFile: File,
+  { priority, signal, onProgress }: AIRequestOptions = {}
+): Promise<AIAnalysisResult> {
   try {
     // Validate image
     if (!imageFile.type.startsWith('image/')) {
@@ -63,8 +143,9 @@ export async function analyzeImage(imageFile: File): Promise<AIAnalysisResult> {
       throw new Error('Image too large. Maximum size is 5MB.');
     }
 
-    if (!API_KEY) {
-      throw new Error('Missing Gemini API key. Please check your environment variables.');
+    const provider = getLLMProvider();
+    if (provider.configurationError) {
+      throw new Error(provider.configurationError);
     }
 
     // Convert image to base64 using FileReader for proper encoding
@@ -80,98 +161,65 @@ export async function analyzeImage(imageFile: File): Promise<AIAnalysisResult> {
       reader.readAsDataURL(imageFile);
     });
 
-    // Initialize Gemini model - Using 2.5-flash for confirmed compatibility
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
-
-    // Enhanced prompt for better ingredient detection
     const prompt = `
       You are a professional food analysis expert. Analyze this food image carefully and:
       1. Identify ALL clearly visible food ingredients, items, and components
       2. Be specific (e.g., "red bell pepper" not just "pepper")
       3. Include herbs, spices, and seasonings if visible
-      4. Suggest 3-5 realistic recipes using these ingredients
-      
-      IMPORTANT: Format your response EXACTLY like this:
-      ingredients: ingredient1, ingredient2, ingredient3
-      suggestions: recipe1, recipe2, recipe3, recipe4, recipe5
+      4. Estimate the visible quantity of each ingredient
+      5. Judge each ingredient's freshness from visible cues such as wilting, bruising, mould or discolouration
+      6. Locate each ingredient with a bounding box, or null if it cannot be pinpointed
+      7. Rate your confidence in each identification honestly; use low values for guesses
+      8. Suggest 3-5 realistic recipes using these ingredients
     `;
 
-    // Wrap the full generateContent call in retryWithBackoff so rate-limit errors are retried
-    const text = await retryWithBackoff(async () => {
-      const result = await model.generateContent([
-        prompt,
-        {
-          inlineData: {
-            mimeType: imageFile.type,
-            data: base64Image
-          }
-        }
-      ]);
-      const response = await result.response;
-      return response.text();
-    });
+    // Identical images in flight share one call, which is rate limited and
+    // retried on rate-limit errors
+    const text = await getRequestScheduler().share<string, RequestProgress>(
+      `image:${imageFile.type}:${fingerprint(base64Image)}`,
+      ({ signal: sharedSignal, emit }) => scheduled(
+        () => provider.analyzeImage({
+          prompt,
+          image: { mimeType: imageFile.type, data: base64Image }
+        }),
+        { priority, signal: sharedSignal, onProgress: emit }
+      ),
+      { signal, onEvent: onProgress }
+    );
 
     if (!text) {
       throw new Error('No analysis results received');
     }
 
-    // Parse the response with improved error handling
-    // Handle both comma-separated and list formats, with or without markdown
-    let ingredients: string[] = [];
-    let suggestions: string[] = [];
-
-    const ingredientsSection = text.match(/ingredients:?\s*\*?\*?\s*([\s\S]*?)(?=suggestions:|$)/i);
-    if (ingredientsSection && ingredientsSection[1]) {
-      const rawIngredients = ingredientsSection[1].trim();
-      if (rawIngredients.includes('\n')) {
-        // List format
-        ingredients = rawIngredients
-          .split('\n')
-          .map(i => i.replace(/^[-*•\d+\.]\s*/, '').trim())
-          .filter(Boolean);
-      } else {
-        // Comma-separated format
-        ingredients = rawIngredients
-          .split(',')
-          .map(i => i.trim())
-          .filter(Boolean);
+    let analysis: ReturnType<typeof parseImageAnalysis>;
+    try {
+      analysis = parseImageAnalysis(text);
+    } catch (validationError) {
+      if (validationError instanceof ImageAnalysisValidationError) {
+        console.warn('Image analysis failed schema validation:', validationError.issues, text);
       }
+      throw validationError;
     }
 
-    const suggestionsSection = text.match(/suggestions:?\s*\*?\*?\s*([\s\S]*?)(?=$)/i);
-    if (suggestionsSection && suggestionsSection[1]) {
-      const rawSuggestions = suggestionsSection[1].trim();
-      if (rawSuggestions.includes('\n')) {
-        // List format
-        suggestions = rawSuggestions
-          .split('\n')
-          .map(s => s.replace(/^[-*•\d+\.]\s*/, '').trim())
-          .filter(Boolean);
-      } else {
-        // Comma-separated format
-        suggestions = rawSuggestions
-          .split(',')
-          .map(s => s.trim())
-          .filter(Boolean);
-      }
+    const { detectedIngredients } = analysis;
+    if (detectedIngredients.length === 0) {
+      throw new Error('No ingredients could be identified in this image');
     }
 
-    if (ingredients.length === 0) {
-      console.warn('Non-standard response format:', text);
-      throw new Error('Invalid response format: ingredients not found');
-    }
-
-    if (suggestions.length === 0) {
-      suggestions = ['Simple stir-fry', 'Basic salad', 'Quick soup', 'One-pot meal'];
-    }
+    const suggestions = analysis.suggestions.length > 0
+      ? analysis.suggestions
+      : ['Simple stir-fry', 'Basic salad', 'Quick soup', 'One-pot meal'];
 
     return {
-      ingredients,
-      confidence: Math.min(0.95, 0.7 + (ingredients.length * 0.05)),
-      suggestions: suggestions.length > 0 ? suggestions : ['No suggestions available']
+      ingredients: detectedIngredients.map(ingredient => ingredient.name),
+      detectedIngredients,
+      confidence: detectedIngredients.reduce((sum, ingredient) => sum + ingredient.confidence, 0) / detectedIngredients.length,
+      suggestions
     };
 
   } catch (error) {
+    if (signal?.aborted) throw error;
+
     console.error('Image analysis error details:', {
       message: error instanceof Error ? error.message : 'Unknown error',
       type: typeof error,
@@ -208,18 +256,32 @@ export async function analyzeImage(imageFile: File): Promise<AIAnalysisResult> {
   }
 }
 
-export async function generateRecipe(ingredients: string[]): Promise<string> {
+export type RecipeProgress =
+  | RequestProgress
+  | { type: 'draft'; draft: RecipeDraft }
+  // The first answer failed validation and is being regenerated
+  | { type: 'repairing' };
+
+export interface GenerateRecipeOptions extends Omit<AIRequestOptions, 'onProgress'> {
+  onProgress?: (progress: RecipeProgress) => void;
+}
+
+export async function generateRecipe(
+  ingredients: string[],
+  { priority, signal, onProgress }: GenerateRecipeOptions = {}
+): Promise<StructuredRecipe> {
   try {
     if (!ingredients || ingredients.length === 0) {
       throw new Error('No ingredients provided for recipe generation');
     }
 
-    if (!API_KEY) {
-      throw new Error('Missing Gemini API key. Please check your environment variables.');
+    const provider = getLLMProvider();
+    if (provider.configurationError) {
+      throw new Error(provider.configurationError);
     }
 
     // Check if there's a specific dish name request
-    let specificDish = null;
+    let specificDish: string | null = null;
     const filteredIngredients = ingredients.filter(ing => {
       if (ing.toLowerCase().startsWith('dish name:')) {
         specificDish = ing.substring('dish name:'.length).trim();
@@ -228,87 +290,68 @@ export async function generateRecipe(ingredients: string[]): Promise<string> {
       return true;
     });
 
-    // Use the most capable model available (2.5-flash)
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
-    
-    // Create a more targeted prompt based on whether a specific dish was requested
-    const prompt = specificDish 
-      ? `
-        Create a detailed recipe for "${specificDish}" using these ingredients: ${filteredIngredients.join(', ')}
-        
-        You must follow this EXACT format in your response:
-        
-        Recipe Name: ${specificDish}
-        Preparation Time: [time in minutes]
-        Cooking Time: [time in minutes]
-        Servings: [number]
-        
-        Ingredients:
-        - [ingredient 1 with quantity]
-        - [ingredient 2 with quantity]
-        - [continue for all ingredients]
-        
-        Instructions:
-        1. [first step]
-        2. [second step]
-        3. [continue for all steps]
-        
-        Tips:
-        - [cooking tip 1]
-        - [cooking tip 2]
-        
-        Nutrition Facts:
-        - Calories: [amount]
-        - Protein: [amount]
-        - Carbs: [amount]
-        - Fat: [amount]
-      `
-      : `
-        Create a detailed recipe using these ingredients: ${ingredients.join(', ')}
-        
-        You must follow this EXACT format in your response:
-        
-        Recipe Name: [name of dish]
-        Preparation Time: [time in minutes]
-        Cooking Time: [time in minutes]
-        Servings: [number]
-        
-        Ingredients:
-        - [ingredient 1 with quantity]
-        - [ingredient 2 with quantity]
-        - [continue for all ingredients]
-        
-        Instructions:
-        1. [first step]
-        2. [second step]
-        3. [continue numbering for all steps]
-        
-        Tips:
-        - [cooking tip 1]
-        - [cooking tip 2]
-        
-        Nutrition Facts:
-        - Calories: [amount]
-        - Protein: [amount]
-        - Carbs: [amount]
-        - Fat: [amount]
-      `;
-
-    // Add safety settings and temperature to control output
-    const recipeFunction = async () => {
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      return response.text();
-    };
+    const prompt = `
+      ${specificDish
+        ? `Create a detailed recipe for "${specificDish}" using these ingredients: ${filteredIngredients.join(', ')}`
+        : `Create a detailed recipe using these ingredients: ${filteredIngredients.join(', ')}`}
 
-    const recipe = await retryWithBackoff(recipeFunction);
+      - Give every ingredient a quantity and unit, leaving quantity null only for "to taste"
+      - Write one action per step, in order, with its duration in minutes where it takes time
+      - Add two or three practical cooking tips
+      - Estimate nutrition per serving
+    `;
 
-    if (!recipe) {
-      throw new Error('No recipe generated');
-    }
+    // The same request already in flight is joined rather than sent again;
+    // its drafts go to every caller
+    return await getRequestScheduler().share<StructuredRecipe, RecipeProgress>(
+      `recipe:${ingredients.join('\n')}`,
+      async ({ signal: sharedSignal, emit }) => {
+        // Streams one answer, reporting the recipe so far after every chunk; a
+        // retry starts the draft over
+        const generate = (request: string) => scheduled(async () => {
+          let text = '';
+          const chunks = provider.streamRecipe(
+            { prompt: request, ingredients: filteredIngredients, dishName: specificDish },
+            sharedSignal
+          );
+          for await (const chunk of chunks) {
+            text += chunk;
+            emit({ type: 'draft', draft: previewRecipe(text) });
+          }
+          return text;
+        }, { priority, signal: sharedSignal, onProgress: emit });
+
+        const text = await generate(prompt);
+
+        if (!text) {
+          throw new Error('No recipe generated');
+        }
+
+        try {
+          return parseRecipe(text);
+        } catch (validationError) {
+          if (!(validationError instanceof RecipeValidationError)) throw validationError;
 
-    return recipe;
+          // One repair attempt: show the model its answer and what was wrong with it
+          console.warn('Recipe failed schema validation, requesting a repair:', validationError.issues);
+          emit({ type: 'repairing' });
+          const repaired = await generate(`${prompt}
+          Your previous answer was:
+          ${text}
+
+          It was rejected because:
+          ${validationError.issues.map(issue => `- ${issue}`).join('\n')}
+
+          Return the corrected recipe.
+          `);
+          return parseRecipe(repaired);
+        }
+      },
+      { signal, onEvent: onProgress }
+    );
   } catch (error) {
+    if (signal?.aborted) throw error;
+
     console.error('Recipe generation error:', error);
     if (error instanceof Error) {
       if (error.message.includes('overloaded') || error.message.includes('503')) {
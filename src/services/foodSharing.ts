@@ -1,9 +1,24 @@
 import { supabase } from '../lib/supabase';
-import type { Database } from '../types/database';
+import type {
+  ClaimFoodListingError,
+  ClaimStatus,
+  Database,
+  FoodCategory,
+  FoodListingCursor,
+  FoodListingSort,
+  NearbyListingsCursor,
+  TransitionClaimError,
+} from '../types/database';
 
 type Restaurant = Database['public']['Tables']['restaurants']['Row'];
 type FoodListing = Database['public']['Tables']['food_listings']['Row'];
 type Claim = Database['public']['Tables']['claims']['Row'];
+type ClaimFoodListingResult = Database['public']['Functions']['claim_food_listing']['Returns'];
+type TransitionClaimResult = Database['public']['Functions']['transition_claim']['Returns'];
+type VerifyPickupResult = Database['public']['Functions']['verify_pickup']['Returns'];
+
+export type NearbyFoodListing = Database['public']['Functions']['nearby_listings']['Returns'][number];
+export type QueriedFoodListing = Database['public']['Functions']['query_food_listings']['Returns'][number];
 
 export interface FoodListingWithRestaurant extends FoodListing {
   restaurants: Restaurant;
@@ -34,16 +49,6 @@ export async function createRestaurant(restaurantData: {
   return data;
 }
 
-export async function getRestaurantsByAdmin(adminId: string) {
-  const { data, error } = await supabase
-    .from('restaurants')
-    .select('*')
-    .eq('restaurant_admin_id', adminId);
-
-  if (error) throw error;
-  return data;
-}
-
 export async function getAllRestaurants() {
   const { data, error } = await supabase
     .from('restaurants')
@@ -59,7 +64,9 @@ export async function createFoodListing(listingData: {
   restaurant_id: string;
   food_item: string;
   description?: string;
-  quantity: string;
+  quantity_total: number;
+  quantity_unit?: string;
+  food_category?: FoodCategory;
   pickup_start_time: string;
   pickup_end_time: string;
   dietary_info?: string[];
@@ -68,7 +75,7 @@ export async function createFoodListing(listingData: {
   console.log('🍽️ Creating food listing:', listingData);
   const { data, error } = await (supabase as any)
     .from('food_listings')
-    .insert(listingData)
+    .insert({ ...listingData, quantity_remaining: listingData.quantity_total })
     .select()
     .single();
 
@@ -90,6 +97,8 @@ export async function getAvailableFoodListings() {
         restaurants (*)
       `)
       .eq('is_claimed', false)
+      .is('archived_at', null)
+      .is('expired_at', null)
       .gte('pickup_end_time', new Date().toISOString())
       .order('created_at', { ascending: false });
 
@@ -107,108 +116,245 @@ export async function getAvailableFoodListings() {
   }
 }
 
-export async function getFoodListingsByRestaurant(restaurantId: string) {
-  try {
-    console.log('🔍 Fetching food listings by restaurant...');
-    const { data, error } = await supabase
+export const DIETARY_TAGS = ['Vegetarian', 'Vegan', 'Gluten-Free', 'Dairy-Free', 'Nut-Free', 'Halal'];
+
+export const QUANTITY_UNITS = ['portions', 'slices', 'sandwiches', 'items', 'boxes', 'trays', 'kg'];
+
+export interface FoodListingFilters {
+  search?: string;
+  dietary?: string[];
+  restaurantId?: string;
+  // Listings whose pickup window overlaps [from, to]; either end may be open
+  pickupWindow?: { from?: string; to?: string };
+  near?: { latitude: number; longitude: number; radiusKm?: number };
+  // Also return claimed and expired listings (a restaurant's own feed)
+  includeUnavailable?: boolean;
+  sort?: FoodListingSort;
+  limit?: number;
+  cursor?: FoodListingCursor | null;
+}
+
+export interface FoodListingPage {
+  listings: QueriedFoodListing[];
+  nextCursor: FoodListingCursor | null;
+}
+
+// Single entry point for listing feeds: all filtering, ordering and keyset
+// pagination happen in the query_food_listings RPC.
+export async function queryFoodListings(filters: FoodListingFilters = {}): Promise<FoodListingPage> {
+  const limit = filters.limit ?? 20;
+
+  const { data, error } = await supabase.rpc('query_food_listings', {
+    search: filters.search?.trim() || null,
+    dietary: filters.dietary?.length ? filters.dietary : null,
+    restaurant_id: filters.restaurantId ?? null,
+    pickup_from: filters.pickupWindow?.from ?? null,
+    pickup_to: filters.pickupWindow?.to ?? null,
+    lat: filters.near?.latitude ?? null,
+    lng: filters.near?.longitude ?? null,
+    radius_km: filters.near?.radiusKm ?? null,
+    include_unavailable: filters.includeUnavailable ?? false,
+    sort: filters.sort ?? 'newest',
+    limit,
+    cursor: filters.cursor ?? null,
+  });
+
+  if (error) {
+    console.error('❌ Error in queryFoodListings:', error);
+    throw new Error('Failed to load food listings');
+  }
+
+  const listings = (data || []) as QueriedFoodListing[];
+  const last = listings[listings.length - 1];
+
+  return {
+    listings,
+    nextCursor: listings.length === limit && last
+      ? { sort_key: last.sort_key, id: last.id }
+      : null,
+  };
+}
+
+export async function getRestaurantListingCounts(restaurantId: string) {
+  const countListings = async (scope: 'all' | 'active' | 'claimed') => {
+    let query = supabase
       .from('food_listings')
-      .select(`
-        *,
-        restaurants (*)
-      `)
+      .select('id', { count: 'exact', head: true })
       .eq('restaurant_id', restaurantId)
-      .order('created_at', { ascending: false });
+      .is('archived_at', null);
+
+    if (scope === 'active') {
+      query = query.eq('is_claimed', false).is('expired_at', null);
+    } else if (scope === 'claimed') {
+      query = query.eq('is_claimed', true);
+    }
 
+    const { count, error } = await query;
     if (error) {
-      console.error('Error fetching restaurant food listings:', error);
-      return [];
+      console.error('Error counting restaurant food listings:', error);
+      return 0;
     }
-    return (data || []) as FoodListingWithRestaurant[];
-  } catch (error) {
-    console.error('Error in getFoodListingsByRestaurant:', error);
-    return [];
+    return count || 0;
+  };
+
+  const [total, active, claimed] = await Promise.all([
+    countListings('all'),
+    countListings('active'),
+    countListings('claimed'),
+  ]);
+
+  return { total, active, claimed };
+}
+
+// Listings with any claimed portions are frozen: claimers have already planned
+// around the pickup window, so restaurants must not change or remove them.
+async function assertListingEditable(listingId: string, action: 'edit' | 'delete') {
+  const { data: listing, error } = await supabase
+    .from('food_listings')
+    .select('id, is_claimed, archived_at, expired_at, quantity_total, quantity_remaining')
+    .eq('id', listingId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching listing:', error);
+    throw new Error('Food listing not found');
+  }
+
+  if (!listing || listing.archived_at) {
+    throw new Error('Food listing not found');
+  }
+
+  if (action === 'edit' && listing.expired_at) {
+    throw new Error('This listing has expired and can no longer be edited');
+  }
+
+  if (listing.is_claimed || listing.quantity_remaining < listing.quantity_total) {
+    throw new Error(`This food has already been claimed and can no longer be ${action === 'edit' ? 'edited' : 'deleted'}`);
   }
+
+  return listing as Pick<FoodListing, 'id' | 'quantity_total'>;
 }
 
-export async function claimFoodListing(listingId: string, userId: string) {
-  try {
-    // First check if the listing exists and is available
-    const { data: listing, error: fetchError } = await (supabase as any)
-      .from('food_listings')
-      .select('*')
-      .eq('id', listingId)
-      .single();
+export async function updateFoodListing(
+  listingId: string,
+  updates: {
+    food_item?: string;
+    description?: string | null;
+    quantity_total?: number;
+    quantity_unit?: string;
+    food_category?: FoodCategory;
+    pickup_start_time?: string;
+    pickup_end_time?: string;
+    dietary_info?: string[] | null;
+    image_url?: string | null;
+  }
+) {
+  const listing = await assertListingEditable(listingId, 'edit');
 
-    if (fetchError) {
-      console.error('Error fetching listing:', fetchError);
-      throw new Error('Food listing not found');
-    }
+  // Nothing has been claimed yet, so the remaining quantity follows the total
+  const changes = updates.quantity_total !== undefined
+    ? { ...updates, quantity_remaining: updates.quantity_total }
+    : updates;
 
-    if (!listing) {
-      throw new Error('Food listing not found');
-    }
+  const { data, error } = await supabase
+    .from('food_listings')
+    .update(changes)
+    .eq('id', listingId)
+    .eq('quantity_remaining', listing.quantity_total) // Ensure nothing was claimed in the meantime
+    .is('archived_at', null)
+    .select()
+    .maybeSingle();
 
-    if (listing.is_claimed) {
-      throw new Error('This food has already been claimed');
-    }
+  if (error) {
+    console.error('❌ Error updating food listing:', error);
+    throw new Error('Failed to update food listing');
+  }
 
-    // Update the listing to mark as claimed
-    const { data: updatedListing, error: updateError } = await (supabase as any)
-      .from('food_listings')
-      .update({
-        is_claimed: true,
-        claimed_by_user_id: userId,
-        claimed_at: new Date().toISOString(),
-      })
-      .eq('id', listingId)
-      .eq('is_claimed', false) // Ensure it's still available
-      .select()
-      .single();
-
-    if (updateError) {
-      console.error('Error updating listing:', updateError);
-      throw new Error('Failed to claim food listing');
-    }
+  if (!data) {
+    throw new Error('This food was claimed before your changes could be saved');
+  }
 
-    if (!updatedListing) {
-      throw new Error('Food listing was claimed by someone else');
-    }
+  return data as FoodListing;
+}
 
-    // Create a claim record
-    const { data: claim, error: claimError } = await (supabase as any)
-      .from('claims')
-      .insert({
-        food_listing_id: listingId,
-        user_id: userId,
-      })
-      .select()
-      .single();
-
-    if (claimError) {
-      console.error('Error creating claim:', claimError);
-      // Try to rollback the listing update
-      await (supabase as any)
-        .from('food_listings')
-        .update({
-          is_claimed: false,
-          claimed_by_user_id: null,
-          claimed_at: null,
-        })
-        .eq('id', listingId);
-      
-      throw new Error('Failed to create claim record');
-    }
+// Listings are archived rather than deleted so existing claims and
+// restaurant statistics keep referencing a real row.
+export async function deleteFoodListing(listingId: string) {
+  const listing = await assertListingEditable(listingId, 'delete');
 
-    return { listing: updatedListing, claim };
-  } catch (error) {
+  const { data, error } = await supabase
+    .from('food_listings')
+    .update({ archived_at: new Date().toISOString() })
+    .eq('id', listingId)
+    .eq('quantity_remaining', listing.quantity_total)
+    .is('archived_at', null)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Error deleting food listing:', error);
+    throw new Error('Failed to delete food listing');
+  }
+
+  if (!data) {
+    throw new Error('This food was claimed before it could be deleted');
+  }
+
+  return data as FoodListing;
+}
+
+const CLAIM_ERROR_MESSAGES: Record<ClaimFoodListingError, string> = {
+  not_found: 'Food listing not found',
+  already_claimed: 'This food has already been claimed',
+  expired: 'The pickup window for this food has already ended',
+  insufficient_quantity: 'Not enough portions are left to fill this claim',
+  rate_limited: 'You have made too many claims recently. Please try again later.',
+  email_not_verified: 'Please verify your email address before claiming food',
+};
+
+export class ClaimError extends Error {
+  code: ClaimFoodListingError;
+
+  constructor(code: ClaimFoodListingError, message: string = CLAIM_ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'ClaimError';
+    this.code = code;
+  }
+}
+
+// The listing update and claim insert happen in one transaction inside the
+// `claim_food_listing` RPC; the claimer is taken from the session server-side.
+export async function claimFoodListing(listingId: string, portions: number = 1) {
+  const { data, error } = await supabase.rpc('claim_food_listing', {
+    listing_id: listingId,
+    portions,
+  });
+
+  if (error) {
     console.error('Error in claimFoodListing:', error);
-    throw error;
+    throw new Error('Failed to claim food listing');
+  }
+
+  const result = data as ClaimFoodListingResult;
+  if (!result.ok) {
+    if (result.error === 'insufficient_quantity' && result.quantity_remaining !== undefined) {
+      throw new ClaimError(result.error, `Only ${result.quantity_remaining} left to claim`);
+    }
+    throw new ClaimError(result.error);
   }
+
+  return { listing: result.listing, claim: result.claim };
 }
 
-export async function getUserClaims(userId: string) {
+export type ClaimCursor = Pick<Claim, 'claimed_at' | 'id'>;
+
+// Newest first; pass the last claim of the previous page as the cursor
+export async function getUserClaims(
+  userId: string,
+  { limit = 20, cursor = null }: { limit?: number; cursor?: ClaimCursor | null } = {}
+) {
   try {
-    const { data, error } = await supabase
+    let query = supabase
       .from('claims')
       .select(`
         *,
@@ -217,8 +363,18 @@ export async function getUserClaims(userId: string) {
           restaurants (*)
         )
       `)
-      .eq('user_id', userId)
-      .order('claimed_at', { ascending: false });
+      .eq('user_id', userId);
+
+    if (cursor) {
+      query = query.or(
+        `claimed_at.lt."${cursor.claimed_at}",and(claimed_at.eq."${cursor.claimed_at}",id.lt.${cursor.id})`
+      );
+    }
+
+    const { data, error } = await query
+      .order('claimed_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit);
 
     if (error) {
       console.error('Error fetching user claims:', error);
@@ -237,95 +393,247 @@ export async function getUserClaims(userId: string) {
   }
 }
 
-export async function markPickupCompleted(claimId: string) {
-  const { data, error } = await (supabase as any)
-    .from('claims')
-    .update({
-      pickup_completed: true,
-      pickup_completed_at: new Date().toISOString(),
-    })
-    .eq('id', claimId)
-    .select()
-    .single();
+export async function getUserClaimStats(userId: string) {
+  const countClaims = async (status?: ClaimStatus) => {
+    let query = supabase
+      .from('claims')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId);
 
-  if (error) throw error;
-  return data;
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { count, error } = await query;
+    if (error) {
+      console.error('Error counting user claims:', error);
+      return 0;
+    }
+    return count || 0;
+  };
+
+  const [total, completed] = await Promise.all([countClaims(), countClaims('picked_up')]);
+  return { total, completed };
+}
+
+export async function getRestaurantClaims(restaurantId: string) {
+  try {
+    const { data, error } = await supabase
+      .from('claims')
+      .select(`
+        *,
+        food_listings!inner (
+          *,
+          restaurants (*)
+        )
+      `)
+      .eq('food_listings.restaurant_id', restaurantId)
+      .order('claimed_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching restaurant claims:', error);
+      return [];
+    }
+
+    return (data || []) as ClaimWithDetails[];
+  } catch (error) {
+    console.error('Error in getRestaurantClaims:', error);
+    return [];
+  }
+}
+
+// Claim lifecycle. These rules mirror the `transition_claim` RPC so the UI
+// only offers moves the server will accept; the server remains the authority.
+export type ClaimActor = 'user' | 'restaurant';
+
+export const CLAIM_TRANSITIONS: Record<ClaimStatus, ClaimStatus[]> = {
+  reserved: ['confirmed_by_restaurant', 'picked_up', 'cancelled_by_user', 'cancelled_by_restaurant', 'no_show', 'expired'],
+  confirmed_by_restaurant: ['picked_up', 'cancelled_by_user', 'cancelled_by_restaurant', 'no_show', 'expired'],
+  picked_up: [],
+  cancelled_by_user: [],
+  cancelled_by_restaurant: [],
+  no_show: [],
+  expired: [],
+};
+
+// picked_up is never a manual transition: it is only reached through verifyPickup
+const CLAIM_ACTOR_TRANSITIONS: Record<ClaimActor, ClaimStatus[]> = {
+  user: ['cancelled_by_user'],
+  restaurant: ['confirmed_by_restaurant', 'cancelled_by_restaurant', 'no_show', 'expired'],
+};
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  reserved: 'Reserved',
+  confirmed_by_restaurant: 'Confirmed',
+  picked_up: 'Picked Up',
+  cancelled_by_user: 'Cancelled',
+  cancelled_by_restaurant: 'Cancelled by Restaurant',
+  no_show: 'No-show',
+  expired: 'Expired',
+};
+
+export function isClaimOpen(status: ClaimStatus) {
+  return CLAIM_TRANSITIONS[status].length > 0;
+}
+
+export function getAllowedClaimTransitions(status: ClaimStatus, actor: ClaimActor): ClaimStatus[] {
+  return CLAIM_TRANSITIONS[status].filter(next => CLAIM_ACTOR_TRANSITIONS[actor].includes(next));
+}
+
+const CLAIM_TRANSITION_ERROR_MESSAGES: Record<TransitionClaimError, string> = {
+  not_found: 'Claim not found',
+  forbidden: 'You are not allowed to update this claim',
+  invalid_transition: 'This claim can no longer be changed that way',
+};
+
+export class ClaimTransitionError extends Error {
+  code: TransitionClaimError;
+
+  constructor(code: TransitionClaimError) {
+    super(CLAIM_TRANSITION_ERROR_MESSAGES[code]);
+    this.name = 'ClaimTransitionError';
+    this.code = code;
+  }
+}
+
+export async function transitionClaim(
+  claim: Pick<Claim, 'id' | 'status'>,
+  nextStatus: ClaimStatus,
+  actor: ClaimActor
+) {
+  if (!getAllowedClaimTransitions(claim.status, actor).includes(nextStatus)) {
+    throw new ClaimTransitionError('invalid_transition');
+  }
+
+  const { data, error } = await supabase.rpc('transition_claim', {
+    claim_id: claim.id,
+    next_status: nextStatus,
+  });
+
+  if (error) {
+    console.error('Error in transitionClaim:', error);
+    throw new Error('Failed to update claim');
+  }
+
+  const result = data as TransitionClaimResult;
+  if (!result.ok) {
+    throw new ClaimTransitionError(result.error);
+  }
+
+  return result.claim;
+}
+
+// Pickup verification
+const PICKUP_QR_PREFIX = 'greenbyte-pickup';
+
+// QR payload shown to the claimer, e.g. "greenbyte-pickup:<claim id>:K7M2QX"
+export function buildPickupQrPayload(claim: Pick<Claim, 'id' | 'pickup_code'>): string {
+  return `${PICKUP_QR_PREFIX}:${claim.id}:${claim.pickup_code}`;
+}
+
+// Accepts either a scanned QR payload or a code typed in by staff
+export function parsePickupInput(input: string): { claimId: string | null; code: string } {
+  const trimmed = input.trim();
+  const parts = trimmed.split(':');
+
+  if (parts.length === 3 && parts[0] === PICKUP_QR_PREFIX) {
+    return { claimId: parts[1], code: parts[2].toUpperCase() };
+  }
+
+  return { claimId: null, code: trimmed.replace(/[\s-]/g, '').toUpperCase() };
+}
+
+export async function verifyPickup(restaurantId: string, input: string) {
+  const { claimId, code } = parsePickupInput(input);
+  if (!code) {
+    throw new ClaimTransitionError('not_found');
+  }
+
+  const { data, error } = await supabase.rpc('verify_pickup', {
+    restaurant_id: restaurantId,
+    code,
+    claim_id: claimId,
+  });
+
+  if (error) {
+    console.error('Error in verifyPickup:', error);
+    throw new Error('Failed to verify pickup');
+  }
+
+  const result = data as VerifyPickupResult;
+  if (!result.ok) {
+    throw new ClaimTransitionError(result.error);
+  }
+
+  return result.claim;
 }
 
 // Search and filter functions
-export async function searchFoodListings(query: string) {
-  const { data, error } = await supabase
-    .from('food_listings')
-    .select(`
-      *,
-      restaurants (*)
-    `)
-    .eq('is_claimed', false)
-    .gte('pickup_end_time', new Date().toISOString())
-    .or(`food_item.ilike.%${query}%,description.ilike.%${query}%`)
-    .order('created_at', { ascending: false });
+export type FoodListingSearchResult = Database['public']['Functions']['search_food_listings']['Returns'][number];
 
-  if (error) throw error;
-  return data as FoodListingWithRestaurant[];
+// Ranked full-text search with prefix matching and typo tolerance. The query
+// is passed as an RPC argument, never spliced into a filter string.
+export async function searchFoodListings(query: string, { limit = 20 }: { limit?: number } = {}) {
+  if (!query.trim()) {
+    return [];
+  }
+
+  const { data, error } = await supabase.rpc('search_food_listings', {
+    query: query.trim(),
+    limit,
+  });
+
+  if (error) {
+    console.error('Error in searchFoodListings:', error);
+    throw new Error('Failed to search food listings');
+  }
+
+  return (data || []) as FoodListingSearchResult[];
 }
 
+// Radius search runs in Postgres (PostGIS) and pages by distance; pass the
+// returned nextCursor back in to load the next page.
 export async function getFoodListingsNearLocation(
   latitude: number,
   longitude: number,
-  radiusKm: number = 10
+  radiusKm: number = 10,
+  { limit = 50, cursor = null }: { limit?: number; cursor?: NearbyListingsCursor | null } = {}
 ) {
-  // This is a simplified distance calculation
-  // For production, you might want to use PostGIS or a more accurate calculation
-  const { data, error } = await (supabase as any)
-    .from('food_listings')
-    .select(`
-      *,
-      restaurants (*)
-    `)
-    .eq('is_claimed', false)
-    .gte('pickup_end_time', new Date().toISOString())
-    .order('created_at', { ascending: false });
+  const { data, error } = await supabase.rpc('nearby_listings', {
+    lat: latitude,
+    lng: longitude,
+    radius_km: radiusKm,
+    limit,
+    cursor,
+  });
 
-  if (error) throw error;
+  if (error) {
+    console.error('Error in getFoodListingsNearLocation:', error);
+    throw new Error('Failed to load nearby food listings');
+  }
 
-  // Filter by distance on the client side (for simplicity)
-  const filtered = data?.filter((listing: any) => {
-    const restaurant = listing.restaurants;
-    if (!restaurant) return false;
-
-    const distance = calculateDistance(
-      latitude,
-      longitude,
-      restaurant.latitude,
-      restaurant.longitude
-    );
-    return distance <= radiusKm;
-  });
+  const listings = (data || []) as NearbyFoodListing[];
+  const last = listings[listings.length - 1];
 
-  return filtered as FoodListingWithRestaurant[];
+  return {
+    listings,
+    nextCursor: listings.length === limit && last
+      ? { distance_km: last.distance_km, id: last.id } as NearbyListingsCursor
+      : null,
+  };
 }
 
-// Helper function to calculate distance between two points
-function calculateDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371; // Radius of the Earth in kilometers
-  const dLat = (lat2 - lat1) * (Math.PI / 180);
-  const dLon = (lon2 - lon1) * (Math.PI / 180);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(lat1 * (Math.PI / 180)) *
-      Math.cos(lat2 * (Math.PI / 180)) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  const distance = R * c;
-  return distance;
+// Human-readable quantity, e.g. "8 portions" or "3 of 8 portions left"
+export function formatListingQuantity(
+  listing: Pick<FoodListing, 'quantity_total' | 'quantity_remaining' | 'quantity_unit'>
+): string {
+  if (listing.quantity_remaining === listing.quantity_total) {
+    return `${listing.quantity_total} ${listing.quantity_unit}`;
+  }
+  return `${listing.quantity_remaining} of ${listing.quantity_total} ${listing.quantity_unit} left`;
 }
 
+
 // Statistics functions
 export async function getFoodSharingStats() {
   try {
@@ -370,14 +678,14 @@ export async function getFoodSharingStats() {
   }
 }
 
-export async function getRestaurantStats(restaurantAdminId: string) {
+export async function getRestaurantStats(userId: string) {
   try {
-    const { data: restaurants } = await (supabase as any)
-      .from('restaurants')
-      .select('id')
-      .eq('restaurant_admin_id', restaurantAdminId);
+    const { data: memberships } = await supabase
+      .from('restaurant_members')
+      .select('restaurant_id')
+      .eq('user_id', userId);
 
-    const restaurantIds = restaurants?.map((r: any) => r.id) || [];
+    const restaurantIds = memberships?.map((m: { restaurant_id: string }) => m.restaurant_id) || [];
     
     if (restaurantIds.length === 0) {
       return {
@@ -0,0 +1,181 @@
+import { SchemaType } from '@google/generative-ai';
+import type { ResponseSchema } from '@google/generative-ai';
+import type { BoundingBox, DetectedIngredient, IngredientFreshness } from '../types';
+
+export const FRESHNESS_VALUES: IngredientFreshness[] = ['fresh', 'use_soon', 'spoiling', 'unknown'];
+
+// Gemini locates objects most reliably in its native box format:
+// [ymin, xmin, ymax, xmax] on a 0–1000 grid
+const BOX_SCALE = 1000;
+
+export const IMAGE_ANALYSIS_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    ingredients: {
+      type: SchemaType.ARRAY,
+      description: 'Every clearly visible food ingredient, item or component',
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          name: {
+            type: SchemaType.STRING,
+            description: 'Specific name, e.g. "red bell pepper" rather than "pepper"',
+          },
+          quantity_estimate: {
+            type: SchemaType.STRING,
+            description: 'Visible amount with a unit, e.g. "2 pieces" or "about 200 g"',
+            nullable: true,
+          },
+          freshness: {
+            type: SchemaType.STRING,
+            format: 'enum',
+            enum: FRESHNESS_VALUES,
+            description: 'fresh, use_soon (past its best but fine to cook), spoiling (visible spoilage) or unknown',
+          },
+          freshness_note: {
+            type: SchemaType.STRING,
+            description: 'What the freshness judgement is based on, e.g. "brown spots on the peel"',
+            nullable: true,
+          },
+          box_2d: {
+            type: SchemaType.ARRAY,
+            description: 'Bounding box as [ymin, xmin, ymax, xmax], each 0-1000',
+            items: { type: SchemaType.INTEGER },
+            minItems: 4,
+            maxItems: 4,
+            nullable: true,
+          },
+          confidence: {
+            type: SchemaType.NUMBER,
+            description: 'How sure you are of the identification, from 0 to 1',
+          },
+        },
+        required: ['name', 'quantity_estimate', 'freshness', 'freshness_note', 'box_2d', 'confidence'],
+      },
+    },
+    suggestions: {
+      type: SchemaType.ARRAY,
+      description: '3-5 realistic recipe names using these ingredients',
+      items: { type: SchemaType.STRING },
+    },
+  },
+  required: ['ingredients', 'suggestions'],
+};
+
+export class ImageAnalysisValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`The AI returned an unexpected response (${issues[0]})`);
+    this.name = 'ImageAnalysisValidationError';
+    this.issues = issues;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown, path: string, issues: string[]) => {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'string') {
+    issues.push(`${path} must be a string or null`);
+    return null;
+  }
+  return value.trim() || null;
+};
+
+function readBox(value: unknown, path: string, issues: string[]): BoundingBox | null {
+  if (value === null || value === undefined) return null;
+  if (
+    !Array.isArray(value) ||
+    value.length !== 4 ||
+    !value.every(n => typeof n === 'number' && n >= 0 && n <= BOX_SCALE)
+  ) {
+    issues.push(`${path} must be four numbers between 0 and ${BOX_SCALE}`);
+    return null;
+  }
+
+  const [yMin, xMin, yMax, xMax] = value as number[];
+  if (yMax <= yMin || xMax <= xMin) {
+    issues.push(`${path} must have its maximums after its minimums`);
+    return null;
+  }
+  return {
+    x: xMin / BOX_SCALE,
+    y: yMin / BOX_SCALE,
+    width: (xMax - xMin) / BOX_SCALE,
+    height: (yMax - yMin) / BOX_SCALE,
+  };
+}
+
+function readIngredient(value: unknown, path: string, issues: string[]): DetectedIngredient | null {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return null;
+  }
+
+  const start = issues.length;
+  const name = typeof value.name === 'string' ? value.name.trim() : '';
+  if (!name) issues.push(`${path}.name must be a non-empty string`);
+
+  const freshness = value.freshness as IngredientFreshness;
+  if (!FRESHNESS_VALUES.includes(freshness)) {
+    issues.push(`${path}.freshness must be one of ${FRESHNESS_VALUES.join(', ')}`);
+  }
+
+  const confidence = value.confidence;
+  if (typeof confidence !== 'number' || confidence < 0 || confidence > 1) {
+    issues.push(`${path}.confidence must be a number between 0 and 1`);
+  }
+
+  const ingredient: DetectedIngredient = {
+    name,
+    quantity: optionalString(value.quantity_estimate, `${path}.quantity_estimate`, issues),
+    freshness,
+    freshnessNote: optionalString(value.freshness_note, `${path}.freshness_note`, issues),
+    boundingBox: readBox(value.box_2d, `${path}.box_2d`, issues),
+    confidence: confidence as number,
+  };
+  return issues.length === start ? ingredient : null;
+}
+
+// Checks the model's JSON against IMAGE_ANALYSIS_SCHEMA, including the ranges
+// the schema itself cannot express, and converts it to the app's types
+export function parseImageAnalysis(text: string): {
+  detectedIngredients: DetectedIngredient[];
+  suggestions: string[];
+} {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new ImageAnalysisValidationError(['response is not valid JSON']);
+  }
+
+  if (!isObject(document)) {
+    throw new ImageAnalysisValidationError(['response must be an object']);
+  }
+
+  const issues: string[] = [];
+  const detectedIngredients: DetectedIngredient[] = [];
+  if (!Array.isArray(document.ingredients)) {
+    issues.push('ingredients must be an array');
+  } else {
+    document.ingredients.forEach((item, index) => {
+      const ingredient = readIngredient(item, `ingredients[${index}]`, issues);
+      if (ingredient) detectedIngredients.push(ingredient);
+    });
+  }
+
+  let suggestions: string[] = [];
+  if (!Array.isArray(document.suggestions) || !document.suggestions.every(s => typeof s === 'string')) {
+    issues.push('suggestions must be an array of strings');
+  } else {
+    suggestions = document.suggestions.map(s => s.trim()).filter(Boolean);
+  }
+
+  if (issues.length > 0) {
+    throw new ImageAnalysisValidationError(issues);
+  }
+  return { detectedIngredients, suggestions };
+}
@@ -0,0 +1,67 @@
+import { supabase } from '../lib/supabase';
+import type { FoodCategory, ImpactScope, ImpactTotals } from '../types/database';
+
+export interface ImpactSummary extends ImpactTotals {
+  // Factor version the totals were estimated with (see impact_factor_versions)
+  version: string | null;
+}
+
+export const FOOD_CATEGORY_LABELS: Record<FoodCategory, string> = {
+  prepared_meal: 'Prepared meals',
+  bakery: 'Bread & pastries',
+  produce: 'Fruit & vegetables',
+  dairy_eggs: 'Dairy & eggs',
+  meat: 'Meat',
+  fish: 'Fish & seafood',
+  other: 'Other',
+};
+
+export const FOOD_CATEGORIES = Object.keys(FOOD_CATEGORY_LABELS) as FoodCategory[];
+
+export const DEFAULT_FOOD_CATEGORY: FoodCategory = 'prepared_meal';
+
+const EMPTY_IMPACT: ImpactSummary = { version: null, pickups: 0, portions: 0, kg: 0, co2e_kg: 0, water_l: 0 };
+
+// Totals over picked-up claims, estimated server-side by impact_totals()
+async function getImpactTotals(scope: ImpactScope, restaurantId?: string): Promise<ImpactSummary> {
+  const { data, error } = await supabase.rpc('impact_totals', {
+    scope,
+    restaurant_id: restaurantId ?? null,
+  });
+
+  if (error || !data?.ok) {
+    console.error(`Error fetching ${scope} impact:`, error ?? data?.error);
+    return EMPTY_IMPACT;
+  }
+
+  return {
+    version: data.version,
+    pickups: data.pickups,
+    portions: data.portions,
+    kg: data.kg,
+    co2e_kg: data.co2e_kg,
+    water_l: data.water_l,
+  };
+}
+
+export function getGlobalImpact() {
+  return getImpactTotals('global');
+}
+
+// The signed-in user's own pickups
+export function getUserImpact() {
+  return getImpactTotals('user');
+}
+
+// One restaurant, or every restaurant the signed-in user belongs to
+export function getRestaurantImpact(restaurantId?: string) {
+  return getImpactTotals('restaurant', restaurantId);
+}
+
+export function formatWeight(kg: number) {
+  return kg >= 1000 ? `${(kg / 1000).toFixed(1)} t` : `${kg.toFixed(kg < 10 ? 1 : 0)} kg`;
+}
+
+export function formatWater(litres: number) {
+  return litres >= 1000 ? `${(litres / 1000).toFixed(1)} m³` : `${Math.round(litres)} L`;
+}
@@ -0,0 +1,247 @@
+import { supabase } from '../lib/supabase';
+import { toCsv, type CsvRecord } from '../lib/csv';
+import { createFoodListing, DIETARY_TAGS } from './foodSharing';
+import type { ClaimWithDetails } from './foodSharing';
+import { FOOD_CATEGORIES, FOOD_CATEGORY_LABELS, DEFAULT_FOOD_CATEGORY } from './impact';
+import type { Database, FoodCategory } from '../types/database';
+
+type FoodListing = Database['public']['Tables']['food_listings']['Row'];
+
+export type ListingImportField =
+  | 'food_item'
+  | 'description'
+  | 'quantity_total'
+  | 'quantity_unit'
+  | 'food_category'
+  | 'pickup_start_time'
+  | 'pickup_end_time'
+  | 'dietary_info'
+  | 'image_url';
+
+// Column index in the uploaded file for each field; null leaves the field empty
+export type ListingColumnMapping = Record<ListingImportField, number | null>;
+
+export interface ListingImportRow {
+  // 1-based line number in the file, header included, so it matches the spreadsheet
+  line: number;
+  listing: Omit<Parameters<typeof createFoodListing>[0], 'restaurant_id'> | null;
+  errors: string[];
+}
+
+export interface ListingImportResult {
+  created: number;
+  failed: { line: number; message: string }[];
+}
+
+export const LISTING_IMPORT_FIELDS: { field: ListingImportField; label: string; required: boolean }[] = [
+  { field: 'food_item', label: 'Food item', required: true },
+  { field: 'description', label: 'Description', required: false },
+  { field: 'quantity_total', label: 'Quantity', required: true },
+  { field: 'quantity_unit', label: 'Unit', required: false },
+  { field: 'food_category', label: 'Category', required: false },
+  { field: 'pickup_start_time', label: 'Pickup start', required: true },
+  { field: 'pickup_end_time', label: 'Pickup end', required: true },
+  { field: 'dietary_info', label: 'Dietary tags', required: false },
+  { field: 'image_url', label: 'Image URL', required: false },
+];
+
+// Normalised header names recognised for each field when guessing the mapping
+const COLUMN_ALIASES: Record<ListingImportField, string[]> = {
+  food_item: ['fooditem', 'food', 'item', 'name', 'title'],
+  description: ['description', 'details', 'notes'],
+  quantity_total: ['quantitytotal', 'quantity', 'qty', 'portions', 'amount'],
+  quantity_unit: ['quantityunit', 'unit', 'units'],
+  food_category: ['foodcategory', 'category', 'type'],
+  pickup_start_time: ['pickupstarttime', 'pickupstart', 'start', 'from', 'availablefrom'],
+  pickup_end_time: ['pickupendtime', 'pickupend', 'end', 'until', 'to', 'availableuntil'],
+  dietary_info: ['dietaryinfo', 'dietary', 'tags', 'diet'],
+  image_url: ['imageurl', 'image', 'photo', 'picture'],
+};
+
+// Larger files are better split up; each row is a separate insert
+export const MAX_IMPORT_ROWS = 500;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+export function guessColumnMapping(headers: string[]): ListingColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ListingColumnMapping;
+
+  for (const { field } of LISTING_IMPORT_FIELDS) {
+    const index = normalized.findIndex(h => COLUMN_ALIASES[field].includes(h));
+    mapping[field] = index === -1 ? null : index;
+  }
+  return mapping;
+}
+
+// Accepts ISO 8601 and "YYYY-MM-DD HH:MM"; times without an offset are local
+function parseDateTime(value: string) {
+  const date = new Date(value.trim().replace(/^(\d{4}-\d{2}-\d{2}) /, '$1T'));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Dry run: checks every row without writing anything
+export function validateListingRows(
+  rows: CsvRecord[],
+  mapping: ListingColumnMapping,
+  now = new Date()
+): ListingImportRow[] {
+  const tagsByName = new Map(DIETARY_TAGS.map(tag => [tag.toLowerCase(), tag]));
+  // Categories can be given as their key (dairy_eggs) or their label (Dairy & eggs)
+  const categoriesByName = new Map<string, FoodCategory>(FOOD_CATEGORIES.flatMap(category => [
+    [category, category],
+    [FOOD_CATEGORY_LABELS[category].toLowerCase(), category],
+  ]));
+
+  return rows.map(({ line, cells }) => {
+    const cell = (field: ListingImportField) => {
+      const column = mapping[field];
+      return column === null ? '' : (cells[column] ?? '').trim();
+    };
+    const errors: string[] = [];
+
+    const foodItem = cell('food_item');
+    if (!foodItem) errors.push('Food item is missing');
+
+    const quantityText = cell('quantity_total');
+    const quantity = Number(quantityText);
+    if (!quantityText) {
+      errors.push('Quantity is missing');
+    } else if (!Number.isInteger(quantity) || quantity < 1) {
+      errors.push(`Quantity "${quantityText}" must be a whole number of at least 1`);
+    }
+
+    const startText = cell('pickup_start_time');
+    const endText = cell('pickup_end_time');
+    const start = startText ? parseDateTime(startText) : null;
+    const end = endText ? parseDateTime(endText) : null;
+    if (!startText) errors.push('Pickup start is missing');
+    else if (!start) errors.push(`Pickup start "${startText}" is not a date and time`);
+    if (!endText) errors.push('Pickup end is missing');
+    else if (!end) errors.push(`Pickup end "${endText}" is not a date and time`);
+    if (start && end && end <= start) errors.push('Pickup end must be after pickup start');
+    if (end && end <= now) errors.push('Pickup end is in the past');
+
+    const dietaryInfo: string[] = [];
+    for (const tag of cell('dietary_info').split(/[;|]/).map(t => t.trim()).filter(Boolean)) {
+      const known = tagsByName.get(tag.toLowerCase());
+      if (known) dietaryInfo.push(known);
+      else errors.push(`Unknown dietary tag "${tag}" (use ${DIETARY_TAGS.join(', ')})`);
+    }
+
+    const categoryText = cell('food_category');
+    const foodCategory = categoryText ? categoriesByName.get(categoryText.toLowerCase()) : DEFAULT_FOOD_CATEGORY;
+    if (!foodCategory) {
+      errors.push(`Unknown category "${categoryText}" (use ${FOOD_CATEGORIES.join(', ')})`);
+    }
+
+    const imageUrl = cell('image_url');
+    if (imageUrl && !/^https?:\/\/\S+$/i.test(imageUrl)) {
+      errors.push(`Image URL "${imageUrl}" must start with http:// or https://`);
+    }
+
+    return {
+      line,
+      errors,
+      listing: errors.length > 0 ? null : {
+        food_item: foodItem,
+        description: cell('description') || undefined,
+        quantity_total: quantity,
+        quantity_unit: cell('quantity_unit') || 'portions',
+        food_category: foodCategory,
+        pickup_start_time: start!.toISOString(),
+        pickup_end_time: end!.toISOString(),
+        dietary_info: dietaryInfo,
+        image_url: imageUrl || undefined,
+      },
+    };
+  });
+}
+
+// Creates the valid rows one at a time so a failure only loses that row
+export async function importListings(
+  restaurantId: string,
+  rows: ListingImportRow[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ListingImportResult> {
+  const valid = rows.filter(row => row.listing);
+  const result: ListingImportResult = { created: 0, failed: [] };
+
+  for (const [index, row] of valid.entries()) {
+    try {
+      await createFoodListing({ ...row.listing!, restaurant_id: restaurantId });
+      result.created++;
+    } catch (error) {
+      result.failed.push({
+        line: row.line,
+        message: (error as { message?: string })?.message || 'Failed to create listing',
+      });
+    }
+    onProgress?.(index + 1, valid.length);
+  }
+
+  return result;
+}
+
+export const LISTING_TEMPLATE_CSV = toCsv(
+  LISTING_IMPORT_FIELDS.map(f => f.field),
+  [['Croissants', 'Butter croissants from today', 12, 'items', 'bakery', '2025-10-18 20:00', '2025-10-18 21:00', 'Vegetarian', '']]
+);
+
+export async function getListingsForExport(restaurantId: string): Promise<FoodListing[]> {
+  const { data, error } = await supabase
+    .from('food_listings')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error exporting listings:', error);
+    throw new Error('Failed to export listings');
+  }
+  return data as FoodListing[];
+}
+
+const LISTING_EXPORT_COLUMNS = [
+  'id', 'food_item', 'description', 'quantity_total', 'quantity_remaining', 'quantity_unit', 'food_category',
+  'pickup_start_time', 'pickup_end_time', 'dietary_info', 'image_url',
+  'is_claimed', 'expired_at', 'archived_at', 'created_at',
+] as const;
+
+// Same column names as the import, so an export can be edited and re-imported
+export function listingsToCsv(listings: FoodListing[]) {
+  return toCsv(
+    [...LISTING_EXPORT_COLUMNS],
+    listings.map(listing => LISTING_EXPORT_COLUMNS.map(column =>
+      column === 'dietary_info' ? (listing.dietary_info || []).join(';') : listing[column]
+    ))
+  );
+}
+
+const CLAIM_EXPORT_COLUMNS = [
+  'id', 'food_listing_id', 'food_item', 'portions', 'quantity_unit',
+  'status', 'claimed_at', 'status_changed_at', 'pickup_completed_at',
+] as const;
+
+// Pickup codes are left out of claim exports; they work like passwords at the counter
+export function claimsToExportRows(claims: ClaimWithDetails[]) {
+  return claims.map(claim => ({
+    id: claim.id,
+    food_listing_id: claim.food_listing_id,
+    food_item: claim.food_listings.food_item,
+    portions: claim.portions,
+    quantity_unit: claim.food_listings.quantity_unit,
+    status: claim.status,
+    claimed_at: claim.claimed_at,
+    status_changed_at: claim.status_changed_at,
+    pickup_completed_at: claim.pickup_completed_at,
+  }));
+}
+
+export function claimsToCsv(claims: ClaimWithDetails[]) {
+  const rows = claimsToExportRows(claims);
+  return toCsv(
+    [...CLAIM_EXPORT_COLUMNS],
+    rows.map(row => CLAIM_EXPORT_COLUMNS.map(column => row[column]))
+  );
+}
@@ -0,0 +1,245 @@
+import { supabase } from '../lib/supabase';
+import { parseRecurrenceRule, getOccurrences, todayIn } from '../lib/recurrence';
+import type { Database, FoodCategory } from '../types/database';
+
+export type ListingTemplate = Database['public']['Tables']['listing_templates']['Row'];
+export type TemplateOccurrence = Database['public']['Tables']['listing_template_occurrences']['Row'];
+
+export interface ListingTemplateInput {
+  food_item: string;
+  description?: string | null;
+  quantity_total: number;
+  quantity_unit: string;
+  food_category: FoodCategory;
+  dietary_info?: string[];
+  image_url?: string | null;
+  pickup_start: string;
+  pickup_end: string;
+  recurrence_rule: string;
+  starts_on: string;
+  ends_on?: string | null;
+  publish_lead_minutes: number;
+}
+
+// Per-occurrence changes; null keeps the template's value
+export type OccurrenceOverrides = Partial<
+  Pick<TemplateOccurrence, 'food_item' | 'description' | 'quantity_total' | 'pickup_start' | 'pickup_end'>
+>;
+
+export interface UpcomingOccurrence {
+  date: string;
+  food_item: string;
+  description: string | null;
+  quantity_total: number;
+  pickup_start: string;
+  pickup_end: string;
+  skipped: boolean;
+  edited: boolean;
+  // Set once the generator has posted the listing
+  listing_id: string | null;
+  generated: boolean;
+}
+
+export const PUBLISH_LEAD_OPTIONS = [
+  { minutes: 0, label: 'When pickup starts' },
+  { minutes: 30, label: '30 minutes before' },
+  { minutes: 60, label: '1 hour before' },
+  { minutes: 120, label: '2 hours before' },
+  { minutes: 240, label: '4 hours before' },
+];
+
+// 'HH:MM:SS' from Postgres → 'HH:MM' for display and time inputs
+export const formatTemplateTime = (time: string) => time.slice(0, 5);
+
+function validateTemplate(input: Partial<ListingTemplateInput>) {
+  if (input.recurrence_rule !== undefined) {
+    parseRecurrenceRule(input.recurrence_rule);
+  }
+  if (input.pickup_start !== undefined && input.pickup_start === input.pickup_end) {
+    throw new Error('Pickup must end after it starts');
+  }
+  if (input.ends_on && input.starts_on && input.ends_on < input.starts_on) {
+    throw new Error('The end date must be on or after the start date');
+  }
+}
+
+export async function getListingTemplates(restaurantId: string): Promise<ListingTemplate[]> {
+  const { data, error } = await supabase
+    .from('listing_templates')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching listing templates:', error);
+    return [];
+  }
+  return data as ListingTemplate[];
+}
+
+export async function getTemplateOccurrences(templateIds: string[], fromDate: string): Promise<TemplateOccurrence[]> {
+  if (templateIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('listing_template_occurrences')
+    .select('*')
+    .in('template_id', templateIds)
+    .gte('occurrence_date', fromDate);
+
+  if (error) {
+    console.error('Error fetching template occurrences:', error);
+    return [];
+  }
+  return data as TemplateOccurrence[];
+}
+
+export async function createListingTemplate(
+  restaurantId: string,
+  userId: string,
+  input: ListingTemplateInput
+): Promise<ListingTemplate> {
+  validateTemplate(input);
+
+  const { data, error } = await supabase
+    .from('listing_templates')
+    .insert({
+      ...input,
+      restaurant_id: restaurantId,
+      created_by: userId,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating listing template:', error);
+    throw new Error('Failed to save template');
+  }
+  return data as ListingTemplate;
+}
+
+export async function updateListingTemplate(
+  templateId: string,
+  updates: Partial<ListingTemplateInput>
+): Promise<ListingTemplate> {
+  validateTemplate(updates);
+
+  const { data, error } = await supabase
+    .from('listing_templates')
+    .update(updates)
+    .eq('id', templateId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating listing template:', error);
+    throw new Error('Failed to save template');
+  }
+  return data as ListingTemplate;
+}
+
+export async function setListingTemplatePaused(templateId: string, isPaused: boolean): Promise<ListingTemplate> {
+  const { data, error } = await supabase
+    .from('listing_templates')
+    .update({ is_paused: isPaused })
+    .eq('id', templateId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error pausing listing template:', error);
+    throw new Error(isPaused ? 'Failed to pause template' : 'Failed to resume template');
+  }
+  return data as ListingTemplate;
+}
+
+// Listings already generated from the template stay up
+export async function deleteListingTemplate(templateId: string) {
+  const { error } = await supabase
+    .from('listing_templates')
+    .delete()
+    .eq('id', templateId);
+
+  if (error) {
+    console.error('Error deleting listing template:', error);
+    throw new Error('Failed to delete template');
+  }
+}
+
+async function saveOccurrence(
+  templateId: string,
+  date: string,
+  changes: OccurrenceOverrides & { skipped?: boolean }
+): Promise<TemplateOccurrence> {
+  const { data, error } = await supabase
+    .from('listing_template_occurrences')
+    .upsert(
+      { template_id: templateId, occurrence_date: date, ...changes },
+      { onConflict: 'template_id,occurrence_date' }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving occurrence:', error);
+    throw new Error('Failed to update occurrence');
+  }
+  return data as TemplateOccurrence;
+}
+
+export function skipOccurrence(templateId: string, date: string) {
+  return saveOccurrence(templateId, date, { skipped: true });
+}
+
+export function editOccurrence(templateId: string, date: string, overrides: OccurrenceOverrides) {
+  return saveOccurrence(templateId, date, { ...overrides, skipped: false });
+}
+
+// Drops the skip and any edits, so the occurrence follows the template again
+export async function restoreOccurrence(templateId: string, date: string) {
+  const { error } = await supabase
+    .from('listing_template_occurrences')
+    .delete()
+    .eq('template_id', templateId)
+    .eq('occurrence_date', date)
+    .is('generated_at', null);
+
+  if (error) {
+    console.error('Error restoring occurrence:', error);
+    throw new Error('Failed to restore occurrence');
+  }
+}
+
+// Merges the template's schedule with its skipped, edited and generated occurrences
+export function getUpcomingOccurrences(
+  template: ListingTemplate,
+  occurrences: TemplateOccurrence[],
+  count = 7
+): UpcomingOccurrence[] {
+  const byDate = new Map(
+    occurrences.filter(o => o.template_id === template.id).map(o => [o.occurrence_date, o])
+  );
+  const dates = getOccurrences(
+    parseRecurrenceRule(template.recurrence_rule),
+    template.starts_on,
+    template.ends_on,
+    todayIn(template.timezone),
+    count
+  );
+
+  return dates.map(date => {
+    const occurrence = byDate.get(date);
+    return {
+      date,
+      food_item: occurrence?.food_item ?? template.food_item,
+      description: occurrence?.description ?? template.description,
+      quantity_total: occurrence?.quantity_total ?? template.quantity_total,
+      pickup_start: occurrence?.pickup_start ?? template.pickup_start,
+      pickup_end: occurrence?.pickup_end ?? template.pickup_end,
+      skipped: !!occurrence?.skipped,
+      edited: !!occurrence && !occurrence.skipped && !occurrence.generated_at,
+      listing_id: occurrence?.listing_id ?? null,
+      generated: !!occurrence?.generated_at,
+    };
+  });
+}
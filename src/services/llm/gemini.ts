@@ -0,0 +1,45 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { ResponseSchema } from '@google/generative-ai';
+import { IMAGE_ANALYSIS_SCHEMA } from '../imageAnalysisSchema';
+import { RECIPE_SCHEMA } from '../recipeSchema';
+import type { LLMConfig, LLMProvider } from './types';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+export function createGeminiProvider(config: LLMConfig): LLMProvider {
+  const model = config.model || DEFAULT_MODEL;
+  const genAI = new GoogleGenerativeAI(config.apiKey ?? '');
+
+  // JSON mode constrains the reply to the given schema
+  const jsonModel = (responseSchema: ResponseSchema) =>
+    genAI.getGenerativeModel({
+      model,
+      generationConfig: {
+        responseMimeType: 'application/json',
+        responseSchema,
+      },
+    });
+
+  return {
+    id: 'gemini',
+    model,
+    configurationError: config.apiKey
+      ? null
+      : 'Missing Gemini API key. Please check your environment variables.',
+
+    async analyzeImage({ prompt, image }) {
+      const result = await jsonModel(IMAGE_ANALYSIS_SCHEMA).generateContent([
+        prompt,
+        { inlineData: { mimeType: image.mimeType, data: image.data } },
+      ]);
+      return result.response.text();
+    },
+
+    async *streamRecipe({ prompt }, signal) {
+      const result = await jsonModel(RECIPE_SCHEMA).generateContentStream(prompt, { signal });
+      for await (const chunk of result.stream) {
+        yield chunk.text();
+      }
+    },
+  };
+}
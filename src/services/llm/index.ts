@@ -0,0 +1,67 @@
+import { createGeminiProvider } from './gemini';
+import { createMockProvider } from './mock';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { RequestScheduler } from './scheduler';
+import type { LLMConfig, LLMProvider, LLMProviderId } from './types';
+
+export type { ImageAnalysisRequest, LLMConfig, LLMProvider, LLMProviderId, RecipeRequest } from './types';
+export type { RequestPriority } from './scheduler';
+
+// Gemini's free tier
+const DEFAULT_REQUESTS_PER_MINUTE = 15;
+
+const PROVIDER_FACTORIES: Record<LLMProviderId, (config: LLMConfig) => LLMProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAICompatibleProvider,
+  mock: createMockProvider,
+};
+
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  const factory = PROVIDER_FACTORIES[config.provider];
+  if (!factory) {
+    throw new Error(
+      `Unknown AI provider "${config.provider}". Set VITE_LLM_PROVIDER to one of: ${Object.keys(PROVIDER_FACTORIES).join(', ')}.`
+    );
+  }
+  return factory(config);
+}
+
+function readConfig(): LLMConfig {
+  const env = import.meta.env;
+  const provider = (env.VITE_LLM_PROVIDER || 'gemini') as LLMProviderId;
+  return {
+    provider,
+    model: env.VITE_LLM_MODEL || undefined,
+    apiKey: provider === 'gemini' ? env.VITE_GEMINI_API_KEY : env.VITE_LLM_API_KEY,
+    baseUrl: env.VITE_LLM_BASE_URL || undefined,
+    requestsPerMinute: Number(env.VITE_LLM_REQUESTS_PER_MINUTE) || DEFAULT_REQUESTS_PER_MINUTE,
+  };
+}
+
+let provider: LLMProvider | null = null;
+let scheduler: RequestScheduler | null = null;
+
+// The provider chosen by VITE_LLM_PROVIDER, created on first use
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider = createLLMProvider(readConfig());
+  }
+  return provider;
+}
+
+// Shared by every AI call in the app, so they all count against one limit
+export function getRequestScheduler(): RequestScheduler {
+  if (!scheduler) {
+    scheduler = new RequestScheduler(readConfig().requestsPerMinute);
+  }
+  return scheduler;
+}
+
+// Why the configured provider cannot be used, or null when it can
+export function getLLMConfigurationError(): string | null {
+  try {
+    return getLLMProvider().configurationError;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'AI provider is misconfigured';
+  }
+}
@@ -0,0 +1,108 @@
+import type { LLMConfig, LLMProvider } from './types';
+
+// Short enough for tests, long enough for demos to show loading states
+const MOCK_LATENCY_MS = 400;
+// Streams a recipe in roughly two seconds
+const MOCK_CHUNK_SIZE = 24;
+const MOCK_CHUNK_DELAY_MS = 40;
+
+// Fixtures use the wire format of IMAGE_ANALYSIS_SCHEMA and RECIPE_SCHEMA so
+// the mock goes through the same validation as a real model
+const IMAGE_ANALYSIS_FIXTURE = {
+  ingredients: [
+    {
+      name: 'tomatoes',
+      quantity_estimate: '3 medium',
+      freshness: 'fresh',
+      freshness_note: 'Firm with glossy skin',
+      box_2d: [420, 80, 700, 380],
+      confidence: 0.94,
+    },
+    {
+      name: 'red bell pepper',
+      quantity_estimate: '1 whole',
+      freshness: 'fresh',
+      freshness_note: null,
+      box_2d: [300, 420, 620, 640],
+      confidence: 0.9,
+    },
+    {
+      name: 'spinach',
+      quantity_estimate: 'about 150 g',
+      freshness: 'use_soon',
+      freshness_note: 'A few leaves are starting to wilt',
+      box_2d: [120, 600, 460, 960],
+      confidence: 0.82,
+    },
+    {
+      name: 'garlic',
+      quantity_estimate: '1 bulb',
+      freshness: 'fresh',
+      freshness_note: null,
+      box_2d: [680, 520, 860, 660],
+      confidence: 0.77,
+    },
+    {
+      name: 'onion',
+      quantity_estimate: '1 large',
+      freshness: 'unknown',
+      freshness_note: 'Partly hidden behind the pepper',
+      box_2d: null,
+      confidence: 0.58,
+    },
+  ],
+  suggestions: ['Shakshuka', 'Spinach and Pepper Frittata', 'Roasted Tomato Soup', 'Vegetable Stir-Fry'],
+};
+
+function recipeFixture(ingredients: string[], dishName: string | null) {
+  return {
+    name: dishName ?? 'Mock Kitchen Skillet',
+    description: 'A deterministic recipe returned by the mock AI provider.',
+    prep_time_minutes: 10,
+    cook_time_minutes: 20,
+    servings: 2,
+    ingredients: [
+      ...ingredients.map(name => ({ name, quantity: 1, unit: 'cup', note: 'chopped' })),
+      { name: 'olive oil', quantity: 2, unit: 'tbsp', note: null },
+      { name: 'salt and pepper', quantity: null, unit: null, note: 'to taste' },
+    ],
+    steps: [
+      { instruction: 'Wash and chop all the ingredients.', duration_minutes: 10 },
+      { instruction: 'Heat the olive oil in a large skillet over medium heat.', duration_minutes: 2 },
+      { instruction: `Add ${ingredients.join(', ')} and cook, stirring often.`, duration_minutes: 15 },
+      { instruction: 'Season with salt and pepper and serve warm.', duration_minutes: null },
+    ],
+    tips: ['Cook the firmest ingredients first.', 'Leftovers keep for two days in the fridge.'],
+    nutrition: { calories: 320, protein_g: 9, carbs_g: 28, fat_g: 18 },
+  };
+}
+
+const respond = (body: unknown) =>
+  new Promise<string>(resolve => setTimeout(() => resolve(JSON.stringify(body)), MOCK_LATENCY_MS));
+
+async function* streamFixture(body: unknown, signal?: AbortSignal) {
+  const text = JSON.stringify(body);
+  for (let i = 0; i < text.length; i += MOCK_CHUNK_SIZE) {
+    await new Promise(resolve => setTimeout(resolve, MOCK_CHUNK_DELAY_MS));
+    signal?.throwIfAborted();
+    yield text.slice(i, i + MOCK_CHUNK_SIZE);
+  }
+}
+
+// Answers without a network, always with the same fixtures, for tests, demos
+// and offline development
+export function createMockProvider(config: LLMConfig): LLMProvider {
+  return {
+    id: 'mock',
+    model: config.model || 'fixtures',
+    configurationError: null,
+
+    analyzeImage() {
+      return respond(IMAGE_ANALYSIS_FIXTURE);
+    },
+
+    streamRecipe({ ingredients, dishName }, signal) {
+      return streamFixture(recipeFixture(ingredients, dishName), signal);
+    },
+  };
+}
@@ -0,0 +1,130 @@
+import type { ResponseSchema } from '@google/generative-ai';
+import { IMAGE_ANALYSIS_SCHEMA } from '../imageAnalysisSchema';
+import { RECIPE_SCHEMA } from '../recipeSchema';
+import type { LLMConfig, LLMProvider } from './types';
+
+// Ollama's OpenAI-compatible API on its default port
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+interface SchemaNode {
+  type: string;
+  description?: string;
+  nullable?: boolean;
+  enum?: string[];
+  items?: SchemaNode;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+}
+
+type MessageContent =
+  | string
+  | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+// Structured outputs here take plain JSON Schema, which has no `nullable` and
+// rejects properties the schema does not list
+function toJsonSchema(node: SchemaNode): Record<string, unknown> {
+  const json: Record<string, unknown> = {
+    type: node.nullable ? [node.type, 'null'] : node.type,
+  };
+  if (node.description) json.description = node.description;
+  if (node.enum) json.enum = node.nullable ? [...node.enum, null] : node.enum;
+  if (node.items) json.items = toJsonSchema(node.items);
+  if (node.minItems !== undefined) json.minItems = node.minItems;
+  if (node.maxItems !== undefined) json.maxItems = node.maxItems;
+  if (node.properties) {
+    json.properties = Object.fromEntries(
+      Object.entries(node.properties).map(([key, child]) => [key, toJsonSchema(child)])
+    );
+    json.required = node.required ?? [];
+    json.additionalProperties = false;
+  }
+  return json;
+}
+
+export function createOpenAICompatibleProvider(config: LLMConfig): LLMProvider {
+  const model = config.model ?? '';
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  const post = async (
+    content: MessageContent,
+    schemaName: string,
+    schema: ResponseSchema,
+    { stream = false, signal }: { stream?: boolean; signal?: AbortSignal } = {}
+  ) => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        stream,
+        messages: [{ role: 'user', content }],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: schemaName, schema: toJsonSchema(schema as SchemaNode) },
+        },
+      }),
+    });
+
+    // Keep the status in the message so retryWithBackoff recognises 429 and 503
+    if (!response.ok) {
+      throw new Error(`${baseUrl} answered ${response.status}: ${await response.text()}`);
+    }
+    return response;
+  };
+
+  const complete = async (content: MessageContent, schemaName: string, schema: ResponseSchema) => {
+    const response = await post(content, schemaName, schema);
+    const data = await response.json();
+    const text = data?.choices?.[0]?.message?.content;
+    return typeof text === 'string' ? text : '';
+  };
+
+  return {
+    id: 'openai',
+    model,
+    configurationError: model
+      ? null
+      : 'Missing VITE_LLM_MODEL. Name the model your OpenAI-compatible endpoint should use.',
+
+    analyzeImage({ prompt, image }) {
+      return complete(
+        [
+          { type: 'text', text: prompt },
+          { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } },
+        ],
+        'image_analysis',
+        IMAGE_ANALYSIS_SCHEMA
+      );
+    },
+
+    async *streamRecipe({ prompt }, signal) {
+      const response = await post(prompt, 'recipe', RECIPE_SCHEMA, { stream: true, signal });
+      if (!response.body) return;
+
+      // Server-sent events, one `data: {json}` line per delta
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffered = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+
+        const lines = (buffered + value).split('\n');
+        buffered = lines.pop() ?? '';
+        for (const line of lines) {
+          if (!line.startsWith('data:')) continue;
+          const data = line.slice('data:'.length).trim();
+          if (data === '[DONE]') return;
+
+          const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+          if (typeof delta === 'string' && delta) yield delta;
+        }
+      }
+    },
+  };
+}
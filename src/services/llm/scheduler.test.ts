@@ -0,0 +1,253 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RequestScheduler } from './scheduler';
+
+// Records the order in which acquire() calls are granted
+function track(promise: Promise<void>, granted: string[], name: string) {
+  return promise.then(() => {
+    granted.push(name);
+  });
+}
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('acquire', () => {
+    it('starts with a full bucket and refills it evenly over the minute', async () => {
+      // Two requests per minute: one token every 30 seconds
+      const scheduler = new RequestScheduler(2);
+      const granted: string[] = [];
+
+      await scheduler.acquire();
+      await scheduler.acquire();
+      track(scheduler.acquire(), granted, 'third');
+      track(scheduler.acquire(), granted, 'fourth');
+
+      await vi.advanceTimersByTimeAsync(29_999);
+      expect(granted).toEqual([]);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(granted).toEqual(['third']);
+
+      await vi.advanceTimersByTimeAsync(30_000);
+      expect(granted).toEqual(['third', 'fourth']);
+    });
+
+    it('does not bank more than a minute of tokens', async () => {
+      const scheduler = new RequestScheduler(2);
+      const granted: string[] = [];
+
+      await vi.advanceTimersByTimeAsync(10 * 60_000);
+      track(scheduler.acquire(), granted, 'a');
+      track(scheduler.acquire(), granted, 'b');
+      track(scheduler.acquire(), granted, 'c');
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(granted).toEqual(['a', 'b']);
+    });
+
+    it('serves user requests before background ones, oldest first', async () => {
+      const scheduler = new RequestScheduler(1);
+      const granted: string[] = [];
+      await scheduler.acquire();
+
+      track(scheduler.acquire({ priority: 'background' }), granted, 'background 1');
+      track(scheduler.acquire({ priority: 'user' }), granted, 'user 1');
+      track(scheduler.acquire({ priority: 'background' }), granted, 'background 2');
+      track(scheduler.acquire({ priority: 'user' }), granted, 'user 2');
+
+      await vi.advanceTimersByTimeAsync(4 * 60_000);
+      expect(granted).toEqual(['user 1', 'user 2', 'background 1', 'background 2']);
+    });
+
+    it('reports queue positions as they change, and 0 when granted', async () => {
+      const scheduler = new RequestScheduler(1);
+      const background = vi.fn();
+      const user = vi.fn();
+      await scheduler.acquire();
+
+      scheduler.acquire({ priority: 'background', onQueuePosition: background });
+      expect(background.mock.calls).toEqual([[1]]);
+
+      scheduler.acquire({ priority: 'user', onQueuePosition: user });
+      expect(user.mock.calls).toEqual([[1]]);
+      expect(background.mock.calls).toEqual([[1], [2]]);
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(user.mock.calls).toEqual([[1], [0]]);
+      expect(background.mock.calls).toEqual([[1], [2], [1]]);
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(background.mock.calls).toEqual([[1], [2], [1], [0]]);
+    });
+
+    it('reports 0 straight away when a token is free', async () => {
+      const scheduler = new RequestScheduler(1);
+      const onQueuePosition = vi.fn();
+
+      await scheduler.acquire({ onQueuePosition });
+      expect(onQueuePosition.mock.calls).toEqual([[0]]);
+    });
+
+    it('rejects and leaves the queue when aborted while waiting', async () => {
+      const scheduler = new RequestScheduler(1);
+      const controller = new AbortController();
+      const later = vi.fn();
+      const granted: string[] = [];
+      await scheduler.acquire();
+
+      const aborted = scheduler.acquire({ signal: controller.signal });
+      track(scheduler.acquire({ onQueuePosition: later }), granted, 'later');
+      expect(later.mock.calls).toEqual([[2]]);
+
+      controller.abort();
+      await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+      expect(later.mock.calls).toEqual([[2], [1]]);
+
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(granted).toEqual(['later']);
+    });
+
+    it('rejects at once when the signal is already aborted', async () => {
+      const scheduler = new RequestScheduler(1);
+
+      await expect(scheduler.acquire({ signal: AbortSignal.abort() })).rejects.toMatchObject({
+        name: 'AbortError',
+      });
+      // The token was not used
+      await scheduler.acquire();
+    });
+  });
+
+  describe('share', () => {
+    it('runs identical requests in flight once and gives every caller the result', async () => {
+      const scheduler = new RequestScheduler(10);
+      const run = vi.fn(async () => {
+        await new Promise(resolve => setTimeout(resolve, 100));
+        return 'recipe';
+      });
+
+      const first = scheduler.share('recipe:eggs', run);
+      const second = scheduler.share('recipe:eggs', run);
+      const other = scheduler.share('recipe:rice', run);
+      await vi.advanceTimersByTimeAsync(100);
+
+      await expect(Promise.all([first, second, other])).resolves.toEqual(['recipe', 'recipe', 'recipe']);
+      expect(run).toHaveBeenCalledTimes(2);
+    });
+
+    it('runs again once the previous request has settled', async () => {
+      const scheduler = new RequestScheduler(10);
+      const run = vi.fn(async () => 'recipe');
+
+      await scheduler.share('recipe:eggs', run);
+      await scheduler.share('recipe:eggs', run);
+
+      expect(run).toHaveBeenCalledTimes(2);
+    });
+
+    it('sends events to every caller and replays the last one to late joiners', async () => {
+      const scheduler = new RequestScheduler(10);
+      const firstEvents: string[] = [];
+      const lateEvents: string[] = [];
+      let emit: (event: string) => void = () => {};
+      let finish: (value: string) => void = () => {};
+
+      const first = scheduler.share<string, string>('key', context => {
+        emit = context.emit;
+        return new Promise(resolve => {
+          finish = resolve;
+        });
+      }, { onEvent: event => firstEvents.push(event) });
+
+      emit('draft 1');
+      emit('draft 2');
+      const late = scheduler.share<string, string>('key', async () => 'unused', {
+        onEvent: event => lateEvents.push(event),
+      });
+      emit('draft 3');
+      finish('done');
+
+      await expect(Promise.all([first, late])).resolves.toEqual(['done', 'done']);
+      expect(firstEvents).toEqual(['draft 1', 'draft 2', 'draft 3']);
+      expect(lateEvents).toEqual(['draft 2', 'draft 3']);
+    });
+
+    it('passes a failure to every caller', async () => {
+      const scheduler = new RequestScheduler(10);
+      const run = async () => {
+        throw new Error('AI service is busy');
+      };
+
+      const first = scheduler.share('key', run);
+      const second = scheduler.share('key', run);
+
+      await expect(first).rejects.toThrow('AI service is busy');
+      await expect(second).rejects.toThrow('AI service is busy');
+    });
+
+    it('rejects at once when the signal is already aborted', async () => {
+      const scheduler = new RequestScheduler(10);
+      const run = vi.fn(async () => 'recipe');
+
+      await expect(scheduler.share('key', run, { signal: AbortSignal.abort() })).rejects.toMatchObject({
+        name: 'AbortError',
+      });
+      expect(run).not.toHaveBeenCalled();
+    });
+
+    it('keeps the shared run going until every caller has aborted', async () => {
+      const scheduler = new RequestScheduler(10);
+      const first = new AbortController();
+      const second = new AbortController();
+      let runSignal: AbortSignal | undefined;
+      const run = vi.fn(({ signal }: { signal: AbortSignal }) => {
+        runSignal = signal;
+        return new Promise<string>(() => {});
+      });
+
+      const firstResult = scheduler.share('key', run, { signal: first.signal });
+      const secondResult = scheduler.share('key', run, { signal: second.signal });
+
+      first.abort();
+      await expect(firstResult).rejects.toMatchObject({ name: 'AbortError' });
+      expect(runSignal?.aborted).toBe(false);
+
+      second.abort();
+      await expect(secondResult).rejects.toMatchObject({ name: 'AbortError' });
+      expect(runSignal?.aborted).toBe(true);
+
+      // Nobody was waiting any more, so the next identical request starts afresh
+      scheduler.share('key', run);
+      expect(run).toHaveBeenCalledTimes(2);
+    });
+
+    it('aborts a shared run that is still waiting for a token', async () => {
+      const scheduler = new RequestScheduler(1);
+      const controller = new AbortController();
+      await scheduler.acquire();
+
+      const result = scheduler.share(
+        'key',
+        async ({ signal }) => {
+          await scheduler.acquire({ signal });
+          return 'recipe';
+        },
+        { signal: controller.signal }
+      );
+      controller.abort();
+
+      await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+      // The aborted waiter gave up its place, so the next caller gets the token
+      const granted: string[] = [];
+      track(scheduler.acquire(), granted, 'next');
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(granted).toEqual(['next']);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+// A user's click is served before work the app started on its own
+export type RequestPriority = 'user' | 'background';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { user: 0, background: 1 };
+
+export interface AcquireOptions {
+  priority?: RequestPriority;
+  signal?: AbortSignal;
+  // Called with 1 for the next request in line, and 0 once a token is granted
+  onQueuePosition?: (position: number) => void;
+}
+
+export interface SharedRequestContext<E> {
+  // Aborted once every caller sharing the request has aborted
+  signal: AbortSignal;
+  // Delivered to every caller, and replayed to callers that join later
+  emit: (event: E) => void;
+}
+
+export interface SharedRequestSubscriber<E> {
+  signal?: AbortSignal;
+  onEvent?: (event: E) => void;
+}
+
+interface Waiter {
+  rank: number;
+  sequence: number;
+  position: number;
+  grant: () => void;
+  onQueuePosition?: (position: number) => void;
+}
+
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: Set<SharedRequestSubscriber<unknown>>;
+  lastEvent?: { event: unknown };
+}
+
+// Token bucket in front of the AI provider: every API call takes a token,
+// tokens refill evenly over the minute, and calls that find the bucket empty
+// wait in priority order. Identical requests in flight are shared.
+export class RequestScheduler {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private waiters: Waiter[] = [];
+  private sequence = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight = new Map<string, SharedRequest>();
+
+  constructor(requestsPerMinute: number) {
+    this.capacity = requestsPerMinute;
+    this.refillPerMs = requestsPerMinute / 60_000;
+    this.tokens = requestsPerMinute;
+  }
+
+  // Resolves once a token is available; rejects with the signal's AbortError
+  // if the caller gives up first
+  acquire({ priority = 'user', signal, onQueuePosition }: AcquireOptions = {}): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        this.waiters = this.waiters.filter(other => other !== waiter);
+        reject(signal?.reason);
+        this.drain();
+      };
+      const waiter: Waiter = {
+        rank: PRIORITY_RANK[priority],
+        sequence: this.sequence++,
+        position: 0,
+        onQueuePosition,
+        grant: () => {
+          signal?.removeEventListener('abort', onAbort);
+          onQueuePosition?.(0);
+          resolve();
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.waiters.push(waiter);
+      this.waiters.sort((a, b) => a.rank - b.rank || a.sequence - b.sequence);
+      this.drain();
+    });
+  }
+
+  // Runs `run` once per key while it is in flight; later callers with the same
+  // key wait for the same result. The first caller's options apply to the run.
+  share<T, E>(
+    key: string,
+    run: (context: SharedRequestContext<E>) => Promise<T>,
+    subscriber: SharedRequestSubscriber<E> = {}
+  ): Promise<T> {
+    if (subscriber.signal?.aborted) return Promise.reject(subscriber.signal.reason);
+
+    let request = this.inFlight.get(key);
+    if (request) {
+      if (request.lastEvent) subscriber.onEvent?.(request.lastEvent.event as E);
+    } else {
+      const created: SharedRequest = {
+        controller: new AbortController(),
+        subscribers: new Set(),
+        promise: Promise.resolve(),
+      };
+      const emit = (event: E) => {
+        created.lastEvent = { event };
+        created.subscribers.forEach(other => other.onEvent?.(event));
+      };
+      // Subscribed before the run starts so no early event is missed
+      created.subscribers.add(subscriber as SharedRequestSubscriber<unknown>);
+      created.promise = run({ signal: created.controller.signal, emit }).finally(() => {
+        if (this.inFlight.get(key) === created) this.inFlight.delete(key);
+      });
+      this.inFlight.set(key, created);
+      request = created;
+    }
+
+    const shared = request;
+    shared.subscribers.add(subscriber as SharedRequestSubscriber<unknown>);
+
+    return new Promise<T>((resolve, reject) => {
+      const leave = () => {
+        subscriber.signal?.removeEventListener('abort', onAbort);
+        shared.subscribers.delete(subscriber as SharedRequestSubscriber<unknown>);
+      };
+      const onAbort = () => {
+        leave();
+        // Nobody is waiting any more; a new identical request starts afresh
+        if (shared.subscribers.size === 0) {
+          if (this.inFlight.get(key) === shared) this.inFlight.delete(key);
+          shared.controller.abort();
+        }
+        reject(subscriber.signal?.reason);
+      };
+      subscriber.signal?.addEventListener('abort', onAbort, { once: true });
+
+      shared.promise.then(
+        value => {
+          leave();
+          resolve(value as T);
+        },
+        error => {
+          leave();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  private drain() {
+    this.refill();
+    while (this.waiters.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.waiters.shift()?.grant();
+    }
+
+    this.waiters.forEach((waiter, index) => {
+      if (waiter.position !== index + 1) {
+        waiter.position = index + 1;
+        waiter.onQueuePosition?.(waiter.position);
+      }
+    });
+
+    if (this.waiters.length > 0 && !this.timer) {
+      const wait = Math.ceil((1 - this.tokens) / this.refillPerMs);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, wait);
+    }
+  }
+}
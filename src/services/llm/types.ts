@@ -0,0 +1,41 @@
+export type LLMProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface LLMConfig {
+  provider: LLMProviderId;
+  // Defaults to each provider's own model when unset
+  model?: string;
+  apiKey?: string;
+  // OpenAI-compatible endpoints only, e.g. http://localhost:11434/v1 for Ollama
+  baseUrl?: string;
+  // Client-side cap on API calls, enforced by the RequestScheduler
+  requestsPerMinute: number;
+}
+
+export interface ImageAnalysisRequest {
+  prompt: string;
+  image: {
+    mimeType: string;
+    // Base64 without the data URL prefix
+    data: string;
+  };
+}
+
+export interface RecipeRequest {
+  prompt: string;
+  ingredients: string[];
+  dishName: string | null;
+}
+
+// Providers only talk to a model; prompting, validation and retries stay in
+// services/ai.ts so every backend is held to the same schemas
+export interface LLMProvider {
+  id: LLMProviderId;
+  model: string;
+  // Null when the provider can be used, otherwise what is missing
+  configurationError: string | null;
+  // The model's raw JSON text, shaped like IMAGE_ANALYSIS_SCHEMA
+  analyzeImage(request: ImageAnalysisRequest): Promise<string>;
+  // Chunks of the model's raw JSON text, shaped like RECIPE_SCHEMA once joined.
+  // Aborting the signal ends the stream with an AbortError.
+  streamRecipe(request: RecipeRequest, signal?: AbortSignal): AsyncIterable<string>;
+}
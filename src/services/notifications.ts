@@ -0,0 +1,123 @@
+import { supabase } from '../lib/supabase';
+import type { Database, NotificationType } from '../types/database';
+
+export type Notification = Database['public']['Tables']['notifications']['Row'];
+export type NotificationSettings = Database['public']['Tables']['notification_settings']['Row'];
+
+export type NotificationSettingsInput = Pick<
+  NotificationSettings,
+  'notify_nearby_listings' | 'latitude' | 'longitude' | 'nearby_radius_km' | 'dietary_preferences'
+>;
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  listing_nearby: 'Food nearby',
+  claim_created: 'New claim',
+  claim_cancelled: 'Claim cancelled',
+  pickup_closing_soon: 'Pickup reminder',
+};
+
+export const NEARBY_RADIUS_OPTIONS_KM = [1, 2, 5, 10, 25];
+
+export async function getNotifications(userId: string, limit = 30): Promise<Notification[]> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching notifications:', error);
+    return [];
+  }
+  return data as Notification[];
+}
+
+export async function getUnreadNotificationCount(userId: string) {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (error) {
+    console.error('Error counting unread notifications:', error);
+    return 0;
+  }
+  return count || 0;
+}
+
+// Leave out the ids to mark everything read
+export async function markNotificationsRead(notificationIds?: string[]) {
+  const { error } = await supabase.rpc('mark_notifications_read', {
+    notification_ids: notificationIds ?? null,
+  });
+
+  if (error) {
+    console.error('Error marking notifications read:', error);
+    throw new Error('Failed to mark notifications as read');
+  }
+}
+
+export async function deleteNotification(notificationId: string) {
+  const { error } = await supabase
+    .from('notifications')
+    .delete()
+    .eq('id', notificationId);
+
+  if (error) {
+    console.error('Error deleting notification:', error);
+    throw new Error('Failed to delete notification');
+  }
+}
+
+// Calls onInsert for each notification the database creates for the user
+export function subscribeToNotifications(userId: string, onInsert: (notification: Notification) => void) {
+  const channel = supabase
+    .channel(`notifications:${userId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+      (payload: { new: Notification }) => onInsert(payload.new)
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+export async function getNotificationSettings(userId: string): Promise<NotificationSettings | null> {
+  const { data, error } = await supabase
+    .from('notification_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching notification settings:', error);
+    return null;
+  }
+  return data as NotificationSettings | null;
+}
+
+export async function saveNotificationSettings(
+  userId: string,
+  settings: NotificationSettingsInput
+): Promise<NotificationSettings> {
+  if (settings.notify_nearby_listings && (settings.latitude === null || settings.longitude === null)) {
+    throw new Error('Share your location to get alerts about food nearby');
+  }
+
+  const { data, error } = await supabase
+    .from('notification_settings')
+    .upsert({ ...settings, user_id: userId, updated_at: new Date().toISOString() })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving notification settings:', error);
+    throw new Error('Failed to save notification settings');
+  }
+  return data as NotificationSettings;
+}
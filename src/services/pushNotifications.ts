@@ -0,0 +1,97 @@
+import { supabase } from '../lib/supabase';
+import type { SavePushSubscriptionError } from '../types/database';
+
+export type PushError = SavePushSubscriptionError | 'unsupported' | 'not_configured' | 'permission_denied';
+
+const PUSH_ERROR_MESSAGES: Record<PushError, string> = {
+  unsupported: 'This browser does not support push notifications',
+  not_configured: 'Push notifications are not configured for this site',
+  permission_denied: 'Allow notifications for this site in your browser settings to get push alerts',
+  not_authenticated: 'Sign in to turn on push alerts',
+  invalid_endpoint: 'This browser returned an invalid push subscription',
+  forbidden: 'This browser is subscribed for another account. Turn push alerts off there first.',
+};
+
+export class PushSubscriptionError extends Error {
+  code: PushError;
+
+  constructor(code: PushError) {
+    super(PUSH_ERROR_MESSAGES[code]);
+    this.name = 'PushSubscriptionError';
+    this.code = code;
+  }
+}
+
+const VAPID_PUBLIC_KEY: string | undefined = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+const SERVICE_WORKER_URL = `${import.meta.env.BASE_URL}sw.js`;
+
+export function isPushSupported() {
+  return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+// VAPID keys are URL-safe base64; PushManager wants the raw bytes
+function urlBase64ToUint8Array(value: string) {
+  const padded = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+}
+
+async function getRegistration() {
+  return (await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL))
+    ?? navigator.serviceWorker.register(SERVICE_WORKER_URL);
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+// Subscribes this browser and stores the subscription for the signed-in user
+export async function enablePushAlerts(): Promise<PushSubscription> {
+  if (!isPushSupported()) throw new PushSubscriptionError('unsupported');
+  if (!VAPID_PUBLIC_KEY) throw new PushSubscriptionError('not_configured');
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') throw new PushSubscriptionError('permission_denied');
+
+  const registration = await getRegistration();
+  await navigator.serviceWorker.ready;
+  const subscription = (await registration.pushManager.getSubscription())
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY),
+    });
+
+  const { keys } = subscription.toJSON();
+  const { data, error } = await supabase.rpc('save_push_subscription', {
+    endpoint: subscription.endpoint,
+    p256dh: keys?.p256dh ?? '',
+    auth: keys?.auth ?? '',
+    user_agent: navigator.userAgent,
+  });
+
+  if (error) {
+    console.error('Error saving push subscription:', error);
+    throw new Error('Failed to save push subscription');
+  }
+  if (!data.ok) {
+    throw new PushSubscriptionError(data.error);
+  }
+  return subscription;
+}
+
+export async function disablePushAlerts() {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('endpoint', subscription.endpoint);
+
+  if (error) {
+    console.error('Error deleting push subscription:', error);
+    throw new Error('Failed to turn off push alerts');
+  }
+  await subscription.unsubscribe();
+}
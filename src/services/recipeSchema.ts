@@ -0,0 +1,257 @@
+import { SchemaType } from '@google/generative-ai';
+import type { NumberSchema, ResponseSchema } from '@google/generative-ai';
+import { parsePartialJson } from '../lib/partialJson';
+import type { NutritionFacts, RecipeDraft, RecipeIngredient, RecipeStep, StructuredRecipe } from '../types';
+
+const nullableNumber = (description: string): NumberSchema => ({
+  type: SchemaType.NUMBER,
+  description,
+  nullable: true,
+});
+
+export const RECIPE_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    name: { type: SchemaType.STRING },
+    description: {
+      type: SchemaType.STRING,
+      description: 'One or two sentences describing the dish',
+      nullable: true,
+    },
+    prep_time_minutes: { type: SchemaType.INTEGER },
+    cook_time_minutes: { type: SchemaType.INTEGER },
+    servings: { type: SchemaType.INTEGER },
+    ingredients: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          name: { type: SchemaType.STRING },
+          quantity: nullableNumber('Amount in the given unit, e.g. 0.5; null for "to taste"'),
+          unit: {
+            type: SchemaType.STRING,
+            description: 'e.g. "g", "ml", "tbsp", "cloves"; null for countable items',
+            nullable: true,
+          },
+          note: {
+            type: SchemaType.STRING,
+            description: 'Preparation such as "finely chopped"',
+            nullable: true,
+          },
+        },
+        required: ['name', 'quantity', 'unit', 'note'],
+      },
+    },
+    steps: {
+      type: SchemaType.ARRAY,
+      description: 'In the order they are carried out',
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          instruction: { type: SchemaType.STRING },
+          duration_minutes: nullableNumber('Active or waiting time for this step'),
+        },
+        required: ['instruction', 'duration_minutes'],
+      },
+    },
+    tips: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+    nutrition: {
+      type: SchemaType.OBJECT,
+      description: 'Estimated per serving',
+      properties: {
+        calories: nullableNumber('kcal'),
+        protein_g: nullableNumber('grams'),
+        carbs_g: nullableNumber('grams'),
+        fat_g: nullableNumber('grams'),
+      },
+      required: ['calories', 'protein_g', 'carbs_g', 'fat_g'],
+    },
+  },
+  required: [
+    'name',
+    'description',
+    'prep_time_minutes',
+    'cook_time_minutes',
+    'servings',
+    'ingredients',
+    'steps',
+    'tips',
+    'nutrition',
+  ],
+};
+
+export class RecipeValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`The AI returned an unexpected recipe (${issues[0]})`);
+    this.name = 'RecipeValidationError';
+    this.issues = issues;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Each reader records what is wrong at `path` and returns a placeholder, so
+// one pass reports every issue for the repair prompt
+function readString(value: unknown, path: string, issues: string[]) {
+  if (typeof value !== 'string' || !value.trim()) {
+    issues.push(`${path} must be a non-empty string`);
+    return '';
+  }
+  return value.trim();
+}
+
+function readOptionalString(value: unknown, path: string, issues: string[]) {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'string') {
+    issues.push(`${path} must be a string or null`);
+    return null;
+  }
+  return value.trim() || null;
+}
+
+function readNumber(value: unknown, path: string, issues: string[], min: number) {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min) {
+    issues.push(`${path} must be a number of at least ${min}`);
+    return min;
+  }
+  return value;
+}
+
+function readOptionalNumber(value: unknown, path: string, issues: string[]) {
+  if (value === null || value === undefined) return null;
+  return readNumber(value, path, issues, 0);
+}
+
+function readArray<T>(
+  value: unknown,
+  path: string,
+  issues: string[],
+  readItem: (item: unknown, itemPath: string) => T
+): T[] {
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array`);
+    return [];
+  }
+  return value.map((item, index) => readItem(item, `${path}[${index}]`));
+}
+
+function readIngredient(value: unknown, path: string, issues: string[]): RecipeIngredient {
+  const item = isObject(value) ? value : {};
+  if (!isObject(value)) issues.push(`${path} must be an object`);
+  return {
+    name: readString(item.name, `${path}.name`, issues),
+    quantity: readOptionalNumber(item.quantity, `${path}.quantity`, issues),
+    unit: readOptionalString(item.unit, `${path}.unit`, issues),
+    note: readOptionalString(item.note, `${path}.note`, issues),
+  };
+}
+
+function readStep(value: unknown, path: string, issues: string[]): RecipeStep {
+  const item = isObject(value) ? value : {};
+  if (!isObject(value)) issues.push(`${path} must be an object`);
+  return {
+    instruction: readString(item.instruction, `${path}.instruction`, issues),
+    durationMinutes: readOptionalNumber(item.duration_minutes, `${path}.duration_minutes`, issues),
+  };
+}
+
+function readNutrition(value: unknown, issues: string[]): NutritionFacts {
+  const item = isObject(value) ? value : {};
+  if (!isObject(value)) issues.push('nutrition must be an object');
+  return {
+    calories: readOptionalNumber(item.calories, 'nutrition.calories', issues),
+    proteinGrams: readOptionalNumber(item.protein_g, 'nutrition.protein_g', issues),
+    carbsGrams: readOptionalNumber(item.carbs_g, 'nutrition.carbs_g', issues),
+    fatGrams: readOptionalNumber(item.fat_g, 'nutrition.fat_g', issues),
+  };
+}
+
+// Checks the model's JSON against RECIPE_SCHEMA, including the ranges the
+// schema itself cannot express, and converts it to a StructuredRecipe
+export function parseRecipe(text: string): StructuredRecipe {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new RecipeValidationError(['response is not valid JSON']);
+  }
+
+  if (!isObject(document)) {
+    throw new RecipeValidationError(['response must be an object']);
+  }
+
+  const issues: string[] = [];
+  const recipe: StructuredRecipe = {
+    name: readString(document.name, 'name', issues),
+    description: readOptionalString(document.description, 'description', issues),
+    prepTimeMinutes: readNumber(document.prep_time_minutes, 'prep_time_minutes', issues, 0),
+    cookTimeMinutes: readNumber(document.cook_time_minutes, 'cook_time_minutes', issues, 0),
+    servings: readNumber(document.servings, 'servings', issues, 1),
+    ingredients: readArray(document.ingredients, 'ingredients', issues, (item, path) =>
+      readIngredient(item, path, issues)
+    ),
+    steps: readArray(document.steps, 'steps', issues, (item, path) => readStep(item, path, issues)),
+    tips: readArray(document.tips, 'tips', issues, (item, path) => readString(item, path, issues)),
+    nutrition: readNutrition(document.nutrition, issues),
+  };
+
+  if (Array.isArray(document.ingredients) && recipe.ingredients.length === 0) {
+    issues.push('ingredients must not be empty');
+  }
+  if (Array.isArray(document.steps) && recipe.steps.length === 0) {
+    issues.push('steps must not be empty');
+  }
+
+  if (issues.length > 0) {
+    throw new RecipeValidationError(issues);
+  }
+  return recipe;
+}
+
+// Runs a reader and keeps its result only if it found nothing wrong
+function readIfValid<T>(read: (issues: string[]) => T): T | undefined {
+  const issues: string[] = [];
+  const value = read(issues);
+  return issues.length === 0 ? value : undefined;
+}
+
+const validItems = <T>(value: unknown, read: (item: unknown, issues: string[]) => T) =>
+  Array.isArray(value)
+    ? value.flatMap(item => {
+        const result = readIfValid(issues => read(item, issues));
+        return result === undefined ? [] : [result];
+      })
+    : undefined;
+
+// Lenient counterpart of parseRecipe for a response that is still streaming:
+// keeps every field and list item that is already usable and never throws
+export function previewRecipe(text: string): RecipeDraft {
+  const document = parsePartialJson(text);
+  if (!isObject(document)) return {};
+
+  const nutrition = isObject(document.nutrition) ? document.nutrition : {};
+  const nutrient = (key: string) =>
+    typeof nutrition[key] === 'number' ? (nutrition[key] as number) : undefined;
+
+  return {
+    name: readIfValid(issues => readString(document.name, 'name', issues)),
+    description: document.description === undefined
+      ? undefined
+      : readIfValid(issues => readOptionalString(document.description, 'description', issues)),
+    prepTimeMinutes: readIfValid(issues => readNumber(document.prep_time_minutes, 'prep_time_minutes', issues, 0)),
+    cookTimeMinutes: readIfValid(issues => readNumber(document.cook_time_minutes, 'cook_time_minutes', issues, 0)),
+    servings: readIfValid(issues => readNumber(document.servings, 'servings', issues, 1)),
+    ingredients: validItems(document.ingredients, (item, issues) => readIngredient(item, 'ingredient', issues)),
+    steps: validItems(document.steps, (item, issues) => readStep(item, 'step', issues)),
+    tips: validItems(document.tips, (item, issues) => readString(item, 'tip', issues)),
+    nutrition: {
+      calories: nutrient('calories'),
+      proteinGrams: nutrient('protein_g'),
+      carbsGrams: nutrient('carbs_g'),
+      fatGrams: nutrient('fat_g'),
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import { supabase } from '../lib/supabase';
+import type {
+  AnalyticsBucket,
+  PickupWindow,
+  RestaurantAnalyticsError,
+  RestaurantAnalyticsPoint,
+  RestaurantAnalyticsSummary,
+} from '../types/database';
+
+export type AnalyticsRange = '7d' | '30d' | '90d' | '12m';
+
+export interface RestaurantAnalytics {
+  summary: RestaurantAnalyticsSummary;
+  series: RestaurantAnalyticsPoint[];
+  pickupWindows: PickupWindow[];
+  bucket: AnalyticsBucket;
+}
+
+// Longer ranges are bucketed more coarsely so the charts stay readable
+export const ANALYTICS_RANGES: Record<AnalyticsRange, { label: string; days: number; bucket: AnalyticsBucket }> = {
+  '7d': { label: 'Last 7 days', days: 7, bucket: 'day' },
+  '30d': { label: 'Last 30 days', days: 30, bucket: 'day' },
+  '90d': { label: 'Last 90 days', days: 90, bucket: 'week' },
+  '12m': { label: 'Last 12 months', days: 365, bucket: 'month' },
+};
+
+const ANALYTICS_ERROR_MESSAGES: Record<RestaurantAnalyticsError, string> = {
+  forbidden: 'Only members of this restaurant can see its analytics',
+  invalid_range: 'Choose a valid date range',
+};
+
+export class AnalyticsError extends Error {
+  code: RestaurantAnalyticsError;
+
+  constructor(code: RestaurantAnalyticsError) {
+    super(ANALYTICS_ERROR_MESSAGES[code]);
+    this.name = 'AnalyticsError';
+    this.code = code;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function getRestaurantAnalytics(
+  restaurantId: string,
+  range: AnalyticsRange
+): Promise<RestaurantAnalytics> {
+  const { days, bucket } = ANALYTICS_RANGES[range];
+  const rangeEnd = new Date();
+
+  const { data, error } = await supabase.rpc('restaurant_analytics', {
+    restaurant_id: restaurantId,
+    range_start: new Date(rangeEnd.getTime() - days * DAY_MS).toISOString(),
+    range_end: rangeEnd.toISOString(),
+    bucket,
+    time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+
+  if (error) {
+    console.error('Error fetching restaurant analytics:', error);
+    throw new Error('Failed to load analytics');
+  }
+
+  if (!data.ok) {
+    throw new AnalyticsError(data.error);
+  }
+
+  return {
+    summary: data.summary,
+    series: data.series,
+    pickupWindows: data.pickup_windows,
+    bucket,
+  };
+}
+
+// Indexed by ISO weekday (1 = Monday)
+const ISO_WEEKDAY_LABELS = ['', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export function formatPickupWindow({ weekday, hour }: PickupWindow) {
+  const pad = (h: number) => `${String(h % 24).padStart(2, '0')}:00`;
+  return `${ISO_WEEKDAY_LABELS[weekday]} ${pad(hour)}–${pad(hour + 1)}`;
+}
+
+// Series buckets are 'YYYY-MM-DD' dates in the caller's time zone
+export function formatAnalyticsBucket(bucket: string, size: AnalyticsBucket) {
+  const date = new Date(`${bucket}T00:00:00`);
+  return size === 'month'
+    ? date.toLocaleDateString(undefined, { month: 'short', year: '2-digit' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+export function formatMinutes(minutes: number | null) {
+  if (minutes === null) return '—';
+  if (minutes < 60) return `${Math.round(minutes)} min`;
+  if (minutes < 24 * 60) return `${(minutes / 60).toFixed(1)} h`;
+  return `${(minutes / (24 * 60)).toFixed(1)} days`;
+}
+
+export function formatRate(rate: number | null) {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
@@ -0,0 +1,215 @@
+import { supabase } from '../lib/supabase';
+import type { Database, RestaurantMemberRole, RestaurantTeamError } from '../types/database';
+
+type Restaurant = Database['public']['Tables']['restaurants']['Row'];
+type RestaurantMember = Database['public']['Tables']['restaurant_members']['Row'];
+type RestaurantInvitation = Database['public']['Tables']['restaurant_invitations']['Row'];
+type UserRow = Database['public']['Tables']['users']['Row'];
+
+export interface MemberRestaurant extends Restaurant {
+  member_role: RestaurantMemberRole;
+}
+
+export interface TeamMember extends RestaurantMember {
+  users: Pick<UserRow, 'username' | 'full_name' | 'avatar_url'> | null;
+}
+
+export interface InvitationWithRestaurant extends RestaurantInvitation {
+  restaurants: Pick<Restaurant, 'id' | 'name' | 'address'>;
+}
+
+export const RESTAURANT_ROLES: RestaurantMemberRole[] = ['owner', 'manager', 'staff'];
+
+export const RESTAURANT_ROLE_LABELS: Record<RestaurantMemberRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  staff: 'Staff',
+};
+
+const TEAM_ERROR_MESSAGES: Record<RestaurantTeamError, string> = {
+  not_found: 'That team member or invitation no longer exists',
+  forbidden: 'Your role does not allow this',
+  user_not_found: 'No account with that username',
+  already_member: 'This person is already on the team',
+  already_invited: 'This person already has a pending invitation',
+  invitation_expired: 'This invitation has expired. Ask the restaurant to send a new one.',
+  email_not_verified: 'Please verify your email address before accepting this invitation',
+  last_owner: 'A restaurant needs at least one owner. Make someone else an owner first.',
+};
+
+export class TeamManagementError extends Error {
+  code: RestaurantTeamError;
+
+  constructor(code: RestaurantTeamError) {
+    super(TEAM_ERROR_MESSAGES[code]);
+    this.name = 'TeamManagementError';
+    this.code = code;
+  }
+}
+
+// Mirrors the role checks in the team RPCs so the UI only offers allowed actions
+export function getInvitableRoles(actorRole: RestaurantMemberRole): RestaurantMemberRole[] {
+  if (actorRole === 'owner') return RESTAURANT_ROLES;
+  if (actorRole === 'manager') return ['staff'];
+  return [];
+}
+
+export function canChangeMemberRoles(actorRole: RestaurantMemberRole) {
+  return actorRole === 'owner';
+}
+
+export function canRemoveMember(actorRole: RestaurantMemberRole, target: RestaurantMember, actorId: string) {
+  return (
+    target.user_id === actorId ||
+    actorRole === 'owner' ||
+    (actorRole === 'manager' && target.role === 'staff')
+  );
+}
+
+export async function getMemberRestaurants(userId: string): Promise<MemberRestaurant[]> {
+  const { data, error } = await supabase
+    .from('restaurant_members')
+    .select('role, restaurants(*)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map((row: { role: RestaurantMemberRole; restaurants: Restaurant }) => ({
+    ...row.restaurants,
+    member_role: row.role,
+  }));
+}
+
+export async function getRestaurantTeam(restaurantId: string): Promise<TeamMember[]> {
+  const { data, error } = await supabase
+    .from('restaurant_members')
+    .select('*, users!restaurant_members_user_id_fkey(username, full_name, avatar_url)')
+    .eq('restaurant_id', restaurantId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching restaurant team:', error);
+    return [];
+  }
+  return data as TeamMember[];
+}
+
+export async function getRestaurantInvitations(restaurantId: string): Promise<RestaurantInvitation[]> {
+  const { data, error } = await supabase
+    .from('restaurant_invitations')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching restaurant invitations:', error);
+    return [];
+  }
+  return data as RestaurantInvitation[];
+}
+
+// Owners and managers can also read their restaurants' outgoing invitations,
+// so filter down to the ones addressed to this user
+export async function getMyRestaurantInvitations(userId: string, email: string): Promise<InvitationWithRestaurant[]> {
+  const { data, error } = await supabase
+    .from('restaurant_invitations')
+    .select('*, restaurants(id, name, address)')
+    .or(`user_id.eq.${userId},email.eq.${email.toLowerCase()}`)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching invitations:', error);
+    return [];
+  }
+  return data as InvitationWithRestaurant[];
+}
+
+type TeamResult<T> = ({ ok: true } & T) | { ok: false; error: RestaurantTeamError };
+
+function unwrapTeamResult<T>(data: TeamResult<T>) {
+  if (!data.ok) {
+    throw new TeamManagementError(data.error);
+  }
+  return data;
+}
+
+export async function inviteRestaurantMember(
+  restaurantId: string,
+  invitee: string,
+  role: RestaurantMemberRole = 'staff'
+) {
+  const { data, error } = await supabase.rpc('invite_restaurant_member', {
+    restaurant_id: restaurantId,
+    invitee: invitee.trim(),
+    role,
+  });
+
+  if (error) {
+    console.error('Error inviting team member:', error);
+    throw new Error('Failed to send invitation');
+  }
+
+  return unwrapTeamResult<{ invitation: RestaurantInvitation }>(data).invitation;
+}
+
+export async function acceptRestaurantInvitation(invitationId: string) {
+  const { data, error } = await supabase.rpc('accept_restaurant_invitation', {
+    invitation_id: invitationId,
+  });
+
+  if (error) {
+    console.error('Error accepting invitation:', error);
+    throw new Error('Failed to accept invitation');
+  }
+
+  return unwrapTeamResult<{ member: RestaurantMember }>(data).member;
+}
+
+// Declines an invitation addressed to the caller, or revokes one the caller's restaurant sent
+export async function cancelRestaurantInvitation(invitationId: string) {
+  const { data, error } = await supabase.rpc('cancel_restaurant_invitation', {
+    invitation_id: invitationId,
+  });
+
+  if (error) {
+    console.error('Error cancelling invitation:', error);
+    throw new Error('Failed to cancel invitation');
+  }
+
+  unwrapTeamResult<object>(data);
+}
+
+export async function updateRestaurantMemberRole(
+  restaurantId: string,
+  userId: string,
+  role: RestaurantMemberRole
+) {
+  const { data, error } = await supabase.rpc('update_restaurant_member_role', {
+    restaurant_id: restaurantId,
+    user_id: userId,
+    role,
+  });
+
+  if (error) {
+    console.error('Error updating team member role:', error);
+    throw new Error('Failed to update role');
+  }
+
+  return unwrapTeamResult<{ member: RestaurantMember }>(data).member;
+}
+
+export async function removeRestaurantMember(restaurantId: string, userId: string) {
+  const { data, error } = await supabase.rpc('remove_restaurant_member', {
+    restaurant_id: restaurantId,
+    user_id: userId,
+  });
+
+  if (error) {
+    console.error('Error removing team member:', error);
+    throw new Error('Failed to remove team member');
+  }
+
+  unwrapTeamResult<object>(data);
+}
@@ -0,0 +1,213 @@
+import { supabase } from '../lib/supabase';
+import type { Database, RestaurantReviewError, RestaurantVerificationStatus } from '../types/database';
+
+type Restaurant = Database['public']['Tables']['restaurants']['Row'];
+type RestaurantDocument = Database['public']['Tables']['restaurant_documents']['Row'];
+type AuditLogEntry = Database['public']['Tables']['audit_log']['Row'];
+type UserRow = Database['public']['Tables']['users']['Row'];
+
+export interface RestaurantForReview extends Restaurant {
+  restaurant_documents: RestaurantDocument[];
+  users: Pick<UserRow, 'username' | 'full_name'> | null;
+}
+
+export interface AuditLogEntryWithActor extends AuditLogEntry {
+  users: Pick<UserRow, 'username' | 'full_name'> | null;
+}
+
+const DOCUMENTS_BUCKET = 'restaurant-documents';
+
+// Signed document links expire quickly; reviewers open them straight from the queue
+const DOCUMENT_URL_TTL_SECONDS = 10 * 60;
+
+export const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  business_license: 'Business licence',
+  food_hygiene: 'Food hygiene certificate',
+  tax_registration: 'Tax registration',
+  other: 'Other',
+};
+
+export const VERIFICATION_STATUS_LABELS: Record<RestaurantVerificationStatus, string> = {
+  pending: 'Pending verification',
+  approved: 'Verified',
+  rejected: 'Rejected',
+};
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  'restaurant.approved': 'Approved restaurant',
+  'restaurant.rejected': 'Rejected restaurant',
+  'restaurant.resubmitted': 'Resubmitted restaurant for review',
+};
+
+const REVIEW_ERROR_MESSAGES: Record<RestaurantReviewError, string> = {
+  not_found: 'That restaurant no longer exists',
+  forbidden: 'You are not allowed to do this',
+  invalid_decision: 'Choose to approve or reject the restaurant',
+  reason_required: 'Give a reason so the restaurant knows what to fix',
+  already_reviewed: 'This restaurant is not waiting for review',
+};
+
+export class VerificationReviewError extends Error {
+  code: RestaurantReviewError;
+
+  constructor(code: RestaurantReviewError) {
+    super(REVIEW_ERROR_MESSAGES[code]);
+    this.name = 'VerificationReviewError';
+    this.code = code;
+  }
+}
+
+export async function getVerificationQueue(): Promise<RestaurantForReview[]> {
+  const { data, error } = await supabase
+    .from('restaurants')
+    .select('*, restaurant_documents(*), users!restaurants_restaurant_admin_id_fkey(username, full_name)')
+    .eq('verification_status', 'pending')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching verification queue:', error);
+    return [];
+  }
+  return data as RestaurantForReview[];
+}
+
+export async function getRestaurantDocuments(restaurantId: string): Promise<RestaurantDocument[]> {
+  const { data, error } = await supabase
+    .from('restaurant_documents')
+    .select('*')
+    .eq('restaurant_id', restaurantId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching restaurant documents:', error);
+    return [];
+  }
+  return data as RestaurantDocument[];
+}
+
+export async function uploadRestaurantDocument(
+  restaurantId: string,
+  userId: string,
+  file: File,
+  documentType = 'other'
+): Promise<RestaurantDocument> {
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const filePath = `${restaurantId}/${crypto.randomUUID()}-${safeName}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .upload(filePath, file, { contentType: file.type || undefined });
+
+  if (uploadError) {
+    console.error('Error uploading document:', uploadError);
+    throw new Error('Failed to upload document');
+  }
+
+  const { data, error } = await supabase
+    .from('restaurant_documents')
+    .insert({
+      restaurant_id: restaurantId,
+      file_path: filePath,
+      file_name: file.name,
+      document_type: documentType,
+      uploaded_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving document:', error);
+    await supabase.storage.from(DOCUMENTS_BUCKET).remove([filePath]);
+    throw new Error('Failed to upload document');
+  }
+
+  return data as RestaurantDocument;
+}
+
+export async function deleteRestaurantDocument(document: RestaurantDocument) {
+  const { error } = await supabase
+    .from('restaurant_documents')
+    .delete()
+    .eq('id', document.id);
+
+  if (error) {
+    console.error('Error deleting document:', error);
+    throw new Error('Failed to delete document');
+  }
+
+  const { error: storageError } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .remove([document.file_path]);
+
+  if (storageError) {
+    console.error('Error deleting document file:', storageError);
+  }
+}
+
+export async function getDocumentUrl(filePath: string): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .createSignedUrl(filePath, DOCUMENT_URL_TTL_SECONDS);
+
+  if (error || !data?.signedUrl) {
+    console.error('Error creating document link:', error);
+    throw new Error('Failed to open document');
+  }
+  return data.signedUrl;
+}
+
+type ReviewResult = { ok: true; restaurant: Restaurant } | { ok: false; error: RestaurantReviewError };
+
+function unwrapReviewResult(data: ReviewResult) {
+  if (!data.ok) {
+    throw new VerificationReviewError(data.error);
+  }
+  return data.restaurant;
+}
+
+export async function reviewRestaurant(
+  restaurantId: string,
+  decision: Exclude<RestaurantVerificationStatus, 'pending'>,
+  reason?: string
+) {
+  const { data, error } = await supabase.rpc('review_restaurant', {
+    restaurant_id: restaurantId,
+    decision,
+    reason: reason?.trim() || null,
+  });
+
+  if (error) {
+    console.error('Error reviewing restaurant:', error);
+    throw new Error('Failed to save review');
+  }
+
+  return unwrapReviewResult(data);
+}
+
+// Puts a rejected restaurant back in the queue once its documents are fixed
+export async function requestRestaurantReview(restaurantId: string) {
+  const { data, error } = await supabase.rpc('request_restaurant_review', {
+    restaurant_id: restaurantId,
+  });
+
+  if (error) {
+    console.error('Error requesting review:', error);
+    throw new Error('Failed to request review');
+  }
+
+  return unwrapReviewResult(data);
+}
+
+export async function getAuditLog(limit = 50): Promise<AuditLogEntryWithActor[]> {
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select('*, users(username, full_name)')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching audit log:', error);
+    return [];
+  }
+  return data as AuditLogEntryWithActor[];
+}
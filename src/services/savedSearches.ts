@@ -0,0 +1,150 @@
+import { supabase } from '../lib/supabase';
+import type { AlertChannel, Database, PickupTimeWindow } from '../types/database';
+import type { QueriedFoodListing } from './foodSharing';
+
+export type SavedSearch = Database['public']['Tables']['saved_searches']['Row'];
+
+export type SavedSearchInput = Pick<
+  SavedSearch,
+  | 'name'
+  | 'keywords'
+  | 'dietary_tags'
+  | 'latitude'
+  | 'longitude'
+  | 'radius_km'
+  | 'pickup_windows'
+  | 'channels'
+  | 'alerts_enabled'
+  | 'quiet_hours_start'
+  | 'quiet_hours_end'
+>;
+
+export const ALERT_CHANNEL_LABELS: Record<AlertChannel, string> = {
+  in_app: 'In-app',
+  push: 'Push',
+  email_digest: 'Daily email digest',
+};
+
+export const ALERT_CHANNELS = Object.keys(ALERT_CHANNEL_LABELS) as AlertChannel[];
+
+// Same choices as the dashboard's distance filter, so applying a search can select it
+export const SAVED_SEARCH_RADII_KM = [5, 10, 25, 50];
+
+// Postgres returns time columns as HH:MM:SS
+export function formatTimeOfDay(time: string) {
+  return time.slice(0, 5);
+}
+
+export function validateSavedSearch(input: SavedSearchInput): string | null {
+  if (!input.name.trim()) return 'Give the search a name';
+  if (input.pickup_windows.some(timeWindow => timeWindow.start >= timeWindow.end)) {
+    return 'Pickup windows must end after they start';
+  }
+  if (!input.quiet_hours_start !== !input.quiet_hours_end) {
+    return 'Set both the start and the end of quiet hours';
+  }
+  return null;
+}
+
+export async function getSavedSearches(userId: string): Promise<SavedSearch[]> {
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching saved searches:', error);
+    return [];
+  }
+  return data as SavedSearch[];
+}
+
+function toRow(input: SavedSearchInput) {
+  return {
+    ...input,
+    name: input.name.trim(),
+    keywords: input.keywords?.trim() || null,
+    // Windows and quiet hours are read in the browser's time zone
+    time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  };
+}
+
+function saveError(error: { code?: string }, input: SavedSearchInput) {
+  if (error.code === '23505') {
+    return new Error(`You already have a saved search called "${input.name.trim()}"`);
+  }
+  console.error('Error saving search:', error);
+  return new Error('Failed to save search');
+}
+
+export async function createSavedSearch(userId: string, input: SavedSearchInput): Promise<SavedSearch> {
+  const validationError = validateSavedSearch(input);
+  if (validationError) throw new Error(validationError);
+
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .insert({ ...toRow(input), user_id: userId })
+    .select()
+    .single();
+
+  if (error) throw saveError(error, input);
+  return data as SavedSearch;
+}
+
+export async function updateSavedSearch(searchId: string, input: SavedSearchInput): Promise<SavedSearch> {
+  const validationError = validateSavedSearch(input);
+  if (validationError) throw new Error(validationError);
+
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .update(toRow(input))
+    .eq('id', searchId)
+    .select()
+    .single();
+
+  if (error) throw saveError(error, input);
+  return data as SavedSearch;
+}
+
+export async function deleteSavedSearch(searchId: string) {
+  const { error } = await supabase
+    .from('saved_searches')
+    .delete()
+    .eq('id', searchId);
+
+  if (error) {
+    console.error('Error deleting saved search:', error);
+    throw new Error('Failed to delete saved search');
+  }
+}
+
+const minutesOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Browser-side counterpart of pickup_in_time_windows(): does the pickup
+// window overlap one of the time-of-day windows on any local day it spans?
+export function matchesPickupWindows(
+  listing: Pick<QueriedFoodListing, 'pickup_start_time' | 'pickup_end_time'>,
+  windows: PickupTimeWindow[]
+) {
+  if (windows.length === 0) return true;
+
+  const pickupStart = new Date(listing.pickup_start_time);
+  const pickupEnd = new Date(listing.pickup_end_time);
+  const day = new Date(pickupStart);
+  day.setHours(0, 0, 0, 0);
+
+  for (; day <= pickupEnd; day.setDate(day.getDate() + 1)) {
+    for (const timeWindow of windows) {
+      const windowStart = new Date(day);
+      windowStart.setHours(0, minutesOfDay(timeWindow.start));
+      const windowEnd = new Date(day);
+      windowEnd.setHours(0, minutesOfDay(timeWindow.end));
+      if (windowStart < pickupEnd && windowEnd > pickupStart) return true;
+    }
+  }
+  return false;
+}
@@ -1,8 +1,70 @@
+export type IngredientFreshness = 'fresh' | 'use_soon' | 'spoiling' | 'unknown';
+
+// Fractions of the image's width and height, measured from the top left
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectedIngredient {
+  name: string;
+  // Free-form estimate such as "2 pieces" or "about 200 g"
+  quantity: string | null;
+  freshness: IngredientFreshness;
+  freshnessNote: string | null;
+  boundingBox: BoundingBox | null;
+  // The model's own confidence, 0–1
+  confidence: number;
+}
+
+export interface RecipeIngredient {
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+  // Preparation or substitution, e.g. "finely chopped"
+  note: string | null;
+}
+
+export interface RecipeStep {
+  instruction: string;
+  durationMinutes: number | null;
+}
+
+// Per serving; null where the model could not estimate a value
+export interface NutritionFacts {
+  calories: number | null;
+  proteinGrams: number | null;
+  carbsGrams: number | null;
+  fatGrams: number | null;
+}
+
+export interface StructuredRecipe {
+  name: string;
+  description: string | null;
+  prepTimeMinutes: number;
+  cookTimeMinutes: number;
+  servings: number;
+  ingredients: RecipeIngredient[];
+  steps: RecipeStep[];
+  tips: string[];
+  nutrition: NutritionFacts;
+}
+
+// A recipe still being streamed; fields appear as the model writes them
+export type RecipeDraft = Partial<Omit<StructuredRecipe, 'nutrition'>> & {
+  nutrition?: Partial<NutritionFacts>;
+};
+
 export interface AIAnalysisResult {
+  // Names of detectedIngredients, which the recipe generator works from
   ingredients: string[];
+  detectedIngredients: DetectedIngredient[];
+  // Mean of the per-ingredient confidences
   confidence: number;
   suggestions: string[];
-  generatedRecipe?: string;
+  generatedRecipe?: StructuredRecipe;
   error?: string;
 }
 
@@ -24,5 +86,4 @@ export interface FoodWasteData {
   id: string;
   date: Date;
   savedIngredients: string[];
-  wasteReduction: number;
 }
\ No newline at end of file
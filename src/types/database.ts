@@ -6,6 +6,152 @@ export type Json =
   | { [key: string]: Json | undefined }
   | Json[]
 
+export type ClaimFoodListingError =
+  | 'not_found'
+  | 'already_claimed'
+  | 'expired'
+  | 'insufficient_quantity'
+  | 'rate_limited'
+  | 'email_not_verified'
+
+export type ClaimStatus =
+  | 'reserved'
+  | 'confirmed_by_restaurant'
+  | 'picked_up'
+  | 'cancelled_by_user'
+  | 'cancelled_by_restaurant'
+  | 'no_show'
+  | 'expired'
+
+export type TransitionClaimError = 'not_found' | 'forbidden' | 'invalid_transition'
+
+export type DeleteAccountError = 'owns_restaurants'
+
+export type RestaurantMemberRole = 'owner' | 'manager' | 'staff'
+
+export type RestaurantTeamError =
+  | 'not_found'
+  | 'forbidden'
+  | 'user_not_found'
+  | 'already_member'
+  | 'already_invited'
+  | 'invitation_expired'
+  | 'email_not_verified'
+  | 'last_owner'
+
+export type RestaurantVerificationStatus = 'pending' | 'approved' | 'rejected'
+
+export type RestaurantReviewError =
+  | 'not_found'
+  | 'forbidden'
+  | 'invalid_decision'
+  | 'reason_required'
+  | 'already_reviewed'
+
+export type FoodCategory =
+  | 'prepared_meal'
+  | 'bakery'
+  | 'produce'
+  | 'dairy_eggs'
+  | 'meat'
+  | 'fish'
+  | 'other'
+
+export type ImpactScope = 'global' | 'user' | 'restaurant'
+
+export type ImpactTotalsError = 'forbidden' | 'invalid_scope'
+
+export interface ImpactTotals {
+  pickups: number
+  portions: number
+  kg: number
+  co2e_kg: number
+  water_l: number
+}
+
+export type NotificationType =
+  | 'listing_nearby'
+  | 'claim_created'
+  | 'claim_cancelled'
+  | 'pickup_closing_soon'
+
+export type AlertChannel = 'in_app' | 'push' | 'email_digest'
+
+// Local time of day, "HH:MM"
+export interface PickupTimeWindow {
+  start: string
+  end: string
+}
+
+export interface EmailDigest {
+  user_id: string
+  email: string
+  full_name: string | null
+  saved_search_ids: string[]
+  claimed_at: string
+  searches: {
+    name: string
+    time_zone: string
+    listings: {
+      id: string
+      food_item: string
+      quantity: string
+      restaurant: string
+      pickup_start_time: string
+      pickup_end_time: string
+    }[]
+  }[]
+}
+
+export type SavePushSubscriptionError = 'not_authenticated' | 'invalid_endpoint' | 'forbidden'
+
+export type AnalyticsBucket = 'day' | 'week' | 'month'
+
+export type RestaurantAnalyticsError = 'forbidden' | 'invalid_range'
+
+export interface RestaurantAnalyticsSummary {
+  listings: number
+  portions_listed: number
+  portions_claimed: number
+  claim_rate: number | null
+  avg_minutes_to_claim: number | null
+  claims: number
+  pickups: number
+  no_shows: number
+  no_show_rate: number | null
+  kg_saved: number
+  co2e_kg_saved: number
+}
+
+export interface RestaurantAnalyticsPoint {
+  bucket: string
+  listings: number
+  portions_listed: number
+  portions_claimed: number
+  pickups: number
+  no_shows: number
+  kg_saved: number
+  co2e_kg_saved: number
+}
+
+export interface PickupWindow {
+  weekday: number
+  hour: number
+  pickups: number
+}
+
+export interface NearbyListingsCursor {
+  distance_km: number
+  id: string
+}
+
+export type FoodListingSort = 'newest' | 'ending_soon' | 'distance'
+
+export interface FoodListingCursor {
+  sort_key: number
+  id: string
+}
+
 export interface Database {
   public: {
     Tables: {
@@ -13,7 +159,7 @@ export interface Database {
         Row: {
           id: string
           username: string
-          role: 'user' | 'restaurant_admin'
+          role: 'user' | 'restaurant_admin' | 'platform_admin'
           full_name: string | null
           avatar_url: string | null
           phone: string | null
@@ -23,7 +169,7 @@ export interface Database {
         Insert: {
           id: string
           username: string
-          role?: 'user' | 'restaurant_admin'
+          role?: 'user' | 'restaurant_admin' | 'platform_admin'
           full_name?: string | null
           avatar_url?: string | null
           phone?: string | null
@@ -33,7 +179,7 @@ export interface Database {
         Update: {
           id?: string
           username?: string
-          role?: 'user' | 'restaurant_admin'
+          role?: 'user' | 'restaurant_admin' | 'platform_admin'
           full_name?: string | null
           avatar_url?: string | null
           phone?: string | null
@@ -51,8 +197,13 @@ export interface Database {
           contact_phone: string | null
           contact_email: string | null
           description: string | null
-          restaurant_admin_id: string
+          restaurant_admin_id: string | null
           is_verified: boolean
+          verification_status: RestaurantVerificationStatus
+          rejection_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          location: unknown
           created_at: string
           updated_at: string
         }
@@ -65,8 +216,12 @@ export interface Database {
           contact_phone?: string | null
           contact_email?: string | null
           description?: string | null
-          restaurant_admin_id: string
+          restaurant_admin_id?: string | null
           is_verified?: boolean
+          verification_status?: RestaurantVerificationStatus
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -79,8 +234,12 @@ export interface Database {
           contact_phone?: string | null
           contact_email?: string | null
           description?: string | null
-          restaurant_admin_id?: string
+          restaurant_admin_id?: string | null
           is_verified?: boolean
+          verification_status?: RestaurantVerificationStatus
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -91,7 +250,9 @@ export interface Database {
           restaurant_id: string
           food_item: string
           description: string | null
-          quantity: string
+          quantity_total: number
+          quantity_remaining: number
+          quantity_unit: string
           pickup_start_time: string
           pickup_end_time: string
           is_claimed: boolean
@@ -99,6 +260,11 @@ export interface Database {
           claimed_at: string | null
           dietary_info: string[] | null
           image_url: string | null
+          archived_at: string | null
+          expired_at: string | null
+          template_id: string | null
+          food_category: FoodCategory
+          search_vector: unknown
           created_at: string
           updated_at: string
         }
@@ -107,7 +273,9 @@ export interface Database {
           restaurant_id: string
           food_item: string
           description?: string | null
-          quantity: string
+          quantity_total: number
+          quantity_remaining: number
+          quantity_unit?: string
           pickup_start_time: string
           pickup_end_time: string
           is_claimed?: boolean
@@ -115,6 +283,10 @@ export interface Database {
           claimed_at?: string | null
           dietary_info?: string[] | null
           image_url?: string | null
+          archived_at?: string | null
+          expired_at?: string | null
+          template_id?: string | null
+          food_category?: FoodCategory
           created_at?: string
           updated_at?: string
         }
@@ -123,7 +295,9 @@ export interface Database {
           restaurant_id?: string
           food_item?: string
           description?: string | null
-          quantity?: string
+          quantity_total?: number
+          quantity_remaining?: number
+          quantity_unit?: string
           pickup_start_time?: string
           pickup_end_time?: string
           is_claimed?: boolean
@@ -131,6 +305,10 @@ export interface Database {
           claimed_at?: string | null
           dietary_info?: string[] | null
           image_url?: string | null
+          archived_at?: string | null
+          expired_at?: string | null
+          template_id?: string | null
+          food_category?: FoodCategory
           created_at?: string
           updated_at?: string
         }
@@ -139,40 +317,905 @@ export interface Database {
         Row: {
           id: string
           food_listing_id: string
-          user_id: string
+          user_id: string | null
           claimed_at: string
+          portions: number
           pickup_completed: boolean
           pickup_completed_at: string | null
+          status: ClaimStatus
+          status_changed_at: string | null
+          pickup_code: string
+          verified_by_user_id: string | null
           notes: string | null
         }
         Insert: {
           id?: string
           food_listing_id: string
-          user_id: string
+          user_id: string | null
           claimed_at?: string
+          portions?: number
           pickup_completed?: boolean
           pickup_completed_at?: string | null
+          status?: ClaimStatus
+          status_changed_at?: string | null
+          pickup_code?: string
+          verified_by_user_id?: string | null
           notes?: string | null
         }
         Update: {
           id?: string
           food_listing_id?: string
-          user_id?: string
+          user_id?: string | null
           claimed_at?: string
+          portions?: number
           pickup_completed?: boolean
           pickup_completed_at?: string | null
+          status?: ClaimStatus
+          status_changed_at?: string | null
+          pickup_code?: string
+          verified_by_user_id?: string | null
           notes?: string | null
         }
       }
+      restaurant_members: {
+        Row: {
+          id: string
+          restaurant_id: string
+          user_id: string
+          role: RestaurantMemberRole
+          invited_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          restaurant_id: string
+          user_id: string
+          role?: RestaurantMemberRole
+          invited_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          restaurant_id?: string
+          user_id?: string
+          role?: RestaurantMemberRole
+          invited_by?: string | null
+          created_at?: string
+        }
+      }
+      restaurant_invitations: {
+        Row: {
+          id: string
+          restaurant_id: string
+          email: string | null
+          user_id: string | null
+          role: RestaurantMemberRole
+          invited_by: string | null
+          created_at: string
+          expires_at: string
+        }
+        Insert: {
+          id?: string
+          restaurant_id: string
+          email?: string | null
+          user_id?: string | null
+          role?: RestaurantMemberRole
+          invited_by?: string | null
+          created_at?: string
+          expires_at?: string
+        }
+        Update: {
+          id?: string
+          restaurant_id?: string
+          email?: string | null
+          user_id?: string | null
+          role?: RestaurantMemberRole
+          invited_by?: string | null
+          created_at?: string
+          expires_at?: string
+        }
+      }
+      restaurant_documents: {
+        Row: {
+          id: string
+          restaurant_id: string
+          file_path: string
+          file_name: string
+          document_type: string
+          uploaded_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          restaurant_id: string
+          file_path: string
+          file_name: string
+          document_type?: string
+          uploaded_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          restaurant_id?: string
+          file_path?: string
+          file_name?: string
+          document_type?: string
+          uploaded_by?: string | null
+          created_at?: string
+        }
+      }
+      audit_log: {
+        Row: {
+          id: string
+          actor_id: string | null
+          action: string
+          entity_type: string
+          entity_id: string
+          details: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          actor_id?: string | null
+          action: string
+          entity_type: string
+          entity_id: string
+          details?: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          actor_id?: string | null
+          action?: string
+          entity_type?: string
+          entity_id?: string
+          details?: Json
+          created_at?: string
+        }
+      }
+      impact_factor_versions: {
+        Row: {
+          version: string
+          description: string | null
+          source: string | null
+          is_current: boolean
+          published_at: string
+        }
+        Insert: {
+          version: string
+          description?: string | null
+          source?: string | null
+          is_current?: boolean
+          published_at?: string
+        }
+        Update: {
+          version?: string
+          description?: string | null
+          source?: string | null
+          is_current?: boolean
+          published_at?: string
+        }
+      }
+      impact_factors: {
+        Row: {
+          version: string
+          food_category: FoodCategory
+          kg_per_portion: number
+          co2e_kg_per_kg: number
+          water_l_per_kg: number
+        }
+        Insert: {
+          version: string
+          food_category: FoodCategory
+          kg_per_portion: number
+          co2e_kg_per_kg: number
+          water_l_per_kg: number
+        }
+        Update: {
+          version?: string
+          food_category?: FoodCategory
+          kg_per_portion?: number
+          co2e_kg_per_kg?: number
+          water_l_per_kg?: number
+        }
+      }
+      impact_unit_factors: {
+        Row: {
+          version: string
+          quantity_unit: string
+          portions_per_unit: number
+        }
+        Insert: {
+          version: string
+          quantity_unit: string
+          portions_per_unit: number
+        }
+        Update: {
+          version?: string
+          quantity_unit?: string
+          portions_per_unit?: number
+        }
+      }
+      notifications: {
+        Row: {
+          id: string
+          user_id: string
+          type: NotificationType
+          title: string
+          body: string | null
+          listing_id: string | null
+          claim_id: string | null
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          type: NotificationType
+          title: string
+          body?: string | null
+          listing_id?: string | null
+          claim_id?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          type?: NotificationType
+          title?: string
+          body?: string | null
+          listing_id?: string | null
+          claim_id?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+      }
+      notification_settings: {
+        Row: {
+          user_id: string
+          notify_nearby_listings: boolean
+          latitude: number | null
+          longitude: number | null
+          location: unknown
+          nearby_radius_km: number
+          dietary_preferences: string[]
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          notify_nearby_listings?: boolean
+          latitude?: number | null
+          longitude?: number | null
+          nearby_radius_km?: number
+          dietary_preferences?: string[]
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          notify_nearby_listings?: boolean
+          latitude?: number | null
+          longitude?: number | null
+          nearby_radius_km?: number
+          dietary_preferences?: string[]
+          updated_at?: string
+        }
+      }
+      push_subscriptions: {
+        Row: {
+          id: string
+          user_id: string
+          endpoint: string
+          p256dh: string
+          auth: string
+          user_agent: string | null
+          created_at: string
+          last_success_at: string | null
+          failure_count: number
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          endpoint: string
+          p256dh: string
+          auth: string
+          user_agent?: string | null
+          created_at?: string
+          last_success_at?: string | null
+          failure_count?: number
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          endpoint?: string
+          p256dh?: string
+          auth?: string
+          user_agent?: string | null
+          created_at?: string
+          last_success_at?: string | null
+          failure_count?: number
+        }
+      }
+      push_dispatch_queue: {
+        Row: {
+          listing_id: string
+          enqueued_at: string
+          dispatched_at: string | null
+        }
+        Insert: {
+          listing_id: string
+          enqueued_at?: string
+          dispatched_at?: string | null
+        }
+        Update: {
+          listing_id?: string
+          enqueued_at?: string
+          dispatched_at?: string | null
+        }
+      }
+      saved_searches: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          keywords: string | null
+          dietary_tags: string[]
+          latitude: number | null
+          longitude: number | null
+          location: unknown
+          radius_km: number
+          pickup_windows: PickupTimeWindow[]
+          time_zone: string
+          channels: AlertChannel[]
+          alerts_enabled: boolean
+          quiet_hours_start: string | null
+          quiet_hours_end: string | null
+          last_digest_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          keywords?: string | null
+          dietary_tags?: string[]
+          latitude?: number | null
+          longitude?: number | null
+          radius_km?: number
+          pickup_windows?: PickupTimeWindow[]
+          time_zone?: string
+          channels?: AlertChannel[]
+          alerts_enabled?: boolean
+          quiet_hours_start?: string | null
+          quiet_hours_end?: string | null
+          last_digest_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          keywords?: string | null
+          dietary_tags?: string[]
+          latitude?: number | null
+          longitude?: number | null
+          radius_km?: number
+          pickup_windows?: PickupTimeWindow[]
+          time_zone?: string
+          channels?: AlertChannel[]
+          alerts_enabled?: boolean
+          quiet_hours_start?: string | null
+          quiet_hours_end?: string | null
+          last_digest_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      saved_search_digest_items: {
+        Row: {
+          saved_search_id: string
+          listing_id: string
+          created_at: string
+          claimed_at: string | null
+          sent_at: string | null
+        }
+        Insert: {
+          saved_search_id: string
+          listing_id: string
+          created_at?: string
+          claimed_at?: string | null
+          sent_at?: string | null
+        }
+        Update: {
+          saved_search_id?: string
+          listing_id?: string
+          created_at?: string
+          claimed_at?: string | null
+          sent_at?: string | null
+        }
+      }
+      listing_templates: {
+        Row: {
+          id: string
+          restaurant_id: string
+          food_item: string
+          description: string | null
+          quantity_total: number
+          quantity_unit: string
+          food_category: FoodCategory
+          dietary_info: string[] | null
+          image_url: string | null
+          pickup_start: string
+          pickup_end: string
+          timezone: string
+          recurrence_rule: string
+          starts_on: string
+          ends_on: string | null
+          publish_lead_minutes: number
+          is_paused: boolean
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          restaurant_id: string
+          food_item: string
+          description?: string | null
+          quantity_total: number
+          quantity_unit?: string
+          food_category?: FoodCategory
+          dietary_info?: string[] | null
+          image_url?: string | null
+          pickup_start: string
+          pickup_end: string
+          timezone?: string
+          recurrence_rule: string
+          starts_on?: string
+          ends_on?: string | null
+          publish_lead_minutes?: number
+          is_paused?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          restaurant_id?: string
+          food_item?: string
+          description?: string | null
+          quantity_total?: number
+          quantity_unit?: string
+          food_category?: FoodCategory
+          dietary_info?: string[] | null
+          image_url?: string | null
+          pickup_start?: string
+          pickup_end?: string
+          timezone?: string
+          recurrence_rule?: string
+          starts_on?: string
+          ends_on?: string | null
+          publish_lead_minutes?: number
+          is_paused?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      listing_template_occurrences: {
+        Row: {
+          id: string
+          template_id: string
+          occurrence_date: string
+          skipped: boolean
+          food_item: string | null
+          description: string | null
+          quantity_total: number | null
+          pickup_start: string | null
+          pickup_end: string | null
+          listing_id: string | null
+          generated_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          template_id: string
+          occurrence_date: string
+          skipped?: boolean
+          food_item?: string | null
+          description?: string | null
+          quantity_total?: number | null
+          pickup_start?: string | null
+          pickup_end?: string | null
+          listing_id?: string | null
+          generated_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          template_id?: string
+          occurrence_date?: string
+          skipped?: boolean
+          food_item?: string | null
+          description?: string | null
+          quantity_total?: number | null
+          pickup_start?: string | null
+          pickup_end?: string | null
+          listing_id?: string | null
+          generated_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      search_food_listings: {
+        Args: {
+          query: string
+          limit?: number
+        }
+        Returns: (Database['public']['Tables']['food_listings']['Row'] & {
+          restaurants: Database['public']['Tables']['restaurants']['Row']
+          rank: number
+        })[]
+      }
+      query_food_listings: {
+        Args: {
+          search?: string | null
+          dietary?: string[] | null
+          restaurant_id?: string | null
+          pickup_from?: string | null
+          pickup_to?: string | null
+          lat?: number | null
+          lng?: number | null
+          radius_km?: number | null
+          include_unavailable?: boolean
+          sort?: FoodListingSort
+          limit?: number
+          cursor?: FoodListingCursor | null
+        }
+        Returns: (Database['public']['Tables']['food_listings']['Row'] & {
+          restaurants: Database['public']['Tables']['restaurants']['Row']
+          distance_km: number | null
+          sort_key: number
+        })[]
+      }
+      nearby_listings: {
+        Args: {
+          lat: number
+          lng: number
+          radius_km?: number
+          limit?: number
+          cursor?: NearbyListingsCursor | null
+        }
+        Returns: (Database['public']['Tables']['food_listings']['Row'] & {
+          restaurants: Database['public']['Tables']['restaurants']['Row']
+          distance_km: number
+        })[]
+      }
+      expire_stale_listings: {
+        Args: {
+          grace?: string
+        }
+        Returns: {
+          listings_expired: number
+          claims_no_show: number
+        }
+      }
+      generate_recurring_listings: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          listings_generated: number
+        }
+      }
+      claim_food_listing: {
+        Args: {
+          listing_id: string
+          portions?: number
+        }
+        Returns:
+          | {
+              ok: true
+              listing: Database['public']['Tables']['food_listings']['Row']
+              claim: Database['public']['Tables']['claims']['Row']
+            }
+          | {
+              ok: false
+              error: ClaimFoodListingError
+              quantity_remaining?: number
+            }
+      }
+      transition_claim: {
+        Args: {
+          claim_id: string
+          next_status: ClaimStatus
+        }
+        Returns:
+          | {
+              ok: true
+              claim: Database['public']['Tables']['claims']['Row']
+            }
+          | {
+              ok: false
+              error: TransitionClaimError
+            }
+      }
+      delete_own_account: {
+        Args: Record<PropertyKey, never>
+        Returns:
+          | {
+              ok: true
+              anonymised_claims: number
+            }
+          | {
+              ok: false
+              error: DeleteAccountError
+            }
+      }
+      is_restaurant_member: {
+        Args: {
+          restaurant_id: string
+          roles?: RestaurantMemberRole[] | null
+        }
+        Returns: boolean
+      }
+      confirmed_email: {
+        Args: Record<PropertyKey, never>
+        Returns: string | null
+      }
+      invite_restaurant_member: {
+        Args: {
+          restaurant_id: string
+          invitee: string
+          role?: RestaurantMemberRole
+        }
+        Returns:
+          | {
+              ok: true
+              invitation: Database['public']['Tables']['restaurant_invitations']['Row']
+            }
+          | {
+              ok: false
+              error: RestaurantTeamError
+            }
+      }
+      accept_restaurant_invitation: {
+        Args: {
+          invitation_id: string
+        }
+        Returns:
+          | {
+              ok: true
+              member: Database['public']['Tables']['restaurant_members']['Row']
+            }
+          | {
+              ok: false
+              error: RestaurantTeamError
+            }
+      }
+      cancel_restaurant_invitation: {
+        Args: {
+          invitation_id: string
+        }
+        Returns:
+          | {
+              ok: true
+            }
+          | {
+              ok: false
+              error: RestaurantTeamError
+            }
+      }
+      update_restaurant_member_role: {
+        Args: {
+          restaurant_id: string
+          user_id: string
+          role: RestaurantMemberRole
+        }
+        Returns:
+          | {
+              ok: true
+              member: Database['public']['Tables']['restaurant_members']['Row']
+            }
+          | {
+              ok: false
+              error: RestaurantTeamError
+            }
+      }
+      remove_restaurant_member: {
+        Args: {
+          restaurant_id: string
+          user_id: string
+        }
+        Returns:
+          | {
+              ok: true
+            }
+          | {
+              ok: false
+              error: RestaurantTeamError
+            }
+      }
+      verify_pickup: {
+        Args: {
+          restaurant_id: string
+          code: string
+          claim_id?: string | null
+        }
+        Returns:
+          | {
+              ok: true
+              claim: Database['public']['Tables']['claims']['Row']
+            }
+          | {
+              ok: false
+              error: TransitionClaimError
+            }
+      }
+      is_platform_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      review_restaurant: {
+        Args: {
+          restaurant_id: string
+          decision: RestaurantVerificationStatus
+          reason?: string | null
+        }
+        Returns:
+          | {
+              ok: true
+              restaurant: Database['public']['Tables']['restaurants']['Row']
+            }
+          | {
+              ok: false
+              error: RestaurantReviewError
+            }
+      }
+      request_restaurant_review: {
+        Args: {
+          restaurant_id: string
+        }
+        Returns:
+          | {
+              ok: true
+              restaurant: Database['public']['Tables']['restaurants']['Row']
+            }
+          | {
+              ok: false
+              error: RestaurantReviewError
+            }
+      }
+      restaurant_analytics: {
+        Args: {
+          restaurant_id: string
+          range_start: string
+          range_end: string
+          bucket?: AnalyticsBucket
+          time_zone?: string
+        }
+        Returns:
+          | {
+              ok: true
+              summary: RestaurantAnalyticsSummary
+              series: RestaurantAnalyticsPoint[]
+              pickup_windows: PickupWindow[]
+            }
+          | {
+              ok: false
+              error: RestaurantAnalyticsError
+            }
+      }
+      estimate_food_impact: {
+        Args: {
+          food_category: FoodCategory
+          quantity: number
+          quantity_unit: string
+          factor_version?: string | null
+        }
+        Returns: {
+          kg: number
+          co2e_kg: number
+          water_l: number
+        }[]
+      }
+      impact_totals: {
+        Args: {
+          scope: ImpactScope
+          restaurant_id?: string | null
+        }
+        Returns:
+          | ({
+              ok: true
+              version: string
+            } & ImpactTotals)
+          | {
+              ok: false
+              error: ImpactTotalsError
+            }
+      }
+      mark_notifications_read: {
+        Args: {
+          notification_ids?: string[] | null
+        }
+        Returns: number
+      }
+      save_push_subscription: {
+        Args: {
+          endpoint: string
+          p256dh: string
+          auth: string
+          user_agent?: string | null
+        }
+        Returns:
+          | {
+              ok: true
+              subscription_id: string
+            }
+          | {
+              ok: false
+              error: SavePushSubscriptionError
+            }
+      }
+      listing_alert_matches: {
+        Args: {
+          listing_id: string
+        }
+        Returns: {
+          user_id: string
+          saved_search_id: string | null
+          channels: AlertChannel[]
+          quiet: boolean
+          title: string
+          body: string
+        }[]
+      }
+      claim_email_digests: {
+        Args: Record<PropertyKey, never>
+        Returns: EmailDigest[]
+      }
+      confirm_email_digest: {
+        Args: {
+          saved_search_ids: string[]
+          claimed_at: string
+        }
+        Returns: undefined
+      }
+      claim_push_dispatches: {
+        Args: {
+          batch_size?: number
+        }
+        Returns: string[]
+      }
+      push_recipients_for_listing: {
+        Args: {
+          listing_id: string
+        }
+        Returns: {
+          subscription_id: string
+          user_id: string
+          endpoint: string
+          p256dh: string
+          auth: string
+          title: string
+          body: string
+        }[]
+      }
     }
     Enums: {
-      user_role: 'user' | 'restaurant_admin'
+      user_role: 'user' | 'restaurant_admin' | 'platform_admin'
+      claim_status: ClaimStatus
+      restaurant_member_role: RestaurantMemberRole
+      restaurant_verification_status: RestaurantVerificationStatus
+      notification_type: NotificationType
+      alert_channel: AlertChannel
     }
   }
 }
\ No newline at end of file
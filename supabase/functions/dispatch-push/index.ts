@@ -0,0 +1,154 @@
+// Sends Web Push alerts for listings queued by the notify_nearby_listing()
+// trigger (see supabase/migrations/20251018110000_web_push.sql).
+//
+// Invoked with the service role key, every minute by pg_cron through
+// request_push_dispatch() or by hand with `npm run push:dispatch`.
+// Required secrets: VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT
+// (a mailto: or https: contact). SITE_URL, when set, is opened on click.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import webpush from 'npm:web-push@3.6.7';
+
+const BATCH_SIZE = 20;
+const PUSH_TTL_SECONDS = 60 * 60;
+// Subscriptions that keep failing are dropped; 404 and 410 drop them at once
+const MAX_FAILURES = 5;
+
+interface PushRecipient {
+  subscription_id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  title: string;
+  body: string;
+}
+
+interface DispatchResult {
+  listings: number;
+  sent: number;
+  failed: number;
+  removed: number;
+}
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const vapidDetails = {
+  subject: Deno.env.get('VAPID_SUBJECT') ?? '',
+  publicKey: Deno.env.get('VAPID_PUBLIC_KEY') ?? '',
+  privateKey: Deno.env.get('VAPID_PRIVATE_KEY') ?? '',
+};
+const siteUrl = Deno.env.get('SITE_URL');
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false },
+});
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// web-push builds the encrypted request; sending it with fetch keeps plain
+// http endpoints working, which the local stub relies on
+async function sendPush(recipient: PushRecipient, listingId: string) {
+  const payload = JSON.stringify({
+    title: recipient.title,
+    body: recipient.body,
+    listing_id: listingId,
+    url: siteUrl,
+  });
+
+  const request = webpush.generateRequestDetails(
+    { endpoint: recipient.endpoint, keys: { p256dh: recipient.p256dh, auth: recipient.auth } },
+    payload,
+    { vapidDetails, TTL: PUSH_TTL_SECONDS }
+  );
+
+  const response = await fetch(request.endpoint, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body,
+  });
+  await response.body?.cancel();
+  return response.status;
+}
+
+async function recordDelivery(recipient: PushRecipient, status: number, result: DispatchResult) {
+  if (status >= 200 && status < 300) {
+    result.sent += 1;
+    await supabase
+      .from('push_subscriptions')
+      .update({ last_success_at: new Date().toISOString(), failure_count: 0 })
+      .eq('id', recipient.subscription_id);
+    return;
+  }
+
+  result.failed += 1;
+  const { data } = await supabase
+    .from('push_subscriptions')
+    .select('failure_count')
+    .eq('id', recipient.subscription_id)
+    .maybeSingle();
+  const failures = (data?.failure_count ?? 0) + 1;
+
+  if (status === 404 || status === 410 || failures >= MAX_FAILURES) {
+    result.removed += 1;
+    await supabase.from('push_subscriptions').delete().eq('id', recipient.subscription_id);
+  } else {
+    await supabase
+      .from('push_subscriptions')
+      .update({ failure_count: failures })
+      .eq('id', recipient.subscription_id);
+  }
+}
+
+async function dispatch(): Promise<DispatchResult> {
+  const result: DispatchResult = { listings: 0, sent: 0, failed: 0, removed: 0 };
+
+  const { data: listingIds, error } = await supabase.rpc('claim_push_dispatches', { batch_size: BATCH_SIZE });
+  if (error) throw error;
+
+  for (const listingId of (listingIds ?? []) as string[]) {
+    result.listings += 1;
+
+    const { data: recipients, error: recipientsError } = await supabase.rpc('push_recipients_for_listing', {
+      listing_id: listingId,
+    });
+    if (recipientsError) {
+      console.error(`Error finding push recipients for listing ${listingId}:`, recipientsError);
+      continue;
+    }
+
+    for (const recipient of (recipients ?? []) as PushRecipient[]) {
+      let status: number;
+      try {
+        status = await sendPush(recipient, listingId);
+      } catch (sendError) {
+        console.error(`Error sending push to ${recipient.endpoint}:`, sendError);
+        status = 0;
+      }
+      await recordDelivery(recipient, status, result);
+    }
+  }
+
+  return result;
+}
+
+Deno.serve(async (req) => {
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: 'forbidden' }, 403);
+  }
+  if (!vapidDetails.subject || !vapidDetails.publicKey || !vapidDetails.privateKey) {
+    return json({ error: 'vapid_not_configured' }, 500);
+  }
+
+  try {
+    return json(await dispatch());
+  } catch (error) {
+    console.error('Push dispatch failed:', error);
+    return json({ error: 'dispatch_failed' }, 500);
+  }
+});
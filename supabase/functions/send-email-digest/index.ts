@@ -0,0 +1,156 @@
+// Emails each user a digest of new matches for their saved searches with the
+// "Daily email digest" channel (see
+// supabase/migrations/20251018111000_saved_searches.sql).
+//
+// Invoked with the service role key, hourly by pg_cron through
+// request_email_digest() or by hand with `npm run digest:send`;
+// claim_email_digests() decides which searches are due.
+// Required secrets: RESEND_API_KEY and DIGEST_FROM (a verified sender such as
+// "GreenByte <alerts@example.com>"). SITE_URL, when set, is linked from the email.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+interface DigestListing {
+  id: string;
+  food_item: string;
+  quantity: string;
+  restaurant: string;
+  pickup_start_time: string;
+  pickup_end_time: string;
+}
+
+interface EmailDigest {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+  // Passed back to confirm_email_digest() once the email is sent
+  saved_search_ids: string[];
+  claimed_at: string;
+  // Pickup times are shown in each search's time zone
+  searches: { name: string; time_zone: string; listings: DigestListing[] }[];
+}
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const resendApiKey = Deno.env.get('RESEND_API_KEY') ?? '';
+const digestFrom = Deno.env.get('DIGEST_FROM') ?? '';
+const siteUrl = Deno.env.get('SITE_URL');
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false },
+});
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatPickup(listing: DigestListing, timeZone: string) {
+  const start = new Date(listing.pickup_start_time);
+  const end = new Date(listing.pickup_end_time);
+  const day = start.toLocaleDateString('en', { weekday: 'short', day: 'numeric', month: 'short', timeZone });
+  const time = (date: Date) => date.toLocaleTimeString('en', { hour: '2-digit', minute: '2-digit', timeZone });
+  const zoneName = new Intl.DateTimeFormat('en', { timeZone, timeZoneName: 'short' })
+    .formatToParts(start)
+    .find(part => part.type === 'timeZoneName')?.value ?? timeZone;
+  return `${day}, ${time(start)}–${time(end)} ${zoneName}`;
+}
+
+function renderDigest(digest: EmailDigest) {
+  const greeting = `Hi ${digest.full_name || 'there'},`;
+  const sections = digest.searches.map(search => ({
+    heading: `${search.name} (${search.listings.length})`,
+    lines: search.listings.map(l => `${l.food_item} – ${l.quantity} at ${l.restaurant}, ${formatPickup(l, search.time_zone)}`),
+  }));
+
+  const text = [
+    greeting,
+    '',
+    'New food matching your saved searches:',
+    ...sections.flatMap(section => ['', section.heading, ...section.lines.map(line => `- ${line}`)]),
+    ...(siteUrl ? ['', `Claim it before it's gone: ${siteUrl}`] : []),
+  ].join('\n');
+
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    '<p>New food matching your saved searches:</p>',
+    ...sections.map(section =>
+      `<h3>${escapeHtml(section.heading)}</h3><ul>${section.lines.map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`
+    ),
+    ...(siteUrl ? [`<p><a href="${escapeHtml(siteUrl)}">Claim it before it's gone</a></p>`] : []),
+  ].join('\n');
+
+  return { text, html };
+}
+
+async function sendDigest(digest: EmailDigest) {
+  const listingCount = digest.searches.reduce((sum, search) => sum + search.listings.length, 0);
+  const { text, html } = renderDigest(digest);
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${resendApiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      from: digestFrom,
+      to: digest.email,
+      subject: `${listingCount} new ${listingCount === 1 ? 'match' : 'matches'} for your saved searches`,
+      text,
+      html,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Email provider answered ${response.status}: ${await response.text()}`);
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: 'forbidden' }, 403);
+  }
+  if (!resendApiKey || !digestFrom) {
+    return json({ error: 'email_not_configured' }, 500);
+  }
+
+  const { data, error } = await supabase.rpc('claim_email_digests');
+  if (error) {
+    console.error('Error claiming email digests:', error);
+    return json({ error: 'dispatch_failed' }, 500);
+  }
+
+  const result = { sent: 0, failed: 0 };
+  for (const digest of (data ?? []) as EmailDigest[]) {
+    try {
+      await sendDigest(digest);
+    } catch (sendError) {
+      // Left unconfirmed, so a later run sends these matches again
+      console.error(`Error sending digest to user ${digest.user_id}:`, sendError);
+      result.failed += 1;
+      continue;
+    }
+
+    const { error: confirmError } = await supabase.rpc('confirm_email_digest', {
+      saved_search_ids: digest.saved_search_ids,
+      claimed_at: digest.claimed_at,
+    });
+    if (confirmError) {
+      console.error(`Error confirming digest for user ${digest.user_id}:`, confirmError);
+    }
+    result.sent += 1;
+  }
+
+  return json(result);
+});
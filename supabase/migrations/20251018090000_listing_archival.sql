@@ -0,0 +1,55 @@
+/*
+  # Soft-delete for food listings
+
+  1. Changes
+    - `food_listings`
+      - `archived_at` (timestamp, nullable) – set instead of deleting the row so
+        claim history and restaurant stats keep pointing at a real listing
+
+  2. Security
+    - Claimed listings can no longer be edited or archived by restaurant admins
+*/
+
+ALTER TABLE food_listings ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_food_listings_archived ON food_listings(archived_at);
+
+-- Restaurant admins keep full read access, but writes must leave claimed rows alone
+DROP POLICY IF EXISTS "Restaurant admins can manage their food listings" ON food_listings;
+
+CREATE POLICY "Restaurant admins can view their food listings"
+  ON food_listings
+  FOR SELECT
+  TO authenticated
+  USING (
+    restaurant_id IN (
+      SELECT id FROM restaurants WHERE restaurant_admin_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Restaurant admins can create food listings"
+  ON food_listings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    restaurant_id IN (
+      SELECT id FROM restaurants WHERE restaurant_admin_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Restaurant admins can update unclaimed food listings"
+  ON food_listings
+  FOR UPDATE
+  TO authenticated
+  USING (
+    NOT is_claimed
+    AND archived_at IS NULL
+    AND restaurant_id IN (
+      SELECT id FROM restaurants WHERE restaurant_admin_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    restaurant_id IN (
+      SELECT id FROM restaurants WHERE restaurant_admin_id = auth.uid()
+    )
+  );
@@ -0,0 +1,87 @@
+/*
+  # Atomic claim RPC
+
+  1. New Functions
+    - `claim_food_listing(listing_id uuid)`
+      - Locks the listing row, validates it, marks it claimed and inserts the
+        `claims` row in a single transaction for the calling user
+      - Returns `{ "ok": true, "listing": ..., "claim": ... }` on success or
+        `{ "ok": false, "error": <code> }` where code is one of
+        `not_found`, `already_claimed`, `expired`, `rate_limited`
+
+  2. Security
+    - SECURITY DEFINER so claimers do not need UPDATE rights on listings;
+      the claimer is always `auth.uid()`, never a client-supplied id
+    - Users may create at most 5 claims per rolling hour
+    - Drops "Users can claim food listings" and "Users can create claims" so
+      claiming only goes through this function
+*/
+
+CREATE OR REPLACE FUNCTION claim_food_listing(listing_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claimer_id uuid := auth.uid();
+  target food_listings%ROWTYPE;
+  new_claim claims%ROWTYPE;
+  recent_claims integer;
+BEGIN
+  IF claimer_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required to claim food' USING ERRCODE = '42501';
+  END IF;
+
+  -- Row lock serialises concurrent claims on the same listing
+  SELECT * INTO target
+  FROM food_listings
+  WHERE id = claim_food_listing.listing_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR target.archived_at IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_found');
+  END IF;
+
+  IF target.is_claimed THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'already_claimed');
+  END IF;
+
+  IF target.pickup_end_time < now() THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'expired');
+  END IF;
+
+  SELECT count(*) INTO recent_claims
+  FROM claims
+  WHERE user_id = claimer_id
+    AND claimed_at > now() - interval '1 hour';
+
+  IF recent_claims >= 5 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'rate_limited');
+  END IF;
+
+  UPDATE food_listings
+  SET is_claimed = true,
+      claimed_by_user_id = claimer_id,
+      claimed_at = now()
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  INSERT INTO claims (food_listing_id, user_id)
+  VALUES (target.id, claimer_id)
+  RETURNING * INTO new_claim;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'listing', to_jsonb(target),
+    'claim', to_jsonb(new_claim)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_food_listing(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_food_listing(uuid) TO authenticated;
+
+-- Direct writes would skip the checks above
+DROP POLICY IF EXISTS "Users can claim food listings" ON food_listings;
+DROP POLICY IF EXISTS "Users can create claims" ON claims;
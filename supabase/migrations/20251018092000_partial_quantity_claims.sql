@@ -0,0 +1,162 @@
+/*
+  # Structured quantities and partial claims
+
+  1. Changes
+    - `food_listings`
+      - `quantity_total` (integer) – number of units offered
+      - `quantity_remaining` (integer) – units not yet claimed
+      - `quantity_unit` (text) – e.g. portions, slices, sandwiches
+      - `quantity` (text) is backfilled into the columns above and dropped
+      - `is_claimed` now means "fully claimed" (`quantity_remaining = 0`)
+    - `claims`
+      - `portions` (integer) – units taken by this claim
+
+  2. Functions
+    - `claim_food_listing(listing_id uuid, portions integer)` replaces the
+      single-argument version and can take part of a listing. A request for
+      more than is left returns the `insufficient_quantity` error.
+
+  3. Security
+    - Restaurant admins can only update listings nobody has claimed from yet
+*/
+
+ALTER TABLE food_listings
+  ADD COLUMN IF NOT EXISTS quantity_total integer,
+  ADD COLUMN IF NOT EXISTS quantity_remaining integer,
+  ADD COLUMN IF NOT EXISTS quantity_unit text NOT NULL DEFAULT 'portions';
+
+-- "8 portions" -> 8 / portions, "Serves 20" -> 1 / Serves 20 (unparseable text keeps its wording as the unit)
+UPDATE food_listings
+SET
+  quantity_total = COALESCE(substring(quantity FROM '^\s*(\d+)')::integer, 1),
+  quantity_unit = COALESCE(NULLIF(trim(regexp_replace(quantity, '^\s*\d+\s*', '')), ''), 'portions')
+WHERE quantity_total IS NULL;
+
+UPDATE food_listings
+SET quantity_remaining = CASE WHEN is_claimed THEN 0 ELSE quantity_total END
+WHERE quantity_remaining IS NULL;
+
+ALTER TABLE food_listings
+  ALTER COLUMN quantity_total SET NOT NULL,
+  ALTER COLUMN quantity_remaining SET NOT NULL,
+  ADD CONSTRAINT food_listings_quantity_total_positive CHECK (quantity_total > 0),
+  ADD CONSTRAINT food_listings_quantity_remaining_range
+    CHECK (quantity_remaining >= 0 AND quantity_remaining <= quantity_total);
+
+ALTER TABLE food_listings DROP COLUMN IF EXISTS quantity;
+
+ALTER TABLE claims
+  ADD COLUMN IF NOT EXISTS portions integer NOT NULL DEFAULT 1
+  CONSTRAINT claims_portions_positive CHECK (portions > 0);
+
+-- Backfill existing claims with the full listing they took
+UPDATE claims c
+SET portions = fl.quantity_total
+FROM food_listings fl
+WHERE fl.id = c.food_listing_id;
+
+-- A listing with any claimed portions is frozen for its restaurant
+DROP POLICY IF EXISTS "Restaurant admins can update unclaimed food listings" ON food_listings;
+
+CREATE POLICY "Restaurant admins can update unclaimed food listings"
+  ON food_listings
+  FOR UPDATE
+  TO authenticated
+  USING (
+    quantity_remaining = quantity_total
+    AND archived_at IS NULL
+    AND restaurant_id IN (
+      SELECT id FROM restaurants WHERE restaurant_admin_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    restaurant_id IN (
+      SELECT id FROM restaurants WHERE restaurant_admin_id = auth.uid()
+    )
+  );
+
+DROP FUNCTION IF EXISTS claim_food_listing(uuid);
+
+CREATE OR REPLACE FUNCTION claim_food_listing(listing_id uuid, portions integer DEFAULT 1)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claimer_id uuid := auth.uid();
+  target food_listings%ROWTYPE;
+  new_claim claims%ROWTYPE;
+  recent_claims integer;
+BEGIN
+  IF claimer_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required to claim food' USING ERRCODE = '42501';
+  END IF;
+
+  IF claim_food_listing.portions IS NULL OR claim_food_listing.portions < 1 THEN
+    RAISE EXCEPTION 'portions must be a positive integer' USING ERRCODE = '22023';
+  END IF;
+
+  -- Row lock serialises concurrent claims on the same listing
+  SELECT * INTO target
+  FROM food_listings
+  WHERE id = claim_food_listing.listing_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR target.archived_at IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_found');
+  END IF;
+
+  IF target.quantity_remaining = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'already_claimed');
+  END IF;
+
+  IF target.pickup_end_time < now() THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'expired');
+  END IF;
+
+  IF claim_food_listing.portions > target.quantity_remaining THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'error', 'insufficient_quantity',
+      'quantity_remaining', target.quantity_remaining
+    );
+  END IF;
+
+  SELECT count(*) INTO recent_claims
+  FROM claims
+  WHERE user_id = claimer_id
+    AND claimed_at > now() - interval '1 hour';
+
+  IF recent_claims >= 5 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'rate_limited');
+  END IF;
+
+  UPDATE food_listings
+  SET quantity_remaining = quantity_remaining - claim_food_listing.portions,
+      is_claimed = quantity_remaining - claim_food_listing.portions = 0,
+      claimed_by_user_id = CASE
+        WHEN quantity_remaining - claim_food_listing.portions = 0 THEN claimer_id
+        ELSE claimed_by_user_id
+      END,
+      claimed_at = CASE
+        WHEN quantity_remaining - claim_food_listing.portions = 0 THEN now()
+        ELSE claimed_at
+      END
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  INSERT INTO claims (food_listing_id, user_id, portions)
+  VALUES (target.id, claimer_id, claim_food_listing.portions)
+  RETURNING * INTO new_claim;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'listing', to_jsonb(target),
+    'claim', to_jsonb(new_claim)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_food_listing(uuid, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_food_listing(uuid, integer) TO authenticated;
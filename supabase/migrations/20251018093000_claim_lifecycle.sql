@@ -0,0 +1,139 @@
+/*
+  # Claim lifecycle
+
+  1. Changes
+    - New enum `claim_status`: reserved, confirmed_by_restaurant, picked_up,
+      cancelled_by_user, cancelled_by_restaurant, no_show, expired
+    - `claims`
+      - `status` (claim_status, default reserved) – backfilled from
+        `pickup_completed`
+      - `status_changed_at` (timestamp)
+
+  2. Functions
+    - `transition_claim(claim_id uuid, next_status claim_status)`
+      - Validates the move against the lifecycle and the caller's role
+        (claimer or restaurant admin)
+      - Cancelled and expired claims return their portions to the listing
+      - Returns `{ "ok": true, "claim": ... }` or `{ "ok": false, "error": <code> }`
+        where code is `not_found`, `forbidden` or `invalid_transition`
+
+  3. Security
+    - No UPDATE policy on `claims`: status changes only go through
+      `transition_claim`, which is SECURITY DEFINER
+*/
+
+CREATE TYPE claim_status AS ENUM (
+  'reserved',
+  'confirmed_by_restaurant',
+  'picked_up',
+  'cancelled_by_user',
+  'cancelled_by_restaurant',
+  'no_show',
+  'expired'
+);
+
+ALTER TABLE claims
+  ADD COLUMN IF NOT EXISTS status claim_status NOT NULL DEFAULT 'reserved',
+  ADD COLUMN IF NOT EXISTS status_changed_at timestamptz DEFAULT now();
+
+UPDATE claims
+SET status = 'picked_up',
+    status_changed_at = COALESCE(pickup_completed_at, claimed_at)
+WHERE pickup_completed;
+
+CREATE INDEX IF NOT EXISTS idx_claims_status ON claims(status);
+
+CREATE OR REPLACE FUNCTION transition_claim(claim_id uuid, next_status claim_status)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  target claims%ROWTYPE;
+  listing food_listings%ROWTYPE;
+  is_claimer boolean;
+  is_restaurant boolean;
+  allowed claim_status[];
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO target
+  FROM claims
+  WHERE id = transition_claim.claim_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_found');
+  END IF;
+
+  SELECT * INTO listing
+  FROM food_listings
+  WHERE id = target.food_listing_id
+  FOR UPDATE;
+
+  is_claimer := target.user_id = caller_id;
+  is_restaurant := EXISTS (
+    SELECT 1 FROM restaurants
+    WHERE id = listing.restaurant_id AND restaurant_admin_id = caller_id
+  );
+
+  IF NOT is_claimer AND NOT is_restaurant THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  -- Terminal states have no outgoing transitions
+  allowed := CASE target.status
+    WHEN 'reserved' THEN ARRAY[
+      'confirmed_by_restaurant', 'picked_up', 'cancelled_by_user',
+      'cancelled_by_restaurant', 'no_show', 'expired'
+    ]::claim_status[]
+    WHEN 'confirmed_by_restaurant' THEN ARRAY[
+      'picked_up', 'cancelled_by_user', 'cancelled_by_restaurant', 'no_show', 'expired'
+    ]::claim_status[]
+    ELSE ARRAY[]::claim_status[]
+  END;
+
+  IF NOT transition_claim.next_status = ANY(allowed) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'invalid_transition');
+  END IF;
+
+  IF transition_claim.next_status = 'cancelled_by_user' AND NOT is_claimer THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  IF transition_claim.next_status IN ('confirmed_by_restaurant', 'cancelled_by_restaurant', 'no_show', 'expired')
+     AND NOT is_restaurant THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  UPDATE claims
+  SET status = transition_claim.next_status,
+      status_changed_at = now(),
+      pickup_completed = transition_claim.next_status = 'picked_up',
+      pickup_completed_at = CASE
+        WHEN transition_claim.next_status = 'picked_up' THEN now()
+        ELSE pickup_completed_at
+      END
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  -- Portions from cancelled or expired claims go back into circulation
+  IF transition_claim.next_status IN ('cancelled_by_user', 'cancelled_by_restaurant', 'expired') THEN
+    UPDATE food_listings
+    SET quantity_remaining = LEAST(quantity_total, quantity_remaining + target.portions),
+        is_claimed = false,
+        claimed_by_user_id = NULL,
+        claimed_at = NULL
+    WHERE id = listing.id;
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'claim', to_jsonb(target));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION transition_claim(uuid, claim_status) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION transition_claim(uuid, claim_status) TO authenticated;
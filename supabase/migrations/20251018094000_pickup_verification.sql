@@ -0,0 +1,203 @@
+/*
+  # Pickup verification codes
+
+  1. Changes
+    - `claims`
+      - `pickup_code` (text) – short code shown to the claimer, issued
+        automatically when the claim is created
+      - `verified_by_user_id` (uuid, nullable) – staff member who handed over the food
+
+  2. Functions
+    - `generate_pickup_code()` – six characters from an alphabet without
+      look-alike characters (no 0/O, 1/I/L)
+    - `verify_pickup(restaurant_id uuid, code text, claim_id uuid)`
+      - Completes the open claim carrying `code` at the given restaurant;
+        `claim_id` is optional and comes from the QR payload
+      - Returns `{ "ok": true, "claim": ... }` or `{ "ok": false, "error": <code> }`
+        where code is `not_found`, `forbidden` or `invalid_transition`
+    - `transition_claim` no longer accepts `picked_up`; pickups are only
+      completed through `verify_pickup`
+*/
+
+ALTER TABLE claims
+  ADD COLUMN IF NOT EXISTS pickup_code text,
+  ADD COLUMN IF NOT EXISTS verified_by_user_id uuid REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION generate_pickup_code()
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  alphabet constant text := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  code text := '';
+BEGIN
+  FOR i IN 1..6 LOOP
+    code := code || substr(alphabet, 1 + floor(random() * length(alphabet))::integer, 1);
+  END LOOP;
+  RETURN code;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_claim_pickup_code()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.pickup_code IS NULL THEN
+    NEW.pickup_code := generate_pickup_code();
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER set_claims_pickup_code
+  BEFORE INSERT ON claims
+  FOR EACH ROW
+  EXECUTE FUNCTION set_claim_pickup_code();
+
+UPDATE claims SET pickup_code = generate_pickup_code() WHERE pickup_code IS NULL;
+
+ALTER TABLE claims ALTER COLUMN pickup_code SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_claims_pickup_code ON claims(pickup_code);
+
+CREATE OR REPLACE FUNCTION verify_pickup(restaurant_id uuid, code text, claim_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  target claims%ROWTYPE;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM restaurants
+    WHERE id = verify_pickup.restaurant_id AND restaurant_admin_id = caller_id
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  -- Prefer open claims when a code has been reused by an older, closed claim
+  SELECT c.* INTO target
+  FROM claims c
+  JOIN food_listings fl ON fl.id = c.food_listing_id
+  WHERE fl.restaurant_id = verify_pickup.restaurant_id
+    AND c.pickup_code = upper(trim(verify_pickup.code))
+    AND (verify_pickup.claim_id IS NULL OR c.id = verify_pickup.claim_id)
+  ORDER BY (c.status IN ('reserved', 'confirmed_by_restaurant')) DESC, c.claimed_at DESC
+  LIMIT 1
+  FOR UPDATE OF c;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_found');
+  END IF;
+
+  IF target.status NOT IN ('reserved', 'confirmed_by_restaurant') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'invalid_transition');
+  END IF;
+
+  UPDATE claims
+  SET status = 'picked_up',
+      status_changed_at = now(),
+      pickup_completed = true,
+      pickup_completed_at = now(),
+      verified_by_user_id = caller_id
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  RETURN jsonb_build_object('ok', true, 'claim', to_jsonb(target));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION verify_pickup(uuid, text, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION verify_pickup(uuid, text, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION transition_claim(claim_id uuid, next_status claim_status)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  target claims%ROWTYPE;
+  listing food_listings%ROWTYPE;
+  is_claimer boolean;
+  is_restaurant boolean;
+  allowed claim_status[];
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO target
+  FROM claims
+  WHERE id = transition_claim.claim_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_found');
+  END IF;
+
+  SELECT * INTO listing
+  FROM food_listings
+  WHERE id = target.food_listing_id
+  FOR UPDATE;
+
+  is_claimer := target.user_id = caller_id;
+  is_restaurant := EXISTS (
+    SELECT 1 FROM restaurants
+    WHERE id = listing.restaurant_id AND restaurant_admin_id = caller_id
+  );
+
+  IF NOT is_claimer AND NOT is_restaurant THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  -- picked_up is reachable only through verify_pickup
+  allowed := CASE target.status
+    WHEN 'reserved' THEN ARRAY[
+      'confirmed_by_restaurant', 'cancelled_by_user',
+      'cancelled_by_restaurant', 'no_show', 'expired'
+    ]::claim_status[]
+    WHEN 'confirmed_by_restaurant' THEN ARRAY[
+      'cancelled_by_user', 'cancelled_by_restaurant', 'no_show', 'expired'
+    ]::claim_status[]
+    ELSE ARRAY[]::claim_status[]
+  END;
+
+  IF NOT transition_claim.next_status = ANY(allowed) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'invalid_transition');
+  END IF;
+
+  IF transition_claim.next_status = 'cancelled_by_user' AND NOT is_claimer THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  IF transition_claim.next_status IN ('confirmed_by_restaurant', 'cancelled_by_restaurant', 'no_show', 'expired')
+     AND NOT is_restaurant THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  UPDATE claims
+  SET status = transition_claim.next_status,
+      status_changed_at = now()
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  -- Portions from cancelled or expired claims go back into circulation
+  IF transition_claim.next_status IN ('cancelled_by_user', 'cancelled_by_restaurant', 'expired') THEN
+    UPDATE food_listings
+    SET quantity_remaining = LEAST(quantity_total, quantity_remaining + target.portions),
+        is_claimed = false,
+        claimed_by_user_id = NULL,
+        claimed_at = NULL
+    WHERE id = listing.id;
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'claim', to_jsonb(target));
+END;
+$$;
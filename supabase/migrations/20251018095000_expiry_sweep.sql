@@ -0,0 +1,114 @@
+/*
+  # Expiry sweep for stale listings and reservations
+
+  1. Changes
+    - `food_listings`
+      - `expired_at` (timestamp, nullable) – set by the sweep once
+        `pickup_end_time` has passed
+
+  2. Functions
+    - `expire_stale_listings(grace interval DEFAULT '15 minutes')`
+      - Marks unarchived listings whose pickup window closed more than
+        `grace` ago as expired
+      - Moves reserved/confirmed claims on those listings to `no_show`
+      - Returns `{ "listings_expired": n, "claims_no_show": n }`
+      - Has no dependency on Supabase auth, so it can be called directly
+        against a local Postgres: `SELECT expire_stale_listings();`
+
+  3. Scheduling
+    - When the `pg_cron` extension is available the sweep is scheduled every
+      five minutes as job `expire-stale-listings`; otherwise the migration
+      only raises a notice and the function can be run by hand or from an
+      external scheduler
+
+  4. Realtime
+    - `food_listings` and `claims` are added to the `supabase_realtime`
+      publication (when it exists) so clients receive the sweep's updates
+*/
+
+ALTER TABLE food_listings
+  ADD COLUMN IF NOT EXISTS expired_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_food_listings_pickup_end_time
+  ON food_listings(pickup_end_time)
+  WHERE expired_at IS NULL AND archived_at IS NULL;
+
+CREATE OR REPLACE FUNCTION expire_stale_listings(grace interval DEFAULT interval '15 minutes')
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cutoff timestamptz := now() - grace;
+  listings_expired integer;
+  claims_no_show integer;
+BEGIN
+  WITH stale AS (
+    UPDATE food_listings
+    SET expired_at = now()
+    WHERE expired_at IS NULL
+      AND archived_at IS NULL
+      AND pickup_end_time < cutoff
+    RETURNING id
+  )
+  SELECT count(*) INTO listings_expired FROM stale;
+
+  -- Catches claims on listings expired by this or any earlier run
+  WITH missed AS (
+    UPDATE claims c
+    SET status = 'no_show',
+        status_changed_at = now()
+    FROM food_listings fl
+    WHERE fl.id = c.food_listing_id
+      AND fl.expired_at IS NOT NULL
+      AND c.status IN ('reserved', 'confirmed_by_restaurant')
+    RETURNING c.id
+  )
+  SELECT count(*) INTO claims_no_show FROM missed;
+
+  RETURN jsonb_build_object(
+    'listings_expired', listings_expired,
+    'claims_no_show', claims_no_show
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION expire_stale_listings(interval) FROM PUBLIC;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    EXECUTE $cron$
+      SELECT cron.schedule(
+        'expire-stale-listings',
+        '*/5 * * * *',
+        'SELECT public.expire_stale_listings()'
+      )
+    $cron$;
+  ELSE
+    RAISE NOTICE 'pg_cron is not available; run SELECT expire_stale_listings() from an external scheduler';
+  END IF;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'food_listings'
+    ) THEN
+      ALTER PUBLICATION supabase_realtime ADD TABLE food_listings;
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'claims'
+    ) THEN
+      ALTER PUBLICATION supabase_realtime ADD TABLE claims;
+    END IF;
+  END IF;
+END;
+$$;
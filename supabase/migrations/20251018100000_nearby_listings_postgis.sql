@@ -0,0 +1,73 @@
+/*
+  # PostGIS radius search
+
+  1. Changes
+    - Enables the `postgis` extension
+    - `restaurants`
+      - `location` (geography(Point, 4326)) – generated from `latitude` and
+        `longitude`, so existing writes keep working unchanged
+      - GiST index on `location`
+
+  2. Functions
+    - `nearby_listings(lat, lng, radius_km, limit, cursor)`
+      - Returns available listings within `radius_km` of the given point,
+        nearest first, each with its restaurant under `restaurants` and the
+        distance in `distance_km`
+      - `limit` is clamped to 1..200
+      - `cursor` is `{ "distance_km": <number>, "id": <uuid> }` taken from the
+        last row of the previous page (keyset pagination on distance, id)
+*/
+
+CREATE EXTENSION IF NOT EXISTS postgis;
+
+ALTER TABLE restaurants
+  ADD COLUMN IF NOT EXISTS location geography(Point, 4326)
+  GENERATED ALWAYS AS (
+    ST_SetSRID(ST_MakePoint(longitude::double precision, latitude::double precision), 4326)::geography
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_restaurants_location_gist ON restaurants USING GIST (location);
+
+CREATE OR REPLACE FUNCTION nearby_listings(
+  lat double precision,
+  lng double precision,
+  radius_km double precision DEFAULT 10,
+  "limit" integer DEFAULT 50,
+  cursor jsonb DEFAULT NULL
+)
+RETURNS SETOF jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH origin AS (
+    SELECT ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography AS point
+  ),
+  candidates AS (
+    SELECT
+      fl,
+      r,
+      ST_Distance(r.location, origin.point) / 1000 AS distance_km
+    FROM food_listings fl
+    JOIN restaurants r ON r.id = fl.restaurant_id
+    CROSS JOIN origin
+    WHERE ST_DWithin(r.location, origin.point, radius_km * 1000)
+      AND fl.is_claimed = false
+      AND fl.archived_at IS NULL
+      AND fl.expired_at IS NULL
+      AND fl.pickup_end_time >= now()
+  )
+  SELECT
+    to_jsonb(c.fl)
+      || jsonb_build_object(
+        'restaurants', to_jsonb(c.r),
+        'distance_km', c.distance_km
+      )
+  FROM candidates c
+  WHERE cursor IS NULL
+    OR (c.distance_km, (c.fl).id) > ((cursor->>'distance_km')::double precision, (cursor->>'id')::uuid)
+  ORDER BY c.distance_km, (c.fl).id
+  LIMIT LEAST(GREATEST(COALESCE(nearby_listings."limit", 50), 1), 200);
+$$;
+
+GRANT EXECUTE ON FUNCTION nearby_listings(double precision, double precision, double precision, integer, jsonb) TO anon, authenticated;
@@ -0,0 +1,117 @@
+/*
+  # Filtered, keyset-paginated listing feed
+
+  1. Functions
+    - `query_food_listings(...)`
+      - Filters: free text (`search`, matched against food, description and
+        restaurant name), dietary tags (listing must carry all of them),
+        restaurant, pickup-window overlap (`pickup_from`/`pickup_to`) and
+        distance (`lat`, `lng`, `radius_km`)
+      - `include_unavailable` also returns claimed and expired listings, for a
+        restaurant's own feed; archived listings are never returned
+      - `sort` is `newest`, `ending_soon` or `distance` (needs `lat`/`lng`,
+        otherwise falls back to `newest`)
+      - Every row carries its restaurant under `restaurants`, `distance_km`
+        (null without a location) and `sort_key`
+      - `cursor` is `{ "sort_key": <number>, "id": <uuid> }` from the last row
+        of the previous page; all sorts page ascending on (sort_key, id)
+      - `limit` is clamped to 1..100
+
+  2. Indexes
+    - `food_listings(created_at, id)` and `food_listings(pickup_end_time, id)`
+      for the keyset scans
+    - GIN index on `food_listings.dietary_info`
+*/
+
+CREATE INDEX IF NOT EXISTS idx_food_listings_created_at_id ON food_listings(created_at DESC, id);
+CREATE INDEX IF NOT EXISTS idx_food_listings_pickup_end_time_id ON food_listings(pickup_end_time, id);
+CREATE INDEX IF NOT EXISTS idx_food_listings_dietary_info ON food_listings USING GIN (dietary_info);
+
+CREATE OR REPLACE FUNCTION query_food_listings(
+  search text DEFAULT NULL,
+  dietary text[] DEFAULT NULL,
+  restaurant_id uuid DEFAULT NULL,
+  pickup_from timestamptz DEFAULT NULL,
+  pickup_to timestamptz DEFAULT NULL,
+  lat double precision DEFAULT NULL,
+  lng double precision DEFAULT NULL,
+  radius_km double precision DEFAULT NULL,
+  include_unavailable boolean DEFAULT false,
+  sort text DEFAULT 'newest',
+  "limit" integer DEFAULT 20,
+  cursor jsonb DEFAULT NULL
+)
+RETURNS SETOF jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH origin AS (
+    SELECT CASE
+      WHEN lat IS NOT NULL AND lng IS NOT NULL
+        THEN ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography
+    END AS point
+  ),
+  pattern AS (
+    SELECT '%' || replace(replace(replace(nullif(trim(search), ''), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS value
+  ),
+  candidates AS (
+    SELECT
+      fl,
+      r,
+      ST_Distance(r.location, origin.point) / 1000 AS distance_km
+    FROM food_listings fl
+    JOIN restaurants r ON r.id = fl.restaurant_id
+    CROSS JOIN origin
+    CROSS JOIN pattern
+    WHERE fl.archived_at IS NULL
+      AND (
+        include_unavailable
+        OR (fl.is_claimed = false AND fl.expired_at IS NULL AND fl.pickup_end_time >= now())
+      )
+      AND (query_food_listings.restaurant_id IS NULL OR fl.restaurant_id = query_food_listings.restaurant_id)
+      AND (dietary IS NULL OR cardinality(dietary) = 0 OR fl.dietary_info @> dietary)
+      AND (pickup_from IS NULL OR fl.pickup_end_time >= pickup_from)
+      AND (pickup_to IS NULL OR fl.pickup_start_time <= pickup_to)
+      AND (
+        radius_km IS NULL
+        OR origin.point IS NULL
+        OR ST_DWithin(r.location, origin.point, radius_km * 1000)
+      )
+      AND (
+        pattern.value IS NULL
+        OR fl.food_item ILIKE pattern.value
+        OR fl.description ILIKE pattern.value
+        OR r.name ILIKE pattern.value
+      )
+  ),
+  keyed AS (
+    SELECT
+      c.*,
+      CASE
+        WHEN sort = 'distance' AND c.distance_km IS NOT NULL THEN c.distance_km
+        WHEN sort = 'ending_soon' THEN extract(epoch FROM (c.fl).pickup_end_time)::double precision
+        -- Newest first, expressed as an ascending key so every sort pages the same way
+        ELSE -extract(epoch FROM (c.fl).created_at)::double precision
+      END AS sort_key
+    FROM candidates c
+  )
+  SELECT
+    to_jsonb(k.fl)
+      || jsonb_build_object(
+        'restaurants', to_jsonb(k.r),
+        'distance_km', k.distance_km,
+        'sort_key', k.sort_key
+      )
+  FROM keyed k
+  WHERE cursor IS NULL
+    OR (k.sort_key, (k.fl).id) > ((cursor->>'sort_key')::double precision, (cursor->>'id')::uuid)
+  ORDER BY k.sort_key, (k.fl).id
+  LIMIT LEAST(GREATEST(COALESCE(query_food_listings."limit", 20), 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION query_food_listings(
+  text, text[], uuid, timestamptz, timestamptz,
+  double precision, double precision, double precision,
+  boolean, text, integer, jsonb
+) TO authenticated;
@@ -0,0 +1,216 @@
+/*
+  # Full-text listing search
+
+  1. Changes
+    - Enables the `pg_trgm` extension
+    - `food_listings`
+      - `search_vector` (tsvector) – food item (weight A), restaurant name (B)
+        and description (C); kept current by triggers on `food_listings` and
+        on restaurant renames
+      - GIN index on `search_vector`
+    - Trigram indexes on `food_listings.food_item` and `restaurants.name`
+
+  2. Functions
+    - `listing_search_query(query text)` – turns free text into a prefix
+      tsquery (`tom soup` -> `tom:* & soup:*`); punctuation is dropped, so
+      user input never reaches the query parser verbatim
+    - `search_food_listings(query text, limit integer)`
+      - Ranked search over available listings; matches full-text prefixes and,
+        for typo tolerance, trigram word similarity on the food item and
+        restaurant name
+      - Each row carries its restaurant under `restaurants` and `rank`
+    - `query_food_listings` now uses the same matching for its `search` filter
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE food_listings
+  ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+CREATE OR REPLACE FUNCTION build_listing_search_vector(
+  food_item text,
+  description text,
+  restaurant_name text
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(food_item, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(restaurant_name, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION set_food_listing_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := build_listing_search_vector(
+    NEW.food_item,
+    NEW.description,
+    (SELECT name FROM restaurants WHERE id = NEW.restaurant_id)
+  );
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER set_food_listings_search_vector
+  BEFORE INSERT OR UPDATE OF food_item, description, restaurant_id ON food_listings
+  FOR EACH ROW
+  EXECUTE FUNCTION set_food_listing_search_vector();
+
+CREATE OR REPLACE FUNCTION refresh_restaurant_listing_search_vectors()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE food_listings
+  SET search_vector = build_listing_search_vector(food_item, description, NEW.name)
+  WHERE restaurant_id = NEW.id;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER refresh_restaurant_listing_search_vectors
+  AFTER UPDATE OF name ON restaurants
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION refresh_restaurant_listing_search_vectors();
+
+UPDATE food_listings fl
+SET search_vector = build_listing_search_vector(fl.food_item, fl.description, r.name)
+FROM restaurants r
+WHERE r.id = fl.restaurant_id;
+
+CREATE INDEX IF NOT EXISTS idx_food_listings_search_vector ON food_listings USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_food_listings_food_item_trgm ON food_listings USING GIN (food_item gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_restaurants_name_trgm ON restaurants USING GIN (name gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION listing_search_query(query text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('english', string_agg(term || ':*', ' & '))
+  FROM regexp_split_to_table(lower(coalesce(query, '')), '[^[:alnum:]]+') AS term
+  WHERE term <> '';
+$$;
+
+CREATE OR REPLACE FUNCTION search_food_listings(query text, "limit" integer DEFAULT 20)
+RETURNS SETOF jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH terms AS (
+    SELECT trim(query) AS raw, listing_search_query(query) AS tsq
+  ),
+  matches AS (
+    SELECT
+      fl,
+      r,
+      coalesce(ts_rank(fl.search_vector, terms.tsq), 0)
+        + 0.5 * greatest(word_similarity(terms.raw, fl.food_item), word_similarity(terms.raw, r.name))
+        AS rank
+    FROM food_listings fl
+    JOIN restaurants r ON r.id = fl.restaurant_id
+    CROSS JOIN terms
+    WHERE terms.raw <> ''
+      AND fl.is_claimed = false
+      AND fl.archived_at IS NULL
+      AND fl.expired_at IS NULL
+      AND fl.pickup_end_time >= now()
+      AND (
+        fl.search_vector @@ terms.tsq
+        OR terms.raw <% fl.food_item
+        OR terms.raw <% r.name
+      )
+  )
+  SELECT to_jsonb(m.fl) || jsonb_build_object('restaurants', to_jsonb(m.r), 'rank', m.rank)
+  FROM matches m
+  ORDER BY m.rank DESC, (m.fl).created_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(search_food_listings."limit", 20), 1), 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_food_listings(text, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION query_food_listings(
+  search text DEFAULT NULL,
+  dietary text[] DEFAULT NULL,
+  restaurant_id uuid DEFAULT NULL,
+  pickup_from timestamptz DEFAULT NULL,
+  pickup_to timestamptz DEFAULT NULL,
+  lat double precision DEFAULT NULL,
+  lng double precision DEFAULT NULL,
+  radius_km double precision DEFAULT NULL,
+  include_unavailable boolean DEFAULT false,
+  sort text DEFAULT 'newest',
+  "limit" integer DEFAULT 20,
+  cursor jsonb DEFAULT NULL
+)
+RETURNS SETOF jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH origin AS (
+    SELECT CASE
+      WHEN lat IS NOT NULL AND lng IS NOT NULL
+        THEN ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography
+    END AS point
+  ),
+  terms AS (
+    SELECT nullif(trim(search), '') AS raw, listing_search_query(search) AS tsq
+  ),
+  candidates AS (
+    SELECT
+      fl,
+      r,
+      ST_Distance(r.location, origin.point) / 1000 AS distance_km
+    FROM food_listings fl
+    JOIN restaurants r ON r.id = fl.restaurant_id
+    CROSS JOIN origin
+    CROSS JOIN terms
+    WHERE fl.archived_at IS NULL
+      AND (
+        include_unavailable
+        OR (fl.is_claimed = false AND fl.expired_at IS NULL AND fl.pickup_end_time >= now())
+      )
+      AND (query_food_listings.restaurant_id IS NULL OR fl.restaurant_id = query_food_listings.restaurant_id)
+      AND (dietary IS NULL OR cardinality(dietary) = 0 OR fl.dietary_info @> dietary)
+      AND (pickup_from IS NULL OR fl.pickup_end_time >= pickup_from)
+      AND (pickup_to IS NULL OR fl.pickup_start_time <= pickup_to)
+      AND (
+        radius_km IS NULL
+        OR origin.point IS NULL
+        OR ST_DWithin(r.location, origin.point, radius_km * 1000)
+      )
+      AND (
+        terms.raw IS NULL
+        OR fl.search_vector @@ terms.tsq
+        OR terms.raw <% fl.food_item
+        OR terms.raw <% r.name
+      )
+  ),
+  keyed AS (
+    SELECT
+      c.*,
+      CASE
+        WHEN sort = 'distance' AND c.distance_km IS NOT NULL THEN c.distance_km
+        WHEN sort = 'ending_soon' THEN extract(epoch FROM (c.fl).pickup_end_time)::double precision
+        -- Newest first, expressed as an ascending key so every sort pages the same way
+        ELSE -extract(epoch FROM (c.fl).created_at)::double precision
+      END AS sort_key
+    FROM candidates c
+  )
+  SELECT
+    to_jsonb(k.fl)
+      || jsonb_build_object(
+        'restaurants', to_jsonb(k.r),
+        'distance_km', k.distance_km,
+        'sort_key', k.sort_key
+      )
+  FROM keyed k
+  WHERE cursor IS NULL
+    OR (k.sort_key, (k.fl).id) > ((cursor->>'sort_key')::double precision, (cursor->>'id')::uuid)
+  ORDER BY k.sort_key, (k.fl).id
+  LIMIT LEAST(GREATEST(COALESCE(query_food_listings."limit", 20), 1), 100);
+$$;
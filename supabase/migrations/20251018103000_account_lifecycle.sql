@@ -0,0 +1,172 @@
+/*
+  # Email verification for claims and self-service account deletion
+
+  1. Changes
+    - `claims.user_id` is now nullable and set to NULL when its user is
+      deleted (was ON DELETE CASCADE), so restaurants keep the history of what
+      was handed out. A NULL `user_id` marks an anonymised claim.
+
+  2. Functions
+    - `claim_food_listing(listing_id, portions)` now returns the
+      `email_not_verified` error until the caller has confirmed their email
+    - `delete_own_account()`
+      - Cancels the caller's open claims and returns their portions to the
+        listings, then strips the caller from all of their claims (`user_id`
+        and `notes`) and deletes the auth user; the `users` row follows
+        through its cascade
+      - Returns `owns_restaurants` while the caller still administers a
+        restaurant, since deleting them would delete the restaurant with them
+*/
+
+ALTER TABLE claims ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE claims DROP CONSTRAINT IF EXISTS claims_user_id_fkey;
+ALTER TABLE claims
+  ADD CONSTRAINT claims_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION claim_food_listing(listing_id uuid, portions integer DEFAULT 1)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claimer_id uuid := auth.uid();
+  target food_listings%ROWTYPE;
+  new_claim claims%ROWTYPE;
+  recent_claims integer;
+BEGIN
+  IF claimer_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required to claim food' USING ERRCODE = '42501';
+  END IF;
+
+  IF claim_food_listing.portions IS NULL OR claim_food_listing.portions < 1 THEN
+    RAISE EXCEPTION 'portions must be a positive integer' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = claimer_id AND email_confirmed_at IS NOT NULL
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'email_not_verified');
+  END IF;
+
+  -- Row lock serialises concurrent claims on the same listing
+  SELECT * INTO target
+  FROM food_listings
+  WHERE id = claim_food_listing.listing_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR target.archived_at IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_found');
+  END IF;
+
+  IF target.quantity_remaining = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'already_claimed');
+  END IF;
+
+  IF target.pickup_end_time < now() THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'expired');
+  END IF;
+
+  IF claim_food_listing.portions > target.quantity_remaining THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'error', 'insufficient_quantity',
+      'quantity_remaining', target.quantity_remaining
+    );
+  END IF;
+
+  SELECT count(*) INTO recent_claims
+  FROM claims
+  WHERE user_id = claimer_id
+    AND claimed_at > now() - interval '1 hour';
+
+  IF recent_claims >= 5 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'rate_limited');
+  END IF;
+
+  UPDATE food_listings
+  SET quantity_remaining = quantity_remaining - claim_food_listing.portions,
+      is_claimed = quantity_remaining - claim_food_listing.portions = 0,
+      claimed_by_user_id = CASE
+        WHEN quantity_remaining - claim_food_listing.portions = 0 THEN claimer_id
+        ELSE claimed_by_user_id
+      END,
+      claimed_at = CASE
+        WHEN quantity_remaining - claim_food_listing.portions = 0 THEN now()
+        ELSE claimed_at
+      END
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  INSERT INTO claims (food_listing_id, user_id, portions)
+  VALUES (target.id, claimer_id, claim_food_listing.portions)
+  RETURNING * INTO new_claim;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'listing', to_jsonb(target),
+    'claim', to_jsonb(new_claim)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_food_listing(uuid, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_food_listing(uuid, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION delete_own_account()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  anonymised integer;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM restaurants WHERE restaurant_admin_id = caller_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'owns_restaurants');
+  END IF;
+
+  -- Open claims are cancelled so their portions can be claimed by someone else
+  WITH cancelled AS (
+    UPDATE claims
+    SET status = 'cancelled_by_user',
+        status_changed_at = now()
+    WHERE user_id = caller_id
+      AND status IN ('reserved', 'confirmed_by_restaurant')
+    RETURNING food_listing_id, portions
+  ),
+  released AS (
+    SELECT food_listing_id, sum(portions)::integer AS portions
+    FROM cancelled
+    GROUP BY food_listing_id
+  )
+  UPDATE food_listings fl
+  SET quantity_remaining = LEAST(fl.quantity_total, fl.quantity_remaining + released.portions),
+      is_claimed = false,
+      claimed_by_user_id = NULL,
+      claimed_at = NULL
+  FROM released
+  WHERE fl.id = released.food_listing_id;
+
+  UPDATE claims
+  SET user_id = NULL,
+      notes = NULL
+  WHERE user_id = caller_id;
+  GET DIAGNOSTICS anonymised = ROW_COUNT;
+
+  DELETE FROM auth.users WHERE id = caller_id;
+
+  RETURN jsonb_build_object('ok', true, 'anonymised_claims', anonymised);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION delete_own_account() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION delete_own_account() TO authenticated;
@@ -0,0 +1,730 @@
+/*
+  # Restaurant teams
+
+  1. New Tables
+    - `restaurant_members` – who works at a restaurant and in which role
+      - `owner` – full control, including team roles
+      - `manager` – edits the restaurant and invites or removes staff
+      - `staff` – posts listings, handles claims and verifies pickups
+    - `restaurant_invitations` – pending invitations, addressed to an email
+      (which may not have an account yet) or to an existing username.
+      Accepted and declined invitations are deleted.
+
+  2. Changes
+    - Each restaurant's `restaurant_admin_id` becomes its first owner, and new
+      restaurants get their creator as owner through a trigger
+    - `restaurants.restaurant_admin_id` now only records who created the
+      restaurant. It is set to NULL when that account is deleted, instead of
+      deleting the restaurant with it.
+
+  3. Functions
+    - `is_restaurant_member(restaurant_id, roles)` – whether the caller belongs
+      to a restaurant, optionally in one of `roles`; used by the policies below
+    - `confirmed_email()` – the caller's email once they have confirmed it
+    - `invite_restaurant_member(restaurant_id, invitee, role)` – `invitee` is
+      an email address or a username. Owners can invite any role, managers
+      only staff.
+    - `accept_restaurant_invitation(invitation_id)` – also switches a `user`
+      account to `restaurant_admin` so it gets the restaurant dashboard.
+      Invitations sent to an email return `email_not_verified` until the
+      caller has confirmed that address. Existing members get
+      `already_member` and the invitation is discarded.
+    - `cancel_restaurant_invitation(invitation_id)` – declined by the invitee
+      or revoked by the restaurant
+    - `update_restaurant_member_role(restaurant_id, user_id, role)` – owners only
+    - `remove_restaurant_member(restaurant_id, user_id)` – owners remove anyone,
+      managers remove staff, and every member can remove themselves
+    - A restaurant always keeps at least one owner (`last_owner` error)
+    - `transition_claim`, `verify_pickup` and `delete_own_account` check
+      membership instead of `restaurant_admin_id`
+
+  4. Security
+    - Restaurant, listing and claim policies for restaurant staff now go
+      through membership. Claims stay read-only for staff; they change only
+      through `transition_claim` and `verify_pickup`.
+    - Members can see each other's profiles
+*/
+
+DO $$
+BEGIN
+  CREATE TYPE restaurant_member_role AS ENUM ('owner', 'manager', 'staff');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS restaurant_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role restaurant_member_role NOT NULL DEFAULT 'staff',
+  invited_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (restaurant_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_restaurant_members_user ON restaurant_members(user_id);
+
+CREATE TABLE IF NOT EXISTS restaurant_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  email text,
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  role restaurant_member_role NOT NULL DEFAULT 'staff',
+  invited_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '7 days',
+  CONSTRAINT restaurant_invitations_invitee CHECK (email IS NOT NULL OR user_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_restaurant_invitations_restaurant ON restaurant_invitations(restaurant_id);
+CREATE INDEX IF NOT EXISTS idx_restaurant_invitations_user ON restaurant_invitations(user_id);
+CREATE INDEX IF NOT EXISTS idx_restaurant_invitations_email ON restaurant_invitations(email);
+
+ALTER TABLE restaurant_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE restaurant_invitations ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO restaurant_members (restaurant_id, user_id, role)
+SELECT id, restaurant_admin_id, 'owner'
+FROM restaurants
+WHERE restaurant_admin_id IS NOT NULL
+ON CONFLICT (restaurant_id, user_id) DO NOTHING;
+
+ALTER TABLE restaurants ALTER COLUMN restaurant_admin_id DROP NOT NULL;
+
+ALTER TABLE restaurants DROP CONSTRAINT IF EXISTS restaurants_restaurant_admin_id_fkey;
+ALTER TABLE restaurants
+  ADD CONSTRAINT restaurants_restaurant_admin_id_fkey
+  FOREIGN KEY (restaurant_admin_id) REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION add_restaurant_creator_as_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.restaurant_admin_id IS NOT NULL THEN
+    INSERT INTO restaurant_members (restaurant_id, user_id, role)
+    VALUES (NEW.id, NEW.restaurant_admin_id, 'owner')
+    ON CONFLICT (restaurant_id, user_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS restaurants_add_creator_as_owner ON restaurants;
+CREATE TRIGGER restaurants_add_creator_as_owner
+  AFTER INSERT ON restaurants
+  FOR EACH ROW
+  EXECUTE FUNCTION add_restaurant_creator_as_owner();
+
+-- SECURITY DEFINER so policies on restaurant_members itself can call it
+CREATE OR REPLACE FUNCTION is_restaurant_member(
+  restaurant_id uuid,
+  roles restaurant_member_role[] DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM restaurant_members m
+    WHERE m.restaurant_id = is_restaurant_member.restaurant_id
+      AND m.user_id = auth.uid()
+      AND (is_restaurant_member.roles IS NULL OR m.role = ANY(is_restaurant_member.roles))
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_restaurant_member(uuid, restaurant_member_role[]) TO authenticated;
+
+-- Anyone can sign up with an invited address, so email invitations only
+-- count for whoever has confirmed it
+CREATE OR REPLACE FUNCTION confirmed_email()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lower(email) FROM auth.users
+  WHERE id = auth.uid() AND email_confirmed_at IS NOT NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION confirmed_email() TO authenticated;
+
+-- Membership and invitations change only through the functions below
+CREATE POLICY "Restaurant members can view their team"
+  ON restaurant_members
+  FOR SELECT
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id));
+
+CREATE POLICY "Restaurant managers and invitees can view invitations"
+  ON restaurant_invitations
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_restaurant_member(restaurant_id, ARRAY['owner', 'manager']::restaurant_member_role[])
+    OR user_id = auth.uid()
+    OR email = confirmed_email()
+  );
+
+CREATE POLICY "Restaurant members can view teammates' profiles"
+  ON users
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM restaurant_members m
+      WHERE m.user_id = users.id AND is_restaurant_member(m.restaurant_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Restaurant admins can manage their restaurants" ON restaurants;
+
+CREATE POLICY "Restaurant admins can create restaurants"
+  ON restaurants
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (restaurant_admin_id = auth.uid());
+
+CREATE POLICY "Restaurant owners and managers can update their restaurants"
+  ON restaurants
+  FOR UPDATE
+  TO authenticated
+  USING (is_restaurant_member(id, ARRAY['owner', 'manager']::restaurant_member_role[]));
+
+CREATE POLICY "Restaurant owners can delete their restaurants"
+  ON restaurants
+  FOR DELETE
+  TO authenticated
+  USING (is_restaurant_member(id, ARRAY['owner']::restaurant_member_role[]));
+
+DROP POLICY IF EXISTS "Restaurant admins can view their food listings" ON food_listings;
+DROP POLICY IF EXISTS "Restaurant admins can create food listings" ON food_listings;
+DROP POLICY IF EXISTS "Restaurant admins can update unclaimed food listings" ON food_listings;
+
+CREATE POLICY "Restaurant members can view their food listings"
+  ON food_listings
+  FOR SELECT
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id));
+
+CREATE POLICY "Restaurant members can create food listings"
+  ON food_listings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_restaurant_member(restaurant_id));
+
+CREATE POLICY "Restaurant members can update unclaimed food listings"
+  ON food_listings
+  FOR UPDATE
+  TO authenticated
+  USING (
+    quantity_remaining = quantity_total
+    AND archived_at IS NULL
+    AND is_restaurant_member(restaurant_id)
+  )
+  WITH CHECK (is_restaurant_member(restaurant_id));
+
+DROP POLICY IF EXISTS "Restaurant admins can view claims for their listings" ON claims;
+DROP POLICY IF EXISTS "Restaurant admins can update claims for their listings" ON claims;
+
+CREATE POLICY "Restaurant members can view claims for their listings"
+  ON claims
+  FOR SELECT
+  TO authenticated
+  USING (
+    food_listing_id IN (
+      SELECT fl.id FROM food_listings fl
+      WHERE is_restaurant_member(fl.restaurant_id)
+    )
+  );
+
+CREATE OR REPLACE FUNCTION invite_restaurant_member(
+  restaurant_id uuid,
+  invitee text,
+  role restaurant_member_role DEFAULT 'staff'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  caller_role restaurant_member_role;
+  invitee_email text;
+  invitee_id uuid;
+  invitee_confirmed_email text;
+  invitation restaurant_invitations%ROWTYPE;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT m.role INTO caller_role
+  FROM restaurant_members m
+  WHERE m.restaurant_id = invite_restaurant_member.restaurant_id
+    AND m.user_id = caller_id;
+
+  IF caller_role IS NULL
+     OR caller_role = 'staff'
+     OR (caller_role = 'manager' AND invite_restaurant_member.role <> 'staff') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  -- An email may belong to someone who has not signed up yet; a username must exist
+  IF position('@' IN invitee) > 0 THEN
+    invitee_email := lower(trim(invitee));
+    SELECT id INTO invitee_id FROM auth.users
+    WHERE lower(email) = invitee_email AND email_confirmed_at IS NOT NULL;
+  ELSE
+    SELECT id INTO invitee_id FROM users WHERE lower(username) = lower(trim(invitee));
+    IF invitee_id IS NULL THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'user_not_found');
+    END IF;
+  END IF;
+
+  IF invitee_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM restaurant_members m
+    WHERE m.restaurant_id = invite_restaurant_member.restaurant_id
+      AND m.user_id = invitee_id
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'already_member');
+  END IF;
+
+  -- The same person may already be invited by their email or their username
+  SELECT lower(email) INTO invitee_confirmed_email
+  FROM auth.users
+  WHERE id = invitee_id AND email_confirmed_at IS NOT NULL;
+
+  IF EXISTS (
+    SELECT 1 FROM restaurant_invitations i
+    WHERE i.restaurant_id = invite_restaurant_member.restaurant_id
+      AND i.expires_at > now()
+      AND (i.user_id = invitee_id OR i.email = invitee_email OR i.email = invitee_confirmed_email)
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'already_invited');
+  END IF;
+
+  INSERT INTO restaurant_invitations (restaurant_id, email, user_id, role, invited_by)
+  VALUES (invite_restaurant_member.restaurant_id, invitee_email, invitee_id, invite_restaurant_member.role, caller_id)
+  RETURNING * INTO invitation;
+
+  RETURN jsonb_build_object('ok', true, 'invitation', to_jsonb(invitation));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION invite_restaurant_member(uuid, text, restaurant_member_role) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION invite_restaurant_member(uuid, text, restaurant_member_role) TO authenticated;
+
+CREATE OR REPLACE FUNCTION accept_restaurant_invitation(invitation_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  caller_email text;
+  email_confirmed boolean;
+  invitation restaurant_invitations%ROWTYPE;
+  member restaurant_members%ROWTYPE;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT lower(email), email_confirmed_at IS NOT NULL
+  INTO caller_email, email_confirmed
+  FROM auth.users WHERE id = caller_id;
+
+  SELECT * INTO invitation
+  FROM restaurant_invitations
+  WHERE id = accept_restaurant_invitation.invitation_id
+    AND (user_id = caller_id OR email = caller_email)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_found');
+  END IF;
+
+  IF invitation.email IS NOT NULL AND NOT email_confirmed THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'email_not_verified');
+  END IF;
+
+  IF invitation.expires_at <= now() THEN
+    DELETE FROM restaurant_invitations WHERE id = invitation.id;
+    RETURN jsonb_build_object('ok', false, 'error', 'invitation_expired');
+  END IF;
+
+  -- A leftover invitation must not change an existing member's role; that
+  -- goes through update_restaurant_member_role and its last_owner check
+  IF EXISTS (
+    SELECT 1 FROM restaurant_members m
+    WHERE m.restaurant_id = invitation.restaurant_id AND m.user_id = caller_id
+  ) THEN
+    DELETE FROM restaurant_invitations WHERE id = invitation.id;
+    RETURN jsonb_build_object('ok', false, 'error', 'already_member');
+  END IF;
+
+  INSERT INTO restaurant_members (restaurant_id, user_id, role, invited_by)
+  VALUES (invitation.restaurant_id, caller_id, invitation.role, invitation.invited_by)
+  RETURNING * INTO member;
+
+  DELETE FROM restaurant_invitations WHERE id = invitation.id;
+
+  UPDATE users
+  SET role = 'restaurant_admin',
+      updated_at = now()
+  WHERE id = caller_id AND role = 'user';
+
+  RETURN jsonb_build_object('ok', true, 'member', to_jsonb(member));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION accept_restaurant_invitation(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION accept_restaurant_invitation(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION cancel_restaurant_invitation(invitation_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  invitation restaurant_invitations%ROWTYPE;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO invitation
+  FROM restaurant_invitations
+  WHERE id = cancel_restaurant_invitation.invitation_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_found');
+  END IF;
+
+  IF NOT (
+    invitation.user_id = caller_id
+    OR invitation.email = confirmed_email()
+    OR is_restaurant_member(invitation.restaurant_id, ARRAY['owner', 'manager']::restaurant_member_role[])
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  DELETE FROM restaurant_invitations WHERE id = invitation.id;
+
+  RETURN jsonb_build_object('ok', true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION cancel_restaurant_invitation(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION cancel_restaurant_invitation(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION update_restaurant_member_role(
+  restaurant_id uuid,
+  user_id uuid,
+  role restaurant_member_role
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target restaurant_members%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT is_restaurant_member(update_restaurant_member_role.restaurant_id, ARRAY['owner']::restaurant_member_role[]) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  SELECT * INTO target
+  FROM restaurant_members m
+  WHERE m.restaurant_id = update_restaurant_member_role.restaurant_id
+    AND m.user_id = update_restaurant_member_role.user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_found');
+  END IF;
+
+  IF target.role = 'owner' AND update_restaurant_member_role.role <> 'owner' AND NOT EXISTS (
+    SELECT 1 FROM restaurant_members m
+    WHERE m.restaurant_id = target.restaurant_id
+      AND m.role = 'owner'
+      AND m.id <> target.id
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'last_owner');
+  END IF;
+
+  UPDATE restaurant_members
+  SET role = update_restaurant_member_role.role
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  RETURN jsonb_build_object('ok', true, 'member', to_jsonb(target));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION update_restaurant_member_role(uuid, uuid, restaurant_member_role) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION update_restaurant_member_role(uuid, uuid, restaurant_member_role) TO authenticated;
+
+CREATE OR REPLACE FUNCTION remove_restaurant_member(restaurant_id uuid, user_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  target restaurant_members%ROWTYPE;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO target
+  FROM restaurant_members m
+  WHERE m.restaurant_id = remove_restaurant_member.restaurant_id
+    AND m.user_id = remove_restaurant_member.user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_found');
+  END IF;
+
+  IF NOT (
+    target.user_id = caller_id
+    OR is_restaurant_member(target.restaurant_id, ARRAY['owner']::restaurant_member_role[])
+    OR (target.role = 'staff' AND is_restaurant_member(target.restaurant_id, ARRAY['manager']::restaurant_member_role[]))
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  IF target.role = 'owner' AND NOT EXISTS (
+    SELECT 1 FROM restaurant_members m
+    WHERE m.restaurant_id = target.restaurant_id
+      AND m.role = 'owner'
+      AND m.id <> target.id
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'last_owner');
+  END IF;
+
+  DELETE FROM restaurant_members WHERE id = target.id;
+
+  RETURN jsonb_build_object('ok', true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION remove_restaurant_member(uuid, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION remove_restaurant_member(uuid, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION verify_pickup(restaurant_id uuid, code text, claim_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  target claims%ROWTYPE;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT is_restaurant_member(verify_pickup.restaurant_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  -- Prefer open claims when a code has been reused by an older, closed claim
+  SELECT c.* INTO target
+  FROM claims c
+  JOIN food_listings fl ON fl.id = c.food_listing_id
+  WHERE fl.restaurant_id = verify_pickup.restaurant_id
+    AND c.pickup_code = upper(trim(verify_pickup.code))
+    AND (verify_pickup.claim_id IS NULL OR c.id = verify_pickup.claim_id)
+  ORDER BY (c.status IN ('reserved', 'confirmed_by_restaurant')) DESC, c.claimed_at DESC
+  LIMIT 1
+  FOR UPDATE OF c;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_found');
+  END IF;
+
+  IF target.status NOT IN ('reserved', 'confirmed_by_restaurant') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'invalid_transition');
+  END IF;
+
+  UPDATE claims
+  SET status = 'picked_up',
+      status_changed_at = now(),
+      pickup_completed = true,
+      pickup_completed_at = now(),
+      verified_by_user_id = caller_id
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  RETURN jsonb_build_object('ok', true, 'claim', to_jsonb(target));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION transition_claim(claim_id uuid, next_status claim_status)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  target claims%ROWTYPE;
+  listing food_listings%ROWTYPE;
+  is_claimer boolean;
+  is_restaurant boolean;
+  allowed claim_status[];
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO target
+  FROM claims
+  WHERE id = transition_claim.claim_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_found');
+  END IF;
+
+  SELECT * INTO listing
+  FROM food_listings
+  WHERE id = target.food_listing_id
+  FOR UPDATE;
+
+  -- Anonymised claims have no claimer
+  is_claimer := COALESCE(target.user_id = caller_id, false);
+  is_restaurant := is_restaurant_member(listing.restaurant_id);
+
+  IF NOT is_claimer AND NOT is_restaurant THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  -- picked_up is reachable only through verify_pickup
+  allowed := CASE target.status
+    WHEN 'reserved' THEN ARRAY[
+      'confirmed_by_restaurant', 'cancelled_by_user',
+      'cancelled_by_restaurant', 'no_show', 'expired'
+    ]::claim_status[]
+    WHEN 'confirmed_by_restaurant' THEN ARRAY[
+      'cancelled_by_user', 'cancelled_by_restaurant', 'no_show', 'expired'
+    ]::claim_status[]
+    ELSE ARRAY[]::claim_status[]
+  END;
+
+  IF NOT transition_claim.next_status = ANY(allowed) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'invalid_transition');
+  END IF;
+
+  IF transition_claim.next_status = 'cancelled_by_user' AND NOT is_claimer THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  IF transition_claim.next_status IN ('confirmed_by_restaurant', 'cancelled_by_restaurant', 'no_show', 'expired')
+     AND NOT is_restaurant THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  UPDATE claims
+  SET status = transition_claim.next_status,
+      status_changed_at = now()
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  -- Portions from cancelled or expired claims go back into circulation
+  IF transition_claim.next_status IN ('cancelled_by_user', 'cancelled_by_restaurant', 'expired') THEN
+    UPDATE food_listings
+    SET quantity_remaining = LEAST(quantity_total, quantity_remaining + target.portions),
+        is_claimed = false,
+        claimed_by_user_id = NULL,
+        claimed_at = NULL
+    WHERE id = listing.id;
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'claim', to_jsonb(target));
+END;
+$$;
+
+-- Only a sole owner blocks deletion; co-owned restaurants simply lose a member
+CREATE OR REPLACE FUNCTION delete_own_account()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  anonymised integer;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM restaurant_members m
+    WHERE m.user_id = caller_id
+      AND m.role = 'owner'
+      AND NOT EXISTS (
+        SELECT 1 FROM restaurant_members o
+        WHERE o.restaurant_id = m.restaurant_id
+          AND o.role = 'owner'
+          AND o.user_id <> caller_id
+      )
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'owns_restaurants');
+  END IF;
+
+  -- Open claims are cancelled so their portions can be claimed by someone else
+  WITH cancelled AS (
+    UPDATE claims
+    SET status = 'cancelled_by_user',
+        status_changed_at = now()
+    WHERE user_id = caller_id
+      AND status IN ('reserved', 'confirmed_by_restaurant')
+    RETURNING food_listing_id, portions
+  ),
+  released AS (
+    SELECT food_listing_id, sum(portions)::integer AS portions
+    FROM cancelled
+    GROUP BY food_listing_id
+  )
+  UPDATE food_listings fl
+  SET quantity_remaining = LEAST(fl.quantity_total, fl.quantity_remaining + released.portions),
+      is_claimed = false,
+      claimed_by_user_id = NULL,
+      claimed_at = NULL
+  FROM released
+  WHERE fl.id = released.food_listing_id;
+
+  UPDATE claims
+  SET user_id = NULL,
+      notes = NULL
+  WHERE user_id = caller_id;
+  GET DIAGNOSTICS anonymised = ROW_COUNT;
+
+  DELETE FROM auth.users WHERE id = caller_id;
+
+  RETURN jsonb_build_object('ok', true, 'anonymised_claims', anonymised);
+END;
+$$;
@@ -0,0 +1,10 @@
+/*
+  # Platform admin role
+
+  1. Changes
+    - Adds `platform_admin` to the `user_role` enum for the people who review
+      restaurants. It lives in its own migration because a new enum value
+      cannot be used in the transaction that adds it.
+*/
+
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'platform_admin';
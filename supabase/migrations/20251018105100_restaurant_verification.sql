@@ -0,0 +1,486 @@
+/*
+  # Restaurant verification
+
+  1. New Tables
+    - `restaurant_documents` – files a restaurant uploads to prove it is a real
+      business (licences, hygiene certificates, ...). The files themselves live
+      in the private `restaurant-documents` storage bucket under
+      `<restaurant_id>/`.
+    - `audit_log` – append-only record of platform admin decisions. Rows are
+      only written by the functions below.
+
+  2. Changes
+    - `restaurants.verification_status` (`pending`, `approved`, `rejected`),
+      plus `rejection_reason`, `reviewed_at` and `reviewed_by`.
+      `is_verified` is kept in sync and stays true only for approved
+      restaurants.
+    - Restaurants that were already `is_verified` start out approved; the
+      other existing restaurants start out pending and appear in the review
+      queue
+    - New restaurants always start pending, and restaurant members cannot
+      change the verification columns themselves
+    - Only the service role can make someone a `platform_admin`
+
+  3. Functions
+    - `is_platform_admin()` – whether the caller is a platform admin; used by
+      the policies below
+    - `review_restaurant(restaurant_id, decision, reason)` – platform admins
+      approve or reject a pending restaurant. Rejecting requires a reason.
+    - `request_restaurant_review(restaurant_id)` – owners and managers put a
+      rejected restaurant back in the queue after fixing its documents
+    - Both decisions are written to `audit_log`
+    - `claim_food_listing(listing_id, portions)` returns `not_found` for
+      listings of restaurants that are not approved
+
+  4. Security
+    - Listings of unverified restaurants are only visible to the restaurant's
+      members and platform admins
+    - Platform admins can read every restaurant's documents, every profile
+      and the audit log
+*/
+
+DO $$
+BEGIN
+  CREATE TYPE restaurant_verification_status AS ENUM ('pending', 'approved', 'rejected');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+ALTER TABLE restaurants
+  ADD COLUMN IF NOT EXISTS verification_status restaurant_verification_status NOT NULL DEFAULT 'pending',
+  ADD COLUMN IF NOT EXISTS rejection_reason text,
+  ADD COLUMN IF NOT EXISTS reviewed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES users(id) ON DELETE SET NULL;
+
+-- Partners verified before this migration stay live; only the rest are queued
+UPDATE restaurants
+SET verification_status = 'approved',
+    reviewed_at = now()
+WHERE is_verified;
+
+UPDATE restaurants SET is_verified = false WHERE verification_status <> 'approved';
+
+CREATE INDEX IF NOT EXISTS restaurants_pending_review_idx
+  ON restaurants (created_at)
+  WHERE verification_status = 'pending';
+
+CREATE TABLE IF NOT EXISTS restaurant_documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  file_path text NOT NULL UNIQUE,
+  file_name text NOT NULL,
+  document_type text NOT NULL DEFAULT 'other',
+  uploaded_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS restaurant_documents_restaurant_idx
+  ON restaurant_documents (restaurant_id, created_at);
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  action text NOT NULL,
+  entity_type text NOT NULL,
+  entity_id uuid NOT NULL,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_entity_idx ON audit_log (entity_type, entity_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_created_at_idx ON audit_log (created_at DESC);
+
+ALTER TABLE restaurant_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- SECURITY DEFINER so policies on users itself can call it
+CREATE OR REPLACE FUNCTION is_platform_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users u
+    WHERE u.id = auth.uid() AND u.role = 'platform_admin'
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_platform_admin() TO authenticated;
+
+-- Profiles are inserted and updated by their owners, so without this anyone
+-- could promote themselves. Platform admins are appointed with the service role.
+CREATE OR REPLACE FUNCTION guard_platform_admin_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND NEW.role = 'platform_admin'
+     AND (TG_OP = 'INSERT' OR OLD.role IS DISTINCT FROM NEW.role) THEN
+    RAISE EXCEPTION 'Only the service role can appoint platform admins' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS users_guard_platform_admin_role ON users;
+CREATE TRIGGER users_guard_platform_admin_role
+  BEFORE INSERT OR UPDATE OF role ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_platform_admin_role();
+
+-- Members edit their restaurant directly, so verification columns are reset
+-- unless the change comes from the review functions (or the service role)
+CREATE OR REPLACE FUNCTION guard_restaurant_verification()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR current_setting('app.restaurant_review', true) = 'on' THEN
+    NEW.is_verified := NEW.verification_status = 'approved';
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.verification_status := 'pending';
+    NEW.is_verified := false;
+    NEW.rejection_reason := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.reviewed_by := NULL;
+  ELSE
+    NEW.verification_status := OLD.verification_status;
+    NEW.is_verified := OLD.is_verified;
+    NEW.rejection_reason := OLD.rejection_reason;
+    NEW.reviewed_at := OLD.reviewed_at;
+    NEW.reviewed_by := OLD.reviewed_by;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS restaurants_guard_verification ON restaurants;
+CREATE TRIGGER restaurants_guard_verification
+  BEFORE INSERT OR UPDATE ON restaurants
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_restaurant_verification();
+
+-- Listings of unverified restaurants stay visible to their own members
+-- through "Restaurant members can view their food listings"
+DROP POLICY IF EXISTS "Anyone can view available food listings" ON food_listings;
+
+CREATE POLICY "Anyone can view listings of verified restaurants"
+  ON food_listings
+  FOR SELECT
+  TO authenticated
+  USING (
+    restaurant_id IN (SELECT id FROM restaurants WHERE is_verified = true)
+  );
+
+CREATE POLICY "Platform admins can view all food listings"
+  ON food_listings
+  FOR SELECT
+  TO authenticated
+  USING (is_platform_admin());
+
+CREATE POLICY "Platform admins can view all profiles"
+  ON users
+  FOR SELECT
+  TO authenticated
+  USING (is_platform_admin());
+
+CREATE POLICY "Restaurant members and platform admins can view documents"
+  ON restaurant_documents
+  FOR SELECT
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id) OR is_platform_admin());
+
+CREATE POLICY "Restaurant owners and managers can upload documents"
+  ON restaurant_documents
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    uploaded_by = auth.uid()
+    AND is_restaurant_member(restaurant_id, ARRAY['owner', 'manager']::restaurant_member_role[])
+  );
+
+CREATE POLICY "Restaurant owners and managers can delete documents"
+  ON restaurant_documents
+  FOR DELETE
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id, ARRAY['owner', 'manager']::restaurant_member_role[]));
+
+CREATE POLICY "Platform admins can view the audit log"
+  ON audit_log
+  FOR SELECT
+  TO authenticated
+  USING (is_platform_admin());
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('restaurant-documents', 'restaurant-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Object names start with the restaurant id, e.g. `<restaurant_id>/<uuid>-licence.pdf`
+CREATE POLICY "Restaurant owners and managers can upload document files"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'restaurant-documents'
+    AND is_restaurant_member(
+      ((storage.foldername(name))[1])::uuid,
+      ARRAY['owner', 'manager']::restaurant_member_role[]
+    )
+  );
+
+CREATE POLICY "Restaurant members and platform admins can read document files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'restaurant-documents'
+    AND (
+      is_restaurant_member(((storage.foldername(name))[1])::uuid)
+      OR is_platform_admin()
+    )
+  );
+
+CREATE POLICY "Restaurant owners and managers can delete document files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'restaurant-documents'
+    AND is_restaurant_member(
+      ((storage.foldername(name))[1])::uuid,
+      ARRAY['owner', 'manager']::restaurant_member_role[]
+    )
+  );
+
+CREATE OR REPLACE FUNCTION review_restaurant(
+  restaurant_id uuid,
+  decision restaurant_verification_status,
+  reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  target restaurants%ROWTYPE;
+  clean_reason text := NULLIF(trim(review_restaurant.reason), '');
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT is_platform_admin() THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  IF review_restaurant.decision = 'pending' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'invalid_decision');
+  END IF;
+
+  IF review_restaurant.decision = 'rejected' AND clean_reason IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'reason_required');
+  END IF;
+
+  SELECT * INTO target
+  FROM restaurants r
+  WHERE r.id = review_restaurant.restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_found');
+  END IF;
+
+  IF target.verification_status <> 'pending' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'already_reviewed');
+  END IF;
+
+  PERFORM set_config('app.restaurant_review', 'on', true);
+
+  UPDATE restaurants r
+  SET verification_status = review_restaurant.decision,
+      rejection_reason = CASE WHEN review_restaurant.decision = 'rejected' THEN clean_reason END,
+      reviewed_at = now(),
+      reviewed_by = caller_id,
+      updated_at = now()
+  WHERE r.id = target.id
+  RETURNING * INTO target;
+
+  PERFORM set_config('app.restaurant_review', 'off', true);
+
+  INSERT INTO audit_log (actor_id, action, entity_type, entity_id, details)
+  VALUES (
+    caller_id,
+    CASE WHEN review_restaurant.decision = 'approved' THEN 'restaurant.approved' ELSE 'restaurant.rejected' END,
+    'restaurant',
+    target.id,
+    jsonb_strip_nulls(jsonb_build_object('restaurant_name', target.name, 'reason', clean_reason))
+  );
+
+  RETURN jsonb_build_object('ok', true, 'restaurant', to_jsonb(target));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION review_restaurant(uuid, restaurant_verification_status, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION review_restaurant(uuid, restaurant_verification_status, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION request_restaurant_review(restaurant_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  target restaurants%ROWTYPE;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT is_restaurant_member(request_restaurant_review.restaurant_id, ARRAY['owner', 'manager']::restaurant_member_role[]) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  SELECT * INTO target
+  FROM restaurants r
+  WHERE r.id = request_restaurant_review.restaurant_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_found');
+  END IF;
+
+  IF target.verification_status <> 'rejected' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'already_reviewed');
+  END IF;
+
+  PERFORM set_config('app.restaurant_review', 'on', true);
+
+  UPDATE restaurants r
+  SET verification_status = 'pending',
+      updated_at = now()
+  WHERE r.id = target.id
+  RETURNING * INTO target;
+
+  PERFORM set_config('app.restaurant_review', 'off', true);
+
+  INSERT INTO audit_log (actor_id, action, entity_type, entity_id, details)
+  VALUES (
+    caller_id,
+    'restaurant.resubmitted',
+    'restaurant',
+    target.id,
+    jsonb_build_object('restaurant_name', target.name)
+  );
+
+  RETURN jsonb_build_object('ok', true, 'restaurant', to_jsonb(target));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION request_restaurant_review(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION request_restaurant_review(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION claim_food_listing(listing_id uuid, portions integer DEFAULT 1)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claimer_id uuid := auth.uid();
+  target food_listings%ROWTYPE;
+  new_claim claims%ROWTYPE;
+  recent_claims integer;
+BEGIN
+  IF claimer_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required to claim food' USING ERRCODE = '42501';
+  END IF;
+
+  IF claim_food_listing.portions IS NULL OR claim_food_listing.portions < 1 THEN
+    RAISE EXCEPTION 'portions must be a positive integer' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = claimer_id AND email_confirmed_at IS NOT NULL
+  ) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'email_not_verified');
+  END IF;
+
+  -- Row lock serialises concurrent claims on the same listing. Listings of
+  -- unverified restaurants are hidden, so they cannot be claimed either.
+  SELECT fl.* INTO target
+  FROM food_listings fl
+  JOIN restaurants r ON r.id = fl.restaurant_id
+  WHERE fl.id = claim_food_listing.listing_id
+    AND r.verification_status = 'approved'
+  FOR UPDATE OF fl;
+
+  IF NOT FOUND OR target.archived_at IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_found');
+  END IF;
+
+  IF target.quantity_remaining = 0 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'already_claimed');
+  END IF;
+
+  IF target.pickup_end_time < now() THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'expired');
+  END IF;
+
+  IF claim_food_listing.portions > target.quantity_remaining THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'error', 'insufficient_quantity',
+      'quantity_remaining', target.quantity_remaining
+    );
+  END IF;
+
+  SELECT count(*) INTO recent_claims
+  FROM claims
+  WHERE user_id = claimer_id
+    AND claimed_at > now() - interval '1 hour';
+
+  IF recent_claims >= 5 THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'rate_limited');
+  END IF;
+
+  UPDATE food_listings
+  SET quantity_remaining = quantity_remaining - claim_food_listing.portions,
+      is_claimed = quantity_remaining - claim_food_listing.portions = 0,
+      claimed_by_user_id = CASE
+        WHEN quantity_remaining - claim_food_listing.portions = 0 THEN claimer_id
+        ELSE claimed_by_user_id
+      END,
+      claimed_at = CASE
+        WHEN quantity_remaining - claim_food_listing.portions = 0 THEN now()
+        ELSE claimed_at
+      END
+  WHERE id = target.id
+  RETURNING * INTO target;
+
+  INSERT INTO claims (food_listing_id, user_id, portions)
+  VALUES (target.id, claimer_id, claim_food_listing.portions)
+  RETURNING * INTO new_claim;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'listing', to_jsonb(target),
+    'claim', to_jsonb(new_claim)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_food_listing(uuid, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_food_listing(uuid, integer) TO authenticated;
@@ -0,0 +1,307 @@
+/*
+  # Recurring listing templates
+
+  1. New Tables
+    - `listing_templates` – a listing a restaurant posts on a schedule, e.g.
+      "pastries, 10 portions, 20:00–21:00, every day". Pickup times are wall
+      clock times in the template's `timezone`. `publish_lead_minutes` is how
+      long before pickup starts the listing goes live.
+    - `listing_template_occurrences` – one row per occurrence that was skipped,
+      edited or already generated. Edits only apply to occurrences that have
+      not been generated yet; a NULL override keeps the template's value.
+
+  2. Changes
+    - `food_listings.template_id` – the template a listing was generated from
+
+  3. Functions
+    - `recurrence_occurs_on(rule, starts_on, on_date)` – evaluates the subset
+      of RFC 5545 RRULEs the app offers: `FREQ=DAILY|WEEKLY|MONTHLY` with
+      `INTERVAL`, `BYDAY` (daily and weekly rules), `BYMONTHDAY` (monthly
+      rules) and `UNTIL`. Anything else raises, which also makes it the
+      validation check on `listing_templates.recurrence_rule`. Mirrored by
+      `src/lib/recurrence.ts`.
+    - `generate_recurring_listings()` – creates the listings whose publish time
+      has come and whose pickup window is still open. Paused templates and
+      skipped occurrences are left out, and every occurrence is generated at
+      most once. Returns `{ "listings_generated": n }`.
+
+  4. Scheduling
+    - When `pg_cron` is available the generator runs every five minutes as job
+      `generate-recurring-listings`; otherwise run
+      `SELECT generate_recurring_listings();` from an external scheduler
+
+  5. Security
+    - Every restaurant member can manage its templates, matching who can post
+      listings by hand
+*/
+
+CREATE OR REPLACE FUNCTION recurrence_occurs_on(rule text, starts_on date, on_date date)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  part text;
+  freq text;
+  step integer := 1;
+  by_day text[];
+  by_month_day integer[];
+  until_date date;
+  weekdays constant text[] := ARRAY['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+  month_length integer;
+  months_apart integer;
+BEGIN
+  FOREACH part IN ARRAY string_to_array(regexp_replace(upper(trim(rule)), '^RRULE:', ''), ';') LOOP
+    CASE split_part(part, '=', 1)
+      WHEN 'FREQ' THEN freq := split_part(part, '=', 2);
+      WHEN 'INTERVAL' THEN step := split_part(part, '=', 2)::integer;
+      WHEN 'BYDAY' THEN by_day := string_to_array(split_part(part, '=', 2), ',');
+      WHEN 'BYMONTHDAY' THEN by_month_day := string_to_array(split_part(part, '=', 2), ',')::integer[];
+      WHEN 'UNTIL' THEN until_date := to_date(left(split_part(part, '=', 2), 8), 'YYYYMMDD');
+      WHEN 'WKST' THEN NULL;
+      ELSE RAISE EXCEPTION 'Unsupported recurrence rule part "%"', part USING ERRCODE = '22023';
+    END CASE;
+  END LOOP;
+
+  IF freq IS NULL OR freq NOT IN ('DAILY', 'WEEKLY', 'MONTHLY') THEN
+    RAISE EXCEPTION 'Recurrence rule needs FREQ=DAILY, WEEKLY or MONTHLY' USING ERRCODE = '22023';
+  END IF;
+  IF step < 1 THEN
+    RAISE EXCEPTION 'Recurrence INTERVAL must be at least 1' USING ERRCODE = '22023';
+  END IF;
+  IF by_day IS NOT NULL AND (freq = 'MONTHLY' OR NOT by_day <@ weekdays) THEN
+    RAISE EXCEPTION 'BYDAY takes weekday codes (MO,TU,...) on daily and weekly rules' USING ERRCODE = '22023';
+  END IF;
+  IF by_month_day IS NOT NULL AND (
+    freq <> 'MONTHLY'
+    OR EXISTS (SELECT 1 FROM unnest(by_month_day) d WHERE d = 0 OR d NOT BETWEEN -31 AND 31)
+  ) THEN
+    RAISE EXCEPTION 'BYMONTHDAY takes days 1 to 31 (or -1 to -31) on monthly rules' USING ERRCODE = '22023';
+  END IF;
+
+  IF on_date < starts_on OR on_date > until_date THEN
+    RETURN false;
+  END IF;
+
+  IF freq = 'DAILY' THEN
+    RETURN (on_date - starts_on) % step = 0
+      AND (by_day IS NULL OR weekdays[extract(dow FROM on_date)::integer + 1] = ANY(by_day));
+  END IF;
+
+  IF freq = 'WEEKLY' THEN
+    -- Weeks start on Monday, as with the RRULE default WKST=MO
+    RETURN ((date_trunc('week', on_date)::date - date_trunc('week', starts_on)::date) / 7) % step = 0
+      AND weekdays[extract(dow FROM on_date)::integer + 1] = ANY(
+        COALESCE(by_day, ARRAY[weekdays[extract(dow FROM starts_on)::integer + 1]])
+      );
+  END IF;
+
+  months_apart := (extract(year FROM on_date)::integer - extract(year FROM starts_on)::integer) * 12
+    + extract(month FROM on_date)::integer - extract(month FROM starts_on)::integer;
+  month_length := extract(day FROM date_trunc('month', on_date) + interval '1 month - 1 day')::integer;
+
+  -- Like RRULE, a day the month does not have (e.g. the 31st in April) is skipped
+  RETURN months_apart % step = 0
+    AND EXISTS (
+      SELECT 1
+      FROM unnest(COALESCE(by_month_day, ARRAY[extract(day FROM starts_on)::integer])) d
+      WHERE CASE WHEN d > 0 THEN d ELSE month_length + d + 1 END = extract(day FROM on_date)::integer
+    );
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS listing_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id uuid NOT NULL REFERENCES restaurants(id) ON DELETE CASCADE,
+  food_item text NOT NULL,
+  description text,
+  quantity_total integer NOT NULL CHECK (quantity_total > 0),
+  quantity_unit text NOT NULL DEFAULT 'portions',
+  dietary_info text[] DEFAULT '{}',
+  image_url text,
+  pickup_start time NOT NULL,
+  pickup_end time NOT NULL,
+  timezone text NOT NULL DEFAULT 'UTC',
+  recurrence_rule text NOT NULL,
+  starts_on date NOT NULL DEFAULT CURRENT_DATE,
+  ends_on date,
+  publish_lead_minutes integer NOT NULL DEFAULT 120 CHECK (publish_lead_minutes BETWEEN 0 AND 1440),
+  is_paused boolean NOT NULL DEFAULT false,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (pickup_start <> pickup_end),
+  CHECK (ends_on IS NULL OR ends_on >= starts_on),
+  -- Both raise on a bad rule or an unknown time zone
+  CHECK (recurrence_occurs_on(recurrence_rule, starts_on, starts_on) IS NOT NULL),
+  CHECK ((timestamp '2000-01-01' AT TIME ZONE timezone) IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS listing_templates_restaurant_idx ON listing_templates (restaurant_id);
+
+CREATE TABLE IF NOT EXISTS listing_template_occurrences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id uuid NOT NULL REFERENCES listing_templates(id) ON DELETE CASCADE,
+  occurrence_date date NOT NULL,
+  skipped boolean NOT NULL DEFAULT false,
+  food_item text,
+  description text,
+  quantity_total integer CHECK (quantity_total > 0),
+  pickup_start time,
+  pickup_end time,
+  listing_id uuid REFERENCES food_listings(id) ON DELETE SET NULL,
+  generated_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (template_id, occurrence_date)
+);
+
+ALTER TABLE food_listings
+  ADD COLUMN IF NOT EXISTS template_id uuid REFERENCES listing_templates(id) ON DELETE SET NULL;
+
+CREATE TRIGGER update_listing_templates_updated_at
+  BEFORE UPDATE ON listing_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_listing_template_occurrences_updated_at
+  BEFORE UPDATE ON listing_template_occurrences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE listing_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE listing_template_occurrences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant members can manage listing templates"
+  ON listing_templates
+  FOR ALL
+  TO authenticated
+  USING (is_restaurant_member(restaurant_id))
+  WITH CHECK (is_restaurant_member(restaurant_id));
+
+CREATE POLICY "Restaurant members can view template occurrences"
+  ON listing_template_occurrences
+  FOR SELECT
+  TO authenticated
+  USING (template_id IN (SELECT id FROM listing_templates));
+
+-- Generated occurrences are owned by the generator; the listing itself is
+-- edited like any other
+CREATE POLICY "Restaurant members can skip or edit upcoming occurrences"
+  ON listing_template_occurrences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    template_id IN (SELECT id FROM listing_templates)
+    AND generated_at IS NULL
+    AND listing_id IS NULL
+  );
+
+CREATE POLICY "Restaurant members can update upcoming occurrences"
+  ON listing_template_occurrences
+  FOR UPDATE
+  TO authenticated
+  USING (template_id IN (SELECT id FROM listing_templates) AND generated_at IS NULL)
+  WITH CHECK (generated_at IS NULL AND listing_id IS NULL);
+
+CREATE POLICY "Restaurant members can restore upcoming occurrences"
+  ON listing_template_occurrences
+  FOR DELETE
+  TO authenticated
+  USING (template_id IN (SELECT id FROM listing_templates) AND generated_at IS NULL);
+
+CREATE OR REPLACE FUNCTION generate_recurring_listings()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tmpl listing_templates%ROWTYPE;
+  occurrence listing_template_occurrences%ROWTYPE;
+  local_today date;
+  occurrence_day date;
+  window_start timestamptz;
+  window_end timestamptz;
+  quantity integer;
+  new_listing_id uuid;
+  listings_generated integer := 0;
+BEGIN
+  FOR tmpl IN
+    SELECT * FROM listing_templates
+    WHERE NOT is_paused
+      AND (ends_on IS NULL OR ends_on >= CURRENT_DATE - 1)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    local_today := (now() AT TIME ZONE tmpl.timezone)::date;
+
+    -- Yesterday's window may run past midnight, and tomorrow's may already be
+    -- inside its publish lead
+    FOR occurrence_day IN
+      SELECT d::date FROM generate_series(local_today - 1, local_today + 1, interval '1 day') d
+    LOOP
+      CONTINUE WHEN occurrence_day > tmpl.ends_on
+        OR NOT recurrence_occurs_on(tmpl.recurrence_rule, tmpl.starts_on, occurrence_day);
+
+      SELECT * INTO occurrence
+      FROM listing_template_occurrences o
+      WHERE o.template_id = tmpl.id AND o.occurrence_date = occurrence_day;
+
+      CONTINUE WHEN occurrence.skipped OR occurrence.generated_at IS NOT NULL;
+
+      window_start := (occurrence_day + COALESCE(occurrence.pickup_start, tmpl.pickup_start)) AT TIME ZONE tmpl.timezone;
+      window_end := (occurrence_day + COALESCE(occurrence.pickup_end, tmpl.pickup_end)) AT TIME ZONE tmpl.timezone;
+      IF window_end <= window_start THEN
+        window_end := window_end + interval '1 day';
+      END IF;
+
+      CONTINUE WHEN now() < window_start - make_interval(mins => tmpl.publish_lead_minutes)
+        OR now() >= window_end;
+
+      quantity := COALESCE(occurrence.quantity_total, tmpl.quantity_total);
+
+      INSERT INTO food_listings (
+        restaurant_id, template_id, food_item, description,
+        quantity_total, quantity_remaining, quantity_unit,
+        pickup_start_time, pickup_end_time, dietary_info, image_url
+      )
+      VALUES (
+        tmpl.restaurant_id, tmpl.id,
+        COALESCE(occurrence.food_item, tmpl.food_item),
+        COALESCE(occurrence.description, tmpl.description),
+        quantity, quantity, tmpl.quantity_unit,
+        window_start, window_end, tmpl.dietary_info, tmpl.image_url
+      )
+      RETURNING id INTO new_listing_id;
+
+      INSERT INTO listing_template_occurrences (template_id, occurrence_date, listing_id, generated_at)
+      VALUES (tmpl.id, occurrence_day, new_listing_id, now())
+      ON CONFLICT (template_id, occurrence_date)
+      DO UPDATE SET listing_id = EXCLUDED.listing_id, generated_at = EXCLUDED.generated_at;
+
+      listings_generated := listings_generated + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN jsonb_build_object('listings_generated', listings_generated);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION generate_recurring_listings() FROM PUBLIC;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    EXECUTE $cron$
+      SELECT cron.schedule(
+        'generate-recurring-listings',
+        '*/5 * * * *',
+        'SELECT public.generate_recurring_listings()'
+      )
+    $cron$;
+  ELSE
+    RAISE NOTICE 'pg_cron is not available; run SELECT generate_recurring_listings() from an external scheduler';
+  END IF;
+END;
+$$;
@@ -0,0 +1,206 @@
+/*
+  # Restaurant analytics
+
+  1. Functions
+    - `restaurant_analytics(restaurant_id, range_start, range_end, bucket, time_zone)`
+      – aggregates a restaurant's listings and claims over a date range for the
+      dashboard's analytics tab. Returns `{ ok, summary, series, pickup_windows }`:
+        - `summary` – listings and portions posted, claim rate (share of posted
+          portions that were claimed and not cancelled), average minutes from
+          posting to the first claim, no-show rate (no-shows out of claims that
+          reached pickup), pickups, and estimated kg and CO₂e saved
+        - `series` – the same counts per `day`, `week` or `month` bucket in the
+          caller's time zone, with empty buckets filled in
+        - `pickup_windows` – the five weekday/hour slots with the most pickups
+      Listings are counted by when they were posted, claims by when they were
+      made and pickups by when they happened. Archived listings are left out.
+
+  2. Estimates
+    - Picked-up portions are weighed at 0.4 kg each, or at face value for
+      listings measured in kg, and every kg of food saved counts as 2.5 kg CO₂e
+      avoided. These are deliberately rough averages for mixed prepared food.
+
+  3. Security
+    - Restaurant members and platform admins only; anyone else gets
+      `forbidden`
+*/
+
+CREATE OR REPLACE FUNCTION restaurant_analytics(
+  restaurant_id uuid,
+  range_start timestamptz,
+  range_end timestamptz,
+  bucket text DEFAULT 'day',
+  time_zone text DEFAULT 'UTC'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  kg_per_portion constant numeric := 0.4;
+  co2e_per_kg constant numeric := 2.5;
+  from_ts constant timestamptz := restaurant_analytics.range_start;
+  to_ts constant timestamptz := restaurant_analytics.range_end;
+  tz constant text := restaurant_analytics.time_zone;
+  step constant text := restaurant_analytics.bucket;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT (is_restaurant_member(restaurant_analytics.restaurant_id) OR is_platform_admin()) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  IF step IS NULL OR step NOT IN ('day', 'week', 'month')
+    OR from_ts IS NULL OR to_ts IS NULL OR to_ts <= from_ts
+    OR to_ts - from_ts > interval '400 days'
+    OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tz)
+  THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'invalid_range');
+  END IF;
+
+  RETURN (
+    WITH listings AS (
+      SELECT
+        fl.id,
+        fl.created_at,
+        fl.quantity_total,
+        CASE WHEN fl.quantity_unit = 'kg' THEN 1 ELSE kg_per_portion END AS kg_per_unit
+      FROM food_listings fl
+      WHERE fl.restaurant_id = restaurant_analytics.restaurant_id
+        AND fl.archived_at IS NULL
+    ),
+    listed AS (
+      SELECT l.*, (SELECT min(c.claimed_at) FROM claims c WHERE c.food_listing_id = l.id) AS first_claimed_at
+      FROM listings l
+      WHERE l.created_at >= from_ts AND l.created_at < to_ts
+    ),
+    claim_rows AS (
+      SELECT
+        c.food_listing_id,
+        c.status,
+        c.portions,
+        c.claimed_at,
+        c.status NOT IN ('cancelled_by_user', 'cancelled_by_restaurant') AS kept,
+        CASE WHEN c.status = 'picked_up'
+          THEN coalesce(c.pickup_completed_at, c.status_changed_at, c.claimed_at)
+        END AS picked_up_at,
+        c.portions * l.kg_per_unit AS kg
+      FROM claims c
+      JOIN listings l ON l.id = c.food_listing_id
+    ),
+    claimed AS (
+      SELECT * FROM claim_rows WHERE claimed_at >= from_ts AND claimed_at < to_ts
+    ),
+    picked_up AS (
+      SELECT * FROM claim_rows WHERE picked_up_at >= from_ts AND picked_up_at < to_ts
+    ),
+    totals AS (
+      SELECT
+        (SELECT count(*) FROM listed) AS listings,
+        (SELECT coalesce(sum(quantity_total), 0) FROM listed) AS portions_listed,
+        -- Claim rate follows the listings posted in the range, whenever they were claimed
+        (SELECT coalesce(sum(c.portions), 0) FROM claim_rows c JOIN listed l ON l.id = c.food_listing_id WHERE c.kept)
+          AS portions_claimed,
+        (SELECT avg(extract(epoch FROM first_claimed_at - created_at)) / 60 FROM listed) AS avg_minutes_to_claim,
+        (SELECT count(*) FROM claimed) AS claims,
+        (SELECT count(*) FROM claimed WHERE status = 'no_show') AS no_shows,
+        (SELECT count(*) FROM claimed WHERE status = 'picked_up') AS claims_picked_up,
+        (SELECT count(*) FROM picked_up) AS pickups,
+        (SELECT coalesce(sum(kg), 0) FROM picked_up) AS kg_saved
+    ),
+    buckets AS (
+      SELECT b AS starts_at
+      FROM generate_series(
+        date_trunc(step, from_ts AT TIME ZONE tz),
+        (to_ts - interval '1 microsecond') AT TIME ZONE tz,
+        ('1 ' || step)::interval
+      ) b
+    ),
+    listed_by_bucket AS (
+      SELECT date_trunc(step, created_at AT TIME ZONE tz) AS starts_at,
+        count(*) AS listings,
+        sum(quantity_total) AS portions_listed
+      FROM listed
+      GROUP BY 1
+    ),
+    claimed_by_bucket AS (
+      SELECT date_trunc(step, claimed_at AT TIME ZONE tz) AS starts_at,
+        sum(portions) FILTER (WHERE kept) AS portions_claimed,
+        count(*) FILTER (WHERE status = 'no_show') AS no_shows
+      FROM claimed
+      GROUP BY 1
+    ),
+    picked_up_by_bucket AS (
+      SELECT date_trunc(step, picked_up_at AT TIME ZONE tz) AS starts_at,
+        count(*) AS pickups,
+        sum(kg) AS kg_saved
+      FROM picked_up
+      GROUP BY 1
+    ),
+    windows AS (
+      -- ISO weekday: 1 = Monday … 7 = Sunday
+      SELECT
+        extract(isodow FROM picked_up_at AT TIME ZONE tz)::integer AS weekday,
+        extract(hour FROM picked_up_at AT TIME ZONE tz)::integer AS hour,
+        count(*) AS pickups
+      FROM picked_up
+      GROUP BY 1, 2
+      ORDER BY 3 DESC, 1, 2
+      LIMIT 5
+    )
+    SELECT jsonb_build_object(
+      'ok', true,
+      'summary', (
+        SELECT jsonb_build_object(
+          'listings', t.listings,
+          'portions_listed', t.portions_listed,
+          'portions_claimed', t.portions_claimed,
+          'claim_rate', CASE WHEN t.portions_listed > 0
+            THEN round(t.portions_claimed::numeric / t.portions_listed, 4) END,
+          'avg_minutes_to_claim', round(t.avg_minutes_to_claim::numeric, 1),
+          'claims', t.claims,
+          'pickups', t.pickups,
+          'no_shows', t.no_shows,
+          -- Out of claims that reached their pickup window one way or the other
+          'no_show_rate', CASE WHEN t.claims_picked_up + t.no_shows > 0
+            THEN round(t.no_shows::numeric / (t.claims_picked_up + t.no_shows), 4) END,
+          'kg_saved', round(t.kg_saved, 1),
+          'co2e_kg_saved', round(t.kg_saved * co2e_per_kg, 1)
+        )
+        FROM totals t
+      ),
+      'series', (
+        SELECT coalesce(jsonb_agg(jsonb_build_object(
+          'bucket', to_char(b.starts_at, 'YYYY-MM-DD'),
+          'listings', coalesce(lb.listings, 0),
+          'portions_listed', coalesce(lb.portions_listed, 0),
+          'portions_claimed', coalesce(cb.portions_claimed, 0),
+          'pickups', coalesce(pb.pickups, 0),
+          'no_shows', coalesce(cb.no_shows, 0),
+          'kg_saved', round(coalesce(pb.kg_saved, 0), 1),
+          'co2e_kg_saved', round(coalesce(pb.kg_saved, 0) * co2e_per_kg, 1)
+        ) ORDER BY b.starts_at), '[]'::jsonb)
+        FROM buckets b
+        LEFT JOIN listed_by_bucket lb USING (starts_at)
+        LEFT JOIN claimed_by_bucket cb USING (starts_at)
+        LEFT JOIN picked_up_by_bucket pb USING (starts_at)
+      ),
+      'pickup_windows', (
+        SELECT coalesce(jsonb_agg(jsonb_build_object(
+          'weekday', w.weekday,
+          'hour', w.hour,
+          'pickups', w.pickups
+        ) ORDER BY w.pickups DESC, w.weekday, w.hour), '[]'::jsonb)
+        FROM windows w
+      )
+    )
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION restaurant_analytics(uuid, timestamptz, timestamptz, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION restaurant_analytics(uuid, timestamptz, timestamptz, text, text) TO authenticated;
@@ -0,0 +1,421 @@
+/*
+  # Food impact model
+
+  1. New Tables
+    - `impact_factor_versions` – one row per published set of factors. Exactly
+      one version is current; publishing a new one and flipping `is_current`
+      restates every total, so figures are always comparable with each other.
+    - `impact_factors` – per version and food category: the weight of one
+      portion, kg CO₂e emitted per kg of food and litres of water per kg
+    - `impact_unit_factors` – per version: how many portions one unit of each
+      quantity unit (slices, trays, …) counts as. Listings measured in `kg`
+      are weighed directly.
+
+  2. Changes
+    - `food_listings.food_category` and `listing_templates.food_category`,
+      defaulting to `prepared_meal`. New categories need a migration that widens
+      these checks and adds their factors. Listings generated from a template take
+      the template's category.
+
+  3. Functions
+    - `estimate_food_impact(food_category, quantity, quantity_unit, factor_version)`
+      – estimated kg, kg CO₂e and litres of water for a quantity of food, using
+      the current factors unless a version is given. Unknown categories fall
+      back to `other` and unknown units count as one portion each.
+    - `impact_totals(scope, restaurant_id)` – totals over picked-up claims:
+        - `global` – everything; also available to signed-out visitors
+        - `user` – the caller's own pickups
+        - `restaurant` – one restaurant's pickups, or every restaurant the
+          caller belongs to when `restaurant_id` is NULL
+      Returns `{ ok, version, pickups, portions, kg, co2e_kg, water_l }`.
+    - `restaurant_analytics()` now weighs food with `estimate_food_impact()`
+      instead of flat per-portion constants
+
+  4. Factors (version 2025.1)
+    - Rounded from life-cycle averages for food as sold (Poore & Nemecek 2018
+      for emissions, Water Footprint Network for water). They are estimates
+      for comparing impact over time, not measurements.
+
+  5. Security
+    - Factor tables are readable by everyone and changed by migrations only
+*/
+
+CREATE TABLE IF NOT EXISTS impact_factor_versions (
+  version text PRIMARY KEY,
+  description text,
+  source text,
+  is_current boolean NOT NULL DEFAULT false,
+  published_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS impact_factor_versions_one_current
+  ON impact_factor_versions (is_current)
+  WHERE is_current;
+
+CREATE TABLE IF NOT EXISTS impact_factors (
+  version text NOT NULL REFERENCES impact_factor_versions(version) ON DELETE CASCADE,
+  food_category text NOT NULL,
+  kg_per_portion numeric NOT NULL CHECK (kg_per_portion > 0),
+  co2e_kg_per_kg numeric NOT NULL CHECK (co2e_kg_per_kg >= 0),
+  water_l_per_kg numeric NOT NULL CHECK (water_l_per_kg >= 0),
+  PRIMARY KEY (version, food_category)
+);
+
+CREATE TABLE IF NOT EXISTS impact_unit_factors (
+  version text NOT NULL REFERENCES impact_factor_versions(version) ON DELETE CASCADE,
+  quantity_unit text NOT NULL,
+  portions_per_unit numeric NOT NULL CHECK (portions_per_unit > 0),
+  PRIMARY KEY (version, quantity_unit)
+);
+
+ALTER TABLE impact_factor_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE impact_factors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE impact_unit_factors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view impact factor versions"
+  ON impact_factor_versions FOR SELECT TO anon, authenticated USING (true);
+
+CREATE POLICY "Anyone can view impact factors"
+  ON impact_factors FOR SELECT TO anon, authenticated USING (true);
+
+CREATE POLICY "Anyone can view impact unit factors"
+  ON impact_unit_factors FOR SELECT TO anon, authenticated USING (true);
+
+INSERT INTO impact_factor_versions (version, description, source, is_current)
+VALUES (
+  '2025.1',
+  'Initial factors for surplus food from restaurants and bakeries',
+  'Poore & Nemecek (2018), Science 360:987; Water Footprint Network product gallery',
+  true
+)
+ON CONFLICT (version) DO NOTHING;
+
+INSERT INTO impact_factors (version, food_category, kg_per_portion, co2e_kg_per_kg, water_l_per_kg)
+VALUES
+  ('2025.1', 'prepared_meal', 0.40, 3.5, 1500),
+  ('2025.1', 'bakery', 0.15, 1.6, 1600),
+  ('2025.1', 'produce', 0.25, 0.7, 300),
+  ('2025.1', 'dairy_eggs', 0.20, 4.0, 1000),
+  ('2025.1', 'meat', 0.25, 20.0, 8000),
+  ('2025.1', 'fish', 0.25, 6.0, 2000),
+  ('2025.1', 'other', 0.30, 2.5, 1000)
+ON CONFLICT (version, food_category) DO NOTHING;
+
+INSERT INTO impact_unit_factors (version, quantity_unit, portions_per_unit)
+VALUES
+  ('2025.1', 'portions', 1),
+  ('2025.1', 'slices', 0.3),
+  ('2025.1', 'sandwiches', 0.6),
+  ('2025.1', 'items', 0.5),
+  ('2025.1', 'boxes', 2),
+  ('2025.1', 'trays', 6)
+ON CONFLICT (version, quantity_unit) DO NOTHING;
+
+ALTER TABLE food_listings
+  ADD COLUMN IF NOT EXISTS food_category text NOT NULL DEFAULT 'prepared_meal'
+    CHECK (food_category IN ('prepared_meal', 'bakery', 'produce', 'dairy_eggs', 'meat', 'fish', 'other'));
+
+ALTER TABLE listing_templates
+  ADD COLUMN IF NOT EXISTS food_category text NOT NULL DEFAULT 'prepared_meal'
+    CHECK (food_category IN ('prepared_meal', 'bakery', 'produce', 'dairy_eggs', 'meat', 'fish', 'other'));
+
+CREATE OR REPLACE FUNCTION inherit_template_food_category()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT t.food_category INTO NEW.food_category
+  FROM listing_templates t
+  WHERE t.id = NEW.template_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS food_listings_inherit_template_food_category ON food_listings;
+CREATE TRIGGER food_listings_inherit_template_food_category
+  BEFORE INSERT ON food_listings
+  FOR EACH ROW
+  WHEN (NEW.template_id IS NOT NULL)
+  EXECUTE FUNCTION inherit_template_food_category();
+
+CREATE OR REPLACE FUNCTION estimate_food_impact(
+  food_category text,
+  quantity numeric,
+  quantity_unit text,
+  factor_version text DEFAULT NULL
+)
+RETURNS TABLE (kg numeric, co2e_kg numeric, water_l numeric)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH factor AS (
+    SELECT f.*
+    FROM impact_factors f
+    WHERE f.version = coalesce(
+        estimate_food_impact.factor_version,
+        (SELECT v.version FROM impact_factor_versions v WHERE v.is_current)
+      )
+      AND f.food_category IN (estimate_food_impact.food_category, 'other')
+    ORDER BY f.food_category = estimate_food_impact.food_category DESC
+    LIMIT 1
+  ),
+  weight AS (
+    SELECT
+      factor.*,
+      CASE
+        WHEN estimate_food_impact.quantity_unit = 'kg' THEN estimate_food_impact.quantity
+        ELSE estimate_food_impact.quantity * factor.kg_per_portion * coalesce(
+          (SELECT u.portions_per_unit FROM impact_unit_factors u
+           WHERE u.version = factor.version AND u.quantity_unit = estimate_food_impact.quantity_unit),
+          1
+        )
+      END AS kg
+    FROM factor
+  )
+  SELECT w.kg, w.kg * w.co2e_kg_per_kg, w.kg * w.water_l_per_kg
+  FROM weight w;
+$$;
+
+GRANT EXECUTE ON FUNCTION estimate_food_impact(text, numeric, text, text) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION impact_totals(scope text, restaurant_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  restaurant_ids uuid[];
+  current_version text;
+  totals jsonb;
+BEGIN
+  IF impact_totals.scope NOT IN ('global', 'user', 'restaurant') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'invalid_scope');
+  END IF;
+
+  IF impact_totals.scope <> 'global' AND caller_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  IF impact_totals.scope = 'restaurant' THEN
+    IF impact_totals.restaurant_id IS NULL THEN
+      SELECT coalesce(array_agg(m.restaurant_id), '{}') INTO restaurant_ids
+      FROM restaurant_members m
+      WHERE m.user_id = caller_id;
+    ELSIF is_restaurant_member(impact_totals.restaurant_id) OR is_platform_admin() THEN
+      restaurant_ids := ARRAY[impact_totals.restaurant_id];
+    ELSE
+      RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+    END IF;
+  END IF;
+
+  SELECT v.version INTO current_version FROM impact_factor_versions v WHERE v.is_current;
+
+  SELECT jsonb_build_object(
+    'pickups', count(*),
+    'portions', coalesce(sum(c.portions), 0),
+    'kg', round(coalesce(sum(i.kg), 0), 1),
+    'co2e_kg', round(coalesce(sum(i.co2e_kg), 0), 1),
+    'water_l', round(coalesce(sum(i.water_l), 0))
+  )
+  INTO totals
+  FROM claims c
+  JOIN food_listings fl ON fl.id = c.food_listing_id
+  CROSS JOIN LATERAL estimate_food_impact(fl.food_category, c.portions, fl.quantity_unit, current_version) i
+  WHERE c.status = 'picked_up'
+    AND (impact_totals.scope <> 'user' OR c.user_id = caller_id)
+    AND (impact_totals.scope <> 'restaurant' OR fl.restaurant_id = ANY(restaurant_ids));
+
+  RETURN jsonb_build_object('ok', true, 'version', current_version) || totals;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION impact_totals(text, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION impact_totals(text, uuid) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION restaurant_analytics(
+  restaurant_id uuid,
+  range_start timestamptz,
+  range_end timestamptz,
+  bucket text DEFAULT 'day',
+  time_zone text DEFAULT 'UTC'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  from_ts constant timestamptz := restaurant_analytics.range_start;
+  to_ts constant timestamptz := restaurant_analytics.range_end;
+  tz constant text := restaurant_analytics.time_zone;
+  step constant text := restaurant_analytics.bucket;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT (is_restaurant_member(restaurant_analytics.restaurant_id) OR is_platform_admin()) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  IF step IS NULL OR step NOT IN ('day', 'week', 'month')
+    OR from_ts IS NULL OR to_ts IS NULL OR to_ts <= from_ts
+    OR to_ts - from_ts > interval '400 days'
+    OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tz)
+  THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'invalid_range');
+  END IF;
+
+  RETURN (
+    WITH listings AS (
+      SELECT
+        fl.id,
+        fl.created_at,
+        fl.quantity_total,
+        fl.quantity_unit,
+        fl.food_category
+      FROM food_listings fl
+      WHERE fl.restaurant_id = restaurant_analytics.restaurant_id
+        AND fl.archived_at IS NULL
+    ),
+    listed AS (
+      SELECT l.*, (SELECT min(c.claimed_at) FROM claims c WHERE c.food_listing_id = l.id) AS first_claimed_at
+      FROM listings l
+      WHERE l.created_at >= from_ts AND l.created_at < to_ts
+    ),
+    claim_rows AS (
+      SELECT
+        c.food_listing_id,
+        c.status,
+        c.portions,
+        c.claimed_at,
+        c.status NOT IN ('cancelled_by_user', 'cancelled_by_restaurant') AS kept,
+        CASE WHEN c.status = 'picked_up'
+          THEN coalesce(c.pickup_completed_at, c.status_changed_at, c.claimed_at)
+        END AS picked_up_at,
+        i.kg,
+        i.co2e_kg
+      FROM claims c
+      JOIN listings l ON l.id = c.food_listing_id
+      CROSS JOIN LATERAL estimate_food_impact(l.food_category, c.portions, l.quantity_unit) i
+    ),
+    claimed AS (
+      SELECT * FROM claim_rows WHERE claimed_at >= from_ts AND claimed_at < to_ts
+    ),
+    picked_up AS (
+      SELECT * FROM claim_rows WHERE picked_up_at >= from_ts AND picked_up_at < to_ts
+    ),
+    totals AS (
+      SELECT
+        (SELECT count(*) FROM listed) AS listings,
+        (SELECT coalesce(sum(quantity_total), 0) FROM listed) AS portions_listed,
+        -- Claim rate follows the listings posted in the range, whenever they were claimed
+        (SELECT coalesce(sum(c.portions), 0) FROM claim_rows c JOIN listed l ON l.id = c.food_listing_id WHERE c.kept)
+          AS portions_claimed,
+        (SELECT avg(extract(epoch FROM first_claimed_at - created_at)) / 60 FROM listed) AS avg_minutes_to_claim,
+        (SELECT count(*) FROM claimed) AS claims,
+        (SELECT count(*) FROM claimed WHERE status = 'no_show') AS no_shows,
+        (SELECT count(*) FROM claimed WHERE status = 'picked_up') AS claims_picked_up,
+        (SELECT count(*) FROM picked_up) AS pickups,
+        (SELECT coalesce(sum(kg), 0) FROM picked_up) AS kg_saved,
+        (SELECT coalesce(sum(co2e_kg), 0) FROM picked_up) AS co2e_kg_saved
+    ),
+    buckets AS (
+      SELECT b AS starts_at
+      FROM generate_series(
+        date_trunc(step, from_ts AT TIME ZONE tz),
+        (to_ts - interval '1 microsecond') AT TIME ZONE tz,
+        ('1 ' || step)::interval
+      ) b
+    ),
+    listed_by_bucket AS (
+      SELECT date_trunc(step, created_at AT TIME ZONE tz) AS starts_at,
+        count(*) AS listings,
+        sum(quantity_total) AS portions_listed
+      FROM listed
+      GROUP BY 1
+    ),
+    claimed_by_bucket AS (
+      SELECT date_trunc(step, claimed_at AT TIME ZONE tz) AS starts_at,
+        sum(portions) FILTER (WHERE kept) AS portions_claimed,
+        count(*) FILTER (WHERE status = 'no_show') AS no_shows
+      FROM claimed
+      GROUP BY 1
+    ),
+    picked_up_by_bucket AS (
+      SELECT date_trunc(step, picked_up_at AT TIME ZONE tz) AS starts_at,
+        count(*) AS pickups,
+        sum(kg) AS kg_saved,
+        sum(co2e_kg) AS co2e_kg_saved
+      FROM picked_up
+      GROUP BY 1
+    ),
+    windows AS (
+      -- ISO weekday: 1 = Monday … 7 = Sunday
+      SELECT
+        extract(isodow FROM picked_up_at AT TIME ZONE tz)::integer AS weekday,
+        extract(hour FROM picked_up_at AT TIME ZONE tz)::integer AS hour,
+        count(*) AS pickups
+      FROM picked_up
+      GROUP BY 1, 2
+      ORDER BY 3 DESC, 1, 2
+      LIMIT 5
+    )
+    SELECT jsonb_build_object(
+      'ok', true,
+      'summary', (
+        SELECT jsonb_build_object(
+          'listings', t.listings,
+          'portions_listed', t.portions_listed,
+          'portions_claimed', t.portions_claimed,
+          'claim_rate', CASE WHEN t.portions_listed > 0
+            THEN round(t.portions_claimed::numeric / t.portions_listed, 4) END,
+          'avg_minutes_to_claim', round(t.avg_minutes_to_claim::numeric, 1),
+          'claims', t.claims,
+          'pickups', t.pickups,
+          'no_shows', t.no_shows,
+          -- Out of claims that reached their pickup window one way or the other
+          'no_show_rate', CASE WHEN t.claims_picked_up + t.no_shows > 0
+            THEN round(t.no_shows::numeric / (t.claims_picked_up + t.no_shows), 4) END,
+          'kg_saved', round(t.kg_saved, 1),
+          'co2e_kg_saved', round(t.co2e_kg_saved, 1)
+        )
+        FROM totals t
+      ),
+      'series', (
+        SELECT coalesce(jsonb_agg(jsonb_build_object(
+          'bucket', to_char(b.starts_at, 'YYYY-MM-DD'),
+          'listings', coalesce(lb.listings, 0),
+          'portions_listed', coalesce(lb.portions_listed, 0),
+          'portions_claimed', coalesce(cb.portions_claimed, 0),
+          'pickups', coalesce(pb.pickups, 0),
+          'no_shows', coalesce(cb.no_shows, 0),
+          'kg_saved', round(coalesce(pb.kg_saved, 0), 1),
+          'co2e_kg_saved', round(coalesce(pb.co2e_kg_saved, 0), 1)
+        ) ORDER BY b.starts_at), '[]'::jsonb)
+        FROM buckets b
+        LEFT JOIN listed_by_bucket lb USING (starts_at)
+        LEFT JOIN claimed_by_bucket cb USING (starts_at)
+        LEFT JOIN picked_up_by_bucket pb USING (starts_at)
+      ),
+      'pickup_windows', (
+        SELECT coalesce(jsonb_agg(jsonb_build_object(
+          'weekday', w.weekday,
+          'hour', w.hour,
+          'pickups', w.pickups
+        ) ORDER BY w.pickups DESC, w.weekday, w.hour), '[]'::jsonb)
+        FROM windows w
+      )
+    )
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION restaurant_analytics(uuid, timestamptz, timestamptz, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION restaurant_analytics(uuid, timestamptz, timestamptz, text, text) TO authenticated;
@@ -0,0 +1,336 @@
+/*
+  # Notifications
+
+  1. New Types
+    - `notification_type` – `listing_nearby`, `claim_created`, `claim_cancelled`,
+      `pickup_closing_soon`
+
+  2. New Tables
+    - `notifications` – a user's inbox. Rows are written only by the triggers
+      and functions below; users read them, mark them read and delete them.
+    - `notification_settings` – per-user opt-in for nearby listing alerts, with
+      the point and radius to watch
+
+  3. Triggers
+    - New listing from a verified restaurant → `listing_nearby` for every user
+      who opted in and whose watched area contains the restaurant
+    - New claim → `claim_created` for the listing's restaurant team
+    - Claim cancelled by the claimer → `claim_cancelled` for the restaurant
+      team; cancelled by the restaurant → `claim_cancelled` for the claimer
+
+  4. Functions
+    - `mark_notifications_read(notification_ids)` – marks the caller's
+      notifications read; NULL marks all of them
+    - `notify_pickup_windows_closing()` – `pickup_closing_soon` for open
+      claims whose pickup window ends within 30 minutes, at most once per claim.
+      Returns `{ "notifications_sent": n }`.
+
+  5. Scheduling
+    - When `pg_cron` is available the reminder runs every five minutes as job
+      `notify-pickup-windows-closing`; otherwise run
+      `SELECT notify_pickup_windows_closing();` from an external scheduler
+
+  6. Realtime
+    - `notifications` is added to the `supabase_realtime` publication so the
+      inbox updates live
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'notification_type') THEN
+    CREATE TYPE notification_type AS ENUM (
+      'listing_nearby',
+      'claim_created',
+      'claim_cancelled',
+      'pickup_closing_soon'
+    );
+  END IF;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type notification_type NOT NULL,
+  title text NOT NULL,
+  body text,
+  listing_id uuid REFERENCES food_listings(id) ON DELETE CASCADE,
+  claim_id uuid REFERENCES claims(id) ON DELETE CASCADE,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+  ON notifications (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+  ON notifications (user_id)
+  WHERE read_at IS NULL;
+
+-- One closing-soon reminder per claim, however often the reminder job runs
+CREATE UNIQUE INDEX IF NOT EXISTS notifications_one_closing_reminder_per_claim
+  ON notifications (claim_id)
+  WHERE type = 'pickup_closing_soon';
+
+CREATE TABLE IF NOT EXISTS notification_settings (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  notify_nearby_listings boolean NOT NULL DEFAULT false,
+  latitude numeric CHECK (latitude BETWEEN -90 AND 90),
+  longitude numeric CHECK (longitude BETWEEN -180 AND 180),
+  location geography(Point, 4326) GENERATED ALWAYS AS (
+    CASE WHEN latitude IS NOT NULL AND longitude IS NOT NULL THEN
+      ST_SetSRID(ST_MakePoint(longitude::double precision, latitude::double precision), 4326)::geography
+    END
+  ) STORED,
+  nearby_radius_km numeric NOT NULL DEFAULT 5 CHECK (nearby_radius_km BETWEEN 0.5 AND 50),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (NOT notify_nearby_listings OR (latitude IS NOT NULL AND longitude IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_settings_location_gist
+  ON notification_settings USING GIST (location)
+  WHERE notify_nearby_listings;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notifications"
+  ON notifications FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their notifications"
+  ON notifications FOR DELETE TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view their notification settings"
+  ON notification_settings FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their notification settings"
+  ON notification_settings FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their notification settings"
+  ON notification_settings FOR UPDATE TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION notify_nearby_listing()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  restaurant restaurants%ROWTYPE;
+BEGIN
+  SELECT * INTO restaurant FROM restaurants WHERE id = NEW.restaurant_id;
+
+  -- Listings of unverified restaurants are hidden, so there is nothing to see yet
+  IF restaurant.verification_status <> 'approved' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, body, listing_id)
+  SELECT
+    s.user_id,
+    'listing_nearby',
+    'New food nearby: ' || NEW.food_item,
+    format(
+      '%s %s at %s, %s km away',
+      NEW.quantity_total, NEW.quantity_unit, restaurant.name,
+      round((ST_Distance(s.location, restaurant.location) / 1000)::numeric, 1)
+    ),
+    NEW.id
+  FROM notification_settings s
+  WHERE s.notify_nearby_listings
+    AND ST_DWithin(s.location, restaurant.location, s.nearby_radius_km * 1000)
+    AND NOT EXISTS (
+      SELECT 1 FROM restaurant_members m
+      WHERE m.restaurant_id = NEW.restaurant_id AND m.user_id = s.user_id
+    );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS food_listings_notify_nearby ON food_listings;
+CREATE TRIGGER food_listings_notify_nearby
+  AFTER INSERT ON food_listings
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_nearby_listing();
+
+CREATE OR REPLACE FUNCTION notify_claim_created()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  listing food_listings%ROWTYPE;
+BEGIN
+  SELECT * INTO listing FROM food_listings WHERE id = NEW.food_listing_id;
+
+  INSERT INTO notifications (user_id, type, title, body, listing_id, claim_id)
+  SELECT
+    m.user_id,
+    'claim_created',
+    'New claim on ' || listing.food_item,
+    format('%s of %s %s claimed', NEW.portions, listing.quantity_total, listing.quantity_unit),
+    listing.id,
+    NEW.id
+  FROM restaurant_members m
+  WHERE m.restaurant_id = listing.restaurant_id
+    AND m.user_id IS DISTINCT FROM NEW.user_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS claims_notify_created ON claims;
+CREATE TRIGGER claims_notify_created
+  AFTER INSERT ON claims
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_claim_created();
+
+CREATE OR REPLACE FUNCTION notify_claim_cancelled()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  listing food_listings%ROWTYPE;
+BEGIN
+  SELECT * INTO listing FROM food_listings WHERE id = NEW.food_listing_id;
+
+  IF NEW.status = 'cancelled_by_user' THEN
+    INSERT INTO notifications (user_id, type, title, body, listing_id, claim_id)
+    SELECT
+      m.user_id,
+      'claim_cancelled',
+      'Claim cancelled on ' || listing.food_item,
+      format('%s %s are available again', NEW.portions, listing.quantity_unit),
+      listing.id,
+      NEW.id
+    FROM restaurant_members m
+    WHERE m.restaurant_id = listing.restaurant_id;
+  ELSIF NEW.user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, type, title, body, listing_id, claim_id)
+    VALUES (
+      NEW.user_id,
+      'claim_cancelled',
+      'Your claim on ' || listing.food_item || ' was cancelled',
+      'The restaurant cancelled this pickup',
+      listing.id,
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS claims_notify_cancelled ON claims;
+CREATE TRIGGER claims_notify_cancelled
+  AFTER UPDATE OF status ON claims
+  FOR EACH ROW
+  WHEN (
+    NEW.status IN ('cancelled_by_user', 'cancelled_by_restaurant')
+    AND OLD.status IS DISTINCT FROM NEW.status
+  )
+  EXECUTE FUNCTION notify_claim_cancelled();
+
+CREATE OR REPLACE FUNCTION mark_notifications_read(notification_ids uuid[] DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  marked integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE notifications
+  SET read_at = now()
+  WHERE user_id = auth.uid()
+    AND read_at IS NULL
+    AND (mark_notifications_read.notification_ids IS NULL OR id = ANY(mark_notifications_read.notification_ids));
+
+  GET DIAGNOSTICS marked = ROW_COUNT;
+  RETURN marked;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION mark_notifications_read(uuid[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION mark_notifications_read(uuid[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION notify_pickup_windows_closing()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  notifications_sent integer;
+BEGIN
+  INSERT INTO notifications (user_id, type, title, body, listing_id, claim_id)
+  SELECT
+    c.user_id,
+    'pickup_closing_soon',
+    'Pickup closes soon: ' || fl.food_item,
+    format(
+      'Collect your %s %s from %s within %s minutes',
+      c.portions, fl.quantity_unit, r.name,
+      greatest(ceil(extract(epoch FROM fl.pickup_end_time - now()) / 60), 1)
+    ),
+    fl.id,
+    c.id
+  FROM claims c
+  JOIN food_listings fl ON fl.id = c.food_listing_id
+  JOIN restaurants r ON r.id = fl.restaurant_id
+  WHERE c.status IN ('reserved', 'confirmed_by_restaurant')
+    AND c.user_id IS NOT NULL
+    AND fl.pickup_end_time > now()
+    AND fl.pickup_end_time <= now() + interval '30 minutes'
+  ON CONFLICT (claim_id) WHERE type = 'pickup_closing_soon' DO NOTHING;
+
+  GET DIAGNOSTICS notifications_sent = ROW_COUNT;
+  RETURN jsonb_build_object('notifications_sent', notifications_sent);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION notify_pickup_windows_closing() FROM PUBLIC;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    EXECUTE $cron$
+      SELECT cron.schedule(
+        'notify-pickup-windows-closing',
+        '*/5 * * * *',
+        'SELECT public.notify_pickup_windows_closing()'
+      )
+    $cron$;
+  ELSE
+    RAISE NOTICE 'pg_cron is not available; run SELECT notify_pickup_windows_closing() from an external scheduler';
+  END IF;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+    )
+  THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END;
+$$;
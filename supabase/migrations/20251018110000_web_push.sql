@@ -0,0 +1,302 @@
+/*
+  # Web Push alerts for nearby listings
+
+  1. Changes
+    - `notification_settings.dietary_preferences` – tags a listing must carry
+      (all of them) before the user is alerted about it. Empty means any
+      listing. Applies to both the inbox and push alerts.
+    - `notify_nearby_listing()` now honours the dietary preferences and queues
+      the listing for push delivery
+
+  2. New Tables
+    - `push_subscriptions` – one row per browser push subscription (endpoint
+      plus the `p256dh` and `auth` keys it was created with). Users can list
+      and remove their own; they are saved through `save_push_subscription`.
+    - `push_dispatch_queue` – listings waiting to be pushed. Filled by the
+      listing trigger, drained by the `dispatch-push` Edge Function.
+
+  3. Functions
+    - `save_push_subscription(endpoint, p256dh, auth, user_agent)` – stores
+      the caller's subscription. Only `https://` endpoints are accepted. An
+      endpoint that belonged to another account on the same browser moves to
+      the caller only when the keys match, otherwise `forbidden`.
+    - `claim_push_dispatches(batch_size)` – service role only. Marks up to
+      `batch_size` queued listings as dispatched and returns them, so two
+      dispatcher runs never push the same listing.
+    - `push_recipients_for_listing(listing_id)` – service role only. Every
+      push subscription whose owner's saved location, radius and dietary
+      preferences match the listing, with the alert text to send.
+    - `request_push_dispatch()` – calls the Edge Function through `pg_net`
+      using the `project_url` and `service_role_key` Vault secrets; does
+      nothing until both exist
+
+  4. Scheduling
+    - When `pg_cron` and `pg_net` are available `request_push_dispatch()` runs
+      every minute as job `dispatch-push`; otherwise invoke the Edge Function
+      from an external scheduler (`npm run push:dispatch`)
+*/
+
+ALTER TABLE notification_settings
+  ADD COLUMN IF NOT EXISTS dietary_preferences text[] NOT NULL DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_success_at timestamptz,
+  failure_count integer NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions (user_id);
+
+CREATE TABLE IF NOT EXISTS push_dispatch_queue (
+  listing_id uuid PRIMARY KEY REFERENCES food_listings(id) ON DELETE CASCADE,
+  enqueued_at timestamptz NOT NULL DEFAULT now(),
+  dispatched_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_dispatch_queue_pending
+  ON push_dispatch_queue (enqueued_at)
+  WHERE dispatched_at IS NULL;
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE push_dispatch_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their push subscriptions"
+  ON push_subscriptions FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their push subscriptions"
+  ON push_subscriptions FOR DELETE TO authenticated
+  USING (user_id = auth.uid());
+
+-- Only the service role touches the queue, so it has no policies
+
+CREATE OR REPLACE FUNCTION notify_nearby_listing()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  restaurant restaurants%ROWTYPE;
+BEGIN
+  SELECT * INTO restaurant FROM restaurants WHERE id = NEW.restaurant_id;
+
+  -- Listings of unverified restaurants are hidden, so there is nothing to see yet
+  IF restaurant.verification_status <> 'approved' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, body, listing_id)
+  SELECT
+    s.user_id,
+    'listing_nearby',
+    'New food nearby: ' || NEW.food_item,
+    format(
+      '%s %s at %s, %s km away',
+      NEW.quantity_total, NEW.quantity_unit, restaurant.name,
+      round((ST_Distance(s.location, restaurant.location) / 1000)::numeric, 1)
+    ),
+    NEW.id
+  FROM notification_settings s
+  WHERE s.notify_nearby_listings
+    AND ST_DWithin(s.location, restaurant.location, s.nearby_radius_km * 1000)
+    AND coalesce(NEW.dietary_info, '{}') @> s.dietary_preferences
+    AND NOT EXISTS (
+      SELECT 1 FROM restaurant_members m
+      WHERE m.restaurant_id = NEW.restaurant_id AND m.user_id = s.user_id
+    );
+
+  INSERT INTO push_dispatch_queue (listing_id)
+  VALUES (NEW.id)
+  ON CONFLICT (listing_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_push_subscription(
+  endpoint text,
+  p256dh text,
+  auth text,
+  user_agent text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  subscription_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'not_authenticated');
+  END IF;
+
+  -- dispatch-push posts to this URL from the server; browsers' push services
+  -- are always https, and the local stub is registered with a direct INSERT
+  IF save_push_subscription.endpoint !~ '^https://' THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'invalid_endpoint');
+  END IF;
+
+  INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (
+    auth.uid(),
+    save_push_subscription.endpoint,
+    save_push_subscription.p256dh,
+    save_push_subscription.auth,
+    save_push_subscription.user_agent
+  )
+  -- Named by constraint: a column list would clash with the `endpoint` parameter
+  ON CONFLICT ON CONSTRAINT push_subscriptions_endpoint_key DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      user_agent = EXCLUDED.user_agent,
+      failure_count = 0
+  -- Only the browser holding a subscription knows its keys, so knowing the
+  -- endpoint alone is not enough to take it from another account
+  WHERE push_subscriptions.user_id = auth.uid()
+     OR (push_subscriptions.p256dh = EXCLUDED.p256dh AND push_subscriptions.auth = EXCLUDED.auth)
+  RETURNING id INTO subscription_id;
+
+  IF subscription_id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'forbidden');
+  END IF;
+
+  RETURN jsonb_build_object('ok', true, 'subscription_id', subscription_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION save_push_subscription(text, text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_push_subscription(text, text, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION claim_push_dispatches(batch_size integer DEFAULT 20)
+RETURNS SETOF uuid
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE push_dispatch_queue q
+  SET dispatched_at = now()
+  WHERE q.listing_id IN (
+    SELECT pending.listing_id
+    FROM push_dispatch_queue pending
+    WHERE pending.dispatched_at IS NULL
+    ORDER BY pending.enqueued_at
+    LIMIT claim_push_dispatches.batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.listing_id;
+$$;
+
+REVOKE ALL ON FUNCTION claim_push_dispatches(integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_push_dispatches(integer) TO service_role;
+
+CREATE OR REPLACE FUNCTION push_recipients_for_listing(listing_id uuid)
+RETURNS TABLE (
+  subscription_id uuid,
+  user_id uuid,
+  endpoint text,
+  p256dh text,
+  auth text,
+  title text,
+  body text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    ps.id,
+    ps.user_id,
+    ps.endpoint,
+    ps.p256dh,
+    ps.auth,
+    'New food nearby: ' || fl.food_item,
+    format(
+      '%s %s at %s, %s km away',
+      fl.quantity_total, fl.quantity_unit, r.name,
+      round((ST_Distance(s.location, r.location) / 1000)::numeric, 1)
+    )
+  FROM food_listings fl
+  JOIN restaurants r ON r.id = fl.restaurant_id
+  JOIN notification_settings s
+    ON s.notify_nearby_listings
+   AND ST_DWithin(s.location, r.location, s.nearby_radius_km * 1000)
+   AND coalesce(fl.dietary_info, '{}') @> s.dietary_preferences
+  JOIN push_subscriptions ps ON ps.user_id = s.user_id
+  WHERE fl.id = push_recipients_for_listing.listing_id
+    AND r.verification_status = 'approved'
+    AND fl.expired_at IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM restaurant_members m
+      WHERE m.restaurant_id = fl.restaurant_id AND m.user_id = s.user_id
+    );
+$$;
+
+REVOKE ALL ON FUNCTION push_recipients_for_listing(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION push_recipients_for_listing(uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION request_push_dispatch()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  project_url text;
+  service_role_key text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM push_dispatch_queue WHERE dispatched_at IS NULL) THEN
+    RETURN;
+  END IF;
+
+  SELECT decrypted_secret INTO project_url
+  FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO service_role_key
+  FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF project_url IS NULL OR service_role_key IS NULL THEN
+    RAISE NOTICE 'Vault secrets project_url and service_role_key are not set; push dispatch skipped';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := project_url || '/functions/v1/dispatch-push',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION request_push_dispatch() FROM PUBLIC;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron')
+    AND EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_net')
+  THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    CREATE EXTENSION IF NOT EXISTS pg_net;
+    EXECUTE $cron$
+      SELECT cron.schedule(
+        'dispatch-push',
+        '* * * * *',
+        'SELECT public.request_push_dispatch()'
+      )
+    $cron$;
+  ELSE
+    RAISE NOTICE 'pg_cron or pg_net is not available; invoke the dispatch-push Edge Function from an external scheduler';
+  END IF;
+END;
+$$;
@@ -0,0 +1,556 @@
+/*
+  # Saved searches and alert preferences
+
+  1. New Types
+    - `alert_channel` – `in_app`, `push`, `email_digest`
+
+  2. New Tables
+    - `saved_searches` – a user's named searches: keywords, dietary tags, a
+      radius around a saved point and time-of-day pickup windows, plus how to
+      be alerted about new matches (channels and quiet hours). Windows and
+      quiet hours are local times in the search's `time_zone`; quiet hours may
+      wrap past midnight.
+    - `saved_search_digest_items` – matches waiting for the next email digest
+
+  3. Matching
+    - `listing_alert_matches(listing_id)` – the one matching engine behind
+      every alert. It returns each saved search a new listing satisfies, plus
+      users whose "food nearby" opt-in (`notification_settings`) covers it,
+      with the channels to use, whether the search is in quiet hours and the
+      alert text. Keywords match like the dashboard search
+      (`listing_search_query` against `search_vector`, plus fuzzy matches on
+      the food item and restaurant name).
+    - `notify_nearby_listing()` now fans a new listing out through it: inbox
+      notifications for `in_app`, the push queue for `push` and digest items
+      for `email_digest`. Push matches in quiet hours go to the inbox instead.
+    - `push_recipients_for_listing()` now reads it too, so push follows the
+      same rules
+
+  4. Email digest
+    - `claim_email_digests()` – service role only. For every saved search
+      with pending items, outside quiet hours and not sent in the last 23
+      hours, leases the items for 30 minutes and returns one digest per user
+      (email, searches with their time zones and listings still available).
+    - `confirm_email_digest(saved_search_ids, claimed_at)` – service role
+      only. Marks a digest's items sent once the email has gone out; items of
+      a failed send are claimed again by a later run.
+    - `invoke_edge_function(function_name)` – shared by the scheduled jobs;
+      calls an Edge Function through `pg_net` with the `project_url` and
+      `service_role_key` Vault secrets
+    - When `pg_cron` and `pg_net` are available `request_email_digest()` runs
+      hourly as job `send-email-digest`; otherwise run `npm run digest:send`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'alert_channel') THEN
+    CREATE TYPE alert_channel AS ENUM ('in_app', 'push', 'email_digest');
+  END IF;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 80),
+  keywords text,
+  dietary_tags text[] NOT NULL DEFAULT '{}',
+  latitude numeric CHECK (latitude BETWEEN -90 AND 90),
+  longitude numeric CHECK (longitude BETWEEN -180 AND 180),
+  location geography(Point, 4326) GENERATED ALWAYS AS (
+    CASE WHEN latitude IS NOT NULL AND longitude IS NOT NULL THEN
+      ST_SetSRID(ST_MakePoint(longitude::double precision, latitude::double precision), 4326)::geography
+    END
+  ) STORED,
+  radius_km numeric NOT NULL DEFAULT 10 CHECK (radius_km BETWEEN 0.5 AND 50),
+  -- [{ "start": "17:00", "end": "20:00" }, ...]; empty means any time
+  pickup_windows jsonb NOT NULL DEFAULT '[]',
+  time_zone text NOT NULL DEFAULT 'UTC',
+  channels alert_channel[] NOT NULL DEFAULT '{in_app}',
+  alerts_enabled boolean NOT NULL DEFAULT true,
+  quiet_hours_start time,
+  quiet_hours_end time,
+  last_digest_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name),
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches (user_id);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_location_gist
+  ON saved_searches USING GIST (location)
+  WHERE alerts_enabled;
+
+CREATE TABLE IF NOT EXISTS saved_search_digest_items (
+  saved_search_id uuid NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  listing_id uuid NOT NULL REFERENCES food_listings(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  -- Set while a digest run is sending the item
+  claimed_at timestamptz,
+  sent_at timestamptz,
+  PRIMARY KEY (saved_search_id, listing_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_digest_items_pending
+  ON saved_search_digest_items (saved_search_id)
+  WHERE sent_at IS NULL;
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_search_digest_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their saved searches"
+  ON saved_searches FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their saved searches"
+  ON saved_searches FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their saved searches"
+  ON saved_searches FOR UPDATE TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their saved searches"
+  ON saved_searches FOR DELETE TO authenticated
+  USING (user_id = auth.uid());
+
+-- Only the service role touches digest items, so they have no policies
+
+-- A bad time zone or window would make every listing insert fail later, so
+-- reject it when the search is saved
+CREATE OR REPLACE FUNCTION validate_saved_search()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  pickup_window jsonb;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.time_zone) THEN
+    RAISE EXCEPTION 'Unknown time zone %', NEW.time_zone USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF jsonb_typeof(NEW.pickup_windows) <> 'array' THEN
+    RAISE EXCEPTION 'pickup_windows must be an array' USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR pickup_window IN SELECT * FROM jsonb_array_elements(NEW.pickup_windows) LOOP
+    IF (pickup_window->>'start')::time >= (pickup_window->>'end')::time THEN
+      RAISE EXCEPTION 'Pickup windows must end after they start' USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  NEW.keywords := nullif(trim(NEW.keywords), '');
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS saved_searches_validate ON saved_searches;
+CREATE TRIGGER saved_searches_validate
+  BEFORE INSERT OR UPDATE ON saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_saved_search();
+
+CREATE OR REPLACE FUNCTION in_quiet_hours(
+  quiet_start time,
+  quiet_end time,
+  time_zone text,
+  at_time timestamptz DEFAULT now()
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN quiet_start IS NULL OR quiet_end IS NULL THEN false
+    WHEN quiet_start < quiet_end THEN
+      (at_time AT TIME ZONE time_zone)::time >= quiet_start
+      AND (at_time AT TIME ZONE time_zone)::time < quiet_end
+    -- Wraps past midnight, e.g. 22:00–07:00
+    ELSE
+      (at_time AT TIME ZONE time_zone)::time >= quiet_start
+      OR (at_time AT TIME ZONE time_zone)::time < quiet_end
+  END;
+$$;
+
+-- True when the pickup window overlaps one of the time-of-day windows on any
+-- local day it spans
+CREATE OR REPLACE FUNCTION pickup_in_time_windows(
+  pickup_start timestamptz,
+  pickup_end timestamptz,
+  windows jsonb,
+  time_zone text
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_array_length(windows) = 0 OR EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(windows) w
+    CROSS JOIN generate_series(
+      (pickup_start AT TIME ZONE time_zone)::date::timestamp,
+      (pickup_end AT TIME ZONE time_zone)::date::timestamp,
+      interval '1 day'
+    ) AS local_day
+    WHERE tsrange(local_day + (w->>'start')::time, local_day + (w->>'end')::time)
+      && tsrange(pickup_start AT TIME ZONE time_zone, pickup_end AT TIME ZONE time_zone)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION listing_alert_matches(listing_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  saved_search_id uuid,
+  channels alert_channel[],
+  quiet boolean,
+  title text,
+  body text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH listing AS (
+    SELECT fl.*, r.name AS restaurant_name, r.location AS restaurant_location
+    FROM food_listings fl
+    JOIN restaurants r ON r.id = fl.restaurant_id
+    WHERE fl.id = listing_alert_matches.listing_id
+      AND r.verification_status = 'approved'
+      AND fl.archived_at IS NULL
+      AND fl.expired_at IS NULL
+  ),
+  matches AS (
+    -- The inbox's "food nearby" opt-in behaves like an unnamed search with
+    -- in-app and push delivery and no quiet hours
+    SELECT
+      s.user_id,
+      NULL::uuid AS saved_search_id,
+      NULL::text AS search_name,
+      ARRAY['in_app', 'push']::alert_channel[] AS channels,
+      false AS quiet,
+      ST_Distance(s.location, l.restaurant_location) AS distance_m,
+      l.*
+    FROM listing l
+    JOIN notification_settings s
+      ON s.notify_nearby_listings
+     AND ST_DWithin(s.location, l.restaurant_location, s.nearby_radius_km * 1000)
+     AND coalesce(l.dietary_info, '{}') @> s.dietary_preferences
+
+    UNION ALL
+
+    SELECT
+      ss.user_id,
+      ss.id,
+      ss.name,
+      ss.channels,
+      in_quiet_hours(ss.quiet_hours_start, ss.quiet_hours_end, ss.time_zone),
+      ST_Distance(ss.location, l.restaurant_location),
+      l.*
+    FROM listing l
+    JOIN saved_searches ss
+      ON ss.alerts_enabled
+     AND cardinality(ss.channels) > 0
+     AND (ss.location IS NULL OR ST_DWithin(ss.location, l.restaurant_location, ss.radius_km * 1000))
+     AND coalesce(l.dietary_info, '{}') @> ss.dietary_tags
+     -- The same test as the search box in query_food_listings(), so a saved
+     -- search alerts on exactly what it finds
+     AND (
+       ss.keywords IS NULL
+       OR l.search_vector @@ listing_search_query(ss.keywords)
+       OR ss.keywords <% l.food_item
+       OR ss.keywords <% l.restaurant_name
+     )
+     AND pickup_in_time_windows(l.pickup_start_time, l.pickup_end_time, ss.pickup_windows, ss.time_zone)
+  )
+  SELECT
+    m.user_id,
+    m.saved_search_id,
+    m.channels,
+    m.quiet,
+    CASE
+      WHEN m.search_name IS NULL THEN 'New food nearby: ' || m.food_item
+      ELSE format('New match for "%s": %s', m.search_name, m.food_item)
+    END,
+    format('%s %s at %s', m.quantity_total, m.quantity_unit, m.restaurant_name)
+      || CASE
+        WHEN m.distance_m IS NULL THEN ''
+        ELSE format(', %s km away', round((m.distance_m / 1000)::numeric, 1))
+      END
+  FROM matches m
+  WHERE NOT EXISTS (
+    SELECT 1 FROM restaurant_members rm
+    WHERE rm.restaurant_id = m.restaurant_id AND rm.user_id = m.user_id
+  );
+$$;
+
+REVOKE ALL ON FUNCTION listing_alert_matches(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION listing_alert_matches(uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION notify_nearby_listing()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH matches AS (
+    SELECT * FROM listing_alert_matches(NEW.id)
+  ),
+  inbox AS (
+    -- One notification per user, preferring the nearby opt-in's wording
+    INSERT INTO notifications (user_id, type, title, body, listing_id)
+    SELECT DISTINCT ON (m.user_id) m.user_id, 'listing_nearby', m.title, m.body, NEW.id
+    FROM matches m
+    WHERE 'in_app' = ANY(m.channels) OR ('push' = ANY(m.channels) AND m.quiet)
+    ORDER BY m.user_id, m.saved_search_id NULLS FIRST
+    RETURNING id
+  ),
+  digest AS (
+    INSERT INTO saved_search_digest_items (saved_search_id, listing_id)
+    SELECT m.saved_search_id, NEW.id
+    FROM matches m
+    WHERE 'email_digest' = ANY(m.channels) AND m.saved_search_id IS NOT NULL
+    ON CONFLICT DO NOTHING
+    RETURNING saved_search_id
+  )
+  INSERT INTO push_dispatch_queue (listing_id)
+  SELECT NEW.id
+  WHERE EXISTS (SELECT 1 FROM matches m WHERE 'push' = ANY(m.channels) AND NOT m.quiet)
+  ON CONFLICT (listing_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION push_recipients_for_listing(listing_id uuid)
+RETURNS TABLE (
+  subscription_id uuid,
+  user_id uuid,
+  endpoint text,
+  p256dh text,
+  auth text,
+  title text,
+  body text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (ps.id)
+    ps.id,
+    ps.user_id,
+    ps.endpoint,
+    ps.p256dh,
+    ps.auth,
+    m.title,
+    m.body
+  FROM listing_alert_matches(push_recipients_for_listing.listing_id) m
+  JOIN push_subscriptions ps ON ps.user_id = m.user_id
+  WHERE 'push' = ANY(m.channels)
+    AND NOT m.quiet
+  ORDER BY ps.id, m.saved_search_id NULLS FIRST;
+$$;
+
+REVOKE ALL ON FUNCTION push_recipients_for_listing(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION push_recipients_for_listing(uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION claim_email_digests()
+RETURNS SETOF jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Matches claimed or expired since they were queued are not worth sending
+  UPDATE saved_search_digest_items i
+  SET sent_at = now()
+  FROM food_listings fl
+  WHERE fl.id = i.listing_id
+    AND i.sent_at IS NULL
+    AND (
+      fl.quantity_remaining = 0
+      OR fl.expired_at IS NOT NULL
+      OR fl.archived_at IS NOT NULL
+      OR fl.pickup_end_time <= now()
+    );
+
+  RETURN QUERY
+  WITH due AS (
+    SELECT ss.id, ss.user_id, ss.name, ss.time_zone
+    FROM saved_searches ss
+    WHERE 'email_digest' = ANY(ss.channels)
+      AND ss.alerts_enabled
+      AND (ss.last_digest_at IS NULL OR ss.last_digest_at <= now() - interval '23 hours')
+      AND NOT in_quiet_hours(ss.quiet_hours_start, ss.quiet_hours_end, ss.time_zone)
+      AND EXISTS (
+        SELECT 1 FROM saved_search_digest_items i
+        WHERE i.saved_search_id = ss.id
+          AND i.sent_at IS NULL
+          AND (i.claimed_at IS NULL OR i.claimed_at <= now() - interval '30 minutes')
+      )
+    FOR UPDATE SKIP LOCKED
+  ),
+  -- Leased rather than sent: confirm_email_digest() marks them sent once the
+  -- email is out, and unconfirmed items are offered again after 30 minutes
+  claimed_items AS (
+    UPDATE saved_search_digest_items i
+    SET claimed_at = now()
+    FROM due
+    WHERE i.saved_search_id = due.id
+      AND i.sent_at IS NULL
+      AND (i.claimed_at IS NULL OR i.claimed_at <= now() - interval '30 minutes')
+    RETURNING i.saved_search_id, i.listing_id
+  ),
+  per_search AS (
+    SELECT
+      due.id,
+      due.user_id,
+      due.name,
+      due.time_zone,
+      jsonb_agg(
+        jsonb_build_object(
+          'id', fl.id,
+          'food_item', fl.food_item,
+          'quantity', format('%s %s', fl.quantity_remaining, fl.quantity_unit),
+          'restaurant', r.name,
+          'pickup_start_time', fl.pickup_start_time,
+          'pickup_end_time', fl.pickup_end_time
+        )
+        ORDER BY fl.pickup_start_time
+      ) AS listings
+    FROM due
+    JOIN claimed_items ci ON ci.saved_search_id = due.id
+    JOIN food_listings fl ON fl.id = ci.listing_id
+    JOIN restaurants r ON r.id = fl.restaurant_id
+    GROUP BY due.user_id, due.id, due.name, due.time_zone
+  )
+  SELECT jsonb_build_object(
+    'user_id', u.id,
+    'email', au.email,
+    'full_name', u.full_name,
+    'saved_search_ids', jsonb_agg(ps.id),
+    'claimed_at', now(),
+    'searches', jsonb_agg(
+      jsonb_build_object('name', ps.name, 'time_zone', ps.time_zone, 'listings', ps.listings)
+      ORDER BY ps.name
+    )
+  )
+  FROM per_search ps
+  JOIN users u ON u.id = ps.user_id
+  JOIN auth.users au ON au.id = u.id
+  WHERE au.email IS NOT NULL
+  GROUP BY u.id, au.email, u.full_name;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_email_digests() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_email_digests() TO service_role;
+
+CREATE OR REPLACE FUNCTION confirm_email_digest(saved_search_ids uuid[], claimed_at timestamptz)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH sent AS (
+    UPDATE saved_search_digest_items i
+    SET sent_at = now()
+    WHERE i.saved_search_id = ANY(confirm_email_digest.saved_search_ids)
+      AND i.claimed_at = confirm_email_digest.claimed_at
+      AND i.sent_at IS NULL
+    RETURNING i.saved_search_id
+  )
+  UPDATE saved_searches ss
+  SET last_digest_at = now()
+  WHERE ss.id IN (SELECT saved_search_id FROM sent);
+$$;
+
+REVOKE ALL ON FUNCTION confirm_email_digest(uuid[], timestamptz) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION confirm_email_digest(uuid[], timestamptz) TO service_role;
+
+CREATE OR REPLACE FUNCTION invoke_edge_function(function_name text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  project_url text;
+  service_role_key text;
+BEGIN
+  SELECT decrypted_secret INTO project_url
+  FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO service_role_key
+  FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF project_url IS NULL OR service_role_key IS NULL THEN
+    RAISE NOTICE 'Vault secrets project_url and service_role_key are not set; % not invoked', function_name;
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := project_url || '/functions/v1/' || function_name,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION invoke_edge_function(text) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION request_push_dispatch()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM push_dispatch_queue WHERE dispatched_at IS NULL) THEN
+    PERFORM invoke_edge_function('dispatch-push');
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION request_email_digest()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM saved_search_digest_items WHERE sent_at IS NULL) THEN
+    PERFORM invoke_edge_function('send-email-digest');
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION request_email_digest() FROM PUBLIC;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron')
+    AND EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_net')
+  THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    CREATE EXTENSION IF NOT EXISTS pg_net;
+    EXECUTE $cron$
+      SELECT cron.schedule(
+        'send-email-digest',
+        '0 * * * *',
+        'SELECT public.request_email_digest()'
+      )
+    $cron$;
+  ELSE
+    RAISE NOTICE 'pg_cron or pg_net is not available; invoke the send-email-digest Edge Function from an external scheduler';
+  END IF;
+END;
+$$;